@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
+  moduleNameMapper: {
+    '^@shared/(.*)$': '<rootDir>/../shared/$1'
+  },
+  transform: {
+    // tests/tsconfig.json inherits isolatedModules, so ts-jest only transpiles; tsc does the type checking
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }]
+  }
+};
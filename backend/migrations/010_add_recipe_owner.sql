@@ -0,0 +1,7 @@
+-- Track which user created a recipe so user_created recipes can be managed by their owner
+ALTER TABLE recipes
+    ADD COLUMN created_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+-- Create indexes
+CREATE INDEX idx_recipes_created_by ON recipes(created_by);
+CREATE INDEX idx_user_recipe_favorites_user_created ON user_recipe_favorites(user_id, created_at DESC);
@@ -0,0 +1,29 @@
+-- Track purchase price and when a food left the active inventory for waste analytics
+ALTER TABLE foods
+    ADD COLUMN price DECIMAL(10,2) CHECK (price >= 0),
+    ADD COLUMN status_changed_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill: best guess for foods that were finished before this column existed
+UPDATE foods
+SET status_changed_at = updated_at
+WHERE status <> 'active';
+
+-- Function to stamp status changes
+CREATE OR REPLACE FUNCTION update_food_status_changed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        NEW.status_changed_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for status changes
+CREATE TRIGGER update_foods_status_changed_at
+    BEFORE UPDATE ON foods
+    FOR EACH ROW
+    EXECUTE FUNCTION update_food_status_changed_at();
+
+-- Create indexes
+CREATE INDEX idx_foods_user_status_changed ON foods(user_id, status_changed_at) WHERE status <> 'active';
@@ -0,0 +1,22 @@
+-- Create product_catalog table: local cache of products looked up by JAN/EAN code
+CREATE TABLE product_catalog (
+    barcode VARCHAR(14) PRIMARY KEY CHECK (barcode ~ '^[0-9]{8,14}$'),
+    name VARCHAR(200) NOT NULL,
+    brand VARCHAR(200),
+    categories TEXT,
+    category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
+    image_url TEXT,
+    source VARCHAR(50) NOT NULL DEFAULT 'openfoodfacts',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_product_catalog_updated_at
+    BEFORE UPDATE ON product_catalog
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Create indexes
+CREATE INDEX idx_product_catalog_category_id ON product_catalog(category_id);
+CREATE INDEX idx_product_catalog_name_trgm ON product_catalog USING gin (name gin_trgm_ops);
@@ -0,0 +1,20 @@
+-- Allow foods to reach zero quantity once they have been fully used up
+ALTER TABLE foods DROP CONSTRAINT IF EXISTS foods_quantity_check;
+ALTER TABLE foods ADD CONSTRAINT foods_quantity_check CHECK (quantity >= 0);
+
+-- Create food_consumptions table: one row per (partial) use of a food
+CREATE TABLE food_consumptions (
+    id SERIAL PRIMARY KEY,
+    food_id INTEGER NOT NULL REFERENCES foods(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),           -- as entered, in unit
+    unit VARCHAR(20) NOT NULL,
+    food_quantity DECIMAL(10,2) NOT NULL CHECK (food_quantity > 0), -- converted to the food's unit
+    remaining_quantity DECIMAL(10,2) NOT NULL CHECK (remaining_quantity >= 0),
+    consumed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes
+CREATE INDEX idx_food_consumptions_food_id ON food_consumptions(food_id);
+CREATE INDEX idx_food_consumptions_user_consumed_at ON food_consumptions(user_id, consumed_at);
@@ -0,0 +1,23 @@
+-- Custom categories belong to a user (and are visible to their household); seed categories stay global
+ALTER TABLE categories
+    ADD COLUMN user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0;
+
+UPDATE categories SET sort_order = id WHERE user_id IS NULL;
+
+-- Names only need to be unique among the global categories and within one user's own ones
+ALTER TABLE categories DROP CONSTRAINT categories_name_key;
+CREATE UNIQUE INDEX idx_categories_global_name ON categories(name) WHERE user_id IS NULL;
+CREATE UNIQUE INDEX idx_categories_user_name ON categories(user_id, name) WHERE user_id IS NOT NULL;
+
+-- Per-user display order, covering both global and custom categories
+CREATE TABLE category_orders (
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    category_id INTEGER NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+    sort_order INTEGER NOT NULL,
+
+    PRIMARY KEY (user_id, category_id)
+);
+
+-- Create indexes
+CREATE INDEX idx_categories_user_id ON categories(user_id);
\ No newline at end of file
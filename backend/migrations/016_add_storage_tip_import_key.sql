@@ -0,0 +1,3 @@
+-- One tip per food name and category so curated imports can update rows in place
+CREATE UNIQUE INDEX idx_storage_tips_food_category_unique
+    ON storage_tips (LOWER(food_name), COALESCE(category, ''));
\ No newline at end of file
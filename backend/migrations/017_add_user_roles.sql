@@ -0,0 +1,9 @@
+-- System-wide roles; every account is a 'user', admins additionally hold 'admin'
+ALTER TABLE users
+    ADD COLUMN roles TEXT[] NOT NULL DEFAULT ARRAY['user']::TEXT[]
+        CHECK (roles <@ ARRAY['user', 'admin']::TEXT[]),
+    -- Set when an admin forces a password reset; login is refused until the password is changed
+    ADD COLUMN password_reset_required BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Create indexes
+CREATE INDEX idx_users_roles ON users USING gin (roles);
\ No newline at end of file
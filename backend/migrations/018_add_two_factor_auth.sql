@@ -0,0 +1,21 @@
+-- Optional TOTP (RFC 6238) second factor
+ALTER TABLE users
+    -- Encrypted base32 secret; set during enrollment, only trusted once totp_enabled is TRUE
+    ADD COLUMN totp_secret TEXT,
+    ADD COLUMN totp_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN totp_enabled_at TIMESTAMP WITH TIME ZONE,
+    -- Last accepted 30 second time step, so a code cannot be replayed within its window
+    ADD COLUMN totp_last_used_step BIGINT;
+
+-- Create user_recovery_codes table: single-use codes for when the authenticator is lost
+CREATE TABLE user_recovery_codes (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    salt VARCHAR(32) NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes
+CREATE INDEX idx_user_recovery_codes_user_id ON user_recovery_codes(user_id) WHERE used_at IS NULL;
\ No newline at end of file
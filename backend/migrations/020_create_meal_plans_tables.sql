@@ -0,0 +1,41 @@
+-- Create meal_plans table: one recipe scheduled for a meal slot on a given day
+CREATE TABLE meal_plans (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    planned_date DATE NOT NULL,
+    meal_slot VARCHAR(10) NOT NULL CHECK (meal_slot IN ('breakfast', 'lunch', 'dinner', 'snack')),
+    recipe_id INTEGER NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+    servings INTEGER NOT NULL CHECK (servings > 0),
+    status VARCHAR(10) NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'cooked')),
+    notes TEXT,
+    -- Required ingredients the inventory could not cover when the meal was planned
+    missing_ingredients JSONB NOT NULL DEFAULT '[]',
+    cooked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create meal_plan_reservations table: food quantities set aside for a planned meal
+CREATE TABLE meal_plan_reservations (
+    id SERIAL PRIMARY KEY,
+    meal_plan_id INTEGER NOT NULL REFERENCES meal_plans(id) ON DELETE CASCADE,
+    food_id INTEGER NOT NULL REFERENCES foods(id) ON DELETE CASCADE,
+    ingredient_name VARCHAR(100) NOT NULL,
+    -- In the unit of the food, not of the recipe ingredient
+    quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+    unit VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_meal_plans_updated_at
+    BEFORE UPDATE ON meal_plans
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Create indexes
+CREATE INDEX idx_meal_plans_user_date ON meal_plans(user_id, planned_date);
+CREATE INDEX idx_meal_plans_recipe_id ON meal_plans(recipe_id);
+
+CREATE INDEX idx_meal_plan_reservations_meal_plan_id ON meal_plan_reservations(meal_plan_id);
+CREATE INDEX idx_meal_plan_reservations_food_id ON meal_plan_reservations(food_id);
\ No newline at end of file
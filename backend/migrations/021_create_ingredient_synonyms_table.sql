@@ -0,0 +1,84 @@
+-- Create ingredient_synonyms table: other spellings and names of the same ingredient.
+-- Kana, width and case differences are folded by the matcher itself and need no rows here.
+CREATE TABLE ingredient_synonyms (
+    id SERIAL PRIMARY KEY,
+    canonical_name VARCHAR(100) NOT NULL,
+    synonym VARCHAR(100) NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (canonical_name <> synonym)
+);
+
+-- Create indexes
+CREATE INDEX idx_ingredient_synonyms_canonical_name ON ingredient_synonyms(canonical_name);
+
+-- Insert default synonyms
+INSERT INTO ingredient_synonyms (canonical_name, synonym) VALUES
+-- 野菜類
+('たまねぎ', '玉ねぎ'),
+('たまねぎ', '玉葱'),
+('たまねぎ', 'onion'),
+('にんじん', '人参'),
+('にんじん', 'carrot'),
+('じゃがいも', 'じゃが芋'),
+('じゃがいも', '馬鈴薯'),
+('じゃがいも', 'potato'),
+('さつまいも', 'さつま芋'),
+('さつまいも', '薩摩芋'),
+('ねぎ', '葱'),
+('ねぎ', '長ねぎ'),
+('ねぎ', '長葱'),
+('ねぎ', '白ねぎ'),
+('キャベツ', 'cabbage'),
+('トマト', 'tomato'),
+('きゅうり', '胡瓜'),
+('なす', '茄子'),
+('ほうれん草', 'ほうれんそう'),
+('ほうれん草', 'spinach'),
+('だいこん', '大根'),
+('ごぼう', '牛蒡'),
+('しょうが', '生姜'),
+('しょうが', 'ginger'),
+('にんにく', '大蒜'),
+('にんにく', 'garlic'),
+('ピーマン', 'green pepper'),
+('もやし', '萌やし'),
+('しいたけ', '椎茸'),
+('かぼちゃ', '南瓜'),
+('ブロッコリー', 'broccoli'),
+-- 肉・魚・卵
+('卵', 'たまご'),
+('卵', '玉子'),
+('卵', '鶏卵'),
+('卵', 'egg'),
+('鶏肉', 'とり肉'),
+('鶏肉', '鳥肉'),
+('鶏肉', 'chicken'),
+('豚肉', 'ぶた肉'),
+('豚肉', 'pork'),
+('牛肉', 'beef'),
+('ひき肉', '挽き肉'),
+('ひき肉', '挽肉'),
+('ひき肉', 'ミンチ'),
+('鮭', 'しゃけ'),
+('鮭', 'サーモン'),
+-- 乳製品・加工品
+('牛乳', 'ミルク'),
+('牛乳', 'milk'),
+('豆腐', 'とうふ'),
+('油揚げ', 'あぶらあげ'),
+('ごはん', 'ご飯'),
+('ごはん', '白米'),
+('ごはん', 'rice'),
+-- 調味料
+('しょうゆ', '醤油'),
+('しょうゆ', 'soy sauce'),
+('みそ', '味噌'),
+('さとう', '砂糖'),
+('さとう', 'sugar'),
+('しお', '塩'),
+('しお', 'salt'),
+('こしょう', '胡椒'),
+('サラダ油', 'salad oil'),
+('オリーブオイル', 'オリーブ油'),
+('オリーブオイル', 'olive oil'),
+('ごま油', '胡麻油');
\ No newline at end of file
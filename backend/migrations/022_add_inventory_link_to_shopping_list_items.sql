@@ -0,0 +1,13 @@
+-- Category of the item, used to group the list and for the food created from it
+ALTER TABLE shopping_list_items
+    ADD COLUMN category_id INTEGER REFERENCES categories(id) ON DELETE SET NULL;
+
+-- Set once a purchased item has been moved into the inventory; the timestamp stays even
+-- if the food is deleted later so the item is never moved twice
+ALTER TABLE shopping_list_items
+    ADD COLUMN food_id INTEGER REFERENCES foods(id) ON DELETE SET NULL,
+    ADD COLUMN moved_to_inventory_at TIMESTAMP WITH TIME ZONE;
+
+-- Create indexes
+CREATE INDEX idx_shopping_list_items_category_id ON shopping_list_items(category_id);
+CREATE INDEX idx_shopping_list_items_food_id ON shopping_list_items(food_id);
\ No newline at end of file
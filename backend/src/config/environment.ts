@@ -46,6 +46,11 @@ export const config: EnvironmentConfig = {
   JWT_EXPIRES_IN: getEnvVar('JWT_EXPIRES_IN', '7d'),
   JWT_REFRESH_EXPIRES_IN: getEnvVar('JWT_REFRESH_EXPIRES_IN', '30d'),
 
+  // Two-factor authentication
+  TOTP_ISSUER: getEnvVar('TOTP_ISSUER', 'FoodKeeper'),
+  // Encrypts stored TOTP secrets; falls back to JWT_SECRET so a separate key is optional
+  TOTP_ENCRYPTION_KEY: process.env.TOTP_ENCRYPTION_KEY || getEnvVar('JWT_SECRET'),
+
   // AI APIs
   OPENAI_API_KEY: process.env.OPENAI_API_KEY,
   CLAUDE_API_KEY: process.env.CLAUDE_API_KEY,
@@ -58,10 +63,22 @@ export const config: EnvironmentConfig = {
   SMTP_PORT: getEnvNumber('SMTP_PORT', 587),
   SMTP_USER: process.env.SMTP_USER,
   SMTP_PASS: process.env.SMTP_PASS,
+  // 'file' writes .eml files to MAIL_FILE_DIR, 'console' only logs; both are meant for dev and tests
+  MAIL_TRANSPORT: (process.env.MAIL_TRANSPORT as EnvironmentConfig['MAIL_TRANSPORT']) ||
+    (process.env.SMTP_HOST ? 'smtp' : process.env.NODE_ENV === 'test' ? 'file' : 'console'),
+  FROM_EMAIL: getEnvVar('FROM_EMAIL', 'FoodKeeper <noreply@foodapp.com>'),
+  MAIL_FILE_DIR: getEnvVar('MAIL_FILE_DIR', './tmp/mail'),
+  MAIL_MAX_ATTEMPTS: getEnvNumber('MAIL_MAX_ATTEMPTS', 5),
+  // Instances started with this off only queue mail and leave delivery to other workers
+  ENABLE_MAIL_WORKER: getEnvBoolean('ENABLE_MAIL_WORKER', true),
+  // Public URL of the web app, used for links in emails
+  APP_URL: getEnvVar('APP_URL', process.env.CORS_ORIGIN || 'http://localhost:3000'),
 
   // Push notifications
   VAPID_PUBLIC_KEY: process.env.VAPID_PUBLIC_KEY,
   VAPID_PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY,
+  // Contact push services can use to reach the operator (mailto: or https: URL)
+  VAPID_SUBJECT: getEnvVar('VAPID_SUBJECT', 'mailto:noreply@foodapp.com'),
 
   // File upload
   MAX_FILE_SIZE: getEnvNumber('MAX_FILE_SIZE', 10485760), // 10MB
@@ -70,7 +87,24 @@ export const config: EnvironmentConfig = {
   // Security
   CORS_ORIGIN: getEnvVar('CORS_ORIGIN', 'http://localhost:3000'),
   RATE_LIMIT_WINDOW: getEnvNumber('RATE_LIMIT_WINDOW', 15),
-  RATE_LIMIT_MAX: getEnvNumber('RATE_LIMIT_MAX', 100)
+  RATE_LIMIT_MAX: getEnvNumber('RATE_LIMIT_MAX', 100),
+  ADMIN_EMAILS: (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean),
+
+  // Scheduled jobs
+  ENABLE_SCHEDULED_JOBS: getEnvBoolean('ENABLE_SCHEDULED_JOBS', true),
+  EXPIRY_SCAN_HOUR: getEnvNumber('EXPIRY_SCAN_HOUR', 6),
+  NOTIFICATION_RETENTION_DAYS: getEnvNumber('NOTIFICATION_RETENTION_DAYS', 30),
+  WEEKLY_DIGEST_DAY: getEnvNumber('WEEKLY_DIGEST_DAY', 1), // 0 = Sunday
+  WEEKLY_DIGEST_HOUR: getEnvNumber('WEEKLY_DIGEST_HOUR', 8),
+
+  // Barcode lookup
+  BARCODE_PROVIDER: (process.env.BARCODE_PROVIDER as EnvironmentConfig['BARCODE_PROVIDER']) ||
+    (process.env.NODE_ENV === 'test' ? 'fixture' : 'openfoodfacts'),
+  BARCODE_API_URL: getEnvVar('BARCODE_API_URL', 'https://world.openfoodfacts.org'),
+  BARCODE_API_TIMEOUT: getEnvNumber('BARCODE_API_TIMEOUT', 5000) // ms
 };
 
 // Validate critical configuration
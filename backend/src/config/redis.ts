@@ -3,6 +3,7 @@ import { config } from './environment';
 
 class RedisClient {
   private client: RedisClientType;
+  private subscriber: Promise<RedisClientType> | null = null;
   private static instance: RedisClient;
   private isConnected = false;
 
@@ -49,6 +50,12 @@ class RedisClient {
   }
 
   public async disconnect(): Promise<void> {
+    if (this.subscriber) {
+      const subscriber = await this.subscriber.catch(() => null);
+      this.subscriber = null;
+      await subscriber?.disconnect();
+    }
+
     if (this.isConnected) {
       await this.client.disconnect();
     }
@@ -192,6 +199,41 @@ class RedisClient {
     }
   }
 
+  // Sorted set methods
+  public async zadd(key: string, score: number, member: string): Promise<boolean> {
+    try {
+      const result = await this.client.zAdd(key, { score, value: member });
+      return result > 0;
+    } catch (error) {
+      console.error(`Redis ZADD error for key ${key}:`, error);
+      return false;
+    }
+  }
+
+  // Atomically moves every member scored at or below maxScore from a sorted set onto the
+  // head of a list; used to release delayed jobs back into their queue when they fall due
+  public async moveDueToList(sortedSetKey: string, listKey: string, maxScore: number): Promise<number> {
+    const script = `
+      local due = redis.call('zrangebyscore', KEYS[1], '-inf', ARGV[1])
+      for _, member in ipairs(due) do
+        redis.call('zrem', KEYS[1], member)
+        redis.call('lpush', KEYS[2], member)
+      end
+      return #due
+    `;
+
+    try {
+      const result = await this.client.eval(script, {
+        keys: [sortedSetKey, listKey],
+        arguments: [String(maxScore)]
+      });
+      return result as number;
+    } catch (error) {
+      console.error(`Redis move due members error for key ${sortedSetKey}:`, error);
+      return 0;
+    }
+  }
+
   // Set methods
   public async sadd(key: string, member: string): Promise<boolean> {
     try {
@@ -256,6 +298,92 @@ class RedisClient {
     }
   }
 
+  // Distributed locks
+  public async acquireLock(key: string, ttlSeconds: number): Promise<string | null> {
+    const token = `${process.pid}:${Date.now()}:${Math.random().toString(36).slice(2)}`;
+
+    try {
+      const result = await this.client.set(`lock:${key}`, token, { NX: true, EX: ttlSeconds });
+      return result === 'OK' ? token : null;
+    } catch (error) {
+      console.error(`Redis lock acquire error for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  public async releaseLock(key: string, token: string): Promise<boolean> {
+    // Only delete the lock if we still own it, so an expired lock taken over by
+    // another instance is never released by us
+    const script = `
+      if redis.call('get', KEYS[1]) == ARGV[1] then
+        return redis.call('del', KEYS[1])
+      else
+        return 0
+      end
+    `;
+
+    try {
+      const result = await this.client.eval(script, { keys: [`lock:${key}`], arguments: [token] });
+      return result === 1;
+    } catch (error) {
+      console.error(`Redis lock release error for key ${key}:`, error);
+      return false;
+    }
+  }
+
+  // Pub/sub
+  public async publish(channel: string, message: string): Promise<boolean> {
+    try {
+      await this.client.publish(channel, message);
+      return true;
+    } catch (error) {
+      console.error(`Redis publish error for channel ${channel}:`, error);
+      return false;
+    }
+  }
+
+  public async subscribe(channel: string, listener: (message: string) => void): Promise<boolean> {
+    try {
+      const subscriber = await this.getSubscriber();
+      await subscriber.subscribe(channel, listener);
+      return true;
+    } catch (error) {
+      console.error(`Redis subscribe error for channel ${channel}:`, error);
+      return false;
+    }
+  }
+
+  public async unsubscribe(channel: string): Promise<void> {
+    if (!this.subscriber) {
+      return;
+    }
+
+    try {
+      const subscriber = await this.subscriber;
+      await subscriber.unsubscribe(channel);
+    } catch (error) {
+      console.error(`Redis unsubscribe error for channel ${channel}:`, error);
+    }
+  }
+
+  // A connection in subscriber mode cannot run other commands, so subscriptions
+  // share one dedicated connection that is opened on first use
+  private getSubscriber(): Promise<RedisClientType> {
+    if (!this.subscriber) {
+      const subscriber = this.client.duplicate();
+      subscriber.on('error', (err) => console.error('Redis subscriber error:', err));
+
+      this.subscriber = subscriber.connect()
+        .then(() => subscriber)
+        .catch((error) => {
+          this.subscriber = null;
+          throw error;
+        });
+    }
+
+    return this.subscriber;
+  }
+
   // Session management
   public async createSession(sessionId: string, data: any, expireSeconds: number): Promise<boolean> {
     return await this.setJSON(`session:${sessionId}`, data, { EX: expireSeconds });
@@ -269,6 +397,39 @@ class RedisClient {
     return await this.del(`session:${sessionId}`);
   }
 
+  // Atomically replaces a session only while its `field` still holds `expected`, so two
+  // concurrent writers cannot both succeed (used for refresh token rotation)
+  public async replaceSessionIf(
+    sessionId: string,
+    field: string,
+    expected: string,
+    data: any,
+    expireSeconds: number
+  ): Promise<'replaced' | 'mismatch' | 'missing'> {
+    const script = `
+      local current = redis.call('get', KEYS[1])
+      if not current then
+        return 'missing'
+      end
+      if cjson.decode(current)[ARGV[1]] ~= ARGV[2] then
+        return 'mismatch'
+      end
+      redis.call('set', KEYS[1], ARGV[3], 'EX', ARGV[4])
+      return 'replaced'
+    `;
+
+    try {
+      const result = await this.client.eval(script, {
+        keys: [`session:${sessionId}`],
+        arguments: [field, expected, JSON.stringify(data), String(expireSeconds)]
+      });
+      return result as 'replaced' | 'mismatch' | 'missing';
+    } catch (error) {
+      console.error(`Redis session replace error for session ${sessionId}:`, error);
+      return 'missing';
+    }
+  }
+
   // Health check
   public async ping(): Promise<boolean> {
     try {
@@ -0,0 +1,161 @@
+import { Request, Response } from 'express';
+import { AdminService } from '../services/admin.service';
+import { AdminUserSearchOptions, AppError, ValidationError } from '@shared/types';
+import { getCurrentUser } from '../middleware/auth.middleware';
+
+export class AdminController {
+  private adminService: AdminService;
+
+  constructor() {
+    this.adminService = new AdminService();
+  }
+
+  searchUsers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const options: AdminUserSearchOptions = {
+        q: req.query.q as string,
+        include_inactive: req.query.include_inactive === 'true',
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        per_page: req.query.per_page ? parseInt(req.query.per_page as string) : undefined
+      };
+
+      const result = await this.adminService.searchUsers(options);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Users retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = this.parseId(req.params.id, 'Invalid user ID');
+      const result = await this.adminService.getUser(userId);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'User retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  deactivateUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const admin = getCurrentUser(req);
+      const userId = this.parseId(req.params.id, 'Invalid user ID');
+
+      const user = await this.adminService.deactivateUser(admin.id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: { user },
+        message: 'User deactivated successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  reactivateUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const admin = getCurrentUser(req);
+      const userId = this.parseId(req.params.id, 'Invalid user ID');
+
+      const user = await this.adminService.reactivateUser(admin.id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: { user },
+        message: 'User reactivated successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  forcePasswordReset = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const admin = getCurrentUser(req);
+      const userId = this.parseId(req.params.id, 'Invalid user ID');
+
+      const result = await this.adminService.forcePasswordReset(admin.id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Password reset forced successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  updateRoles = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const admin = getCurrentUser(req);
+      const userId = this.parseId(req.params.id, 'Invalid user ID');
+
+      const user = await this.adminService.updateRoles(admin.id, userId, req.body.roles);
+
+      res.status(200).json({
+        success: true,
+        data: { user },
+        message: 'User roles updated successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getStats = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const stats = await this.adminService.getStats();
+
+      res.status(200).json({
+        success: true,
+        data: { stats },
+        message: 'System statistics retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  private parseId(value: string | undefined, message: string): number {
+    const id = parseInt(value || '');
+
+    if (isNaN(id)) {
+      throw new AppError(message, 400);
+    }
+
+    return id;
+  }
+
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof ValidationError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        errors: error.errors
+      });
+    } else if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    } else {
+      console.error('Unexpected error in AdminController:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
\ No newline at end of file
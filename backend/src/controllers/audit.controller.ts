@@ -0,0 +1,59 @@
+import { Request, Response } from 'express';
+import { AuditService } from '../services/audit.service';
+import { AuditLogFilterOptions, AppError, ValidationError } from '@shared/types';
+import { getCurrentUser } from '../middleware/auth.middleware';
+
+export class AuditController {
+  private auditService: AuditService;
+
+  constructor() {
+    this.auditService = new AuditService();
+  }
+
+  getAll = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+
+      const filters: AuditLogFilterOptions = {
+        entity_type: req.query.entity_type as string,
+        entity_id: req.query.entity_id ? parseInt(req.query.entity_id as string) : undefined,
+        action: req.query.action as string,
+        from: req.query.from as string,
+        to: req.query.to as string,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        per_page: req.query.per_page ? parseInt(req.query.per_page as string) : undefined
+      };
+
+      const result = await this.auditService.getAuditLogs(user.id, filters);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Audit logs retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof ValidationError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        errors: error.errors
+      });
+    } else if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    } else {
+      console.error('Unexpected error in AuditController:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
@@ -1,13 +1,23 @@
 import { Request, Response } from 'express';
 import { AuthService } from '../services/auth.service';
-import { UserRegistrationData, UserLoginData, AppError, ValidationError } from '@shared/types';
+import { TwoFactorService } from '../services/two-factor.service';
+import {
+  UserRegistrationData,
+  UserLoginData,
+  TwoFactorLoginData,
+  PasswordChangeData,
+  AppError,
+  ValidationError
+} from '@shared/types';
 import { getCurrentUser } from '../middleware/auth.middleware';
 
 export class AuthController {
   private authService: AuthService;
+  private twoFactorService: TwoFactorService;
 
   constructor() {
     this.authService = new AuthService();
+    this.twoFactorService = new TwoFactorService();
   }
 
   register = async (req: Request, res: Response): Promise<void> => {
@@ -30,6 +40,21 @@ export class AuthController {
       const loginData: UserLoginData = req.body;
       const result = await this.authService.login(loginData);
 
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'two_factor_required' in result ? 'Two-factor authentication required' : 'Login successful'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  verifyTwoFactorLogin = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data: TwoFactorLoginData = req.body;
+      const result = await this.authService.completeTwoFactorLogin(data);
+
       res.status(200).json({
         success: true,
         data: result,
@@ -65,7 +90,7 @@ export class AuthController {
       const user = getCurrentUser(req);
       const { refresh_token } = req.body;
 
-      await this.authService.logout(user.id, refresh_token);
+      await this.authService.logout(user.id, refresh_token, user.session_id);
 
       res.status(200).json({
         success: true,
@@ -76,6 +101,50 @@ export class AuthController {
     }
   };
 
+  getSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const sessions = await this.authService.getSessions(user.id, user.session_id);
+
+      res.status(200).json({
+        success: true,
+        data: { sessions, count: sessions.length },
+        message: 'Sessions retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  revokeSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      await this.authService.revokeSession(user.id, req.params.id || '');
+
+      res.status(200).json({
+        success: true,
+        message: 'Session revoked successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  revokeOtherSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const revokedCount = await this.authService.revokeOtherSessions(user.id, user.session_id);
+
+      res.status(200).json({
+        success: true,
+        data: { revoked_count: revokedCount },
+        message: 'Other sessions revoked successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
   verifyEmail = async (req: Request, res: Response): Promise<void> => {
     try {
       const { token } = req.params;
@@ -142,7 +211,7 @@ export class AuthController {
   changePassword = async (req: Request, res: Response): Promise<void> => {
     try {
       const user = getCurrentUser(req);
-      const { current_password, new_password } = req.body;
+      const { current_password, new_password }: PasswordChangeData = req.body;
 
       if (!current_password || !new_password) {
         throw new AppError('Current password and new password are required', 400);
@@ -193,6 +262,80 @@ export class AuthController {
     }
   };
 
+  getTwoFactorStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const status = await this.twoFactorService.getStatus(user.id);
+
+      res.status(200).json({
+        success: true,
+        data: status,
+        message: 'Two-factor status retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  setupTwoFactor = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const setup = await this.twoFactorService.setup(user.id);
+
+      res.status(200).json({
+        success: true,
+        data: setup,
+        message: 'Scan the QR code with your authenticator app and confirm with a code'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  enableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const result = await this.twoFactorService.enable(user.id, req.body.code);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  disableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      await this.twoFactorService.disable(user.id, req.body.password);
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication disabled'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  regenerateRecoveryCodes = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const result = await this.twoFactorService.regenerateRecoveryCodes(user.id, req.body.password);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Recovery codes regenerated; previous codes no longer work'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
   private handleError(res: Response, error: unknown): void {
     if (error instanceof ValidationError) {
       res.status(error.statusCode).json({
@@ -0,0 +1,177 @@
+import { Request, Response } from 'express';
+import { CategoryService } from '../services/category.service';
+import { CategoryCreateData, CategoryUpdateData, AppError, ValidationError } from '@shared/types';
+import { getCurrentUser } from '../middleware/auth.middleware';
+
+export class CategoryController {
+  private categoryService: CategoryService;
+
+  constructor() {
+    this.categoryService = new CategoryService();
+  }
+
+  getAll = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const categories = await this.categoryService.getCategories(user.id);
+
+      res.status(200).json({
+        success: true,
+        data: { categories, count: categories.length },
+        message: 'Categories retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getStats = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const stats = await this.categoryService.getCategoryStats(user.id);
+
+      res.status(200).json({
+        success: true,
+        data: { stats },
+        message: 'Category statistics retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const categoryId = this.parseId(req.params.id, 'Invalid category ID');
+
+      const category = await this.categoryService.getCategoryById(user.id, categoryId);
+
+      res.status(200).json({
+        success: true,
+        data: { category },
+        message: 'Category retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  create = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const categoryData: CategoryCreateData = req.body;
+
+      const category = await this.categoryService.createCategory(user.id, categoryData);
+
+      res.status(201).json({
+        success: true,
+        data: { category },
+        message: 'Category created successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  update = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const categoryId = this.parseId(req.params.id, 'Invalid category ID');
+      const updateData: CategoryUpdateData = req.body;
+
+      const category = await this.categoryService.updateCategory(user.id, categoryId, updateData);
+
+      res.status(200).json({
+        success: true,
+        data: { category },
+        message: 'Category updated successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  reorder = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const categories = await this.categoryService.reorderCategories(user.id, req.body.category_ids);
+
+      res.status(200).json({
+        success: true,
+        data: { categories, count: categories.length },
+        message: 'Categories reordered successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  merge = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const sourceId = this.parseId(req.params.id, 'Invalid category ID');
+
+      const result = await this.categoryService.mergeCategories(user.id, sourceId, req.body.target_category_id);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Categories merged successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  delete = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const categoryId = this.parseId(req.params.id, 'Invalid category ID');
+      const reassignTo = req.query.reassign_to
+        ? this.parseId(req.query.reassign_to as string, 'Invalid reassign_to category ID')
+        : undefined;
+
+      const result = await this.categoryService.deleteCategory(user.id, categoryId, reassignTo);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Category deleted successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  private parseId(value: string | undefined, message: string): number {
+    const id = parseInt(value || '');
+
+    if (isNaN(id)) {
+      throw new AppError(message, 400);
+    }
+
+    return id;
+  }
+
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof ValidationError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        errors: error.errors
+      });
+    } else if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    } else {
+      console.error('Unexpected error in CategoryController:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
\ No newline at end of file
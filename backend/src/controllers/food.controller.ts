@@ -1,13 +1,19 @@
 import { Request, Response } from 'express';
 import { FoodService } from '../services/food.service';
-import { FoodCreateData, FoodUpdateData, FoodFilterOptions, AppError, ValidationError } from '@shared/types';
+import { AnalyticsService } from '../services/analytics.service';
+import { BarcodeService } from '../services/barcode.service';
+import { FoodCreateData, FoodUpdateData, FoodFilterOptions, FoodConsumeData, AppError, ValidationError } from '@shared/types';
 import { getCurrentUser } from '../middleware/auth.middleware';
 
 export class FoodController {
   private foodService: FoodService;
+  private analyticsService: AnalyticsService;
+  private barcodeService: BarcodeService;
 
   constructor() {
     this.foodService = new FoodService();
+    this.analyticsService = new AnalyticsService();
+    this.barcodeService = new BarcodeService();
   }
 
   create = async (req: Request, res: Response): Promise<void> => {
@@ -128,7 +134,7 @@ export class FoodController {
         throw new AppError('Invalid food ID', 400);
       }
 
-      const food = await this.foodService.markAsConsumed(user.id, foodId);
+      const food = await this.foodService.markAsConsumed(user.id, foodId, req.body?.expected_updated_at);
 
       res.status(200).json({
         success: true,
@@ -140,6 +146,49 @@ export class FoodController {
     }
   };
 
+  consume = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const foodId = parseInt(req.params.id);
+
+      if (isNaN(foodId)) {
+        throw new AppError('Invalid food ID', 400);
+      }
+
+      const consumeData: FoodConsumeData = req.body;
+      const { food, consumption } = await this.foodService.consumeFood(user.id, foodId, consumeData);
+
+      res.status(201).json({
+        success: true,
+        data: { food, consumption },
+        message: food.status === 'consumed' ? 'Food fully consumed' : 'Consumption recorded'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getConsumptions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const foodId = parseInt(req.params.id);
+
+      if (isNaN(foodId)) {
+        throw new AppError('Invalid food ID', 400);
+      }
+
+      const consumptions = await this.foodService.getConsumptionHistory(user.id, foodId);
+
+      res.status(200).json({
+        success: true,
+        data: { consumptions },
+        message: 'Consumption history retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
   markAsExpired = async (req: Request, res: Response): Promise<void> => {
     try {
       const user = getCurrentUser(req);
@@ -210,6 +259,42 @@ export class FoodController {
     }
   };
 
+  getAnalytics = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+
+      const analytics = await this.analyticsService.getFoodAnalytics(user.id, {
+        from: req.query.from as string,
+        to: req.query.to as string,
+        granularity: req.query.granularity as string
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { analytics },
+        message: 'Food analytics retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  scan = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+
+      const scan = await this.barcodeService.scan(user.id, req.body.barcode);
+
+      res.status(200).json({
+        success: true,
+        data: { scan },
+        message: 'Barcode scanned successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
   search = async (req: Request, res: Response): Promise<void> => {
     try {
       const user = getCurrentUser(req);
@@ -0,0 +1,185 @@
+import { Request, Response } from 'express';
+import { HouseholdService } from '../services/household.service';
+import { HouseholdCreateData, HouseholdInviteData, AppError, ValidationError } from '@shared/types';
+import { getCurrentUser } from '../middleware/auth.middleware';
+
+export class HouseholdController {
+  private householdService: HouseholdService;
+
+  constructor() {
+    this.householdService = new HouseholdService();
+  }
+
+  get = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const household = await this.householdService.getHousehold(user.id);
+
+      res.status(200).json({
+        success: true,
+        data: { household },
+        message: 'Household retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  create = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const householdData: HouseholdCreateData = req.body;
+
+      const household = await this.householdService.createHousehold(user.id, householdData);
+
+      res.status(201).json({
+        success: true,
+        data: { household },
+        message: 'Household created successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  invite = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const inviteData: HouseholdInviteData = req.body;
+
+      const invitation = await this.householdService.inviteMember(user.id, inviteData);
+
+      res.status(201).json({
+        success: true,
+        data: { invitation },
+        message: 'Invitation created successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  revokeInvitation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const invitationId = this.parseId(req.params.id, 'Invalid invitation ID');
+
+      await this.householdService.revokeInvitation(user.id, invitationId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Invitation revoked successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getMyInvitations = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const invitations = await this.householdService.getMyInvitations(user.id);
+
+      res.status(200).json({
+        success: true,
+        data: { invitations, count: invitations.length },
+        message: 'Invitations retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  acceptInvitation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const household = await this.householdService.acceptInvitation(user.id, req.params.token || '');
+
+      res.status(200).json({
+        success: true,
+        data: { household },
+        message: 'Invitation accepted successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  leave = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      await this.householdService.leaveHousehold(user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Left household successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  updateMemberRole = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const memberId = this.parseId(req.params.userId, 'Invalid user ID');
+
+      const household = await this.householdService.updateMemberRole(user.id, memberId, req.body.role);
+
+      res.status(200).json({
+        success: true,
+        data: { household },
+        message: 'Member role updated successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  removeMember = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const memberId = this.parseId(req.params.userId, 'Invalid user ID');
+
+      await this.householdService.removeMember(user.id, memberId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Member removed successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  private parseId(value: string | undefined, message: string): number {
+    const id = parseInt(value || '');
+
+    if (isNaN(id)) {
+      throw new AppError(message, 400);
+    }
+
+    return id;
+  }
+
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof ValidationError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        errors: error.errors
+      });
+    } else if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    } else {
+      console.error('Unexpected error in HouseholdController:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { Request, Response } from 'express';
+import { MealPlanService } from '../services/meal-plan.service';
+import {
+  MealPlanAutoOptions,
+  MealPlanCreateData,
+  MealPlanShoppingListOptions,
+  MealPlanUpdateData,
+  AppError,
+  ValidationError
+} from '@shared/types';
+import { getCurrentUser } from '../middleware/auth.middleware';
+
+export class MealPlanController {
+  private mealPlanService: MealPlanService;
+
+  constructor() {
+    this.mealPlanService = new MealPlanService();
+  }
+
+  getAll = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+
+      const mealPlans = await this.mealPlanService.getMealPlans(
+        user.id,
+        req.query.from as string | undefined,
+        req.query.to as string | undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { meal_plans: mealPlans, count: mealPlans.length },
+        message: 'Meal plans retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const mealPlanId = this.parseId(req.params.id);
+
+      const mealPlan = await this.mealPlanService.getMealPlanById(user.id, mealPlanId);
+
+      res.status(200).json({
+        success: true,
+        data: { meal_plan: mealPlan },
+        message: 'Meal plan retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  create = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const data: MealPlanCreateData = req.body;
+
+      const mealPlan = await this.mealPlanService.createMealPlan(user.id, data);
+
+      res.status(201).json({
+        success: true,
+        data: { meal_plan: mealPlan },
+        message: 'Meal plan created successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  update = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const mealPlanId = this.parseId(req.params.id);
+      const data: MealPlanUpdateData = req.body;
+
+      const mealPlan = await this.mealPlanService.updateMealPlan(user.id, mealPlanId, data);
+
+      res.status(200).json({
+        success: true,
+        data: { meal_plan: mealPlan },
+        message: 'Meal plan updated successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  delete = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const mealPlanId = this.parseId(req.params.id);
+
+      await this.mealPlanService.deleteMealPlan(user.id, mealPlanId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Meal plan deleted successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  cook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const mealPlanId = this.parseId(req.params.id);
+
+      const result = await this.mealPlanService.cookMealPlan(user.id, mealPlanId);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Meal marked as cooked'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  autoPlan = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const options: MealPlanAutoOptions = req.body;
+
+      const result = await this.mealPlanService.autoPlan(user.id, options);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: `${result.meal_plans.length} meal(s) planned`
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  createShoppingList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const options: MealPlanShoppingListOptions = req.body;
+
+      const list = await this.mealPlanService.createShoppingList(user.id, options);
+
+      res.status(201).json({
+        success: true,
+        data: { list },
+        message: 'Shopping list created from meal plan'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  private parseId(value: string | undefined): number {
+    const id = parseInt(value || '');
+
+    if (isNaN(id)) {
+      throw new AppError('Invalid meal plan ID', 400);
+    }
+
+    return id;
+  }
+
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof ValidationError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        errors: error.errors
+      });
+    } else if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    } else {
+      console.error('Unexpected error in MealPlanController:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
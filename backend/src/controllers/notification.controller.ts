@@ -0,0 +1,248 @@
+import { Request, Response } from 'express';
+import { NotificationService } from '../services/notification.service';
+import { PushService } from '../services/push.service';
+import { notificationStream } from '../services/notification-stream.service';
+import {
+  NotificationType,
+  NotificationStatus,
+  UserPreferencesUpdateData,
+  PushSubscriptionData,
+  AppError,
+  ValidationError
+} from '@shared/types';
+import { getCurrentUser } from '../middleware/auth.middleware';
+
+export class NotificationController {
+  private notificationService: NotificationService;
+  private pushService: PushService;
+
+  constructor() {
+    this.notificationService = new NotificationService();
+    this.pushService = new PushService();
+  }
+
+  getAll = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+
+      const result = await this.notificationService.getNotifications(user.id, {
+        ...(req.query.type ? { type: req.query.type as NotificationType } : {}),
+        ...(req.query.status ? { status: req.query.status as NotificationStatus } : {}),
+        ...(req.query.page ? { page: parseInt(req.query.page as string) } : {}),
+        ...(req.query.per_page ? { per_page: parseInt(req.query.per_page as string) } : {})
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Notifications retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getUnread = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+
+      const result = await this.notificationService.getUnreadNotifications(user.id);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Unread notifications retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getStats = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+
+      const stats = await this.notificationService.getStats(user.id);
+
+      res.status(200).json({
+        success: true,
+        data: { stats },
+        message: 'Notification statistics retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  markAsRead = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const notificationId = parseInt(req.params.id || '');
+
+      if (isNaN(notificationId)) {
+        throw new AppError('Invalid notification ID', 400);
+      }
+
+      const notification = await this.notificationService.markAsRead(user.id, notificationId);
+
+      res.status(200).json({
+        success: true,
+        data: { notification },
+        message: 'Notification marked as read'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  markAllAsRead = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const type = req.query.type as NotificationType | undefined;
+
+      await this.notificationService.markAllAsRead(user.id, type);
+
+      res.status(200).json({
+        success: true,
+        message: 'All notifications marked as read'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  delete = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const notificationId = parseInt(req.params.id || '');
+
+      if (isNaN(notificationId)) {
+        throw new AppError('Invalid notification ID', 400);
+      }
+
+      await this.notificationService.deleteNotification(user.id, notificationId);
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getPreferences = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+
+      const preferences = await this.notificationService.getPreferences(user.id);
+
+      res.status(200).json({
+        success: true,
+        data: { preferences },
+        message: 'Preferences retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  updatePreferences = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const updateData: UserPreferencesUpdateData = req.body;
+
+      const preferences = await this.notificationService.updatePreferences(user.id, updateData);
+
+      res.status(200).json({
+        success: true,
+        data: { preferences },
+        message: 'Preferences updated successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  // Server-Sent Events; the first event carries the current unread count
+  stream = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+
+      const unreadCount = await this.notificationService.getUnreadCount(user.id);
+
+      await notificationStream.open(user.id, req, res, { type: 'unread_count', unread_count: unreadCount });
+    } catch (error) {
+      // Once the stream has started there is no JSON response left to send
+      if (res.headersSent) {
+        console.error('Notification stream failed after it started:', error);
+        res.end();
+      } else {
+        this.handleError(res, error);
+      }
+    }
+  };
+
+  getPushPublicKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const publicKey = this.pushService.getPublicKey();
+
+      res.status(200).json({
+        success: true,
+        data: { public_key: publicKey },
+        message: 'Push public key retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  subscribePush = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const subscriptionData: PushSubscriptionData = req.body;
+
+      const subscription = await this.pushService.subscribe(user.id, subscriptionData);
+
+      res.status(201).json({
+        success: true,
+        data: { subscription: { id: subscription.id, endpoint: subscription.endpoint } },
+        message: 'Push subscription saved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  unsubscribePush = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      await this.pushService.unsubscribe(user.id, req.body.endpoint);
+
+      res.status(200).json({
+        success: true,
+        message: 'Push subscription removed successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof ValidationError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        errors: error.errors
+      });
+    } else if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    } else {
+      console.error('Unexpected error in NotificationController:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
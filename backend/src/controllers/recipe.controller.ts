@@ -0,0 +1,191 @@
+import { Request, Response } from 'express';
+import { RecipeService, RecipeSuggestionOptions } from '../services/recipe.service';
+import { RecipeCreateData, RecipeDifficulty, AppError, ValidationError } from '@shared/types';
+import { getCurrentUser } from '../middleware/auth.middleware';
+
+export class RecipeController {
+  private recipeService: RecipeService;
+
+  constructor() {
+    this.recipeService = new RecipeService();
+  }
+
+  getSuggestions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+
+      // Only filters that were actually given are set
+      const options: RecipeSuggestionOptions = {
+        ...(req.query.max_prep_time ? { max_prep_time: parseInt(req.query.max_prep_time as string) } : {}),
+        ...(req.query.max_cook_time ? { max_cook_time: parseInt(req.query.max_cook_time as string) } : {}),
+        ...(req.query.difficulty ? { difficulty: req.query.difficulty as RecipeDifficulty } : {}),
+        ...(req.query.limit ? { limit: parseInt(req.query.limit as string) } : {}),
+        ...(req.query.expiring_within_days
+          ? { expiring_within_days: parseInt(req.query.expiring_within_days as string) }
+          : {}),
+        ...(req.query.ingredients
+          ? { ingredients: (req.query.ingredients as string).split(',').map(name => name.trim()).filter(Boolean) }
+          : {})
+      };
+
+      const suggestions = await this.recipeService.getSuggestions(user.id, options);
+
+      res.status(200).json({
+        success: true,
+        data: suggestions,
+        message: 'Recipe suggestions retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  search = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const searchTerm = req.query.q as string;
+
+      if (!searchTerm || searchTerm.trim().length < 2) {
+        throw new AppError('Search term must be at least 2 characters', 400);
+      }
+
+      const recipes = await this.recipeService.searchRecipes(user.id, searchTerm);
+
+      res.status(200).json({
+        success: true,
+        data: { recipes, count: recipes.length },
+        message: 'Search completed successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const recipeId = parseInt(req.params.id);
+
+      if (isNaN(recipeId)) {
+        throw new AppError('Invalid recipe ID', 400);
+      }
+
+      const recipe = await this.recipeService.getRecipeById(recipeId);
+
+      res.status(200).json({
+        success: true,
+        data: { recipe },
+        message: 'Recipe retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  create = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const recipeData: RecipeCreateData = req.body;
+
+      const recipe = await this.recipeService.createRecipe(user.id, recipeData);
+
+      res.status(201).json({
+        success: true,
+        data: { recipe },
+        message: 'Recipe created successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  delete = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const recipeId = parseInt(req.params.id);
+
+      if (isNaN(recipeId)) {
+        throw new AppError('Invalid recipe ID', 400);
+      }
+
+      await this.recipeService.deleteRecipe(user.id, recipeId);
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  addToFavorites = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const recipeId = parseInt(req.params.id);
+
+      if (isNaN(recipeId)) {
+        throw new AppError('Invalid recipe ID', 400);
+      }
+
+      await this.recipeService.addToFavorites(user.id, recipeId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Recipe added to favorites'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  removeFromFavorites = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const recipeId = parseInt(req.params.id);
+
+      if (isNaN(recipeId)) {
+        throw new AppError('Invalid recipe ID', 400);
+      }
+
+      await this.recipeService.removeFromFavorites(user.id, recipeId);
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getFavorites = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+
+      const recipes = await this.recipeService.getFavorites(user.id);
+
+      res.status(200).json({
+        success: true,
+        data: { recipes, count: recipes.length },
+        message: 'Favorite recipes retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof ValidationError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        errors: error.errors
+      });
+    } else if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    } else {
+      console.error('Unexpected error in RecipeController:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
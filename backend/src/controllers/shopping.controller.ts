@@ -0,0 +1,253 @@
+import { Request, Response } from 'express';
+import { ShoppingService } from '../services/shopping.service';
+import {
+  ShoppingListCreateData,
+  ShoppingListUpdateData,
+  ShoppingListItemCreateData,
+  ShoppingListItemUpdateData,
+  ShoppingListGenerateOptions,
+  AppError,
+  ValidationError
+} from '@shared/types';
+import { getCurrentUser } from '../middleware/auth.middleware';
+
+export class ShoppingController {
+  private shoppingService: ShoppingService;
+
+  constructor() {
+    this.shoppingService = new ShoppingService();
+  }
+
+  getList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const completed = req.query.completed !== undefined
+        ? req.query.completed === 'true'
+        : undefined;
+
+      const lists = await this.shoppingService.getLists(user.id, completed);
+
+      res.status(200).json({
+        success: true,
+        data: { lists, count: lists.length },
+        message: 'Shopping lists retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getListById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const listId = this.parseId(req.params.id, 'Invalid shopping list ID');
+
+      const list = await this.shoppingService.getListById(user.id, listId);
+
+      res.status(200).json({
+        success: true,
+        data: { list },
+        message: 'Shopping list retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  createList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const listData: ShoppingListCreateData = req.body;
+
+      const list = await this.shoppingService.createList(user.id, listData);
+
+      res.status(201).json({
+        success: true,
+        data: { list },
+        message: 'Shopping list created successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  updateList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const listId = this.parseId(req.params.id, 'Invalid shopping list ID');
+      const updateData: ShoppingListUpdateData = req.body;
+
+      const list = await this.shoppingService.updateList(user.id, listId, updateData);
+
+      res.status(200).json({
+        success: true,
+        data: { list },
+        message: 'Shopping list updated successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  deleteList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const listId = this.parseId(req.params.id, 'Invalid shopping list ID');
+
+      await this.shoppingService.deleteList(user.id, listId);
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  completeList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const listId = this.parseId(req.params.id, 'Invalid shopping list ID');
+
+      const list = await this.shoppingService.completeList(user.id, listId);
+
+      res.status(200).json({
+        success: true,
+        data: { list },
+        message: 'Shopping list completed'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  moveToInventory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const listId = this.parseId(req.params.id, 'Invalid shopping list ID');
+
+      const result = await this.shoppingService.moveToInventory(user.id, listId);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: `${result.foods.length} item(s) moved into the inventory`
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  generateList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const options: ShoppingListGenerateOptions = req.body;
+
+      const list = await this.shoppingService.generateList(user.id, options);
+
+      res.status(201).json({
+        success: true,
+        data: { list },
+        message: 'Shopping list generated successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  addItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const listId = this.parseId(req.params.id, 'Invalid shopping list ID');
+      const itemData: ShoppingListItemCreateData = req.body;
+
+      const item = await this.shoppingService.addItem(user.id, listId, itemData);
+
+      res.status(201).json({
+        success: true,
+        data: { item },
+        message: 'Item added to shopping list'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  updateItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const itemId = this.parseId(req.params.id, 'Invalid item ID');
+      const updateData: ShoppingListItemUpdateData = req.body;
+
+      const item = await this.shoppingService.updateItem(user.id, itemId, updateData);
+
+      res.status(200).json({
+        success: true,
+        data: { item },
+        message: 'Shopping list item updated successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  markAsPurchased = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const itemId = this.parseId(req.params.id, 'Invalid item ID');
+      const { purchased, actual_price }: { purchased: boolean; actual_price?: number } = req.body;
+
+      const item = await this.shoppingService.markAsPurchased(user.id, itemId, purchased, actual_price);
+
+      res.status(200).json({
+        success: true,
+        data: { item },
+        message: item.purchased ? 'Item marked as purchased' : 'Item marked as not purchased'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  removeItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const itemId = this.parseId(req.params.id, 'Invalid item ID');
+
+      await this.shoppingService.removeItem(user.id, itemId);
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  private parseId(value: string | undefined, message: string): number {
+    const id = parseInt(value || '');
+
+    if (isNaN(id)) {
+      throw new AppError(message, 400);
+    }
+
+    return id;
+  }
+
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof ValidationError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        errors: error.errors
+      });
+    } else if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    } else {
+      console.error('Unexpected error in ShoppingController:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { Request, Response } from 'express';
+import { StorageService } from '../services/storage.service';
+import {
+  StorageTipCreateData,
+  StorageTipUpdateData,
+  StorageTipFilterOptions,
+  StorageTipImportData,
+  AppError,
+  ValidationError
+} from '@shared/types';
+import { getCurrentUser } from '../middleware/auth.middleware';
+
+export class StorageController {
+  private storageService: StorageService;
+
+  constructor() {
+    this.storageService = new StorageService();
+  }
+
+  getStorageAdvice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const category = req.params.category || '';
+      const foodName = req.query.food as string | undefined;
+
+      const result = await this.storageService.getStorageAdvice(category, foodName);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: result.tips.length > 0 || result.advice
+          ? 'Storage advice retrieved successfully'
+          : 'No storage advice available'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  searchTips = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { tips, fuzzy } = await this.storageService.searchTips(req.query.q as string);
+
+      res.status(200).json({
+        success: true,
+        data: { tips, count: tips.length, fuzzy },
+        message: 'Storage tips retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getRandomTips = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) || 5 : 5;
+      const tips = await this.storageService.getRandomTips(limit);
+
+      res.status(200).json({
+        success: true,
+        data: { tips, count: tips.length },
+        message: 'Storage tips retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  // Admin endpoints
+  listTips = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filters: StorageTipFilterOptions = {
+        q: req.query.q as string,
+        category: req.query.category as string,
+        include_inactive: req.query.include_inactive === 'true',
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        per_page: req.query.per_page ? parseInt(req.query.per_page as string) : undefined
+      };
+
+      const result = await this.storageService.listTips(filters);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Storage tips retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  getTipById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tipId = this.parseId(req.params.id, 'Invalid storage tip ID');
+      const tip = await this.storageService.getTipById(tipId);
+
+      res.status(200).json({
+        success: true,
+        data: { tip },
+        message: 'Storage tip retrieved successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  createTip = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const tipData: StorageTipCreateData = req.body;
+
+      const tip = await this.storageService.createTip(user.id, tipData);
+
+      res.status(201).json({
+        success: true,
+        data: { tip },
+        message: 'Storage tip created successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  updateTip = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const tipId = this.parseId(req.params.id, 'Invalid storage tip ID');
+      const updateData: StorageTipUpdateData = req.body;
+
+      const tip = await this.storageService.updateTip(user.id, tipId, updateData);
+
+      res.status(200).json({
+        success: true,
+        data: { tip },
+        message: 'Storage tip updated successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  deleteTip = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const tipId = this.parseId(req.params.id, 'Invalid storage tip ID');
+
+      await this.storageService.deleteTip(user.id, tipId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Storage tip deleted successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  importTips = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = getCurrentUser(req);
+      const importData: StorageTipImportData = req.body;
+
+      const result = await this.storageService.importTips(user.id, importData);
+
+      res.status(result.dry_run ? 200 : 201).json({
+        success: true,
+        data: result,
+        message: result.dry_run
+          ? 'Storage tip import validated successfully'
+          : 'Storage tips imported successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error);
+    }
+  };
+
+  private parseId(value: string | undefined, message: string): number {
+    const id = parseInt(value || '');
+
+    if (isNaN(id)) {
+      throw new AppError(message, 400);
+    }
+
+    return id;
+  }
+
+  private handleError(res: Response, error: unknown): void {
+    if (error instanceof ValidationError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        errors: error.errors
+      });
+    } else if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    } else {
+      console.error('Unexpected error in StorageController:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
\ No newline at end of file
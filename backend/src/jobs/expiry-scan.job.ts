@@ -0,0 +1,178 @@
+import redisClient from '../config/redis';
+import { config } from '../config/environment';
+import { UserRepository } from '../repositories/user.repository';
+import { UserPreferencesRepository } from '../repositories/user-preferences.repository';
+import { FoodService } from '../services/food.service';
+import { NotificationService } from '../services/notification.service';
+import { PushService } from '../services/push.service';
+import { DateUtils } from '@shared/utils';
+
+export interface ExpiryScanResult {
+  users_scanned: number;
+  foods_expired: number;
+  notifications_created: number;
+  notifications_deleted: number;
+  push_subscriptions_pruned: number;
+}
+
+const LOCK_KEY = 'jobs:expiry-scan';
+const LAST_RUN_KEY = 'jobs:expiry-scan:last-run';
+const LOCK_TTL_SECONDS = 60 * 60;
+const USER_BATCH_SIZE = 500;
+
+/**
+ * Daily sweep over all active users: marks past-date foods as expired, creates expiry
+ * alerts according to each user's preferences and prunes old read notifications and
+ * expired push subscriptions.
+ *
+ * Every backend instance schedules the job, but a Redis lock plus a last-run marker
+ * make sure only one of them actually performs the scan each day.
+ */
+export class ExpiryScanJob {
+  private userRepository: UserRepository;
+  private userPreferencesRepository: UserPreferencesRepository;
+  private foodService: FoodService;
+  private notificationService: NotificationService;
+  private pushService: PushService;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<unknown> | null = null;
+
+  constructor() {
+    this.userRepository = new UserRepository();
+    this.userPreferencesRepository = new UserPreferencesRepository();
+    this.foodService = new FoodService();
+    this.notificationService = new NotificationService();
+    this.pushService = new PushService();
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.scheduleNextRun();
+    console.log(`Expiry scan scheduled daily at ${config.EXPIRY_SCAN_HOUR}:00`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // Let a run in progress finish so it releases its lock
+    await this.currentRun;
+  }
+
+  async run(): Promise<ExpiryScanResult | null> {
+    const today = DateUtils.getCurrentDate();
+
+    const lockToken = await redisClient.acquireLock(LOCK_KEY, LOCK_TTL_SECONDS);
+    if (!lockToken) {
+      console.log('Expiry scan skipped: another instance holds the lock');
+      return null;
+    }
+
+    try {
+      if (await redisClient.get(LAST_RUN_KEY) === today) {
+        console.log('Expiry scan skipped: already completed today');
+        return null;
+      }
+
+      const result = await this.scanAllUsers();
+      await redisClient.set(LAST_RUN_KEY, today, { EX: 2 * 24 * 60 * 60 });
+
+      console.log('Expiry scan completed:', result);
+      return result;
+    } finally {
+      await redisClient.releaseLock(LOCK_KEY, lockToken);
+    }
+  }
+
+  private async scanAllUsers(): Promise<ExpiryScanResult> {
+    const result: ExpiryScanResult = {
+      users_scanned: 0,
+      foods_expired: 0,
+      notifications_created: 0,
+      notifications_deleted: 0,
+      push_subscriptions_pruned: 0
+    };
+
+    let lastUserId = 0;
+
+    while (true) {
+      const userIds = await this.userRepository.findActiveUserIds(lastUserId, USER_BATCH_SIZE);
+      if (userIds.length === 0) {
+        break;
+      }
+
+      const preferences = await this.userPreferencesRepository.findByUserIds(userIds);
+      const preferencesByUser = new Map(preferences.map(pref => [pref.user_id, pref]));
+
+      for (const userId of userIds) {
+        try {
+          const userPreferences = preferencesByUser.get(userId)
+            || await this.userPreferencesRepository.findByUserId(userId);
+
+          const expiredFoods = await this.foodService.expirePastDueFoods(userId);
+          result.foods_expired += expiredFoods.length;
+
+          result.notifications_created += await this.notificationService.createExpiryAlerts(
+            userId,
+            expiredFoods,
+            userPreferences
+          );
+          result.notifications_created += await this.foodService.checkExpiringFoodsForUser(
+            userId,
+            userPreferences.expiry_alert_days,
+            userPreferences
+          );
+        } catch (error) {
+          // One broken user record must not stop the sweep for everybody else
+          console.error(`Expiry scan failed for user ${userId}:`, error);
+        }
+
+        result.users_scanned++;
+      }
+
+      lastUserId = userIds[userIds.length - 1] as number;
+    }
+
+    result.notifications_deleted = await this.notificationService.deleteOldNotifications(
+      config.NOTIFICATION_RETENTION_DAYS
+    );
+    result.push_subscriptions_pruned = await this.pushService.pruneExpiredSubscriptions();
+
+    return result;
+  }
+
+  private scheduleNextRun(): void {
+    const now = new Date();
+    const nextRun = new Date(now);
+    nextRun.setHours(config.EXPIRY_SCAN_HOUR, 0, 0, 0);
+
+    if (nextRun <= now) {
+      nextRun.setDate(nextRun.getDate() + 1);
+    }
+
+    this.timer = setTimeout(async () => {
+      try {
+        this.currentRun = this.run();
+        await this.currentRun;
+      } catch (error) {
+        console.error('Expiry scan failed:', error);
+      } finally {
+        this.currentRun = null;
+        // stop() clears the timer; a stopped job is not scheduled again
+        if (this.timer) {
+          this.scheduleNextRun();
+        }
+      }
+    }, nextRun.getTime() - now.getTime());
+
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+}
+
+export const expiryScanJob = new ExpiryScanJob();
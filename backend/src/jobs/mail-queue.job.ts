@@ -0,0 +1,66 @@
+import { MailService } from '../services/mail.service';
+
+const POLL_INTERVAL_MS = 10 * 1000;
+
+/**
+ * Background worker that drains the outbound mail queue. Several instances may run side by
+ * side: each job is popped atomically from Redis, so every message is delivered by one worker.
+ */
+export class MailQueueJob {
+  private mailService: MailService;
+  private timer: NodeJS.Timeout | null = null;
+  private currentPass: Promise<void> | null = null;
+
+  constructor() {
+    this.mailService = new MailService();
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.run(), POLL_INTERVAL_MS);
+
+    // Don't keep the process alive just for the worker
+    this.timer.unref();
+    console.log('Mail queue worker started');
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    // Let a pass in progress finish so no popped message is lost
+    await this.currentPass;
+  }
+
+  async run(): Promise<void> {
+    // A slow SMTP server must not lead to overlapping passes
+    if (this.currentPass) {
+      return;
+    }
+
+    this.currentPass = this.processQueue();
+    try {
+      await this.currentPass;
+    } finally {
+      this.currentPass = null;
+    }
+  }
+
+  private async processQueue(): Promise<void> {
+    try {
+      const result = await this.mailService.processQueue();
+      if (result.sent + result.retried + result.failed > 0) {
+        console.log('Mail queue processed:', result);
+      }
+    } catch (error) {
+      console.error('Mail queue processing failed:', error);
+    }
+  }
+}
+
+export const mailQueueJob = new MailQueueJob();
\ No newline at end of file
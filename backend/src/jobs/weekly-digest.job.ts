@@ -0,0 +1,176 @@
+import redisClient from '../config/redis';
+import { config } from '../config/environment';
+import { UserRepository } from '../repositories/user.repository';
+import { UserPreferencesRepository } from '../repositories/user-preferences.repository';
+import { FoodService } from '../services/food.service';
+import { MailService } from '../services/mail.service';
+import { DateUtils } from '@shared/utils';
+
+export interface WeeklyDigestResult {
+  users_scanned: number;
+  digests_queued: number;
+}
+
+const LOCK_KEY = 'jobs:weekly-digest';
+const LAST_RUN_KEY = 'jobs:weekly-digest:last-run';
+const LOCK_TTL_SECONDS = 60 * 60;
+const USER_BATCH_SIZE = 500;
+const DIGEST_DAYS_AHEAD = 7;
+
+/**
+ * Weekly email listing the foods that expire in the coming week, sent to users who
+ * have email notifications enabled. Uses the same lock plus last-run marker as the
+ * expiry scan so only one instance sends the digest.
+ */
+export class WeeklyDigestJob {
+  private userRepository: UserRepository;
+  private userPreferencesRepository: UserPreferencesRepository;
+  private foodService: FoodService;
+  private mailService: MailService;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<unknown> | null = null;
+
+  constructor() {
+    this.userRepository = new UserRepository();
+    this.userPreferencesRepository = new UserPreferencesRepository();
+    this.foodService = new FoodService();
+    this.mailService = new MailService();
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.scheduleNextRun();
+    console.log(`Weekly digest scheduled on day ${config.WEEKLY_DIGEST_DAY} at ${config.WEEKLY_DIGEST_HOUR}:00`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // Let a run in progress finish so it releases its lock
+    await this.currentRun;
+  }
+
+  async run(): Promise<WeeklyDigestResult | null> {
+    const today = DateUtils.getCurrentDate();
+
+    const lockToken = await redisClient.acquireLock(LOCK_KEY, LOCK_TTL_SECONDS);
+    if (!lockToken) {
+      console.log('Weekly digest skipped: another instance holds the lock');
+      return null;
+    }
+
+    try {
+      if (await redisClient.get(LAST_RUN_KEY) === today) {
+        console.log('Weekly digest skipped: already sent today');
+        return null;
+      }
+
+      const result = await this.sendDigests();
+      await redisClient.set(LAST_RUN_KEY, today, { EX: 8 * 24 * 60 * 60 });
+
+      console.log('Weekly digest completed:', result);
+      return result;
+    } finally {
+      await redisClient.releaseLock(LOCK_KEY, lockToken);
+    }
+  }
+
+  private async sendDigests(): Promise<WeeklyDigestResult> {
+    const result: WeeklyDigestResult = {
+      users_scanned: 0,
+      digests_queued: 0
+    };
+
+    let lastUserId = 0;
+
+    while (true) {
+      const userIds = await this.userRepository.findActiveUserIds(lastUserId, USER_BATCH_SIZE);
+      if (userIds.length === 0) {
+        break;
+      }
+
+      const [users, preferences] = await Promise.all([
+        this.userRepository.findByIds(userIds),
+        this.userPreferencesRepository.findByUserIds(userIds)
+      ]);
+      const preferencesByUser = new Map(preferences.map(pref => [pref.user_id, pref]));
+
+      for (const user of users) {
+        try {
+          const userPreferences = preferencesByUser.get(user.id)
+            || await this.userPreferencesRepository.findByUserId(user.id);
+
+          if (!userPreferences.enable_email_notifications) {
+            continue;
+          }
+
+          const [expiringFoods, expiredFoods] = await Promise.all([
+            this.foodService.getExpiringFoods(user.id, DIGEST_DAYS_AHEAD),
+            this.foodService.getExpiredFoods(user.id)
+          ]);
+
+          // Nothing to act on this week; don't send an empty email
+          if (expiringFoods.length === 0 && expiredFoods.length === 0) {
+            continue;
+          }
+
+          await this.mailService.sendWeeklyDigest(user, userPreferences.language, {
+            expiring_foods: expiringFoods.map(food => ({
+              name: food.name,
+              expiry_date: DateUtils.formatDate(food.expiry_date),
+              days_left: Math.max(0, DateUtils.getDaysUntilExpiry(food.expiry_date))
+            })),
+            expired_count: expiredFoods.length
+          });
+          result.digests_queued++;
+        } catch (error) {
+          // One broken user record must not stop the digest for everybody else
+          console.error(`Weekly digest failed for user ${user.id}:`, error);
+        } finally {
+          result.users_scanned++;
+        }
+      }
+
+      lastUserId = userIds[userIds.length - 1] as number;
+    }
+
+    return result;
+  }
+
+  private scheduleNextRun(): void {
+    const now = new Date();
+    const nextRun = new Date(now);
+    nextRun.setHours(config.WEEKLY_DIGEST_HOUR, 0, 0, 0);
+    nextRun.setDate(nextRun.getDate() + ((config.WEEKLY_DIGEST_DAY - nextRun.getDay() + 7) % 7));
+
+    if (nextRun <= now) {
+      nextRun.setDate(nextRun.getDate() + 7);
+    }
+
+    this.timer = setTimeout(async () => {
+      try {
+        this.currentRun = this.run();
+        await this.currentRun;
+      } catch (error) {
+        console.error('Weekly digest failed:', error);
+      } finally {
+        this.currentRun = null;
+        // stop() clears the timer; a stopped job is not scheduled again
+        if (this.timer) {
+          this.scheduleNextRun();
+        }
+      }
+    }, nextRun.getTime() - now.getTime());
+
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+}
+
+export const weeklyDigestJob = new WeeklyDigestJob();
\ No newline at end of file
@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { CryptoUtils } from '../utils/crypto';
-import { AppError } from '@shared/types';
+import { HouseholdService } from '../services/household.service';
+import { SessionService } from '../services/session.service';
+import { UserRepository } from '../repositories/user.repository';
+import { HouseholdResource } from '../repositories/household.repository';
+import { AppError, HouseholdRole, UserRole } from '@shared/types';
 
 // Extend Request type to include user
 declare global {
@@ -10,13 +14,20 @@ declare global {
         id: number;
         email: string;
         username: string;
+        session_id?: string; // refresh token family the access token was issued for
       };
     }
   }
 }
 
+const householdService = new HouseholdService();
+const sessionService = new SessionService();
+const userRepository = new UserRepository();
+
+const SYSTEM_ROLES: UserRole[] = ['user', 'admin'];
+
 export class AuthMiddleware {
-  static authenticate(req: Request, res: Response, next: NextFunction): void {
+  static async authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const authHeader = req.headers.authorization;
 
@@ -39,11 +50,22 @@ export class AuthMiddleware {
         throw new AppError('Invalid token type', 401);
       }
 
+      // Deactivated accounts lose access now rather than when their tokens expire
+      if (!(await AuthMiddleware.isActiveAccount(decoded.id))) {
+        throw new AppError('Account is inactive', 401);
+      }
+
+      // Signed-out devices and replayed refresh families must not keep API access until the token expires
+      if (!(await AuthMiddleware.isActiveSession(decoded.id, decoded.sid))) {
+        throw new AppError('Session has expired or was revoked', 401);
+      }
+
       // Add user info to request
       req.user = {
         id: decoded.id,
         email: decoded.email,
-        username: decoded.username
+        username: decoded.username,
+        session_id: decoded.sid
       };
 
       next();
@@ -62,7 +84,7 @@ export class AuthMiddleware {
     }
   }
 
-  static optional(req: Request, res: Response, next: NextFunction): void {
+  static async optional(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const authHeader = req.headers.authorization;
 
@@ -75,11 +97,16 @@ export class AuthMiddleware {
           try {
             const decoded = CryptoUtils.verifyToken(token);
 
-            if (decoded.type === 'access') {
+            if (
+              decoded.type === 'access' &&
+              await AuthMiddleware.isActiveAccount(decoded.id) &&
+              await AuthMiddleware.isActiveSession(decoded.id, decoded.sid)
+            ) {
               req.user = {
                 id: decoded.id,
                 email: decoded.email,
-                username: decoded.username
+                username: decoded.username,
+                session_id: decoded.sid
               };
             }
           } catch {
@@ -101,25 +128,90 @@ export class AuthMiddleware {
     next();
   }
 
-  static requireRole(roles: string[]) {
-    return (req: Request, res: Response, next: NextFunction): void => {
-      // Role-based authorization would be implemented here
-      // For now, all authenticated users have access
-      next();
+  // Passes when the user holds any of the given system roles or household roles
+  static requireRole(roles: Array<UserRole | HouseholdRole>) {
+    const systemRoles = roles.filter((role): role is UserRole => SYSTEM_ROLES.includes(role as UserRole));
+    const householdRoles = roles.filter((role): role is HouseholdRole => !SYSTEM_ROLES.includes(role as UserRole));
+
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const user = getCurrentUser(req);
+
+        // Roles are read from the database rather than the token so revocations apply immediately
+        if (systemRoles.length > 0) {
+          const account = await userRepository.findById(user.id);
+          if (!account || !account.is_active) {
+            throw new AppError('Account is inactive', 403);
+          }
+
+          if ((account.roles || ['user']).some(role => systemRoles.includes(role))) {
+            next();
+            return;
+          }
+        }
+
+        if (householdRoles.length > 0 && householdRoles.includes(await householdService.getRole(user.id))) {
+          next();
+          return;
+        }
+
+        throw new AppError(
+          householdRoles.length > 0 ? 'Insufficient household permissions' : 'Insufficient permissions',
+          403
+        );
+      } catch (error) {
+        AuthMiddleware.handleAuthorizationError(res, error);
+      }
     };
   }
 
-  static requireOwnership(entityParam: string = 'id') {
-    return (req: Request, res: Response, next: NextFunction): void => {
-      // This middleware would check if the authenticated user owns the resource
-      // Implementation would depend on the specific entity
-      next();
+  // Checks that the resource identified by req.params[entityParam] belongs to the user's household
+  static requireOwnership(resource: HouseholdResource, entityParam: string = 'id') {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const user = getCurrentUser(req);
+        const resourceId = parseInt(req.params[entityParam] || '');
+
+        if (isNaN(resourceId) || !(await householdService.canAccess(user.id, resource, resourceId))) {
+          // 404 rather than 403 so ids of other households' data are not revealed
+          throw new AppError('Resource not found', 404);
+        }
+
+        next();
+      } catch (error) {
+        AuthMiddleware.handleAuthorizationError(res, error);
+      }
     };
   }
+
+  private static async isActiveAccount(userId: number): Promise<boolean> {
+    const account = await userRepository.findById(userId);
+    return !!account?.is_active;
+  }
+
+  // Tokens issued before session tracking carry no session id and are treated as revoked
+  private static async isActiveSession(userId: number, sessionId?: string): Promise<boolean> {
+    return !!sessionId && await sessionService.isActive(userId, sessionId);
+  }
+
+  private static handleAuthorizationError(res: Response, error: unknown): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    } else {
+      console.error('Unexpected error in AuthMiddleware:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
 }
 
 // Helper function to get current user from request
-export function getCurrentUser(req: Request): { id: number; email: string; username: string } {
+export function getCurrentUser(req: Request): { id: number; email: string; username: string; session_id?: string } {
   if (!req.user) {
     throw new AppError('User not authenticated', 401);
   }
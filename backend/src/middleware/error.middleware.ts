@@ -157,19 +157,26 @@ export class ErrorMiddleware {
   }
 
   // Graceful shutdown handler
-  static setupGracefulShutdown(server: any): void {
+  static setupGracefulShutdown(server: any, onShutdown?: () => void | Promise<void>): void {
     const signals = ['SIGTERM', 'SIGINT', 'SIGUSR2'];
 
     signals.forEach(signal => {
       process.on(signal, () => {
         console.log(`Received ${signal}, starting graceful shutdown...`);
 
-        server.close((err: Error) => {
+        // Lets long-lived connections (e.g. notification streams) end so close() can finish
+        // and background jobs wind down; the exit waits for the latter
+        const cleanup = Promise.resolve()
+          .then(() => onShutdown?.())
+          .catch(error => console.error('Error during shutdown cleanup:', error));
+
+        server.close(async (err: Error) => {
           if (err) {
             console.error('Error during server shutdown:', err);
             process.exit(1);
           }
 
+          await cleanup;
           console.log('Server closed gracefully');
           process.exit(0);
         });
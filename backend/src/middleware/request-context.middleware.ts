@@ -0,0 +1,26 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+
+export interface RequestContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export class RequestContextMiddleware {
+  // Makes client details available to services (e.g. audit logging) without threading req through every call
+  static attach(req: Request, res: Response, next: NextFunction): void {
+    storage.run(
+      {
+        ip_address: req.ip || req.socket.remoteAddress,
+        user_agent: req.get('user-agent')
+      },
+      next
+    );
+  }
+}
+
+export function getRequestContext(): RequestContext {
+  return storage.getStore() || {};
+}
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { AppError, ValidationError } from '@shared/types';
 import { ValidationUtils } from '@shared/utils';
+import { WebPushUtils } from '../utils/web-push';
 
 export class ValidationMiddleware {
   // Auth validation schemas
@@ -40,6 +41,27 @@ export class ValidationMiddleware {
     password: Joi.string().required()
   });
 
+  // Two-factor validation schemas
+  private static twoFactorLoginSchema = Joi.object({
+    challenge_token: Joi.string().required(),
+    code: Joi.string().pattern(/^\d{6}$/)
+      .messages({
+        'string.pattern.base': 'Authentication code must be 6 digits'
+      }),
+    recovery_code: Joi.string().max(20)
+  }).xor('code', 'recovery_code');
+
+  private static twoFactorEnableSchema = Joi.object({
+    code: Joi.string().pattern(/^\d{6}$/).required()
+      .messages({
+        'string.pattern.base': 'Authentication code must be 6 digits'
+      })
+  });
+
+  private static twoFactorPasswordSchema = Joi.object({
+    password: Joi.string().required()
+  });
+
   // Food validation schemas
   private static foodCreationSchema = Joi.object({
     name: Joi.string().min(1).max(100).required(),
@@ -51,6 +73,7 @@ export class ValidationMiddleware {
     storage_location: Joi.string().valid('冷蔵庫', '冷凍庫', '常温', 'その他').optional(),
     barcode: Joi.string().max(50).optional(),
     image_url: Joi.string().uri().max(500).optional(),
+    price: Joi.number().min(0).precision(2).optional(),
     notes: Joi.string().max(1000).optional()
   });
 
@@ -64,14 +87,276 @@ export class ValidationMiddleware {
     storage_location: Joi.string().valid('冷蔵庫', '冷凍庫', '常温', 'その他').optional(),
     barcode: Joi.string().max(50).optional().allow(''),
     image_url: Joi.string().uri().max(500).optional().allow(''),
+    price: Joi.number().min(0).precision(2).optional().allow(null),
     notes: Joi.string().max(1000).optional().allow(''),
-    status: Joi.string().valid('active', 'consumed', 'expired', 'disposed').optional()
+    status: Joi.string().valid('active', 'consumed', 'expired', 'disposed').optional(),
+    expected_updated_at: Joi.string().isoDate().optional()
+  });
+
+  // Optional optimistic concurrency check for writes without a body of their own
+  private static foodVersionSchema = Joi.object({
+    expected_updated_at: Joi.string().isoDate().optional()
   });
 
   private static bulkConsumeSchema = Joi.object({
     food_ids: Joi.array().items(Joi.number().integer().positive()).min(1).max(100).required()
   });
 
+  private static analyticsQuerySchema = Joi.object({
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    granularity: Joi.string().valid('week', 'month').optional()
+  });
+
+  private static foodConsumptionSchema = Joi.object({
+    quantity: Joi.number().positive().required(),
+    unit: Joi.string().valid('個', 'kg', 'g', 'L', 'ml', '本', '袋', 'パック', 'その他').optional(),
+    expected_updated_at: Joi.string().isoDate().optional()
+  });
+
+  private static barcodeScanSchema = Joi.object({
+    barcode: Joi.string().pattern(/^(\d{8}|\d{12,14})$/).required().messages({
+      'string.pattern.base': 'Barcode must be an 8, 12, 13 or 14 digit JAN/EAN code'
+    })
+  });
+
+  // Recipe validation schemas
+  private static recipeCreationSchema = Joi.object({
+    name: Joi.string().min(1).max(255).required(),
+    description: Joi.string().max(2000).optional().allow(''),
+    instructions: Joi.array().items(Joi.string().min(1).max(1000)).min(1).max(50).required(),
+    prep_time: Joi.number().integer().min(0).required(),
+    cook_time: Joi.number().integer().min(0).required(),
+    servings: Joi.number().integer().positive().required(),
+    difficulty: Joi.string().valid('easy', 'medium', 'hard').required(),
+    image_url: Joi.string().uri().max(500).optional(),
+    ingredients: Joi.array().items(Joi.object({
+      ingredient_name: Joi.string().min(1).max(100).required(),
+      quantity: Joi.number().positive().required(),
+      unit: Joi.string().min(1).max(20).required(),
+      optional: Joi.boolean().optional()
+    })).min(1).max(100).required()
+  });
+
+  // Shopping list validation schemas
+  private static shoppingItemSchema = Joi.object({
+    item_name: Joi.string().min(1).max(100).required(),
+    quantity: Joi.number().positive().required(),
+    unit: Joi.string().min(1).max(20).required(),
+    estimated_price: Joi.number().min(0).optional().allow(null),
+    store_name: Joi.string().max(100).optional().allow(''),
+    category_id: Joi.number().integer().positive().optional().allow(null),
+    notes: Joi.string().max(1000).optional().allow('')
+  });
+
+  private static shoppingItemUpdateSchema = Joi.object({
+    item_name: Joi.string().min(1).max(100).optional(),
+    quantity: Joi.number().positive().optional(),
+    unit: Joi.string().min(1).max(20).optional(),
+    estimated_price: Joi.number().min(0).optional().allow(null),
+    actual_price: Joi.number().min(0).optional().allow(null),
+    store_name: Joi.string().max(100).optional().allow(''),
+    category_id: Joi.number().integer().positive().optional().allow(null),
+    notes: Joi.string().max(1000).optional().allow(''),
+    purchased: Joi.boolean().optional()
+  });
+
+  // Strict because the validated body isn't written back: "false" or 1.234 must be rejected, not coerced
+  private static shoppingItemPurchasedSchema = Joi.object({
+    purchased: Joi.boolean().required(),
+    actual_price: Joi.number().min(0).precision(2).optional()
+  }).strict();
+
+  private static shoppingListCreationSchema = Joi.object({
+    name: Joi.string().min(1).max(255).required(),
+    notes: Joi.string().max(1000).optional().allow(''),
+    items: Joi.array().items(ValidationMiddleware.shoppingItemSchema).max(200).default([])
+  });
+
+  private static shoppingListUpdateSchema = Joi.object({
+    name: Joi.string().min(1).max(255).optional(),
+    notes: Joi.string().max(1000).optional().allow('')
+  }).min(1);
+
+  private static shoppingListGenerateSchema = Joi.object({
+    name: Joi.string().min(1).max(255).optional(),
+    recipe_ids: Joi.array().items(Joi.number().integer().positive()).max(20).optional(),
+    include_low_stock: Joi.boolean().optional(),
+    low_stock_threshold: Joi.number().positive().optional()
+  });
+
+  // Meal plan validation schemas
+  private static mealPlanCreationSchema = Joi.object({
+    planned_date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+    meal_slot: Joi.string().valid('breakfast', 'lunch', 'dinner', 'snack').required(),
+    recipe_id: Joi.number().integer().positive().required(),
+    servings: Joi.number().integer().min(1).max(50).optional(),
+    notes: Joi.string().max(1000).optional().allow('')
+  });
+
+  private static mealPlanUpdateSchema = Joi.object({
+    planned_date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    meal_slot: Joi.string().valid('breakfast', 'lunch', 'dinner', 'snack').optional(),
+    recipe_id: Joi.number().integer().positive().optional(),
+    servings: Joi.number().integer().min(1).max(50).optional(),
+    notes: Joi.string().max(1000).optional().allow('')
+  }).min(1);
+
+  private static mealPlanAutoSchema = Joi.object({
+    start_date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    days: Joi.number().integer().min(1).max(14).optional(),
+    meal_slots: Joi.array().items(Joi.string().valid('breakfast', 'lunch', 'dinner', 'snack')).unique().min(1).optional(),
+    servings: Joi.number().integer().min(1).max(50).optional(),
+    max_prep_time: Joi.number().integer().min(0).optional(),
+    max_cook_time: Joi.number().integer().min(0).optional(),
+    create_shopping_list: Joi.boolean().optional(),
+    shopping_list_name: Joi.string().min(1).max(255).optional()
+  });
+
+  private static mealPlanShoppingListSchema = Joi.object({
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+    name: Joi.string().min(1).max(255).optional()
+  });
+
+  private static mealPlanQuerySchema = Joi.object({
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional()
+  });
+
+  // Preference validation schemas
+  private static preferencesUpdateSchema = Joi.object({
+    enable_expiry_alerts: Joi.boolean().optional(),
+    expiry_alert_days: Joi.number().integer().min(0).max(30).optional(),
+    enable_recipe_suggestions: Joi.boolean().optional(),
+    enable_shopping_reminders: Joi.boolean().optional(),
+    enable_email_notifications: Joi.boolean().optional(),
+    enable_push_notifications: Joi.boolean().optional(),
+    notification_time: Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/).optional(),
+    theme: Joi.string().valid('light', 'dark', 'auto').optional(),
+    language: Joi.string().valid('ja', 'en').optional(),
+    currency: Joi.string().length(3).uppercase().optional(),
+    date_format: Joi.string().max(20).optional(),
+    default_storage_location: Joi.string().valid('冷蔵庫', '冷凍庫', '常温', 'その他').optional(),
+    auto_add_to_shopping_list: Joi.boolean().optional(),
+    smart_expiry_calculation: Joi.boolean().optional(),
+    dietary_restrictions: Joi.array().items(Joi.string().max(50)).max(20).optional().allow(null),
+    preferred_cuisine: Joi.array().items(Joi.string().max(50)).max(20).optional().allow(null),
+    max_cooking_time: Joi.number().integer().positive().optional(),
+    skill_level: Joi.string().valid('beginner', 'medium', 'advanced').optional(),
+    data_sharing: Joi.boolean().optional(),
+    analytics: Joi.boolean().optional()
+  }).min(1);
+
+  // Push subscription validation schemas
+  private static pushSubscriptionSchema = Joi.object({
+    endpoint: Joi.string().uri({ scheme: ['https'] }).max(2000).required()
+      .custom((value, helpers) => WebPushUtils.isPushServiceEndpoint(value) ? value : helpers.error('any.invalid'))
+      .messages({ 'any.invalid': 'Endpoint must belong to a known push service' }),
+    expirationTime: Joi.number().integer().allow(null).optional(),
+    keys: Joi.object({
+      p256dh: Joi.string().pattern(/^[A-Za-z0-9_-]+={0,2}$/).max(255).required(),
+      auth: Joi.string().pattern(/^[A-Za-z0-9_-]+={0,2}$/).max(255).required()
+    }).required()
+  });
+
+  private static pushUnsubscribeSchema = Joi.object({
+    endpoint: Joi.string().max(2000).required()
+  });
+
+  // Storage tip validation schemas
+  private static storageTipCreationSchema = Joi.object({
+    food_name: Joi.string().trim().min(1).max(100).required(),
+    category: Joi.string().max(50).optional().allow(''),
+    storage_method: Joi.string().valid('冷蔵庫', '冷凍庫', '常温', 'その他').required(),
+    optimal_temp: Joi.string().max(50).optional().allow(''),
+    humidity_level: Joi.string().max(50).optional().allow(''),
+    shelf_life_days: Joi.number().integer().positive().required(),
+    tips: Joi.array().items(Joi.string().min(1).max(500)).min(1).max(20).required(),
+    is_active: Joi.boolean().optional()
+  });
+
+  private static storageTipUpdateSchema = Joi.object({
+    food_name: Joi.string().trim().min(1).max(100).optional(),
+    category: Joi.string().max(50).optional().allow(''),
+    storage_method: Joi.string().valid('冷蔵庫', '冷凍庫', '常温', 'その他').optional(),
+    optimal_temp: Joi.string().max(50).optional().allow(''),
+    humidity_level: Joi.string().max(50).optional().allow(''),
+    shelf_life_days: Joi.number().integer().positive().optional(),
+    tips: Joi.array().items(Joi.string().min(1).max(500)).min(1).max(20).optional(),
+    is_active: Joi.boolean().optional()
+  }).min(1);
+
+  private static storageTipImportSchema = Joi.object({
+    format: Joi.string().valid('csv', 'json').required(),
+    content: Joi.string().min(1).required(),
+    dry_run: Joi.boolean().default(false)
+  });
+
+  // Category validation schemas
+  private static categoryCreationSchema = Joi.object({
+    name: Joi.string().trim().min(1).max(50).required(),
+    icon: Joi.string().max(50).optional(),
+    color: Joi.string().pattern(/^#[0-9A-Fa-f]{6}$/).optional(),
+    description: Joi.string().max(500).optional().allow('')
+  });
+
+  private static categoryUpdateSchema = Joi.object({
+    name: Joi.string().trim().min(1).max(50).optional(),
+    icon: Joi.string().max(50).optional(),
+    color: Joi.string().pattern(/^#[0-9A-Fa-f]{6}$/).optional(),
+    description: Joi.string().max(500).optional().allow('')
+  }).min(1);
+
+  private static categoryOrderSchema = Joi.object({
+    category_ids: Joi.array().items(Joi.number().integer().positive()).min(1).max(200).unique().required()
+  });
+
+  private static categoryMergeSchema = Joi.object({
+    target_category_id: Joi.number().integer().positive().required()
+  });
+
+  private static categoryDeleteQuerySchema = Joi.object({
+    reassign_to: Joi.number().integer().positive().optional()
+  });
+
+  // Household validation schemas
+  private static householdCreationSchema = Joi.object({
+    name: Joi.string().trim().min(1).max(100).required()
+  });
+
+  private static householdInviteSchema = Joi.object({
+    email: Joi.string().email().required(),
+    role: Joi.string().valid('member', 'viewer').default('member')
+  });
+
+  private static householdMemberRoleSchema = Joi.object({
+    role: Joi.string().valid('owner', 'member', 'viewer').required()
+  });
+
+  // Admin validation schemas
+  private static adminUserSearchSchema = Joi.object({
+    q: Joi.string().max(100).optional().allow(''),
+    include_inactive: Joi.boolean().optional(),
+    page: Joi.number().integer().min(1).optional(),
+    per_page: Joi.number().integer().min(1).max(100).optional()
+  });
+
+  private static userRolesSchema = Joi.object({
+    roles: Joi.array().items(Joi.string().valid('user', 'admin')).unique().required()
+  });
+
+  // Audit log validation schemas
+  private static auditQuerySchema = Joi.object({
+    entity_type: Joi.string().max(50).optional(),
+    entity_id: Joi.number().integer().positive().optional(),
+    action: Joi.string().max(50).optional(),
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    page: Joi.number().integer().min(1).optional(),
+    per_page: Joi.number().integer().min(1).max(100).optional()
+  });
+
   private static searchSchema = Joi.object({
     q: Joi.string().min(2).max(100).required()
   });
@@ -215,6 +500,49 @@ export class ValidationMiddleware {
     next();
   };
 
+  // Two-factor validation middleware
+  static validateTwoFactorLogin = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.twoFactorLoginSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateTwoFactorEnable = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.twoFactorEnableSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateTwoFactorPassword = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.twoFactorPasswordSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
   // Food validation middleware
   static validateFoodCreation = (req: Request, res: Response, next: NextFunction): void => {
     const { error, errors } = ValidationMiddleware.validate(
@@ -258,6 +586,20 @@ export class ValidationMiddleware {
     next();
   };
 
+  static validateFoodVersion = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.foodVersionSchema,
+      req.body || {}
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
   static validateBulkConsume = (req: Request, res: Response, next: NextFunction): void => {
     const { error, errors } = ValidationMiddleware.validate(
       ValidationMiddleware.bulkConsumeSchema,
@@ -272,9 +614,9 @@ export class ValidationMiddleware {
     next();
   };
 
-  static validateSearch = (req: Request, res: Response, next: NextFunction): void => {
+  static validateAnalyticsQuery = (req: Request, res: Response, next: NextFunction): void => {
     const { error, errors } = ValidationMiddleware.validate(
-      ValidationMiddleware.searchSchema,
+      ValidationMiddleware.analyticsQuerySchema,
       req.query
     );
 
@@ -286,13 +628,482 @@ export class ValidationMiddleware {
     next();
   };
 
-  // Generic ID parameter validation
-  static validateIdParam = (req: Request, res: Response, next: NextFunction): void => {
-    const { id } = req.params;
-    const numericId = parseInt(id);
+  static validateFoodConsumption = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.foodConsumptionSchema,
+      req.body
+    );
 
-    if (isNaN(numericId) || numericId <= 0) {
-      ValidationMiddleware.handleValidationError(res, 'Invalid ID parameter');
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateBarcodeScan = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.barcodeScanSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  // Recipe validation middleware
+  static validateRecipeCreation = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.recipeCreationSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  // Shopping list validation middleware
+  static validateShoppingListCreation = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.shoppingListCreationSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateShoppingListUpdate = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.shoppingListUpdateSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateShoppingListGenerate = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.shoppingListGenerateSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateShoppingItem = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.shoppingItemSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateShoppingItemUpdate = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.shoppingItemUpdateSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateShoppingItemPurchased = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.shoppingItemPurchasedSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  // Meal plan validation middleware
+  static validateMealPlanCreation = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.mealPlanCreationSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateMealPlanUpdate = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.mealPlanUpdateSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateMealPlanAuto = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.mealPlanAutoSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateMealPlanShoppingList = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.mealPlanShoppingListSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateMealPlanQuery = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.mealPlanQuerySchema,
+      req.query
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  // Preference validation middleware
+  static validatePreferencesUpdate = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.preferencesUpdateSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  // Push subscription validation middleware
+  static validatePushSubscription = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.pushSubscriptionSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validatePushUnsubscribe = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.pushUnsubscribeSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  // Storage tip validation middleware
+  static validateStorageTipCreation = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.storageTipCreationSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateStorageTipUpdate = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.storageTipUpdateSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateStorageTipImport = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.storageTipImportSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  // Category validation middleware
+  static validateCategoryCreation = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.categoryCreationSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateCategoryUpdate = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.categoryUpdateSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateCategoryOrder = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.categoryOrderSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateCategoryMerge = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.categoryMergeSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateCategoryDeleteQuery = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.categoryDeleteQuerySchema,
+      req.query
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  // Household validation middleware
+  static validateHouseholdCreation = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.householdCreationSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateHouseholdInvite = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.householdInviteSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateHouseholdMemberRole = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.householdMemberRoleSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  // Admin validation middleware
+  static validateAdminUserSearch = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.adminUserSearchSchema,
+      req.query
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateUserRoles = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.userRolesSchema,
+      req.body
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  // Audit log validation middleware
+  static validateAuditQuery = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.auditQuerySchema,
+      req.query
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  static validateSearch = (req: Request, res: Response, next: NextFunction): void => {
+    const { error, errors } = ValidationMiddleware.validate(
+      ValidationMiddleware.searchSchema,
+      req.query
+    );
+
+    if (error) {
+      ValidationMiddleware.handleValidationError(res, error, errors);
+      return;
+    }
+
+    next();
+  };
+
+  // Generic ID parameter validation
+  static validateIdParam = (req: Request, res: Response, next: NextFunction): void => {
+    const { id } = req.params;
+    const numericId = parseInt(id);
+
+    if (isNaN(numericId) || numericId <= 0) {
+      ValidationMiddleware.handleValidationError(res, 'Invalid ID parameter');
+      return;
+    }
+
+    next();
+  };
+
+  static validateSessionIdParam = (req: Request, res: Response, next: NextFunction): void => {
+    const { id } = req.params;
+
+    if (!id || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+      ValidationMiddleware.handleValidationError(res, 'Invalid session ID');
       return;
     }
 
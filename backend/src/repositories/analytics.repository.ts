@@ -0,0 +1,118 @@
+import { BaseRepository } from './base.repository';
+import {
+  Food,
+  AnalyticsGranularity,
+  WasteBreakdown,
+  WasteTimeSeriesPoint,
+  FoodAnalytics
+} from '@shared/types';
+
+// Foods that left the inventory inside [$2, $3] (dates, inclusive) for the users in $1
+const FINISHED_FOODS_CTE = `
+  finished AS (
+    SELECT f.*
+    FROM foods f
+    WHERE f.user_id = ANY($1)
+      AND f.status IN ('consumed', 'expired', 'disposed')
+      AND f.status_changed_at >= $2::date
+      AND f.status_changed_at < $3::date + INTERVAL '1 day'
+  )
+`;
+
+const BREAKDOWN_COLUMNS = `
+  COUNT(f.id) FILTER (WHERE f.status = 'consumed')::int as consumed,
+  COUNT(f.id) FILTER (WHERE f.status = 'expired')::int as expired,
+  COUNT(f.id) FILTER (WHERE f.status = 'disposed')::int as disposed,
+  COALESCE(SUM(f.price) FILTER (WHERE f.status IN ('expired', 'disposed')), 0)::float as money_wasted
+`;
+
+export class AnalyticsRepository extends BaseRepository<Food> {
+  constructor() {
+    super('foods');
+  }
+
+  async getWasteTotals(
+    userIds: number[],
+    from: string,
+    to: string
+  ): Promise<WasteBreakdown & { money_saved: number; priced_items: number }> {
+    const query = `
+      WITH ${FINISHED_FOODS_CTE}
+      SELECT
+        ${BREAKDOWN_COLUMNS},
+        COALESCE(SUM(f.price) FILTER (WHERE f.status = 'consumed'), 0)::float as money_saved,
+        COUNT(f.id) FILTER (WHERE f.price IS NOT NULL)::int as priced_items
+      FROM finished f
+    `;
+
+    const result = await this.executeQuery(query, [userIds, from, to]);
+    return result[0] || { consumed: 0, expired: 0, disposed: 0, money_wasted: 0, money_saved: 0, priced_items: 0 };
+  }
+
+  async getWasteTimeSeries(
+    userIds: number[],
+    from: string,
+    to: string,
+    granularity: AnalyticsGranularity
+  ): Promise<WasteTimeSeriesPoint[]> {
+    // generate_series keeps empty periods in the result so charts have no gaps
+    const query = `
+      WITH ${FINISHED_FOODS_CTE},
+      periods AS (
+        SELECT generate_series(
+          date_trunc($4::text, $2::date),
+          date_trunc($4::text, $3::date),
+          ('1 ' || $4::text)::interval
+        )::date as period_start
+      )
+      SELECT
+        to_char(p.period_start, 'YYYY-MM-DD') as period_start,
+        ${BREAKDOWN_COLUMNS}
+      FROM periods p
+      LEFT JOIN finished f ON date_trunc($4::text, f.status_changed_at)::date = p.period_start
+      GROUP BY p.period_start
+      ORDER BY p.period_start ASC
+    `;
+
+    return this.executeQuery<WasteTimeSeriesPoint>(query, [userIds, from, to, granularity]);
+  }
+
+  async getWasteByCategory(userIds: number[], from: string, to: string): Promise<FoodAnalytics['by_category']> {
+    const query = `
+      WITH ${FINISHED_FOODS_CTE}
+      SELECT
+        c.id as category_id,
+        c.name as category_name,
+        c.icon as category_icon,
+        ${BREAKDOWN_COLUMNS}
+      FROM finished f
+      JOIN categories c ON f.category_id = c.id
+      GROUP BY c.id, c.name, c.icon
+      ORDER BY
+        COUNT(f.id) FILTER (WHERE f.status IN ('expired', 'disposed')) DESC,
+        c.name ASC
+    `;
+
+    return this.executeQuery(query, [userIds, from, to]);
+  }
+
+  async getWasteByStorageLocation(
+    userIds: number[],
+    from: string,
+    to: string
+  ): Promise<FoodAnalytics['by_storage_location']> {
+    const query = `
+      WITH ${FINISHED_FOODS_CTE}
+      SELECT
+        COALESCE(f.storage_location, 'その他') as storage_location,
+        ${BREAKDOWN_COLUMNS}
+      FROM finished f
+      GROUP BY COALESCE(f.storage_location, 'その他')
+      ORDER BY
+        COUNT(f.id) FILTER (WHERE f.status IN ('expired', 'disposed')) DESC,
+        storage_location ASC
+    `;
+
+    return this.executeQuery(query, [userIds, from, to]);
+  }
+}
@@ -0,0 +1,105 @@
+import { BaseRepository } from './base.repository';
+import { AuditLog, AuditLogFilterOptions, PaginatedResponse } from '@shared/types';
+
+export class AuditRepository extends BaseRepository<AuditLog> {
+  constructor() {
+    super('audit_logs');
+  }
+
+  async log(entry: Omit<AuditLog, 'id' | 'created_at' | 'username'>): Promise<void> {
+    const query = `
+      INSERT INTO ${this.tableName} (
+        user_id, action, entity_type, entity_id,
+        old_values, new_values, ip_address, user_agent
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `;
+
+    await this.executeQuery(query, [
+      entry.user_id,
+      entry.action,
+      entry.entity_type,
+      entry.entity_id,
+      entry.old_values ? JSON.stringify(entry.old_values) : null,
+      entry.new_values ? JSON.stringify(entry.new_values) : null,
+      entry.ip_address,
+      entry.user_agent
+    ]);
+  }
+
+  // The user's own rows, plus other members' rows on the given entity types
+  async findVisibleWithPagination(
+    userId: number,
+    memberIds: number[],
+    sharedEntityTypes: string[],
+    options: AuditLogFilterOptions = {}
+  ): Promise<PaginatedResponse<AuditLog>> {
+    const conditions: string[] = ['(a.user_id = $1 OR (a.user_id = ANY($2) AND a.entity_type = ANY($3)))'];
+    const params: any[] = [userId, memberIds, sharedEntityTypes];
+
+    if (options.entity_type) {
+      conditions.push(`a.entity_type = $${params.length + 1}`);
+      params.push(options.entity_type);
+    }
+
+    if (options.entity_id !== undefined) {
+      conditions.push(`a.entity_id = $${params.length + 1}`);
+      params.push(options.entity_id);
+    }
+
+    if (options.action) {
+      conditions.push(`a.action = $${params.length + 1}`);
+      params.push(options.action);
+    }
+
+    if (options.from) {
+      conditions.push(`a.created_at >= $${params.length + 1}::date`);
+      params.push(options.from);
+    }
+
+    if (options.to) {
+      // Inclusive upper bound: the whole "to" day is part of the range
+      conditions.push(`a.created_at < $${params.length + 1}::date + INTERVAL '1 day'`);
+      params.push(options.to);
+    }
+
+    const baseQuery = `
+      FROM ${this.tableName} a
+      LEFT JOIN users u ON a.user_id = u.id
+      WHERE ${conditions.join(' AND ')}
+    `;
+
+    // Count total records
+    const countQuery = `SELECT COUNT(*) ${baseQuery}`;
+    const countResult = await this.executeQuery<{ count: string }>(countQuery, params);
+    const totalCount = parseInt(countResult[0]?.count || '0');
+
+    // Get paginated results
+    const page = options.page || 1;
+    const perPage = options.per_page || 50;
+    const offset = (page - 1) * perPage;
+
+    const dataQuery = `
+      SELECT
+        a.*,
+        u.username
+      ${baseQuery}
+      ORDER BY a.created_at DESC, a.id DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+    `;
+
+    const dataResult = await this.executeQuery<AuditLog>(dataQuery, [...params, perPage, offset]);
+
+    const totalPages = Math.ceil(totalCount / perPage);
+
+    return {
+      items: dataResult,
+      total_count: totalCount,
+      page,
+      per_page: perPage,
+      total_pages: totalPages,
+      has_next: page < totalPages,
+      has_prev: page > 1
+    };
+  }
+}
@@ -1,67 +1,170 @@
 import { BaseRepository } from './base.repository';
-import { Category } from '@shared/types';
+import { Category, CategoryStats } from '@shared/types';
 
 export class CategoryRepository extends BaseRepository<Category> {
   constructor() {
     super('categories');
   }
 
+  // Built-in categories only; custom ones are looked up through findVisible
   async findActive(): Promise<Category[]> {
     const query = `
       SELECT * FROM ${this.tableName}
-      WHERE is_active = TRUE
+      WHERE is_active = TRUE AND user_id IS NULL
       ORDER BY name ASC
     `;
 
     return this.executeQuery<Category>(query);
   }
 
+  // Built-in categories plus the custom ones created by any of userIds,
+  // in viewerId's own order when they have saved one
+  async findVisible(userIds: number[], viewerId: number): Promise<Category[]> {
+    const query = `
+      SELECT c.*
+      FROM ${this.tableName} c
+      LEFT JOIN category_orders co ON co.category_id = c.id AND co.user_id = $2
+      WHERE c.is_active = TRUE AND (c.user_id IS NULL OR c.user_id = ANY($1))
+      ORDER BY co.sort_order ASC NULLS LAST, c.user_id NULLS FIRST, c.sort_order ASC, c.name ASC
+    `;
+
+    return this.executeQuery<Category>(query, [userIds, viewerId]);
+  }
+
+  async findVisibleById(id: number, userIds: number[]): Promise<Category | null> {
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE id = $1 AND is_active = TRUE AND (user_id IS NULL OR user_id = ANY($2))
+    `;
+
+    const result = await this.executeQuery<Category>(query, [id, userIds]);
+    return result[0] || null;
+  }
+
   async findByName(name: string): Promise<Category | null> {
     return this.findOneByField('name', name);
   }
 
+  // Name clash check against everything the household can already see
+  async findVisibleByName(name: string, userIds: number[]): Promise<Category | null> {
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE LOWER(name) = LOWER($1) AND is_active = TRUE AND (user_id IS NULL OR user_id = ANY($2))
+      LIMIT 1
+    `;
+
+    const result = await this.executeQuery<Category>(query, [name, userIds]);
+    return result[0] || null;
+  }
+
   async searchByName(searchTerm: string): Promise<Category[]> {
     const query = `
       SELECT * FROM ${this.tableName}
-      WHERE name ILIKE $1 AND is_active = TRUE
+      WHERE name ILIKE $1 AND is_active = TRUE AND user_id IS NULL
       ORDER BY name ASC
     `;
 
     return this.executeQuery<Category>(query, [`%${searchTerm}%`]);
   }
 
-  async getCategoryStats(): Promise<Array<{
-    id: number;
-    name: string;
-    icon: string;
-    color: string;
-    food_count: number;
-  }>> {
+  // Without userIds this covers the built-in categories across every user's foods
+  async getCategoryStats(userIds?: number[]): Promise<CategoryStats[]> {
     const query = `
       SELECT
         c.id,
         c.name,
         c.icon,
         c.color,
-        COUNT(f.id) as food_count
+        COUNT(f.id)::int as food_count
       FROM categories c
       LEFT JOIN foods f ON c.id = f.category_id AND f.status = 'active'
-      WHERE c.is_active = TRUE
+        ${userIds ? 'AND f.user_id = ANY($1)' : ''}
+      WHERE c.is_active = TRUE AND (c.user_id IS NULL ${userIds ? 'OR c.user_id = ANY($1)' : ''})
       GROUP BY c.id, c.name, c.icon, c.color
       ORDER BY food_count DESC, c.name ASC
     `;
 
-    return this.executeQuery(query);
+    return this.executeQuery<CategoryStats>(query, userIds ? [userIds] : []);
   }
 
-  async getFoodCountByCategory(categoryId: number): Promise<number> {
+  async getFoodCountByCategory(categoryId: number, userIds?: number[]): Promise<number> {
     const query = `
       SELECT COUNT(*) as count
       FROM foods
       WHERE category_id = $1 AND status = 'active'
+        ${userIds ? 'AND user_id = ANY($2)' : ''}
+    `;
+
+    const result = await this.executeQuery<{ count: string }>(query, userIds ? [categoryId, userIds] : [categoryId]);
+    return parseInt(result[0]?.count || '0');
+  }
+
+  // Every food row pointing at the category, whatever its status or owner;
+  // any of them blocks deletion through the foreign key
+  async countFoodReferences(categoryId: number): Promise<number> {
+    const query = `
+      SELECT COUNT(*) as count
+      FROM foods
+      WHERE category_id = $1
     `;
 
     const result = await this.executeQuery<{ count: string }>(query, [categoryId]);
     return parseInt(result[0]?.count || '0');
   }
+
+  async getNextSortOrder(userId: number): Promise<number> {
+    const query = `
+      SELECT COALESCE(MAX(sort_order), 0) + 1 as next
+      FROM ${this.tableName}
+      WHERE user_id IS NULL OR user_id = $1
+    `;
+
+    const result = await this.executeQuery<{ next: number }>(query, [userId]);
+    return result[0]?.next || 1;
+  }
+
+  async saveOrder(userId: number, categoryIds: number[]): Promise<void> {
+    await this.executeTransaction(async client => {
+      await client.query('DELETE FROM category_orders WHERE user_id = $1', [userId]);
+
+      if (categoryIds.length > 0) {
+        await client.query(
+          `
+            INSERT INTO category_orders (user_id, category_id, sort_order)
+            SELECT $1, category_id, position
+            FROM unnest($2::int[]) WITH ORDINALITY AS t(category_id, position)
+          `,
+          [userId, categoryIds]
+        );
+      }
+    });
+  }
+
+  // Moves every food (and catalog entry) from the source category to the target and
+  // removes the source, all or nothing. Returns the number of foods reassigned.
+  async mergeInto(sourceId: number, targetId: number): Promise<number> {
+    return this.executeTransaction(async client => {
+      const foodsResult = await client.query(
+        `
+          UPDATE foods
+          SET category_id = $2, updated_at = NOW()
+          WHERE category_id = $1
+        `,
+        [sourceId, targetId]
+      );
+
+      await client.query(
+        `
+          UPDATE product_catalog
+          SET category_id = $2
+          WHERE category_id = $1
+        `,
+        [sourceId, targetId]
+      );
+
+      await client.query(`DELETE FROM ${this.tableName} WHERE id = $1`, [sourceId]);
+
+      return foodsResult.rowCount || 0;
+    });
+  }
 }
\ No newline at end of file
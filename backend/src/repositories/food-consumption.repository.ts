@@ -0,0 +1,112 @@
+import { BaseRepository } from './base.repository';
+import { Food, FoodConsumption, FoodUnit } from '@shared/types';
+
+export class FoodConsumptionRepository extends BaseRepository<FoodConsumption> {
+  constructor() {
+    super('food_consumptions');
+  }
+
+  // Decrements the food and records the event atomically. Returns null when the food is no
+  // longer active, has less left than requested (e.g. a concurrent consumption won the race) or,
+  // with expectedUpdatedAt, was changed since that version (see FoodRepository.updateIfUnchanged).
+  // Access to the food must be checked by the caller; userId is the consumer.
+  async consume(
+    foodId: number,
+    userId: number,
+    quantity: number,
+    unit: FoodUnit,
+    foodQuantity: number,
+    expectedUpdatedAt: string | null = null
+  ): Promise<{ food: Food; consumption: FoodConsumption } | null> {
+    return this.executeTransaction(async client => {
+      const foodResult = await client.query(
+        `
+          UPDATE foods
+          SET
+            quantity = GREATEST(quantity - $2, 0),
+            status = CASE WHEN quantity - $2 <= 0 THEN 'consumed' ELSE status END,
+            updated_at = NOW()
+          WHERE id = $1 AND status = 'active' AND quantity >= $2
+            AND ($3::timestamptz IS NULL OR date_trunc('milliseconds', updated_at) = $3::timestamptz)
+          RETURNING *
+        `,
+        [foodId, foodQuantity, expectedUpdatedAt]
+      );
+
+      const food: Food | undefined = foodResult.rows[0];
+      if (!food) {
+        return null;
+      }
+
+      const consumptionResult = await client.query(
+        `
+          INSERT INTO ${this.tableName} (food_id, user_id, quantity, unit, food_quantity, remaining_quantity)
+          VALUES ($1, $2, $3, $4, $5, $6)
+          RETURNING *
+        `,
+        [foodId, userId, quantity, unit, foodQuantity, food.quantity]
+      );
+
+      return { food, consumption: consumptionResult.rows[0] };
+    });
+  }
+
+  // Records whatever is left of each food owned by one of ownerIds as a final
+  // consumption by consumerId and marks it consumed. With expectedUpdatedAt (single food
+  // only) nothing happens unless the food is still at that version.
+  async consumeRemaining(
+    foodIds: number[],
+    ownerIds: number[],
+    consumerId: number,
+    expectedUpdatedAt: string | null = null
+  ): Promise<Food[]> {
+    if (foodIds.length === 0) return [];
+
+    return this.executeTransaction(async client => {
+      // Lock the rows first so the recorded quantities are the ones being zeroed
+      const locked = await client.query(
+        `
+          SELECT id FROM foods
+          WHERE id = ANY($1) AND user_id = ANY($2) AND status <> 'consumed'
+            AND ($3::timestamptz IS NULL OR date_trunc('milliseconds', updated_at) = $3::timestamptz)
+          FOR UPDATE
+        `,
+        [foodIds, ownerIds, expectedUpdatedAt]
+      );
+      const lockedIds: number[] = locked.rows.map((row: { id: number }) => row.id);
+      if (lockedIds.length === 0) return [];
+
+      await client.query(
+        `
+          INSERT INTO ${this.tableName} (food_id, user_id, quantity, unit, food_quantity, remaining_quantity)
+          SELECT id, $2, quantity, unit, quantity, 0
+          FROM foods
+          WHERE id = ANY($1) AND quantity > 0
+        `,
+        [lockedIds, consumerId]
+      );
+
+      const result = await client.query(
+        `
+          UPDATE foods
+          SET quantity = 0, status = 'consumed', updated_at = NOW()
+          WHERE id = ANY($1)
+          RETURNING *
+        `,
+        [lockedIds]
+      );
+
+      return result.rows;
+    });
+  }
+
+  async findByFoodId(foodId: number): Promise<FoodConsumption[]> {
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE food_id = $1
+      ORDER BY consumed_at DESC, id DESC
+    `;
+
+    return this.executeQuery<FoodConsumption>(query, [foodId]);
+  }
+}
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { BaseRepository } from './base.repository';
-import { Food, FoodFilterOptions, PaginatedResponse } from '@shared/types';
+import { Food, FoodFilterOptions, FoodStats, PaginatedResponse } from '@shared/types';
 import { DateUtils } from '@shared/utils';
 
 interface FoodWithCategory extends Food {
@@ -13,8 +13,8 @@ export class FoodRepository extends BaseRepository<Food> {
     super('foods');
   }
 
-  async findByUserId(userId: number, options?: FoodFilterOptions): Promise<Food[]> {
-    const { whereClause, params } = this.buildFoodFilterQuery(userId, options);
+  async findByUserIds(userIds: number[], options?: FoodFilterOptions): Promise<Food[]> {
+    const { whereClause, params } = this.buildFoodFilterQuery(userIds, options);
 
     const query = `
       SELECT
@@ -31,11 +31,11 @@ export class FoodRepository extends BaseRepository<Food> {
     return this.executeQuery<FoodWithCategory>(query, params);
   }
 
-  async findByUserIdWithPagination(
-    userId: number,
+  async findByUserIdsWithPagination(
+    userIds: number[],
     options: FoodFilterOptions & { page?: number; per_page?: number } = {}
   ): Promise<PaginatedResponse<FoodWithCategory>> {
-    const { whereClause, params } = this.buildFoodFilterQuery(userId, options);
+    const { whereClause, params } = this.buildFoodFilterQuery(userIds, options);
 
     const baseQuery = `
       FROM foods f
@@ -82,7 +82,7 @@ export class FoodRepository extends BaseRepository<Food> {
     };
   }
 
-  async findExpiringFoods(userId: number, daysThreshold: number = 3): Promise<FoodWithCategory[]> {
+  async findExpiringFoods(userIds: number[], daysThreshold: number = 3): Promise<FoodWithCategory[]> {
     const query = `
       SELECT
         f.*,
@@ -91,16 +91,16 @@ export class FoodRepository extends BaseRepository<Food> {
         c.color as category_color
       FROM foods f
       LEFT JOIN categories c ON f.category_id = c.id
-      WHERE f.user_id = $1
+      WHERE f.user_id = ANY($1)
         AND f.status = 'active'
         AND is_food_expiring_soon(f.expiry_date, $2)
       ORDER BY f.expiry_date ASC
     `;
 
-    return this.executeQuery<FoodWithCategory>(query, [userId, daysThreshold]);
+    return this.executeQuery<FoodWithCategory>(query, [userIds, daysThreshold]);
   }
 
-  async findExpiredFoods(userId: number): Promise<FoodWithCategory[]> {
+  async findExpiredFoods(userIds: number[]): Promise<FoodWithCategory[]> {
     const query = `
       SELECT
         f.*,
@@ -109,13 +109,26 @@ export class FoodRepository extends BaseRepository<Food> {
         c.color as category_color
       FROM foods f
       LEFT JOIN categories c ON f.category_id = c.id
-      WHERE f.user_id = $1
+      WHERE f.user_id = ANY($1)
         AND f.status = 'active'
         AND is_food_expired(f.expiry_date)
       ORDER BY f.expiry_date ASC
     `;
 
-    return this.executeQuery<FoodWithCategory>(query, [userId]);
+    return this.executeQuery<FoodWithCategory>(query, [userIds]);
+  }
+
+  async markPastDueAsExpired(userId: number): Promise<Food[]> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET status = 'expired', updated_at = NOW()
+      WHERE user_id = $1
+        AND status = 'active'
+        AND is_food_expired(expiry_date)
+      RETURNING *
+    `;
+
+    return this.executeQuery<Food>(query, [userId]);
   }
 
   async findByStorageLocation(userId: number, storageLocation: string): Promise<Food[]> {
@@ -138,8 +151,56 @@ export class FoodRepository extends BaseRepository<Food> {
     return this.executeQuery<Food>(query, [userId, categoryId]);
   }
 
-  async findByBarcode(barcode: string): Promise<Food[]> {
-    return this.findByField('barcode', barcode);
+  async findByBarcode(barcode: string, userIds: number[]): Promise<Food[]> {
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE barcode = $1 AND user_id = ANY($2)
+      ORDER BY purchase_date DESC, created_at DESC
+    `;
+
+    return this.executeQuery<Food>(query, [barcode, userIds]);
+  }
+
+  async findByName(name: string, userIds: number[]): Promise<Food[]> {
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE LOWER(name) = LOWER($1) AND user_id = ANY($2)
+      ORDER BY purchase_date DESC, created_at DESC
+      LIMIT 10
+    `;
+
+    return this.executeQuery<Food>(query, [name, userIds]);
+  }
+
+  // Applies the update only while updated_at still matches the version the client last saw, so a
+  // concurrent write makes this return null instead of being overwritten. pg hands timestamps to
+  // JS with millisecond precision, hence the truncation.
+  async updateIfUnchanged(id: number, data: Partial<Food>, expectedUpdatedAt: string): Promise<Food | null> {
+    const columns = Object.keys(data);
+    const values = Object.values(data);
+    const versionCondition = `id = $1 AND date_trunc('milliseconds', updated_at) = $2::timestamptz`;
+
+    if (columns.length === 0) {
+      const result = await this.executeQuery<Food>(
+        `SELECT * FROM ${this.tableName} WHERE ${versionCondition}`,
+        [id, expectedUpdatedAt]
+      );
+      return result[0] || null;
+    }
+
+    const setClause = columns
+      .map((col, index) => `${col} = $${index + 3}`)
+      .join(', ');
+
+    const query = `
+      UPDATE ${this.tableName}
+      SET ${setClause}
+      WHERE ${versionCondition}
+      RETURNING *
+    `;
+
+    const result = await this.executeQuery<Food>(query, [id, expectedUpdatedAt, ...values]);
+    return result[0] || null;
   }
 
   async updateStatus(id: number, status: Food['status'], userId: number): Promise<Food | null> {
@@ -166,22 +227,7 @@ export class FoodRepository extends BaseRepository<Food> {
     return this.updateStatus(id, 'disposed', userId);
   }
 
-  async getInventoryStats(userId: number): Promise<{
-    total: number;
-    active: number;
-    expiring_soon: number;
-    expired: number;
-    consumed: number;
-    by_category: Array<{
-      category_name: string;
-      category_icon: string;
-      count: number;
-    }>;
-    by_storage: Array<{
-      storage_location: string;
-      count: number;
-    }>;
-  }> {
+  async getInventoryStats(userIds: number[]): Promise<FoodStats> {
     const statsQuery = `
       WITH food_stats AS (
         SELECT
@@ -191,7 +237,15 @@ export class FoodRepository extends BaseRepository<Food> {
           COUNT(*) FILTER (WHERE status = 'active' AND is_food_expired(expiry_date)) as expired,
           COUNT(*) FILTER (WHERE status = 'consumed') as consumed
         FROM foods
-        WHERE user_id = $1
+        WHERE user_id = ANY($1)
+      ),
+      consumption_stats AS (
+        SELECT
+          COUNT(DISTINCT fc.food_id) FILTER (WHERE f.status = 'active') as partially_consumed,
+          COUNT(fc.id) FILTER (WHERE fc.consumed_at >= NOW() - INTERVAL '30 days') as consumption_events_last_30_days
+        FROM food_consumptions fc
+        JOIN foods f ON fc.food_id = f.id
+        WHERE f.user_id = ANY($1)
       ),
       category_stats AS (
         SELECT
@@ -199,7 +253,7 @@ export class FoodRepository extends BaseRepository<Food> {
           c.icon as category_icon,
           COUNT(f.id) as count
         FROM categories c
-        LEFT JOIN foods f ON c.id = f.category_id AND f.user_id = $1 AND f.status = 'active'
+        LEFT JOIN foods f ON c.id = f.category_id AND f.user_id = ANY($1) AND f.status = 'active'
         GROUP BY c.id, c.name, c.icon
         HAVING COUNT(f.id) > 0
         ORDER BY count DESC
@@ -209,24 +263,27 @@ export class FoodRepository extends BaseRepository<Food> {
           storage_location,
           COUNT(*) as count
         FROM foods
-        WHERE user_id = $1 AND status = 'active' AND storage_location IS NOT NULL
+        WHERE user_id = ANY($1) AND status = 'active' AND storage_location IS NOT NULL
         GROUP BY storage_location
         ORDER BY count DESC
       )
       SELECT
         (SELECT row_to_json(food_stats) FROM food_stats) as stats,
+        (SELECT row_to_json(consumption_stats) FROM consumption_stats) as consumption,
         COALESCE((SELECT json_agg(category_stats) FROM category_stats), '[]'::json) as by_category,
         COALESCE((SELECT json_agg(storage_stats) FROM storage_stats), '[]'::json) as by_storage
     `;
 
     const result = await this.executeQuery<{
       stats: any;
+      consumption: any;
       by_category: any;
       by_storage: any;
-    }>(statsQuery, [userId]);
+    }>(statsQuery, [userIds]);
 
     const data = result[0];
     const stats = data?.stats || {};
+    const consumption = data?.consumption || {};
 
     return {
       total: stats.total || 0,
@@ -234,12 +291,14 @@ export class FoodRepository extends BaseRepository<Food> {
       expiring_soon: stats.expiring_soon || 0,
       expired: stats.expired || 0,
       consumed: stats.consumed || 0,
+      partially_consumed: consumption.partially_consumed || 0,
+      consumption_events_last_30_days: consumption.consumption_events_last_30_days || 0,
       by_category: data?.by_category || [],
       by_storage: data?.by_storage || []
     };
   }
 
-  async searchFoodsByName(userId: number, searchTerm: string): Promise<FoodWithCategory[]> {
+  async searchFoodsByName(userIds: number[], searchTerm: string): Promise<FoodWithCategory[]> {
     const query = `
       SELECT
         f.*,
@@ -248,7 +307,7 @@ export class FoodRepository extends BaseRepository<Food> {
         c.color as category_color
       FROM foods f
       LEFT JOIN categories c ON f.category_id = c.id
-      WHERE f.user_id = $1
+      WHERE f.user_id = ANY($1)
         AND f.status = 'active'
         AND f.name ILIKE $2
       ORDER BY
@@ -257,24 +316,53 @@ export class FoodRepository extends BaseRepository<Food> {
     `;
 
     return this.executeQuery<FoodWithCategory>(query, [
-      userId,
+      userIds,
       `%${searchTerm}%`,
       `${searchTerm}%`
     ]);
   }
 
-  async getFoodIngredients(userId: number): Promise<string[]> {
+  async getFoodIngredients(userIds: number[]): Promise<string[]> {
     const query = `
       SELECT DISTINCT name
       FROM foods
-      WHERE user_id = $1 AND status = 'active'
+      WHERE user_id = ANY($1) AND status = 'active'
       ORDER BY name
     `;
 
-    const result = await this.executeQuery<{ name: string }>(query, [userId]);
+    const result = await this.executeQuery<{ name: string }>(query, [userIds]);
     return result.map(row => row.name);
   }
 
+  async getExpiringFoodNames(userIds: number[], daysThreshold: number = 3): Promise<string[]> {
+    const query = `
+      SELECT DISTINCT name
+      FROM foods
+      WHERE user_id = ANY($1) AND status = 'active'
+        AND is_food_expiring_soon(expiry_date, $2)
+      ORDER BY name
+    `;
+
+    const result = await this.executeQuery<{ name: string }>(query, [userIds, daysThreshold]);
+    return result.map(row => row.name);
+  }
+
+  async findLowStockFoods(
+    userIds: number[],
+    threshold: number = 1
+  ): Promise<Array<{ name: string; unit: string; quantity: number }>> {
+    const query = `
+      SELECT name, unit, SUM(quantity)::float as quantity
+      FROM foods
+      WHERE user_id = ANY($1) AND status = 'active'
+      GROUP BY name, unit
+      HAVING SUM(quantity) <= $2
+      ORDER BY name
+    `;
+
+    return this.executeQuery(query, [userIds, threshold]);
+  }
+
   async bulkUpdateStatus(ids: number[], status: Food['status'], userId: number): Promise<number> {
     if (ids.length === 0) return 0;
 
@@ -290,11 +378,11 @@ export class FoodRepository extends BaseRepository<Food> {
   }
 
   private buildFoodFilterQuery(
-    userId: number,
+    userIds: number[],
     options?: FoodFilterOptions
   ): { whereClause: string; params: any[] } {
-    const conditions: string[] = ['f.user_id = $1'];
-    const params: any[] = [userId];
+    const conditions: string[] = ['f.user_id = ANY($1)'];
+    const params: any[] = [userIds];
 
     if (options?.categories && options.categories.length > 0) {
       const placeholders = options.categories.map((_, i) => `$${params.length + i + 1}`).join(', ');
@@ -0,0 +1,222 @@
+import { BaseRepository } from './base.repository';
+import { Household, HouseholdInvitation, HouseholdMember, HouseholdRole } from '@shared/types';
+
+// Resources whose access is decided by the household of the user that created them
+const RESOURCE_OWNER_QUERIES = {
+  foods: 'SELECT user_id FROM foods WHERE id = $1',
+  shopping_lists: 'SELECT user_id FROM shopping_lists WHERE id = $1',
+  shopping_list_items: `
+    SELECT sl.user_id
+    FROM shopping_list_items sli
+    JOIN shopping_lists sl ON sl.id = sli.list_id
+    WHERE sli.id = $1
+  `,
+  meal_plans: 'SELECT user_id FROM meal_plans WHERE id = $1'
+};
+
+export type HouseholdResource = keyof typeof RESOURCE_OWNER_QUERIES;
+
+export class HouseholdRepository extends BaseRepository<Household> {
+  constructor() {
+    super('households');
+  }
+
+  async findMembership(userId: number): Promise<{ household_id: number; role: HouseholdRole } | null> {
+    const query = `
+      SELECT household_id, role
+      FROM household_members
+      WHERE user_id = $1
+    `;
+
+    const result = await this.executeQuery<{ household_id: number; role: HouseholdRole }>(query, [userId]);
+    return result[0] || null;
+  }
+
+  async findMemberIds(userId: number): Promise<number[]> {
+    const query = `
+      SELECT hm.user_id
+      FROM household_members hm
+      WHERE hm.household_id = (
+        SELECT household_id FROM household_members WHERE user_id = $1
+      )
+      ORDER BY hm.user_id
+    `;
+
+    const result = await this.executeQuery<{ user_id: number }>(query, [userId]);
+    return result.map(row => row.user_id);
+  }
+
+  async findMembers(householdId: number): Promise<HouseholdMember[]> {
+    const query = `
+      SELECT hm.user_id, u.username, u.email, hm.role, hm.joined_at
+      FROM household_members hm
+      JOIN users u ON u.id = hm.user_id
+      WHERE hm.household_id = $1
+      ORDER BY
+        CASE hm.role WHEN 'owner' THEN 1 WHEN 'member' THEN 2 ELSE 3 END,
+        hm.joined_at ASC
+    `;
+
+    return this.executeQuery<HouseholdMember>(query, [householdId]);
+  }
+
+  async createWithOwner(name: string, ownerId: number): Promise<Household> {
+    return this.executeTransaction(async client => {
+      const householdResult = await client.query(
+        `
+          INSERT INTO households (name, created_by)
+          VALUES ($1, $2)
+          RETURNING *
+        `,
+        [name, ownerId]
+      );
+
+      const household: Household = householdResult.rows[0];
+
+      await client.query(
+        `
+          INSERT INTO household_members (household_id, user_id, role)
+          VALUES ($1, $2, 'owner')
+        `,
+        [household.id, ownerId]
+      );
+
+      return household;
+    });
+  }
+
+  async addMember(householdId: number, userId: number, role: HouseholdRole): Promise<void> {
+    const query = `
+      INSERT INTO household_members (household_id, user_id, role)
+      VALUES ($1, $2, $3)
+    `;
+
+    await this.executeQuery(query, [householdId, userId, role]);
+  }
+
+  async updateMemberRole(householdId: number, userId: number, role: HouseholdRole): Promise<boolean> {
+    const query = `
+      UPDATE household_members
+      SET role = $3
+      WHERE household_id = $1 AND user_id = $2
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery(query, [householdId, userId, role]);
+    return result.length > 0;
+  }
+
+  async removeMember(householdId: number, userId: number): Promise<boolean> {
+    const query = `
+      DELETE FROM household_members
+      WHERE household_id = $1 AND user_id = $2
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery(query, [householdId, userId]);
+    return result.length > 0;
+  }
+
+  async createInvitation(
+    householdId: number,
+    email: string,
+    role: HouseholdInvitation['role'],
+    tokenHash: string,
+    invitedBy: number,
+    expiresAt: Date
+  ): Promise<HouseholdInvitation> {
+    const query = `
+      INSERT INTO household_invitations (household_id, email, role, token_hash, invited_by, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id, household_id, email, role, invited_by, expires_at, accepted_at, created_at
+    `;
+
+    const result = await this.executeQuery<HouseholdInvitation>(query, [
+      householdId,
+      email,
+      role,
+      tokenHash,
+      invitedBy,
+      expiresAt
+    ]);
+    return result[0];
+  }
+
+  async findInvitationByTokenHash(tokenHash: string): Promise<HouseholdInvitation | null> {
+    const query = `
+      SELECT id, household_id, email, role, invited_by, expires_at, accepted_at, created_at
+      FROM household_invitations
+      WHERE token_hash = $1
+    `;
+
+    const result = await this.executeQuery<HouseholdInvitation>(query, [tokenHash]);
+    return result[0] || null;
+  }
+
+  async findPendingInvitations(filter: { householdId?: number; email?: string }): Promise<HouseholdInvitation[]> {
+    const conditions = ['hi.accepted_at IS NULL', 'hi.expires_at > NOW()'];
+    const params: any[] = [];
+
+    if (filter.householdId !== undefined) {
+      conditions.push(`hi.household_id = $${params.length + 1}`);
+      params.push(filter.householdId);
+    }
+
+    if (filter.email) {
+      conditions.push(`LOWER(hi.email) = LOWER($${params.length + 1})`);
+      params.push(filter.email);
+    }
+
+    const query = `
+      SELECT
+        hi.id, hi.household_id, hi.email, hi.role, hi.invited_by,
+        hi.expires_at, hi.accepted_at, hi.created_at,
+        h.name as household_name,
+        u.username as invited_by_username
+      FROM household_invitations hi
+      JOIN households h ON h.id = hi.household_id
+      LEFT JOIN users u ON u.id = hi.invited_by
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY hi.created_at DESC
+    `;
+
+    return this.executeQuery<HouseholdInvitation>(query, params);
+  }
+
+  async acceptInvitation(invitationId: number, householdId: number, userId: number, role: HouseholdRole): Promise<void> {
+    await this.executeTransaction(async client => {
+      await client.query(
+        `
+          INSERT INTO household_members (household_id, user_id, role)
+          VALUES ($1, $2, $3)
+        `,
+        [householdId, userId, role]
+      );
+
+      await client.query(
+        `
+          UPDATE household_invitations
+          SET accepted_at = NOW()
+          WHERE id = $1
+        `,
+        [invitationId]
+      );
+    });
+  }
+
+  async deleteInvitation(invitationId: number, householdId: number): Promise<boolean> {
+    const query = `
+      DELETE FROM household_invitations
+      WHERE id = $1 AND household_id = $2
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery(query, [invitationId, householdId]);
+    return result.length > 0;
+  }
+
+  async findResourceOwnerId(resource: HouseholdResource, id: number): Promise<number | null> {
+    const result = await this.executeQuery<{ user_id: number }>(RESOURCE_OWNER_QUERIES[resource], [id]);
+    return result[0]?.user_id ?? null;
+  }
+}
\ No newline at end of file
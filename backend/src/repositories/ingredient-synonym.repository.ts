@@ -0,0 +1,17 @@
+import { BaseRepository } from './base.repository';
+import { IngredientSynonym } from '@shared/types';
+
+export class IngredientSynonymRepository extends BaseRepository<IngredientSynonym> {
+  constructor() {
+    super('ingredient_synonyms');
+  }
+
+  async findAllSynonyms(): Promise<IngredientSynonym[]> {
+    const query = `
+      SELECT * FROM ${this.tableName}
+      ORDER BY canonical_name ASC, synonym ASC
+    `;
+
+    return this.executeQuery<IngredientSynonym>(query);
+  }
+}
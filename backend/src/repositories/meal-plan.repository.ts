@@ -0,0 +1,245 @@
+import { BaseRepository } from './base.repository';
+import {
+  MealPlan,
+  MealPlanIngredient,
+  MealSlot
+} from '@shared/types';
+
+export interface MealPlanDraft {
+  planned_date: string;
+  meal_slot: MealSlot;
+  recipe_id: number;
+  servings: number;
+  notes?: string;
+  missing_ingredients: MealPlanIngredient[];
+  reservations: Array<MealPlanIngredient & { food_id: number }>;
+}
+
+export class MealPlanRepository extends BaseRepository<MealPlan> {
+  constructor() {
+    super('meal_plans');
+  }
+
+  async findByUserIds(userIds: number[], from: string, to: string): Promise<MealPlan[]> {
+    const query = `
+      ${this.detailsQuery()}
+      WHERE mp.user_id = ANY($1) AND mp.planned_date BETWEEN $2 AND $3
+      GROUP BY mp.id, r.id
+      ORDER BY mp.planned_date ASC,
+        array_position(ARRAY['breakfast', 'lunch', 'dinner', 'snack']::varchar[], mp.meal_slot) ASC,
+        mp.id ASC
+    `;
+
+    return this.executeQuery<MealPlan>(query, [userIds, from, to]);
+  }
+
+  async findByIdWithDetails(id: number, userIds: number[]): Promise<MealPlan | null> {
+    const query = `
+      ${this.detailsQuery()}
+      WHERE mp.id = $1 AND mp.user_id = ANY($2)
+      GROUP BY mp.id, r.id
+    `;
+
+    const result = await this.executeQuery<MealPlan>(query, [id, userIds]);
+    return result[0] || null;
+  }
+
+  async findManyWithDetails(ids: number[]): Promise<MealPlan[]> {
+    if (ids.length === 0) return [];
+
+    const query = `
+      ${this.detailsQuery()}
+      WHERE mp.id = ANY($1)
+      GROUP BY mp.id, r.id
+      ORDER BY mp.planned_date ASC, mp.id ASC
+    `;
+
+    return this.executeQuery<MealPlan>(query, [ids]);
+  }
+
+  // Quantities still held by meals that have not been cooked yet, per food
+  async findReservedQuantities(foodIds: number[], excludeMealPlanId?: number): Promise<Map<number, number>> {
+    if (foodIds.length === 0) return new Map();
+
+    const query = `
+      SELECT mpr.food_id, SUM(mpr.quantity)::float as quantity
+      FROM meal_plan_reservations mpr
+      JOIN meal_plans mp ON mp.id = mpr.meal_plan_id
+      WHERE mpr.food_id = ANY($1)
+        AND mp.status = 'planned'
+        AND ($2::int IS NULL OR mp.id <> $2)
+      GROUP BY mpr.food_id
+    `;
+
+    const rows = await this.executeQuery<{ food_id: number; quantity: number }>(
+      query,
+      [foodIds, excludeMealPlanId ?? null]
+    );
+    return new Map(rows.map(row => [row.food_id, row.quantity]));
+  }
+
+  async findOccupiedSlots(
+    userIds: number[],
+    from: string,
+    to: string
+  ): Promise<Array<{ planned_date: string; meal_slot: MealSlot; recipe_id: number }>> {
+    const query = `
+      SELECT to_char(planned_date, 'YYYY-MM-DD') as planned_date, meal_slot, recipe_id
+      FROM meal_plans
+      WHERE user_id = ANY($1) AND planned_date BETWEEN $2 AND $3
+    `;
+
+    return this.executeQuery(query, [userIds, from, to]);
+  }
+
+  async findMissingIngredients(
+    userIds: number[],
+    from: string,
+    to: string
+  ): Promise<Array<{ recipe_name: string; missing_ingredients: MealPlanIngredient[] }>> {
+    const query = `
+      SELECT r.name as recipe_name, mp.missing_ingredients
+      FROM meal_plans mp
+      JOIN recipes r ON r.id = mp.recipe_id
+      WHERE mp.user_id = ANY($1)
+        AND mp.planned_date BETWEEN $2 AND $3
+        AND mp.status = 'planned'
+        AND jsonb_array_length(mp.missing_ingredients) > 0
+      ORDER BY mp.planned_date ASC, mp.id ASC
+    `;
+
+    return this.executeQuery(query, [userIds, from, to]);
+  }
+
+  async createManyWithReservations(userId: number, drafts: MealPlanDraft[]): Promise<number[]> {
+    return this.executeTransaction(async client => {
+      const ids: number[] = [];
+
+      for (const draft of drafts) {
+        const result = await client.query(
+          `
+            INSERT INTO meal_plans (
+              user_id, planned_date, meal_slot, recipe_id, servings, notes, missing_ingredients
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
+            RETURNING id
+          `,
+          [
+            userId,
+            draft.planned_date,
+            draft.meal_slot,
+            draft.recipe_id,
+            draft.servings,
+            draft.notes || null,
+            JSON.stringify(draft.missing_ingredients)
+          ]
+        );
+
+        const id: number = result.rows[0].id;
+        await this.insertReservations(client, id, draft.reservations);
+        ids.push(id);
+      }
+
+      return ids;
+    });
+  }
+
+  // Replaces the meal and its reservations in one go so quantities are never counted twice
+  async replaceWithReservations(id: number, draft: MealPlanDraft): Promise<boolean> {
+    return this.executeTransaction(async client => {
+      const result = await client.query(
+        `
+          UPDATE meal_plans
+          SET planned_date = $2, meal_slot = $3, recipe_id = $4, servings = $5,
+            notes = $6, missing_ingredients = $7
+          WHERE id = $1 AND status = 'planned'
+          RETURNING id
+        `,
+        [
+          id,
+          draft.planned_date,
+          draft.meal_slot,
+          draft.recipe_id,
+          draft.servings,
+          draft.notes || null,
+          JSON.stringify(draft.missing_ingredients)
+        ]
+      );
+
+      if (result.rowCount === 0) {
+        return false;
+      }
+
+      await client.query('DELETE FROM meal_plan_reservations WHERE meal_plan_id = $1', [id]);
+      await this.insertReservations(client, id, draft.reservations);
+
+      return true;
+    });
+  }
+
+  async markCooked(id: number): Promise<boolean> {
+    const query = `
+      UPDATE meal_plans
+      SET status = 'cooked', cooked_at = NOW()
+      WHERE id = $1 AND status = 'planned'
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery(query, [id]);
+    return result.length > 0;
+  }
+
+  private async insertReservations(
+    client: any,
+    mealPlanId: number,
+    reservations: MealPlanDraft['reservations']
+  ): Promise<void> {
+    if (reservations.length === 0) return;
+
+    await client.query(
+      `
+        INSERT INTO meal_plan_reservations (meal_plan_id, food_id, ingredient_name, quantity, unit)
+        SELECT $1, food_id, ingredient_name, quantity, unit
+        FROM unnest($2::int[], $3::varchar[], $4::numeric[], $5::varchar[])
+          AS t(food_id, ingredient_name, quantity, unit)
+      `,
+      [
+        mealPlanId,
+        reservations.map(reservation => reservation.food_id),
+        reservations.map(reservation => reservation.ingredient_name),
+        reservations.map(reservation => reservation.quantity),
+        reservations.map(reservation => reservation.unit)
+      ]
+    );
+  }
+
+  private detailsQuery(): string {
+    return `
+      SELECT
+        mp.*,
+        to_char(mp.planned_date, 'YYYY-MM-DD') as planned_date,
+        r.name as recipe_name,
+        r.image_url as recipe_image_url,
+        COALESCE(
+          json_agg(
+            json_build_object(
+              'id', mpr.id,
+              'meal_plan_id', mpr.meal_plan_id,
+              'food_id', mpr.food_id,
+              'ingredient_name', mpr.ingredient_name,
+              'quantity', mpr.quantity,
+              'unit', mpr.unit,
+              'created_at', mpr.created_at,
+              'food_name', f.name,
+              'expiry_date', f.expiry_date
+            ) ORDER BY mpr.id
+          ) FILTER (WHERE mpr.id IS NOT NULL),
+          '[]'::json
+        ) as reservations
+      FROM meal_plans mp
+      JOIN recipes r ON r.id = mp.recipe_id
+      LEFT JOIN meal_plan_reservations mpr ON mpr.meal_plan_id = mp.id
+      LEFT JOIN foods f ON f.id = mpr.food_id
+    `;
+  }
+}
@@ -161,11 +161,12 @@ export class NotificationRepository extends BaseRepository<Notification> {
   async deleteOldNotifications(olderThanDays: number = 30): Promise<number> {
     const query = `
       DELETE FROM ${this.tableName}
-      WHERE created_at < NOW() - INTERVAL '${olderThanDays} days'
+      WHERE created_at < NOW() - INTERVAL '1 day' * $1
         AND status = 'read'
+      RETURNING id
     `;
 
-    const result = await this.executeQuery(query);
+    const result = await this.executeQuery(query, [olderThanDays]);
     return result.length;
   }
 
@@ -185,6 +186,23 @@ export class NotificationRepository extends BaseRepository<Notification> {
     return result[0] || null;
   }
 
+  async findNotifiedFoodIds(
+    userId: number,
+    foodIds: number[],
+    type: NotificationType
+  ): Promise<number[]> {
+    if (foodIds.length === 0) return [];
+
+    const query = `
+      SELECT DISTINCT food_id
+      FROM ${this.tableName}
+      WHERE user_id = $1 AND type = $2 AND food_id = ANY($3)
+    `;
+
+    const result = await this.executeQuery<{ food_id: number }>(query, [userId, type, foodIds]);
+    return result.map(row => row.food_id);
+  }
+
   async deleteByFoodId(foodId: number): Promise<number> {
     const query = `DELETE FROM ${this.tableName} WHERE food_id = $1`;
     const result = await this.executeQuery(query, [foodId]);
@@ -251,7 +269,7 @@ export class NotificationRepository extends BaseRepository<Notification> {
 
     const values = notifications
       .map((_, index) => {
-        const baseIndex = index * 6;
+        const baseIndex = index * 5;
         return `($${baseIndex + 1}, $${baseIndex + 2}, 'expiry_alert', $${baseIndex + 3}, $${baseIndex + 4}, $${baseIndex + 5}, NOW())`;
       })
       .join(', ');
@@ -269,6 +287,7 @@ export class NotificationRepository extends BaseRepository<Notification> {
         user_id, food_id, type, title, message, priority, sent_at
       )
       VALUES ${values}
+      RETURNING id
     `;
 
     const result = await this.executeQuery(query, params);
@@ -0,0 +1,41 @@
+import { BaseRepository } from './base.repository';
+import { ProductCatalogEntry } from '@shared/types';
+
+export class ProductCatalogRepository extends BaseRepository<ProductCatalogEntry> {
+  constructor() {
+    super('product_catalog');
+  }
+
+  async findByBarcode(barcode: string): Promise<ProductCatalogEntry | null> {
+    return this.findOneByField('barcode', barcode);
+  }
+
+  async upsert(entry: Omit<ProductCatalogEntry, 'created_at' | 'updated_at'>): Promise<ProductCatalogEntry> {
+    const query = `
+      INSERT INTO ${this.tableName} (barcode, name, brand, categories, category_id, image_url, source)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (barcode)
+      DO UPDATE SET
+        name = EXCLUDED.name,
+        brand = EXCLUDED.brand,
+        categories = EXCLUDED.categories,
+        category_id = EXCLUDED.category_id,
+        image_url = EXCLUDED.image_url,
+        source = EXCLUDED.source,
+        updated_at = NOW()
+      RETURNING *
+    `;
+
+    const result = await this.executeQuery<ProductCatalogEntry>(query, [
+      entry.barcode,
+      entry.name,
+      entry.brand || null,
+      entry.categories || null,
+      entry.category_id || null,
+      entry.image_url || null,
+      entry.source
+    ]);
+
+    return result[0];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { BaseRepository } from './base.repository';
+import { PushSubscriptionData, PushSubscriptionRecord } from '@shared/types';
+
+export class PushSubscriptionRepository extends BaseRepository<PushSubscriptionRecord> {
+  constructor() {
+    super('push_subscriptions');
+  }
+
+  async findByUserId(userId: number): Promise<PushSubscriptionRecord[]> {
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE user_id = $1 AND (expiration_time IS NULL OR expiration_time > NOW())
+      ORDER BY created_at ASC
+    `;
+
+    return this.executeQuery<PushSubscriptionRecord>(query, [userId]);
+  }
+
+  // Endpoints are unique per browser; re-subscribing refreshes the keys. A row owned by another
+  // user is left alone and null is returned, so knowing an endpoint can't redirect its pushes.
+  async upsert(userId: number, subscription: PushSubscriptionData, userAgent?: string): Promise<PushSubscriptionRecord | null> {
+    const query = `
+      INSERT INTO ${this.tableName} (user_id, endpoint, p256dh, auth, user_agent, expiration_time)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (endpoint) DO UPDATE SET
+        p256dh = EXCLUDED.p256dh,
+        auth = EXCLUDED.auth,
+        user_agent = EXCLUDED.user_agent,
+        expiration_time = EXCLUDED.expiration_time
+      WHERE ${this.tableName}.user_id = EXCLUDED.user_id
+      RETURNING *
+    `;
+
+    const result = await this.executeQuery<PushSubscriptionRecord>(query, [
+      userId,
+      subscription.endpoint,
+      subscription.keys.p256dh,
+      subscription.keys.auth,
+      userAgent || null,
+      subscription.expirationTime ? new Date(subscription.expirationTime) : null
+    ]);
+    return result[0] || null;
+  }
+
+  async deleteByEndpoint(userId: number, endpoint: string): Promise<boolean> {
+    const query = `
+      DELETE FROM ${this.tableName}
+      WHERE user_id = $1 AND endpoint = $2
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery<{ id: number }>(query, [userId, endpoint]);
+    return result.length > 0;
+  }
+
+  async markSuccess(id: number): Promise<void> {
+    await this.executeQuery(
+      `UPDATE ${this.tableName} SET last_success_at = NOW() WHERE id = $1`,
+      [id]
+    );
+  }
+
+  async deleteExpired(): Promise<number> {
+    const query = `
+      DELETE FROM ${this.tableName}
+      WHERE expiration_time IS NOT NULL AND expiration_time <= NOW()
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery<{ id: number }>(query);
+    return result.length;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,223 @@
+import { BaseRepository } from './base.repository';
+import {
+  Recipe,
+  RecipeCreateData,
+  RecipeDifficulty,
+  RecipeWithIngredients
+} from '@shared/types';
+
+interface FavoriteRecipe extends RecipeWithIngredients {
+  favorited_at: Date;
+}
+
+export class RecipeRepository extends BaseRepository<Recipe> {
+  constructor() {
+    super('recipes');
+  }
+
+  async findWithIngredients(id: number): Promise<RecipeWithIngredients | null> {
+    const result = await this.findManyWithIngredients([id]);
+    return result[0] || null;
+  }
+
+  async findManyWithIngredients(ids: number[]): Promise<RecipeWithIngredients[]> {
+    if (ids.length === 0) return [];
+
+    const query = `
+      SELECT
+        r.*,
+        COALESCE(
+          json_agg(ri ORDER BY ri.optional ASC, ri.id ASC) FILTER (WHERE ri.id IS NOT NULL),
+          '[]'::json
+        ) as ingredients
+      FROM recipes r
+      LEFT JOIN recipe_ingredients ri ON ri.recipe_id = r.id
+      WHERE r.id = ANY($1) AND r.is_active = TRUE
+      GROUP BY r.id
+      ORDER BY r.rating DESC NULLS LAST, r.name ASC
+    `;
+
+    return this.executeQuery<RecipeWithIngredients>(query, [ids]);
+  }
+
+  async findCandidatesByIngredients(
+    ingredientNames: string[],
+    options: {
+      max_prep_time?: number;
+      max_cook_time?: number;
+      difficulty?: RecipeDifficulty;
+      limit?: number;
+    } = {}
+  ): Promise<RecipeWithIngredients[]> {
+    if (ingredientNames.length === 0) return [];
+
+    const conditions: string[] = [
+      'r.is_active = TRUE',
+      'ri.ingredient_name ILIKE ANY($1)'
+    ];
+    const params: any[] = [ingredientNames.map(name => `%${name}%`)];
+
+    if (options.max_prep_time !== undefined) {
+      conditions.push(`r.prep_time <= $${params.length + 1}`);
+      params.push(options.max_prep_time);
+    }
+
+    if (options.max_cook_time !== undefined) {
+      conditions.push(`r.cook_time <= $${params.length + 1}`);
+      params.push(options.max_cook_time);
+    }
+
+    if (options.difficulty) {
+      conditions.push(`r.difficulty = $${params.length + 1}`);
+      params.push(options.difficulty);
+    }
+
+    const query = `
+      SELECT r.id
+      FROM recipes r
+      JOIN recipe_ingredients ri ON ri.recipe_id = r.id
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY r.id
+      ORDER BY COUNT(ri.id) DESC, r.rating DESC NULLS LAST
+      LIMIT $${params.length + 1}
+    `;
+
+    const rows = await this.executeQuery<{ id: number }>(query, [...params, options.limit || 50]);
+    return this.findManyWithIngredients(rows.map(row => row.id));
+  }
+
+  async searchRecipes(searchTerm: string, limit: number = 50): Promise<RecipeWithIngredients[]> {
+    const query = `
+      SELECT r.id
+      FROM recipes r
+      WHERE r.is_active = TRUE
+        AND (
+          r.name ILIKE $1 OR
+          r.description ILIKE $1 OR
+          EXISTS (
+            SELECT 1 FROM recipe_ingredients ri
+            WHERE ri.recipe_id = r.id AND ri.ingredient_name ILIKE $1
+          ) OR
+          EXISTS (
+            SELECT 1 FROM unnest(r.tags) as tag
+            WHERE tag ILIKE $1
+          )
+        )
+      ORDER BY
+        CASE
+          WHEN LOWER(r.name) = LOWER($2) THEN 1
+          WHEN LOWER(r.name) LIKE LOWER($2 || '%') THEN 2
+          ELSE 3
+        END,
+        r.rating DESC NULLS LAST,
+        r.name ASC
+      LIMIT $3
+    `;
+
+    const rows = await this.executeQuery<{ id: number }>(query, [`%${searchTerm}%`, searchTerm, limit]);
+    return this.findManyWithIngredients(rows.map(row => row.id));
+  }
+
+  async createWithIngredients(
+    data: RecipeCreateData,
+    createdBy: number
+  ): Promise<RecipeWithIngredients> {
+    const recipeId = await this.executeTransaction(async client => {
+      const recipeResult = await client.query(
+        `
+          INSERT INTO recipes (
+            name, description, instructions, prep_time, cook_time,
+            servings, difficulty, image_url, source, created_by
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'user_created', $9)
+          RETURNING id
+        `,
+        [
+          data.name,
+          data.description || null,
+          data.instructions,
+          data.prep_time,
+          data.cook_time,
+          data.servings,
+          data.difficulty,
+          data.image_url || null,
+          createdBy
+        ]
+      );
+
+      const id: number = recipeResult.rows[0].id;
+
+      for (const ingredient of data.ingredients) {
+        await client.query(
+          `
+            INSERT INTO recipe_ingredients (recipe_id, ingredient_name, quantity, unit, optional)
+            VALUES ($1, $2, $3, $4, $5)
+          `,
+          [id, ingredient.ingredient_name, ingredient.quantity, ingredient.unit, ingredient.optional || false]
+        );
+      }
+
+      return id;
+    });
+
+    const recipe = await this.findWithIngredients(recipeId);
+    if (!recipe) {
+      throw new Error('Failed to load created recipe');
+    }
+    return recipe;
+  }
+
+  async addFavorite(userId: number, recipeId: number): Promise<boolean> {
+    const query = `
+      INSERT INTO user_recipe_favorites (user_id, recipe_id)
+      VALUES ($1, $2)
+      ON CONFLICT (user_id, recipe_id) DO NOTHING
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery(query, [userId, recipeId]);
+    return result.length > 0;
+  }
+
+  async removeFavorite(userId: number, recipeId: number): Promise<boolean> {
+    const query = `
+      DELETE FROM user_recipe_favorites
+      WHERE user_id = $1 AND recipe_id = $2
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery(query, [userId, recipeId]);
+    return result.length > 0;
+  }
+
+  async findFavoritesByUserId(userId: number): Promise<FavoriteRecipe[]> {
+    const query = `
+      SELECT
+        r.*,
+        urf.created_at as favorited_at,
+        COALESCE(
+          json_agg(ri ORDER BY ri.optional ASC, ri.id ASC) FILTER (WHERE ri.id IS NOT NULL),
+          '[]'::json
+        ) as ingredients
+      FROM user_recipe_favorites urf
+      JOIN recipes r ON r.id = urf.recipe_id
+      LEFT JOIN recipe_ingredients ri ON ri.recipe_id = r.id
+      WHERE urf.user_id = $1 AND r.is_active = TRUE
+      GROUP BY r.id, urf.created_at
+      ORDER BY urf.created_at DESC
+    `;
+
+    return this.executeQuery<FavoriteRecipe>(query, [userId]);
+  }
+
+  async findFavoriteIds(userId: number): Promise<number[]> {
+    const query = `
+      SELECT recipe_id
+      FROM user_recipe_favorites
+      WHERE user_id = $1
+    `;
+
+    const result = await this.executeQuery<{ recipe_id: number }>(query, [userId]);
+    return result.map(row => row.recipe_id);
+  }
+}
@@ -0,0 +1,69 @@
+import { BaseRepository } from './base.repository';
+
+export interface RecoveryCode {
+  id: number;
+  user_id: number;
+  code_hash: string;
+  salt: string;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+export class RecoveryCodeRepository extends BaseRepository<RecoveryCode> {
+  constructor() {
+    super('user_recovery_codes');
+  }
+
+  async findUnusedByUser(userId: number): Promise<RecoveryCode[]> {
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE user_id = $1 AND used_at IS NULL
+    `;
+
+    return this.executeQuery<RecoveryCode>(query, [userId]);
+  }
+
+  async countUnusedByUser(userId: number): Promise<number> {
+    const query = `
+      SELECT COUNT(*) as count
+      FROM ${this.tableName}
+      WHERE user_id = $1 AND used_at IS NULL
+    `;
+
+    const result = await this.executeQuery<{ count: string }>(query, [userId]);
+    return parseInt(result[0]?.count || '0');
+  }
+
+  // Drops every previous code, used or not, so only the new set works
+  async replaceForUser(userId: number, codes: Array<{ code_hash: string; salt: string }>): Promise<void> {
+    await this.executeTransaction(async client => {
+      await client.query(`DELETE FROM ${this.tableName} WHERE user_id = $1`, [userId]);
+
+      await client.query(
+        `
+          INSERT INTO ${this.tableName} (user_id, code_hash, salt)
+          SELECT $1, code_hash, salt
+          FROM unnest($2::varchar[], $3::varchar[]) AS t(code_hash, salt)
+        `,
+        [userId, codes.map(code => code.code_hash), codes.map(code => code.salt)]
+      );
+    });
+  }
+
+  // Returns false when the code was already spent (e.g. by a concurrent login)
+  async markUsed(id: number): Promise<boolean> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET used_at = NOW()
+      WHERE id = $1 AND used_at IS NULL
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery<{ id: number }>(query, [id]);
+    return result.length > 0;
+  }
+
+  async deleteForUser(userId: number): Promise<void> {
+    await this.executeQuery(`DELETE FROM ${this.tableName} WHERE user_id = $1`, [userId]);
+  }
+}
\ No newline at end of file
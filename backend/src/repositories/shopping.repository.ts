@@ -0,0 +1,222 @@
+import { BaseRepository } from './base.repository';
+import {
+  ShoppingList,
+  ShoppingListItem,
+  ShoppingListItemCreateData,
+  ShoppingListItemUpdateData
+} from '@shared/types';
+
+export class ShoppingRepository extends BaseRepository<ShoppingList> {
+  constructor() {
+    super('shopping_lists');
+  }
+
+  async findByUserIds(userIds: number[], completed?: boolean): Promise<ShoppingList[]> {
+    const conditions = ['sl.user_id = ANY($1)'];
+    const params: any[] = [userIds];
+
+    if (completed !== undefined) {
+      conditions.push(`sl.completed = $${params.length + 1}`);
+      params.push(completed);
+    }
+
+    const query = `
+      SELECT
+        sl.*,
+        COALESCE(
+          json_agg(
+            to_jsonb(sli) || jsonb_build_object('category_name', c.name)
+            ORDER BY sli.purchased ASC, sli.store_name NULLS LAST, sli.id ASC
+          )
+            FILTER (WHERE sli.id IS NOT NULL),
+          '[]'::json
+        ) as items
+      FROM shopping_lists sl
+      LEFT JOIN shopping_list_items sli ON sli.list_id = sl.id
+      LEFT JOIN categories c ON c.id = sli.category_id
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY sl.id
+      ORDER BY sl.completed ASC, sl.updated_at DESC
+    `;
+
+    return this.executeQuery<ShoppingList>(query, params);
+  }
+
+  async findByIdWithItems(id: number, userIds: number[]): Promise<ShoppingList | null> {
+    const query = `
+      SELECT
+        sl.*,
+        COALESCE(
+          json_agg(
+            to_jsonb(sli) || jsonb_build_object('category_name', c.name)
+            ORDER BY sli.purchased ASC, sli.store_name NULLS LAST, sli.id ASC
+          )
+            FILTER (WHERE sli.id IS NOT NULL),
+          '[]'::json
+        ) as items
+      FROM shopping_lists sl
+      LEFT JOIN shopping_list_items sli ON sli.list_id = sl.id
+      LEFT JOIN categories c ON c.id = sli.category_id
+      WHERE sl.id = $1 AND sl.user_id = ANY($2)
+      GROUP BY sl.id
+    `;
+
+    const result = await this.executeQuery<ShoppingList>(query, [id, userIds]);
+    return result[0] || null;
+  }
+
+  async createWithItems(
+    userId: number,
+    name: string,
+    items: ShoppingListItemCreateData[],
+    notes?: string
+  ): Promise<number> {
+    return this.executeTransaction(async client => {
+      const listResult = await client.query(
+        `
+          INSERT INTO shopping_lists (user_id, name, notes)
+          VALUES ($1, $2, $3)
+          RETURNING id
+        `,
+        [userId, name, notes || null]
+      );
+
+      const listId: number = listResult.rows[0].id;
+
+      for (const item of items) {
+        await client.query(
+          `
+            INSERT INTO shopping_list_items (
+              list_id, item_name, quantity, unit, estimated_price, store_name, category_id, notes
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          `,
+          [
+            listId,
+            item.item_name,
+            item.quantity,
+            item.unit,
+            item.estimated_price ?? null,
+            item.store_name || null,
+            item.category_id ?? null,
+            item.notes || null
+          ]
+        );
+      }
+
+      return listId;
+    });
+  }
+
+  async findItemById(itemId: number, userIds: number[]): Promise<ShoppingListItem | null> {
+    const query = `
+      SELECT sli.*
+      FROM shopping_list_items sli
+      JOIN shopping_lists sl ON sl.id = sli.list_id
+      WHERE sli.id = $1 AND sl.user_id = ANY($2)
+    `;
+
+    const result = await this.executeQuery<ShoppingListItem>(query, [itemId, userIds]);
+    return result[0] || null;
+  }
+
+  async addItem(listId: number, item: ShoppingListItemCreateData): Promise<ShoppingListItem> {
+    const query = `
+      INSERT INTO shopping_list_items (
+        list_id, item_name, quantity, unit, estimated_price, store_name, category_id, notes
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+
+    const result = await this.executeQuery<ShoppingListItem>(query, [
+      listId,
+      item.item_name,
+      item.quantity,
+      item.unit,
+      item.estimated_price ?? null,
+      item.store_name || null,
+      item.category_id ?? null,
+      item.notes || null
+    ]);
+    return result[0];
+  }
+
+  async updateItem(itemId: number, data: ShoppingListItemUpdateData): Promise<ShoppingListItem | null> {
+    const columns = Object.keys(data);
+    const values = Object.values(data);
+
+    if (columns.length === 0) {
+      const result = await this.executeQuery<ShoppingListItem>(
+        'SELECT * FROM shopping_list_items WHERE id = $1',
+        [itemId]
+      );
+      return result[0] || null;
+    }
+
+    const setClause = columns
+      .map((col, index) => `${col} = $${index + 2}`)
+      .join(', ');
+
+    const query = `
+      UPDATE shopping_list_items
+      SET ${setClause}
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await this.executeQuery<ShoppingListItem>(query, [itemId, ...values]);
+    return result[0] || null;
+  }
+
+  async deleteItem(itemId: number): Promise<boolean> {
+    const query = `
+      DELETE FROM shopping_list_items
+      WHERE id = $1
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery(query, [itemId]);
+    return result.length > 0;
+  }
+
+  // Claims the purchased items in one statement so two concurrent moves can't both take one
+  async claimPurchasedItems(listId: number): Promise<ShoppingListItem[]> {
+    const query = `
+      UPDATE shopping_list_items
+      SET moved_to_inventory_at = NOW()
+      WHERE list_id = $1 AND purchased = TRUE AND moved_to_inventory_at IS NULL
+      RETURNING *
+    `;
+
+    return this.executeQuery<ShoppingListItem>(query, [listId]);
+  }
+
+  async setItemFood(itemId: number, foodId: number): Promise<void> {
+    await this.executeQuery(
+      'UPDATE shopping_list_items SET food_id = $2 WHERE id = $1',
+      [itemId, foodId]
+    );
+  }
+
+  async releaseClaimedItems(itemIds: number[]): Promise<void> {
+    if (itemIds.length === 0) return;
+
+    await this.executeQuery(
+      'UPDATE shopping_list_items SET moved_to_inventory_at = NULL WHERE id = ANY($1)',
+      [itemIds]
+    );
+  }
+
+  async markAllItemsPurchased(listId: number): Promise<number> {
+    const query = `
+      UPDATE shopping_list_items
+      SET purchased = TRUE
+      WHERE list_id = $1 AND purchased = FALSE
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery(query, [listId]);
+    return result.length;
+  }
+}
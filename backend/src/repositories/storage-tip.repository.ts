@@ -1,5 +1,5 @@
 import { BaseRepository } from './base.repository';
-import { StorageTip } from '@shared/types';
+import { StorageTip, StorageTipCreateData, StorageTipFilterOptions, PaginatedResponse } from '@shared/types';
 
 export class StorageTipRepository extends BaseRepository<StorageTip> {
   constructor() {
@@ -181,4 +181,88 @@ export class StorageTipRepository extends BaseRepository<StorageTip> {
       humidity_level: tip.humidity_level || undefined
     };
   }
+
+  // Admin listing, including inactive tips when asked
+  async findWithFilters(filters: StorageTipFilterOptions = {}): Promise<PaginatedResponse<StorageTip>> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (!filters.include_inactive) {
+      conditions.push('is_active = TRUE');
+    }
+
+    if (filters.q) {
+      conditions.push(`food_name ILIKE $${params.length + 1}`);
+      params.push(`%${filters.q}%`);
+    }
+
+    if (filters.category) {
+      conditions.push(`LOWER(category) = LOWER($${params.length + 1})`);
+      params.push(filters.category);
+    }
+
+    return this.findWithPagination(conditions.join(' AND '), params, {
+      page: filters.page,
+      per_page: filters.per_page
+    });
+  }
+
+  async findByFoodNameAndCategory(foodName: string, category?: string): Promise<StorageTip | null> {
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE LOWER(food_name) = LOWER($1) AND COALESCE(category, '') = $2
+    `;
+
+    const result = await this.executeQuery<StorageTip>(query, [foodName, category || '']);
+    return result[0] || null;
+  }
+
+  // Inserts or updates each tip keyed on food name + category, all in one transaction
+  async upsertMany(tips: StorageTipCreateData[], source: string): Promise<{ created: number; updated: number }> {
+    return this.executeTransaction(async client => {
+      let created = 0;
+      let updated = 0;
+
+      for (const tip of tips) {
+        const result = await client.query(
+          `
+            INSERT INTO ${this.tableName} (
+              food_name, category, storage_method, optimal_temp, humidity_level,
+              shelf_life_days, tips, source, is_active
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            ON CONFLICT (LOWER(food_name), COALESCE(category, '')) DO UPDATE SET
+              food_name = EXCLUDED.food_name,
+              storage_method = EXCLUDED.storage_method,
+              optimal_temp = EXCLUDED.optimal_temp,
+              humidity_level = EXCLUDED.humidity_level,
+              shelf_life_days = EXCLUDED.shelf_life_days,
+              tips = EXCLUDED.tips,
+              source = EXCLUDED.source,
+              is_active = EXCLUDED.is_active
+            RETURNING (xmax = 0) as inserted
+          `,
+          [
+            tip.food_name,
+            tip.category || null,
+            tip.storage_method,
+            tip.optimal_temp || null,
+            tip.humidity_level || null,
+            tip.shelf_life_days,
+            tip.tips,
+            source,
+            tip.is_active ?? true
+          ]
+        );
+
+        if (result.rows[0]?.inserted) {
+          created++;
+        } else {
+          updated++;
+        }
+      }
+
+      return { created, updated };
+    });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { BaseRepository } from './base.repository';
+import { UserPreferences, UserPreferencesUpdateData } from '@shared/types';
+
+export class UserPreferencesRepository extends BaseRepository<UserPreferences> {
+  constructor() {
+    super('user_preferences');
+  }
+
+  async findByUserId(userId: number): Promise<UserPreferences> {
+    // Users created before the default-preferences trigger existed may not have a row yet
+    const query = `
+      WITH inserted AS (
+        INSERT INTO ${this.tableName} (user_id)
+        VALUES ($1)
+        ON CONFLICT (user_id) DO NOTHING
+        RETURNING *
+      )
+      SELECT * FROM inserted
+      UNION ALL
+      SELECT * FROM ${this.tableName} WHERE user_id = $1
+      LIMIT 1
+    `;
+
+    const result = await this.executeQuery<UserPreferences>(query, [userId]);
+    return result[0];
+  }
+
+  async findByUserIds(userIds: number[]): Promise<UserPreferences[]> {
+    if (userIds.length === 0) return [];
+
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE user_id = ANY($1)
+    `;
+
+    return this.executeQuery<UserPreferences>(query, [userIds]);
+  }
+
+  async updateByUserId(userId: number, data: UserPreferencesUpdateData): Promise<UserPreferences> {
+    const columns = Object.keys(data);
+    const values = Object.values(data);
+
+    if (columns.length === 0) {
+      return this.findByUserId(userId);
+    }
+
+    const insertColumns = ['user_id', ...columns].join(', ');
+    const placeholders = ['$1', ...columns.map((_, index) => `$${index + 2}`)].join(', ');
+    const setClause = columns
+      .map(col => `${col} = EXCLUDED.${col}`)
+      .join(', ');
+
+    const query = `
+      INSERT INTO ${this.tableName} (${insertColumns})
+      VALUES (${placeholders})
+      ON CONFLICT (user_id) DO UPDATE SET ${setClause}
+      RETURNING *
+    `;
+
+    const result = await this.executeQuery<UserPreferences>(query, [userId, ...values]);
+    return result[0];
+  }
+}
@@ -1,5 +1,5 @@
 import { BaseRepository } from './base.repository';
-import { User } from '@shared/types';
+import { User, UserRole } from '@shared/types';
 
 interface UserWithPreferences extends User {
   preferences?: {
@@ -60,6 +60,17 @@ export class UserRepository extends BaseRepository<User> {
     return result[0] || null;
   }
 
+  async findActiveUserIds(afterId: number = 0, limit: number = 500): Promise<number[]> {
+    const query = `
+      SELECT id FROM ${this.tableName}
+      WHERE is_active = TRUE AND id > $1
+      ORDER BY id ASC
+      LIMIT $2
+    `;
+    const result = await this.executeQuery<{ id: number }>(query, [afterId, limit]);
+    return result.map(row => row.id);
+  }
+
   async updateLastLogin(userId: number): Promise<void> {
     const query = `
       UPDATE ${this.tableName}
@@ -141,7 +152,7 @@ export class UserRepository extends BaseRepository<User> {
   async updatePassword(userId: number, passwordHash: string): Promise<User | null> {
     const query = `
       UPDATE ${this.tableName}
-      SET password_hash = $2, updated_at = NOW()
+      SET password_hash = $2, password_reset_required = FALSE, updated_at = NOW()
       WHERE id = $1
       RETURNING *
     `;
@@ -244,7 +255,7 @@ export class UserRepository extends BaseRepository<User> {
     }
 
     const query = `
-      SELECT id, username, email, email_verified, last_login, is_active, created_at, updated_at
+      SELECT id, username, email, email_verified, last_login, is_active, roles, password_reset_required, created_at, updated_at
       FROM ${this.tableName}
       WHERE ${whereClause}
       ORDER BY username
@@ -254,6 +265,149 @@ export class UserRepository extends BaseRepository<User> {
     return this.executeQuery<User>(query, [...params, limit, offset]);
   }
 
+  async countSearchUsers(searchTerm: string, includeInactive: boolean = false): Promise<number> {
+    const query = `
+      SELECT COUNT(*) as count
+      FROM ${this.tableName}
+      WHERE (username ILIKE $1 OR email ILIKE $1)
+        ${includeInactive ? '' : 'AND is_active = TRUE'}
+    `;
+
+    const result = await this.executeQuery<{ count: string }>(query, [`%${searchTerm}%`]);
+    return parseInt(result[0]?.count || '0');
+  }
+
+  async updateRoles(userId: number, roles: UserRole[]): Promise<User | null> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET roles = $2, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `;
+    const result = await this.executeQuery<User>(query, [userId, roles]);
+    return result[0] || null;
+  }
+
+  // Adds the role to every listed account that doesn't have it yet; returns the promoted emails
+  async grantRoleByEmails(emails: string[], role: UserRole): Promise<string[]> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET roles = array_append(roles, $2), updated_at = NOW()
+      WHERE LOWER(email) = ANY($1) AND NOT ($2 = ANY(roles))
+      RETURNING email
+    `;
+    const result = await this.executeQuery<{ email: string }>(query, [emails, role]);
+    return result.map(row => row.email);
+  }
+
+  async setPasswordResetRequired(userId: number, tokenHash: string, expiresAt: Date): Promise<User | null> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET
+        password_reset_required = TRUE,
+        reset_password_token = $2,
+        reset_password_expires = $3,
+        updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `;
+    const result = await this.executeQuery<User>(query, [userId, tokenHash, expiresAt]);
+    return result[0] || null;
+  }
+
+  // Stores a pending secret during enrollment; an enabled secret is never overwritten
+  async setPendingTotpSecret(userId: number, encryptedSecret: string): Promise<boolean> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET totp_secret = $2, updated_at = NOW()
+      WHERE id = $1 AND totp_enabled = FALSE
+      RETURNING id
+    `;
+    const result = await this.executeQuery<{ id: number }>(query, [userId, encryptedSecret]);
+    return result.length > 0;
+  }
+
+  async enableTotp(userId: number, timeStep: number): Promise<User | null> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET totp_enabled = TRUE, totp_enabled_at = NOW(), totp_last_used_step = $2, updated_at = NOW()
+      WHERE id = $1 AND totp_secret IS NOT NULL
+      RETURNING *
+    `;
+    const result = await this.executeQuery<User>(query, [userId, timeStep]);
+    return result[0] || null;
+  }
+
+  async disableTotp(userId: number): Promise<void> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET
+        totp_secret = NULL,
+        totp_enabled = FALSE,
+        totp_enabled_at = NULL,
+        totp_last_used_step = NULL,
+        updated_at = NOW()
+      WHERE id = $1
+    `;
+    await this.executeQuery(query, [userId]);
+  }
+
+  // Accepts each time step once; returns false if it (or a later one) was already used
+  async recordTotpStep(userId: number, timeStep: number): Promise<boolean> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET totp_last_used_step = $2
+      WHERE id = $1 AND (totp_last_used_step IS NULL OR totp_last_used_step < $2)
+      RETURNING id
+    `;
+    const result = await this.executeQuery<{ id: number }>(query, [userId, timeStep]);
+    return result.length > 0;
+  }
+
+  async getSystemStats(): Promise<{
+    users: {
+      total: number;
+      active: number;
+      admins: number;
+      new_last_30_days: number;
+      active_last_30_days: number;
+    };
+    foods: {
+      total: number;
+      active: number;
+      consumed: number;
+      expired: number;
+      disposed: number;
+    };
+    households: number;
+  }> {
+    const query = `
+      SELECT
+        json_build_object(
+          'total', COUNT(*),
+          'active', COUNT(*) FILTER (WHERE is_active = TRUE),
+          'admins', COUNT(*) FILTER (WHERE 'admin' = ANY(roles)),
+          'new_last_30_days', COUNT(*) FILTER (WHERE created_at >= NOW() - INTERVAL '30 days'),
+          'active_last_30_days', COUNT(*) FILTER (WHERE last_login >= NOW() - INTERVAL '30 days')
+        ) as users,
+        (
+          SELECT json_build_object(
+            'total', COUNT(*),
+            'active', COUNT(*) FILTER (WHERE status = 'active'),
+            'consumed', COUNT(*) FILTER (WHERE status = 'consumed'),
+            'expired', COUNT(*) FILTER (WHERE status = 'expired'),
+            'disposed', COUNT(*) FILTER (WHERE status = 'disposed')
+          )
+          FROM foods
+        ) as foods,
+        (SELECT COUNT(*)::int FROM households) as households
+      FROM ${this.tableName}
+    `;
+
+    const result = await this.executeQuery(query);
+    return result[0];
+  }
+
   async checkEmailExists(email: string, excludeUserId?: number): Promise<boolean> {
     let query = `SELECT 1 FROM ${this.tableName} WHERE email = $1`;
     const params = [email];
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/admin.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { ValidationMiddleware } from '../middleware/validation.middleware';
+import { RateLimitMiddleware } from '../middleware/rate-limit.middleware';
+
+const router = Router();
+const adminController = new AdminController();
+
+// Every admin route requires an authenticated admin
+router.use(AuthMiddleware.authenticate);
+router.use(RateLimitMiddleware.adminLimiter);
+router.use(AuthMiddleware.requireRole(['admin']));
+
+router.get('/stats', adminController.getStats);
+
+// User management
+router.get('/users', ValidationMiddleware.validateAdminUserSearch, adminController.searchUsers);
+
+router.get('/users/:id', ValidationMiddleware.validateIdParam, adminController.getUser);
+
+router.patch('/users/:id/deactivate', ValidationMiddleware.validateIdParam, adminController.deactivateUser);
+
+router.patch('/users/:id/reactivate', ValidationMiddleware.validateIdParam, adminController.reactivateUser);
+
+router.post('/users/:id/password-reset', ValidationMiddleware.validateIdParam, adminController.forcePasswordReset);
+
+router.put(
+  '/users/:id/roles',
+  ValidationMiddleware.validateIdParam,
+  ValidationMiddleware.validateUserRoles,
+  adminController.updateRoles
+);
+
+export default router;
\ No newline at end of file
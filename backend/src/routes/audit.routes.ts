@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/audit.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { ValidationMiddleware } from '../middleware/validation.middleware';
+import { RateLimitMiddleware } from '../middleware/rate-limit.middleware';
+
+const router = Router();
+const auditController = new AuditController();
+
+router.use(AuthMiddleware.authenticate);
+
+router.get(
+  '/',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validatePaginationParams,
+  ValidationMiddleware.validateAuditQuery,
+  auditController.getAll
+);
+
+export default router;
\ No newline at end of file
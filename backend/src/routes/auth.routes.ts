@@ -22,6 +22,13 @@ router.post(
   authController.login
 );
 
+router.post(
+  '/login/2fa',
+  RateLimitMiddleware.loginLimiter,
+  ValidationMiddleware.validateTwoFactorLogin,
+  authController.verifyTwoFactorLogin
+);
+
 router.post(
   '/refresh',
   RateLimitMiddleware.tokenLimiter,
@@ -56,6 +63,40 @@ router.get('/me', authController.getCurrentUser);
 
 router.post('/logout', authController.logout);
 
+// Signed-in devices
+router.get('/sessions', authController.getSessions);
+
+router.delete('/sessions', authController.revokeOtherSessions);
+
+router.delete(
+  '/sessions/:id',
+  ValidationMiddleware.validateSessionIdParam,
+  authController.revokeSession
+);
+
+// Two-factor authentication
+router.get('/2fa', authController.getTwoFactorStatus);
+
+router.post('/2fa/setup', authController.setupTwoFactor);
+
+router.post(
+  '/2fa/enable',
+  ValidationMiddleware.validateTwoFactorEnable,
+  authController.enableTwoFactor
+);
+
+router.post(
+  '/2fa/disable',
+  ValidationMiddleware.validateTwoFactorPassword,
+  authController.disableTwoFactor
+);
+
+router.post(
+  '/2fa/recovery-codes',
+  ValidationMiddleware.validateTwoFactorPassword,
+  authController.regenerateRecoveryCodes
+);
+
 router.post(
   '/change-password',
   ValidationMiddleware.validatePasswordChange,
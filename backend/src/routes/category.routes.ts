@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { CategoryController } from '../controllers/category.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
+import { ValidationMiddleware } from '../middleware/validation.middleware';
 import { RateLimitMiddleware } from '../middleware/rate-limit.middleware';
 
 const router = Router();
@@ -10,4 +11,56 @@ router.use(AuthMiddleware.authenticate);
 
 router.get('/', RateLimitMiddleware.apiLimiter, categoryController.getAll);
 
+router.post(
+  '/',
+  RateLimitMiddleware.apiLimiter,
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateCategoryCreation,
+  categoryController.create
+);
+
+router.get('/stats', RateLimitMiddleware.apiLimiter, categoryController.getStats);
+
+// Display order is a personal preference, so viewers may change it too
+router.put(
+  '/order',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateCategoryOrder,
+  categoryController.reorder
+);
+
+router.get(
+  '/:id',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  categoryController.getById
+);
+
+router.put(
+  '/:id',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateCategoryUpdate,
+  categoryController.update
+);
+
+router.delete(
+  '/:id',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateCategoryDeleteQuery,
+  categoryController.delete
+);
+
+router.post(
+  '/:id/merge',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateCategoryMerge,
+  categoryController.merge
+);
+
 export default router;
\ No newline at end of file
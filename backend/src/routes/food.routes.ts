@@ -16,6 +16,7 @@ router.get('/', RateLimitMiddleware.apiLimiter, foodController.getAll);
 router.post(
   '/',
   RateLimitMiddleware.apiLimiter,
+  AuthMiddleware.requireRole(['owner', 'member']),
   ValidationMiddleware.validateFoodCreation,
   foodController.create
 );
@@ -33,6 +34,21 @@ router.get('/expired', RateLimitMiddleware.apiLimiter, foodController.getExpired
 
 router.get('/stats', RateLimitMiddleware.apiLimiter, foodController.getStats);
 
+router.get(
+  '/analytics',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateAnalyticsQuery,
+  foodController.getAnalytics
+);
+
+router.post(
+  '/scan',
+  RateLimitMiddleware.apiLimiter,
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateBarcodeScan,
+  foodController.scan
+);
+
 router.get('/ingredients', RateLimitMiddleware.apiLimiter, foodController.getIngredients);
 
 router.get('/storage-advice', RateLimitMiddleware.apiLimiter, foodController.getStorageAdvice);
@@ -40,6 +56,7 @@ router.get('/storage-advice', RateLimitMiddleware.apiLimiter, foodController.get
 router.post(
   '/bulk-consume',
   RateLimitMiddleware.apiLimiter,
+  AuthMiddleware.requireRole(['owner', 'member']),
   ValidationMiddleware.validateBulkConsume,
   foodController.bulkMarkAsConsumed
 );
@@ -48,6 +65,7 @@ router.get(
   '/:id',
   RateLimitMiddleware.apiLimiter,
   ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('foods'),
   foodController.getById
 );
 
@@ -55,6 +73,8 @@ router.put(
   '/:id',
   RateLimitMiddleware.apiLimiter,
   ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('foods'),
+  AuthMiddleware.requireRole(['owner', 'member']),
   ValidationMiddleware.validateFoodUpdate,
   foodController.update
 );
@@ -63,6 +83,8 @@ router.delete(
   '/:id',
   RateLimitMiddleware.apiLimiter,
   ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('foods'),
+  AuthMiddleware.requireRole(['owner', 'member']),
   foodController.delete
 );
 
@@ -70,13 +92,36 @@ router.patch(
   '/:id/consume',
   RateLimitMiddleware.apiLimiter,
   ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('foods'),
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateFoodVersion,
   foodController.markAsConsumed
 );
 
+router.get(
+  '/:id/consumptions',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('foods'),
+  foodController.getConsumptions
+);
+
+router.post(
+  '/:id/consumptions',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('foods'),
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateFoodConsumption,
+  foodController.consume
+);
+
 router.patch(
   '/:id/expire',
   RateLimitMiddleware.apiLimiter,
   ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('foods'),
+  AuthMiddleware.requireRole(['owner', 'member']),
   foodController.markAsExpired
 );
 
@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { HouseholdController } from '../controllers/household.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { ValidationMiddleware } from '../middleware/validation.middleware';
+import { RateLimitMiddleware } from '../middleware/rate-limit.middleware';
+
+const router = Router();
+const householdController = new HouseholdController();
+
+router.use(AuthMiddleware.authenticate);
+
+router.get('/', RateLimitMiddleware.apiLimiter, householdController.get);
+
+router.post(
+  '/',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateHouseholdCreation,
+  householdController.create
+);
+
+router.post('/leave', RateLimitMiddleware.apiLimiter, householdController.leave);
+
+// Invitations
+router.get('/invitations', RateLimitMiddleware.apiLimiter, householdController.getMyInvitations);
+
+router.post(
+  '/invitations',
+  RateLimitMiddleware.apiLimiter,
+  AuthMiddleware.requireRole(['owner']),
+  ValidationMiddleware.validateHouseholdInvite,
+  householdController.invite
+);
+
+router.delete(
+  '/invitations/:id',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireRole(['owner']),
+  householdController.revokeInvitation
+);
+
+router.post(
+  '/invitations/:token/accept',
+  RateLimitMiddleware.apiLimiter,
+  householdController.acceptInvitation
+);
+
+// Members
+router.patch(
+  '/members/:userId',
+  RateLimitMiddleware.apiLimiter,
+  AuthMiddleware.requireRole(['owner']),
+  ValidationMiddleware.validateHouseholdMemberRole,
+  householdController.updateMemberRole
+);
+
+router.delete(
+  '/members/:userId',
+  RateLimitMiddleware.apiLimiter,
+  AuthMiddleware.requireRole(['owner']),
+  householdController.removeMember
+);
+
+export default router;
\ No newline at end of file
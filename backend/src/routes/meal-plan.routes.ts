@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { MealPlanController } from '../controllers/meal-plan.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+import { ValidationMiddleware } from '../middleware/validation.middleware';
+import { RateLimitMiddleware } from '../middleware/rate-limit.middleware';
+
+const router = Router();
+const mealPlanController = new MealPlanController();
+
+router.use(AuthMiddleware.authenticate);
+
+router.get(
+  '/',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateMealPlanQuery,
+  mealPlanController.getAll
+);
+
+router.post(
+  '/',
+  RateLimitMiddleware.apiLimiter,
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateMealPlanCreation,
+  mealPlanController.create
+);
+
+router.post(
+  '/auto',
+  RateLimitMiddleware.apiLimiter,
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateMealPlanAuto,
+  mealPlanController.autoPlan
+);
+
+router.post(
+  '/shopping-list',
+  RateLimitMiddleware.apiLimiter,
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateMealPlanShoppingList,
+  mealPlanController.createShoppingList
+);
+
+router.get(
+  '/:id',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('meal_plans'),
+  mealPlanController.getById
+);
+
+router.put(
+  '/:id',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('meal_plans'),
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateMealPlanUpdate,
+  mealPlanController.update
+);
+
+router.delete(
+  '/:id',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('meal_plans'),
+  AuthMiddleware.requireRole(['owner', 'member']),
+  mealPlanController.delete
+);
+
+router.patch(
+  '/:id/cook',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('meal_plans'),
+  AuthMiddleware.requireRole(['owner', 'member']),
+  mealPlanController.cook
+);
+
+export default router;
\ No newline at end of file
@@ -13,6 +13,37 @@ router.get('/', RateLimitMiddleware.apiLimiter, notificationController.getAll);
 
 router.get('/unread', RateLimitMiddleware.apiLimiter, notificationController.getUnread);
 
+// Real-time notifications (Server-Sent Events)
+router.get('/stream', RateLimitMiddleware.apiLimiter, notificationController.stream);
+
+router.get('/stats', RateLimitMiddleware.apiLimiter, notificationController.getStats);
+
+router.get('/preferences', RateLimitMiddleware.apiLimiter, notificationController.getPreferences);
+
+router.put(
+  '/preferences',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validatePreferencesUpdate,
+  notificationController.updatePreferences
+);
+
+// Web Push subscriptions
+router.get('/push/public-key', RateLimitMiddleware.apiLimiter, notificationController.getPushPublicKey);
+
+router.post(
+  '/push/subscriptions',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validatePushSubscription,
+  notificationController.subscribePush
+);
+
+router.delete(
+  '/push/subscriptions',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validatePushUnsubscribe,
+  notificationController.unsubscribePush
+);
+
 router.patch(
   '/:id/read',
   RateLimitMiddleware.apiLimiter,
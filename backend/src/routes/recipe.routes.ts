@@ -38,4 +38,25 @@ router.delete(
 
 router.get('/favorites', RateLimitMiddleware.apiLimiter, recipeController.getFavorites);
 
+router.post(
+  '/',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateRecipeCreation,
+  recipeController.create
+);
+
+router.get(
+  '/:id',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  recipeController.getById
+);
+
+router.delete(
+  '/:id',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  recipeController.delete
+);
+
 export default router;
\ No newline at end of file
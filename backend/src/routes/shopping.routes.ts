@@ -11,12 +11,96 @@ router.use(AuthMiddleware.authenticate);
 
 router.get('/', RateLimitMiddleware.apiLimiter, shoppingController.getList);
 
-router.post('/generate', RateLimitMiddleware.apiLimiter, shoppingController.generateList);
+router.post(
+  '/generate',
+  RateLimitMiddleware.apiLimiter,
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateShoppingListGenerate,
+  shoppingController.generateList
+);
+
+// Shopping lists
+router.post(
+  '/lists',
+  RateLimitMiddleware.apiLimiter,
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateShoppingListCreation,
+  shoppingController.createList
+);
+
+router.get(
+  '/lists/:id',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('shopping_lists'),
+  shoppingController.getListById
+);
+
+router.put(
+  '/lists/:id',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('shopping_lists'),
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateShoppingListUpdate,
+  shoppingController.updateList
+);
+
+router.delete(
+  '/lists/:id',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('shopping_lists'),
+  AuthMiddleware.requireRole(['owner', 'member']),
+  shoppingController.deleteList
+);
+
+router.patch(
+  '/lists/:id/complete',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('shopping_lists'),
+  AuthMiddleware.requireRole(['owner', 'member']),
+  shoppingController.completeList
+);
+
+router.post(
+  '/lists/:id/move-to-inventory',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('shopping_lists'),
+  AuthMiddleware.requireRole(['owner', 'member']),
+  shoppingController.moveToInventory
+);
+
+router.post(
+  '/lists/:id/items',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('shopping_lists'),
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateShoppingItem,
+  shoppingController.addItem
+);
+
+// Shopping list items
+router.put(
+  '/:id',
+  RateLimitMiddleware.apiLimiter,
+  ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('shopping_list_items'),
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateShoppingItemUpdate,
+  shoppingController.updateItem
+);
 
 router.patch(
   '/:id/purchased',
   RateLimitMiddleware.apiLimiter,
   ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('shopping_list_items'),
+  AuthMiddleware.requireRole(['owner', 'member']),
+  ValidationMiddleware.validateShoppingItemPurchased,
   shoppingController.markAsPurchased
 );
 
@@ -24,6 +108,8 @@ router.delete(
   '/:id',
   RateLimitMiddleware.apiLimiter,
   ValidationMiddleware.validateIdParam,
+  AuthMiddleware.requireOwnership('shopping_list_items'),
+  AuthMiddleware.requireRole(['owner', 'member']),
   shoppingController.removeItem
 );
 
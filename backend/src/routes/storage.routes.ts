@@ -9,12 +9,6 @@ const storageController = new StorageController();
 
 router.use(AuthMiddleware.authenticate);
 
-router.get(
-  '/:category',
-  RateLimitMiddleware.apiLimiter,
-  storageController.getStorageAdvice
-);
-
 router.get(
   '/tips/search',
   RateLimitMiddleware.searchLimiter,
@@ -22,4 +16,61 @@ router.get(
   storageController.searchTips
 );
 
+router.get('/tips/random', RateLimitMiddleware.apiLimiter, storageController.getRandomTips);
+
+// Knowledge base management (admin only)
+router.get(
+  '/admin/tips',
+  RateLimitMiddleware.adminLimiter,
+  AuthMiddleware.requireRole(['admin']),
+  storageController.listTips
+);
+
+router.post(
+  '/admin/tips',
+  RateLimitMiddleware.adminLimiter,
+  AuthMiddleware.requireRole(['admin']),
+  ValidationMiddleware.validateStorageTipCreation,
+  storageController.createTip
+);
+
+router.post(
+  '/admin/tips/import',
+  RateLimitMiddleware.adminLimiter,
+  AuthMiddleware.requireRole(['admin']),
+  ValidationMiddleware.validateStorageTipImport,
+  storageController.importTips
+);
+
+router.get(
+  '/admin/tips/:id',
+  RateLimitMiddleware.adminLimiter,
+  AuthMiddleware.requireRole(['admin']),
+  ValidationMiddleware.validateIdParam,
+  storageController.getTipById
+);
+
+router.put(
+  '/admin/tips/:id',
+  RateLimitMiddleware.adminLimiter,
+  AuthMiddleware.requireRole(['admin']),
+  ValidationMiddleware.validateIdParam,
+  ValidationMiddleware.validateStorageTipUpdate,
+  storageController.updateTip
+);
+
+router.delete(
+  '/admin/tips/:id',
+  RateLimitMiddleware.adminLimiter,
+  AuthMiddleware.requireRole(['admin']),
+  ValidationMiddleware.validateIdParam,
+  storageController.deleteTip
+);
+
+router.get(
+  '/:category',
+  RateLimitMiddleware.apiLimiter,
+  storageController.getStorageAdvice
+);
+
 export default router;
\ No newline at end of file
@@ -7,6 +7,12 @@ import { config } from './config/environment';
 import { Database } from './config/database';
 import redisClient from './config/redis';
 import { ErrorMiddleware } from './middleware/error.middleware';
+import { RequestContextMiddleware } from './middleware/request-context.middleware';
+import { expiryScanJob } from './jobs/expiry-scan.job';
+import { weeklyDigestJob } from './jobs/weekly-digest.job';
+import { mailQueueJob } from './jobs/mail-queue.job';
+import { AdminService } from './services/admin.service';
+import { notificationStream } from './services/notification-stream.service';
 
 // Route imports
 import authRoutes from './routes/auth.routes';
@@ -15,7 +21,11 @@ import categoryRoutes from './routes/category.routes';
 import notificationRoutes from './routes/notification.routes';
 import recipeRoutes from './routes/recipe.routes';
 import shoppingRoutes from './routes/shopping.routes';
+import mealPlanRoutes from './routes/meal-plan.routes';
 import storageRoutes from './routes/storage.routes';
+import auditRoutes from './routes/audit.routes';
+import householdRoutes from './routes/household.routes';
+import adminRoutes from './routes/admin.routes';
 
 class Server {
   private app: express.Application;
@@ -58,6 +68,9 @@ class Server {
     this.app.use(express.json({ limit: '10mb' }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+    // Request context (client IP / user agent for audit logging)
+    this.app.use(RequestContextMiddleware.attach);
+
     // Static files
     this.app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
 
@@ -83,7 +96,11 @@ class Server {
     apiRouter.use('/notifications', notificationRoutes);
     apiRouter.use('/recipes', recipeRoutes);
     apiRouter.use('/shopping', shoppingRoutes);
+    apiRouter.use('/meal-plans', mealPlanRoutes);
     apiRouter.use('/storage', storageRoutes);
+    apiRouter.use('/audit', auditRoutes);
+    apiRouter.use('/households', householdRoutes);
+    apiRouter.use('/admin', adminRoutes);
 
     this.app.use('/api/v1', apiRouter);
 
@@ -101,8 +118,12 @@ class Server {
       await this.database.initialize();
       console.log('Database connection established');
 
-      // Test Redis connection
+      // Make sure the configured administrators hold the admin role
+      await new AdminService().bootstrapAdmins(config.ADMIN_EMAILS);
+
+      // Connect and test Redis connection
       try {
+        await redisClient.connect();
         await redisClient.ping();
         console.log('Redis connection established');
       } catch (error) {
@@ -116,8 +137,22 @@ class Server {
         console.log(`Health check: http://localhost:${config.PORT}/health`);
       });
 
+      // Scheduled background jobs
+      if (config.ENABLE_SCHEDULED_JOBS && config.NODE_ENV !== 'test') {
+        expiryScanJob.start();
+        weeklyDigestJob.start();
+      }
+
+      // Outbound email delivery
+      if (config.ENABLE_MAIL_WORKER && config.NODE_ENV !== 'test') {
+        mailQueueJob.start();
+      }
+
       // Graceful shutdown
-      ErrorMiddleware.setupGracefulShutdown(server);
+      ErrorMiddleware.setupGracefulShutdown(server, async () => {
+        notificationStream.closeAll();
+        await Promise.all([expiryScanJob.stop(), weeklyDigestJob.stop(), mailQueueJob.stop()]);
+      });
 
     } catch (error) {
       console.error('Failed to start server:', error);
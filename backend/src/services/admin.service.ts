@@ -0,0 +1,188 @@
+import { UserRepository } from '../repositories/user.repository';
+import { CategoryRepository } from '../repositories/category.repository';
+import { StorageTipRepository } from '../repositories/storage-tip.repository';
+import { AuthService } from './auth.service';
+import { AuditService } from './audit.service';
+import { CryptoUtils } from '../utils/crypto';
+import {
+  User,
+  UserRole,
+  AdminStats,
+  AdminUserSearchOptions,
+  PaginatedResponse,
+  AppError,
+  ValidationError
+} from '@shared/types';
+
+const FORCED_RESET_TTL_HOURS = 24;
+
+type SafeUser = Omit<User, 'password_hash'>;
+
+export class AdminService {
+  private userRepository: UserRepository;
+  private categoryRepository: CategoryRepository;
+  private storageTipRepository: StorageTipRepository;
+  private authService: AuthService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.userRepository = new UserRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.storageTipRepository = new StorageTipRepository();
+    this.authService = new AuthService();
+    this.auditService = new AuditService();
+  }
+
+  // Promotes the accounts listed in ADMIN_EMAILS so a fresh install has someone to administer it
+  async bootstrapAdmins(emails: string[]): Promise<string[]> {
+    if (emails.length === 0) {
+      return [];
+    }
+
+    const promoted = await this.userRepository.grantRoleByEmails(emails, 'admin');
+    for (const email of promoted) {
+      console.log(`Granted admin role to ${email}`);
+    }
+
+    return promoted;
+  }
+
+  async searchUsers(options: AdminUserSearchOptions): Promise<PaginatedResponse<SafeUser>> {
+    const page = options.page || 1;
+    const perPage = options.per_page || 20;
+    const searchTerm = options.q?.trim() || '';
+
+    const [users, totalCount] = await Promise.all([
+      this.userRepository.searchUsers(searchTerm, {
+        includeInactive: options.include_inactive,
+        limit: perPage,
+        offset: (page - 1) * perPage
+      }),
+      this.userRepository.countSearchUsers(searchTerm, options.include_inactive)
+    ]);
+
+    const totalPages = Math.ceil(totalCount / perPage);
+
+    return {
+      items: users,
+      total_count: totalCount,
+      page,
+      per_page: perPage,
+      total_pages: totalPages,
+      has_next: page < totalPages,
+      has_prev: page > 1
+    };
+  }
+
+  async getUser(userId: number): Promise<{
+    user: SafeUser;
+    statistics: Awaited<ReturnType<UserRepository['getUserStatistics']>>;
+  }> {
+    const user = await this.findUser(userId);
+    const statistics = await this.userRepository.getUserStatistics(userId);
+
+    return { user: this.sanitizeUser(user), statistics };
+  }
+
+  async deactivateUser(adminId: number, userId: number): Promise<SafeUser> {
+    if (adminId === userId) {
+      throw new AppError('You cannot deactivate your own account from the admin API', 400);
+    }
+
+    const user = await this.findUser(userId);
+    if (!user.is_active) {
+      throw new AppError('User is already inactive', 409);
+    }
+
+    const updatedUser = await this.userRepository.deactivateUser(userId);
+    await this.authService.revokeAllSessions(userId);
+    await this.auditService.log(adminId, 'admin_deactivate', 'user', userId);
+
+    return this.sanitizeUser(updatedUser!);
+  }
+
+  async reactivateUser(adminId: number, userId: number): Promise<SafeUser> {
+    const user = await this.findUser(userId);
+    if (user.is_active) {
+      throw new AppError('User is already active', 409);
+    }
+
+    const updatedUser = await this.userRepository.reactivateUser(userId);
+    await this.auditService.log(adminId, 'admin_reactivate', 'user', userId);
+
+    return this.sanitizeUser(updatedUser!);
+  }
+
+  // Blocks login until the password is changed and signs the user out everywhere.
+  // The reset token is returned once so it can be passed on to the user.
+  async forcePasswordReset(adminId: number, userId: number): Promise<{ reset_token: string; expires_at: Date }> {
+    await this.findUser(userId);
+
+    const { token, hash } = CryptoUtils.generateResetToken();
+    const expiresAt = new Date(Date.now() + FORCED_RESET_TTL_HOURS * 60 * 60 * 1000);
+
+    await this.userRepository.setPasswordResetRequired(userId, hash, expiresAt);
+    await this.authService.revokeAllSessions(userId);
+    await this.auditService.log(adminId, 'admin_force_password_reset', 'user', userId);
+
+    return { reset_token: token, expires_at: expiresAt };
+  }
+
+  async updateRoles(adminId: number, userId: number, roles: UserRole[]): Promise<SafeUser> {
+    const user = await this.findUser(userId);
+
+    // Every account keeps the base role
+    const newRoles = Array.from(new Set<UserRole>(['user', ...roles]));
+
+    if (adminId === userId && !newRoles.includes('admin')) {
+      throw new ValidationError('Validation failed', { roles: ['You cannot remove your own admin role'] });
+    }
+
+    const updatedUser = await this.userRepository.updateRoles(userId, newRoles);
+    await this.auditService.log(adminId, 'admin_update_roles', 'user', userId,
+      { roles: user.roles },
+      { roles: newRoles }
+    );
+
+    return this.sanitizeUser(updatedUser!);
+  }
+
+  async getStats(): Promise<AdminStats> {
+    const [systemStats, categories, storageMethods] = await Promise.all([
+      this.userRepository.getSystemStats(),
+      this.categoryRepository.getCategoryStats(),
+      this.storageTipRepository.getStorageMethodStats()
+    ]);
+
+    return {
+      ...systemStats,
+      categories,
+      storage_methods: storageMethods
+    };
+  }
+
+  private async findUser(userId: number): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    return user;
+  }
+
+  private sanitizeUser(user: User): SafeUser {
+    // Credentials and one-time token hashes never leave the server
+    const {
+      password_hash,
+      verification_token,
+      reset_password_token,
+      totp_secret,
+      totp_last_used_step,
+      ...sanitizedUser
+    } = user as User & {
+      verification_token?: string | null;
+      reset_password_token?: string | null;
+      totp_last_used_step?: number | null;
+    };
+    return sanitizedUser;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { AnalyticsRepository } from '../repositories/analytics.repository';
+import { HouseholdService } from './household.service';
+import { AnalyticsGranularity, FoodAnalytics, AppError } from '@shared/types';
+import { DateUtils, ValidationUtils } from '@shared/utils';
+
+const DEFAULT_RANGE_DAYS: Record<AnalyticsGranularity, number> = {
+  week: 12 * 7,
+  month: 365
+};
+
+const MAX_RANGE_DAYS = 2 * 365;
+
+export class AnalyticsService {
+  private analyticsRepository: AnalyticsRepository;
+  private householdService: HouseholdService;
+
+  constructor() {
+    this.analyticsRepository = new AnalyticsRepository();
+    this.householdService = new HouseholdService();
+  }
+
+  async getFoodAnalytics(
+    userId: number,
+    options: { from?: string; to?: string; granularity?: string } = {}
+  ): Promise<FoodAnalytics> {
+    const granularity = (options.granularity || 'week') as AnalyticsGranularity;
+    if (granularity !== 'week' && granularity !== 'month') {
+      throw new AppError('granularity must be "week" or "month"', 400);
+    }
+
+    if ((options.from && !ValidationUtils.isValidDate(options.from)) ||
+        (options.to && !ValidationUtils.isValidDate(options.to))) {
+      throw new AppError('from and to must be valid dates (YYYY-MM-DD)', 400);
+    }
+
+    const to = options.to || DateUtils.getCurrentDate();
+    const from = options.from || DateUtils.addDaysToDate(to, -DEFAULT_RANGE_DAYS[granularity]);
+
+    const rangeDays = Math.round(
+      (DateUtils.parseDate(to).getTime() - DateUtils.parseDate(from).getTime()) / (24 * 60 * 60 * 1000)
+    );
+    if (rangeDays < 0) {
+      throw new AppError('from date must not be after to date', 400);
+    }
+
+    if (rangeDays > MAX_RANGE_DAYS) {
+      throw new AppError(`Date range must not exceed ${MAX_RANGE_DAYS} days`, 400);
+    }
+
+    // The preceding period of equal length is the baseline for the reduction rate
+    const previousTo = DateUtils.addDaysToDate(from, -1);
+    const previousFrom = DateUtils.addDaysToDate(previousTo, -rangeDays);
+    const scope = await this.householdService.getScopeUserIds(userId);
+
+    const [totals, previousTotals, timeSeries, byCategory, byStorageLocation] = await Promise.all([
+      this.analyticsRepository.getWasteTotals(scope, from, to),
+      this.analyticsRepository.getWasteTotals(scope, previousFrom, previousTo),
+      this.analyticsRepository.getWasteTimeSeries(scope, from, to, granularity),
+      this.analyticsRepository.getWasteByCategory(scope, from, to),
+      this.analyticsRepository.getWasteByStorageLocation(scope, from, to)
+    ]);
+
+    const wasted = totals.expired + totals.disposed;
+    const previousWasted = previousTotals.expired + previousTotals.disposed;
+
+    return {
+      range: { from, to, granularity },
+      summary: {
+        consumed: totals.consumed,
+        expired: totals.expired,
+        disposed: totals.disposed,
+        wasted,
+        waste_rate: this.percentage(wasted, totals.consumed + wasted),
+        previous_waste_rate: this.percentage(previousWasted, previousTotals.consumed + previousWasted),
+        waste_reduction_rate: previousWasted > 0
+          ? Math.round(((previousWasted - wasted) / previousWasted) * 1000) / 10
+          : null,
+        money_wasted: totals.money_wasted,
+        money_saved: totals.money_saved,
+        priced_items: totals.priced_items
+      },
+      time_series: timeSeries,
+      by_category: byCategory,
+      by_storage_location: byStorageLocation
+    };
+  }
+
+  private percentage(part: number, total: number): number | null {
+    if (total === 0) {
+      return null;
+    }
+
+    return Math.round((part / total) * 1000) / 10;
+  }
+}
@@ -0,0 +1,92 @@
+import { AuditRepository } from '../repositories/audit.repository';
+import { HouseholdRepository } from '../repositories/household.repository';
+import { getRequestContext } from '../middleware/request-context.middleware';
+import { AuditLog, AuditLogFilterOptions, PaginatedResponse, AppError } from '@shared/types';
+import { ValidationUtils } from '@shared/utils';
+
+// Never persist credentials or tokens into the audit trail
+const REDACTED_FIELDS = ['password', 'password_hash', 'verification_token', 'reset_token', 'refresh_token', 'access_token', 'totp_secret'];
+
+// Entities on the shared inventory; account, security and household rows stay with whoever acted
+const SHARED_ENTITY_TYPES = ['food', 'shopping_list', 'shopping_item', 'category'];
+
+export class AuditService {
+  private auditRepository: AuditRepository;
+  private householdRepository: HouseholdRepository;
+
+  constructor() {
+    this.auditRepository = new AuditRepository();
+    this.householdRepository = new HouseholdRepository();
+  }
+
+  async log(
+    userId: number | null,
+    action: string,
+    entityType: string,
+    entityId?: number,
+    oldValues?: any,
+    newValues?: any
+  ): Promise<void> {
+    const context = getRequestContext();
+
+    try {
+      await this.auditRepository.log({
+        user_id: userId,
+        action,
+        entity_type: entityType,
+        entity_id: entityId ?? null,
+        old_values: this.sanitizeValues(oldValues),
+        new_values: this.sanitizeValues(newValues),
+        ip_address: context.ip_address || null,
+        user_agent: context.user_agent || null
+      });
+    } catch (error) {
+      // Auditing must never break the action being audited
+      console.error(`Failed to write audit log (${action} on ${entityType} ${entityId}):`, error);
+    }
+  }
+
+  async getAuditLogs(userId: number, filters: AuditLogFilterOptions = {}): Promise<PaginatedResponse<AuditLog>> {
+    if (filters.from && !ValidationUtils.isValidDate(filters.from)) {
+      throw new AppError('Invalid from date', 400);
+    }
+
+    if (filters.to && !ValidationUtils.isValidDate(filters.to)) {
+      throw new AppError('Invalid to date', 400);
+    }
+
+    if (filters.from && filters.to && filters.from > filters.to) {
+      throw new AppError('from date must not be after to date', 400);
+    }
+
+    // Household members see each other's activity on the shared inventory
+    const memberIds = await this.householdRepository.findMemberIds(userId);
+    const result = await this.auditRepository.findVisibleWithPagination(userId, memberIds, SHARED_ENTITY_TYPES, filters);
+
+    // Where and from what device someone else acted is not the household's business
+    return {
+      ...result,
+      items: result.items.map(entry =>
+        entry.user_id === userId ? entry : { ...entry, ip_address: null, user_agent: null }
+      )
+    };
+  }
+
+  private sanitizeValues(values: any): Record<string, any> | null {
+    if (values === undefined || values === null) {
+      return null;
+    }
+
+    if (typeof values !== 'object' || Array.isArray(values)) {
+      return { value: values };
+    }
+
+    const sanitized: Record<string, any> = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (!REDACTED_FIELDS.includes(key)) {
+        sanitized[key] = value;
+      }
+    }
+    return sanitized;
+  }
+}
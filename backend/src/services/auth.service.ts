@@ -1,14 +1,41 @@
 import { CryptoUtils } from '../utils/crypto';
 import { UserRepository } from '../repositories/user.repository';
 import { ValidationUtils } from '@shared/utils';
-import { User, UserRegistrationData, UserLoginData, AuthResponse, ValidationError, AppError } from '@shared/types';
+import {
+  User,
+  UserRegistrationData,
+  UserLoginData,
+  AuthResponse,
+  AuthSession,
+  AuthTokens,
+  LoginResult,
+  TwoFactorLoginData,
+  ValidationError,
+  AppError
+} from '@shared/types';
 import redisClient from '../config/redis';
+import { AuditService } from './audit.service';
+import { SessionService } from './session.service';
+import { TwoFactorService } from './two-factor.service';
+import { MailService } from './mail.service';
+
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+const PASSWORD_RESET_TTL_MINUTES = 60;
 
 export class AuthService {
   private userRepository: UserRepository;
+  private auditService: AuditService;
+  private sessionService: SessionService;
+  private twoFactorService: TwoFactorService;
+  private mailService: MailService;
 
   constructor() {
     this.userRepository = new UserRepository();
+    this.auditService = new AuditService();
+    this.sessionService = new SessionService();
+    this.twoFactorService = new TwoFactorService();
+    this.mailService = new MailService();
   }
 
   async register(userData: UserRegistrationData): Promise<AuthResponse> {
@@ -36,12 +63,10 @@ export class AuthService {
     // Generate email verification token
     const verificationToken = CryptoUtils.generateVerificationToken();
     await this.userRepository.setVerificationToken(user.id, verificationToken);
+    await this.mailService.sendVerificationEmail(user, verificationToken);
 
-    // Generate auth tokens
-    const tokens = CryptoUtils.generateTokenPair(user);
-
-    // Store refresh token in Redis
-    await this.storeRefreshToken(user.id, tokens.refresh_token);
+    // Start a new session and issue its first token pair
+    const tokens = await this.startSession(user);
 
     // Log user action
     await this.logUserAction(user.id, 'register', 'user', user.id);
@@ -52,7 +77,7 @@ export class AuthService {
     };
   }
 
-  async login(loginData: UserLoginData): Promise<AuthResponse> {
+  async login(loginData: UserLoginData): Promise<LoginResult> {
     // Validate input
     this.validateLoginData(loginData);
 
@@ -65,76 +90,155 @@ export class AuthService {
     // Verify password
     const isPasswordValid = await CryptoUtils.verifyPassword(loginData.password, user.password_hash!);
     if (!isPasswordValid) {
+      await this.logUserAction(user.id, 'login_failed', 'user', user.id);
       throw new AppError('Invalid credentials', 401);
     }
 
-    // Update last login
-    await this.userRepository.updateLastLogin(user.id);
-
-    // Generate auth tokens
-    const tokens = CryptoUtils.generateTokenPair(user);
-
-    // Store refresh token in Redis
-    await this.storeRefreshToken(user.id, tokens.refresh_token);
+    // An administrator has forced a reset; the old password may be compromised
+    if (user.password_reset_required) {
+      throw new AppError('Password reset required. Please set a new password using your reset link.', 403);
+    }
 
-    // Log user action
-    await this.logUserAction(user.id, 'login', 'user', user.id);
+    // The password alone is not enough; tokens are issued by completeTwoFactorLogin
+    if (user.totp_enabled) {
+      return {
+        two_factor_required: true,
+        challenge_token: CryptoUtils.generateTwoFactorChallengeToken(user, TWO_FACTOR_CHALLENGE_TTL_SECONDS),
+        expires_in: TWO_FACTOR_CHALLENGE_TTL_SECONDS
+      };
+    }
 
-    return {
-      user: this.sanitizeUser(user),
-      tokens
-    };
+    return this.completeLogin(user);
   }
 
-  async refreshToken(refreshToken: string): Promise<AuthResponse> {
+  // Second login step: exchanges the challenge from login plus an authenticator or recovery code for tokens
+  async completeTwoFactorLogin(data: TwoFactorLoginData): Promise<AuthResponse> {
+    let decoded;
     try {
-      // Verify refresh token
-      const decoded = CryptoUtils.verifyToken(refreshToken);
+      decoded = CryptoUtils.verifyToken(data.challenge_token);
+    } catch (error) {
+      throw new AppError('Two-factor challenge is invalid or has expired; please sign in again', 401);
+    }
 
-      if (decoded.type !== 'refresh') {
-        throw new AppError('Invalid token type', 401);
-      }
+    if (decoded.type !== 'two_factor' || !decoded.jti) {
+      throw new AppError('Two-factor challenge is invalid or has expired; please sign in again', 401);
+    }
 
-      // Check if token exists in Redis
-      const storedToken = await redisClient.get(`refresh_token:${decoded.id}`);
-      if (!storedToken || storedToken !== refreshToken) {
-        throw new AppError('Invalid refresh token', 401);
-      }
+    // Without this a stolen password would allow unlimited guesses within the challenge lifetime
+    const attempts = await redisClient.incrementWithExpire(
+      `two_factor_attempts:${decoded.jti}`,
+      TWO_FACTOR_CHALLENGE_TTL_SECONDS
+    );
+    if (attempts > TWO_FACTOR_MAX_ATTEMPTS) {
+      throw new AppError('Too many invalid codes; please sign in again', 429);
+    }
 
-      // Get user
-      const user = await this.userRepository.findById(decoded.id);
-      if (!user || !user.is_active) {
-        throw new AppError('User not found or inactive', 401);
-      }
+    const user = await this.userRepository.findById(decoded.id);
+    if (!user || !user.is_active || !user.totp_enabled) {
+      throw new AppError('Two-factor challenge is invalid or has expired; please sign in again', 401);
+    }
 
-      // Generate new tokens
-      const tokens = CryptoUtils.generateTokenPair(user);
+    const method = data.recovery_code ? 'recovery_code' : 'totp';
+    const isValid = data.recovery_code
+      ? await this.twoFactorService.verifyRecoveryCode(user, data.recovery_code)
+      : await this.twoFactorService.verifyCode(user, data.code || '');
 
-      // Store new refresh token
-      await this.storeRefreshToken(user.id, tokens.refresh_token);
+    if (!isValid) {
+      await this.logUserAction(user.id, 'two_factor_failed', 'user', user.id, null, { method });
+      throw new AppError('Invalid authentication code', 401);
+    }
 
-      // Log user action
-      await this.logUserAction(user.id, 'refresh_token', 'user', user.id);
+    // A challenge completes at most one login
+    const claimed = await redisClient.acquireLock(`two_factor_challenge:${decoded.jti}`, TWO_FACTOR_CHALLENGE_TTL_SECONDS);
+    if (!claimed) {
+      throw new AppError('Two-factor challenge is invalid or has expired; please sign in again', 401);
+    }
 
-      return {
-        user: this.sanitizeUser(user),
-        tokens
-      };
+    return this.completeLogin(user, { two_factor: method });
+  }
+
+  async refreshToken(refreshToken: string): Promise<AuthResponse> {
+    let decoded;
+    try {
+      decoded = CryptoUtils.verifyToken(refreshToken);
     } catch (error) {
       throw new AppError('Invalid refresh token', 401);
     }
+
+    // Tokens issued before session tracking carry no session id and can no longer be used
+    if (decoded.type !== 'refresh' || !decoded.sid || !decoded.jti) {
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    const rotation = await this.sessionService.rotate(decoded.id, decoded.sid, decoded.jti);
+
+    if (rotation.status === 'reused') {
+      // An already rotated token came back: it was copied, so end the whole family
+      await this.sessionService.revoke(decoded.id, decoded.sid);
+      await this.logUserAction(decoded.id, 'refresh_token_reuse', 'user', decoded.id, null, { session_id: decoded.sid });
+      throw new AppError('Refresh token has already been used; please sign in again', 401);
+    }
+
+    if (rotation.status === 'missing') {
+      throw new AppError('Session has expired or was revoked', 401);
+    }
+
+    // Get user
+    const user = await this.userRepository.findById(decoded.id);
+    if (!user || !user.is_active) {
+      await this.sessionService.revoke(decoded.id, decoded.sid);
+      throw new AppError('User not found or inactive', 401);
+    }
+
+    // Generate new tokens for the same session
+    const tokens = CryptoUtils.generateTokenPair(user, { id: decoded.sid, tokenId: rotation.tokenId });
+
+    // Log user action
+    await this.logUserAction(user.id, 'refresh_token', 'user', user.id);
+
+    return {
+      user: this.sanitizeUser(user),
+      tokens
+    };
   }
 
-  async logout(userId: number, refreshToken?: string): Promise<void> {
-    // Remove refresh token from Redis
-    if (refreshToken) {
-      await redisClient.del(`refresh_token:${userId}`);
+  // Ends the session the refresh token (or, failing that, the access token) belongs to
+  async logout(userId: number, refreshToken?: string, sessionId?: string): Promise<void> {
+    const decoded = refreshToken ? CryptoUtils.decodeToken(refreshToken) : null;
+    const targetSessionId = decoded?.id === userId && decoded?.sid ? decoded.sid : sessionId;
+
+    if (targetSessionId) {
+      await this.sessionService.revoke(userId, targetSessionId);
     }
 
     // Log user action
     await this.logUserAction(userId, 'logout', 'user', userId);
   }
 
+  async getSessions(userId: number, currentSessionId?: string): Promise<AuthSession[]> {
+    return this.sessionService.list(userId, currentSessionId);
+  }
+
+  async revokeSession(userId: number, sessionId: string): Promise<void> {
+    const revoked = await this.sessionService.revoke(userId, sessionId);
+    if (!revoked) {
+      throw new AppError('Session not found', 404);
+    }
+
+    await this.logUserAction(userId, 'session_revoked', 'user', userId, null, { session_id: sessionId });
+  }
+
+  async revokeOtherSessions(userId: number, currentSessionId?: string): Promise<number> {
+    const revoked = await this.sessionService.revokeAll(userId, currentSessionId);
+    await this.logUserAction(userId, 'sessions_revoked', 'user', userId, null, { count: revoked });
+    return revoked;
+  }
+
+  // Signs the user out everywhere by dropping their refresh tokens
+  async revokeAllSessions(userId: number): Promise<void> {
+    await this.sessionService.revokeAll(userId);
+  }
+
   async verifyEmail(token: string): Promise<User> {
     const user = await this.userRepository.findByVerificationToken(token);
     if (!user) {
@@ -160,11 +264,10 @@ export class AuthService {
     }
 
     const { token, hash } = CryptoUtils.generateResetToken();
-    const expiresAt = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
+    const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
 
     await this.userRepository.setResetPasswordToken(email, hash, expiresAt);
-
-    // TODO: Send password reset email with token
+    await this.mailService.sendPasswordResetEmail(user, token, PASSWORD_RESET_TTL_MINUTES);
 
     // Log user action
     await this.logUserAction(user.id, 'password_reset_requested', 'user', user.id);
@@ -195,7 +298,7 @@ export class AuthService {
     await this.userRepository.clearResetPasswordToken(user.id);
 
     // Invalidate all refresh tokens for security
-    await redisClient.del(`refresh_token:${user.id}`);
+    await this.revokeAllSessions(user.id);
 
     // Log user action
     await this.logUserAction(user.id, 'password_reset', 'user', user.id);
@@ -211,6 +314,7 @@ export class AuthService {
     // Verify current password
     const isCurrentPasswordValid = await CryptoUtils.verifyPassword(currentPassword, user.password_hash!);
     if (!isCurrentPasswordValid) {
+      await this.logUserAction(userId, 'password_change_failed', 'user', userId);
       throw new AppError('Current password is incorrect', 400);
     }
 
@@ -229,7 +333,7 @@ export class AuthService {
     await this.userRepository.updatePassword(userId, passwordHash);
 
     // Invalidate all refresh tokens for security
-    await redisClient.del(`refresh_token:${userId}`);
+    await this.revokeAllSessions(userId);
 
     // Log user action
     await this.logUserAction(userId, 'password_changed', 'user', userId);
@@ -270,7 +374,7 @@ export class AuthService {
     await this.userRepository.deactivateUser(userId);
 
     // Remove refresh tokens
-    await redisClient.del(`refresh_token:${userId}`);
+    await this.revokeAllSessions(userId);
 
     // Log user action
     await this.logUserAction(userId, 'account_deactivated', 'user', userId);
@@ -330,14 +434,31 @@ export class AuthService {
     }
   }
 
-  private async storeRefreshToken(userId: number, refreshToken: string): Promise<void> {
-    const key = `refresh_token:${userId}`;
-    const expiry = 30 * 24 * 60 * 60; // 30 days in seconds
-    await redisClient.set(key, refreshToken, { EX: expiry });
+  private async completeLogin(user: User, details?: Record<string, string>): Promise<AuthResponse> {
+    // Update last login
+    await this.userRepository.updateLastLogin(user.id);
+
+    // Start a new session and issue its first token pair
+    const tokens = await this.startSession(user);
+
+    // Log user action
+    await this.logUserAction(user.id, 'login', 'user', user.id, null, details);
+
+    return {
+      user: this.sanitizeUser(user),
+      tokens
+    };
+  }
+
+  private async startSession(user: User): Promise<AuthTokens> {
+    const session = await this.sessionService.start(user.id);
+    return CryptoUtils.generateTokenPair(user, session);
   }
 
   private sanitizeUser(user: User): Omit<User, 'password_hash'> {
-    const { password_hash, ...sanitizedUser } = user;
+    const { password_hash, totp_secret, totp_last_used_step, ...sanitizedUser } = user as User & {
+      totp_last_used_step?: number | null;
+    };
     return sanitizedUser;
   }
 
@@ -345,9 +466,10 @@ export class AuthService {
     userId: number,
     action: string,
     entityType: string,
-    entityId?: number
+    entityId?: number,
+    oldValues?: any,
+    newValues?: any
   ): Promise<void> {
-    // TODO: Implement audit logging
-    console.log(`User ${userId} performed action: ${action} on ${entityType} ${entityId}`);
+    await this.auditService.log(userId, action, entityType, entityId, oldValues, newValues);
   }
 }
\ No newline at end of file
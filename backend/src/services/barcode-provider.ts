@@ -0,0 +1,87 @@
+import axios from 'axios';
+import { config } from '../config/environment';
+import { BarcodeApiResponse, BarcodeProviderName } from '@shared/types';
+
+export interface BarcodeProduct {
+  barcode: string;
+  name: string;
+  brand?: string;
+  categories?: string;
+  image_url?: string;
+}
+
+export interface BarcodeProvider {
+  readonly name: BarcodeProviderName;
+  lookup(barcode: string): Promise<BarcodeProduct | null>;
+}
+
+export class OpenFoodFactsProvider implements BarcodeProvider {
+  readonly name = 'openfoodfacts' as const;
+  private baseUrl: string;
+  private timeout: number;
+
+  constructor(baseUrl: string = config.BARCODE_API_URL, timeout: number = config.BARCODE_API_TIMEOUT) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.timeout = timeout;
+  }
+
+  async lookup(barcode: string): Promise<BarcodeProduct | null> {
+    const response = await axios.get<BarcodeApiResponse>(`${this.baseUrl}/api/v2/search`, {
+      params: {
+        code: barcode,
+        fields: 'code,product_name,product_name_ja,brands,categories,image_url'
+      },
+      timeout: this.timeout,
+      headers: { 'User-Agent': 'FoodWasteReductionApp/1.0' }
+    });
+
+    const product = response.data.products?.find(p => !p.code || p.code === barcode);
+    const name = product?.product_name_ja || product?.product_name;
+
+    if (!product || !name) {
+      return null;
+    }
+
+    return {
+      barcode,
+      name: name.trim(),
+      brand: product.brands?.split(',')[0]?.trim() || undefined,
+      categories: product.categories || undefined,
+      image_url: product.image_url || undefined
+    };
+  }
+}
+
+const DEFAULT_FIXTURES: BarcodeProduct[] = [
+  { barcode: '4900000000016', name: '牛乳 1000ml', brand: 'サンプル乳業', categories: 'Dairies, Milks' },
+  { barcode: '4900000000023', name: '食パン 6枚切', brand: 'サンプルベーカリー', categories: 'Cereals and potatoes, Breads' },
+  { barcode: '4900000000030', name: '冷凍ほうれん草', brand: 'サンプル食品', categories: 'Frozen foods, Frozen vegetables' },
+  { barcode: '4900000000047', name: 'ツナ缶', brand: 'サンプル水産', categories: 'Seafood, Fishes, Canned fishes' },
+  { barcode: '4900000000054', name: '緑茶 500ml', brand: 'サンプル飲料', categories: 'Beverages, Teas' },
+  { barcode: '4900000000061', name: '絹豆腐', brand: 'サンプル食品', categories: 'Plant-based foods, Tofu' }
+];
+
+// Offline provider for tests and local development; never touches the network
+export class FixtureBarcodeProvider implements BarcodeProvider {
+  readonly name = 'fixture' as const;
+  private products: Map<string, BarcodeProduct>;
+
+  constructor(fixtures: BarcodeProduct[] = DEFAULT_FIXTURES) {
+    this.products = new Map(fixtures.map(product => [product.barcode, product]));
+  }
+
+  async lookup(barcode: string): Promise<BarcodeProduct | null> {
+    return this.products.get(barcode) || null;
+  }
+}
+
+export function createBarcodeProvider(name: BarcodeProviderName = config.BARCODE_PROVIDER): BarcodeProvider {
+  switch (name) {
+    case 'fixture':
+      return new FixtureBarcodeProvider();
+    case 'openfoodfacts':
+      return new OpenFoodFactsProvider();
+    default:
+      throw new Error(`Unknown barcode provider: ${name}`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,240 @@
+import { ProductCatalogRepository } from '../repositories/product-catalog.repository';
+import { FoodRepository } from '../repositories/food.repository';
+import { CategoryRepository } from '../repositories/category.repository';
+import { StorageTipRepository } from '../repositories/storage-tip.repository';
+import { HouseholdService } from './household.service';
+import { BarcodeProduct, BarcodeProvider, createBarcodeProvider } from './barcode-provider';
+import {
+  Category,
+  Food,
+  FoodCreateData,
+  FoodScanResult,
+  ExpirySuggestionBasis,
+  ProductCatalogEntry,
+  StorageLocation,
+  AppError
+} from '@shared/types';
+import { DateUtils, ValidationUtils } from '@shared/utils';
+
+const FALLBACK_CATEGORY = 'その他';
+
+// Checked in order against each provider category, most specific first,
+// so that e.g. "Frozen vegetables" lands in 冷凍食品 rather than 野菜
+const CATEGORY_KEYWORDS: Array<[string, string[]]> = [
+  ['冷凍食品', ['frozen', '冷凍']],
+  ['缶詰・保存食品', ['canned', 'preserve', 'instant', '缶詰', 'レトルト', 'インスタント']],
+  ['お菓子・デザート', ['snack', 'sweet', 'dessert', 'chocolate', 'biscuit', 'candies', 'confectioner', '菓子', 'デザート', 'チョコレート']],
+  ['飲み物', ['beverage', 'drink', 'juice', 'waters', 'coffee', 'teas', 'soda', '飲料', '飲み物', 'ジュース', 'お茶']],
+  ['乳製品', ['dairies', 'dairy', 'milk', 'cheese', 'yogurt', 'yoghurt', 'butter', '乳製品', '牛乳', 'チーズ', 'ヨーグルト']],
+  ['調味料', ['condiment', 'sauce', 'seasoning', 'spice', 'dressing', 'vinegar', '調味料', 'ソース', '醤油', '味噌']],
+  ['肉類', ['meat', 'beef', 'pork', 'chicken', 'hams', 'sausage', '肉', 'ハム', 'ソーセージ']],
+  ['魚類', ['fish', 'seafood', 'salmon', 'tuna', '魚', '水産', 'シーフード']],
+  ['穀物', ['cereal', 'bread', 'rices', 'pasta', 'noodle', 'grain', '米', 'パン', '麺', '穀物']],
+  ['野菜', ['vegetable', '野菜']],
+  ['果物', ['fruit', '果物', 'フルーツ']]
+];
+
+interface CategoryDefaults {
+  storage_location: StorageLocation;
+  shelf_life_days: number;
+}
+
+const FALLBACK_DEFAULTS: CategoryDefaults = { storage_location: '冷蔵庫', shelf_life_days: 7 };
+
+// Used when neither the user's history nor a storage tip knows the product
+const CATEGORY_DEFAULTS: Record<string, CategoryDefaults> = {
+  '野菜': { storage_location: '冷蔵庫', shelf_life_days: 7 },
+  '果物': { storage_location: '冷蔵庫', shelf_life_days: 7 },
+  '肉類': { storage_location: '冷蔵庫', shelf_life_days: 3 },
+  '魚類': { storage_location: '冷蔵庫', shelf_life_days: 2 },
+  '乳製品': { storage_location: '冷蔵庫', shelf_life_days: 10 },
+  '穀物': { storage_location: '常温', shelf_life_days: 30 },
+  '調味料': { storage_location: '常温', shelf_life_days: 180 },
+  '冷凍食品': { storage_location: '冷凍庫', shelf_life_days: 90 },
+  '缶詰・保存食品': { storage_location: '常温', shelf_life_days: 365 },
+  '飲み物': { storage_location: '常温', shelf_life_days: 90 },
+  'お菓子・デザート': { storage_location: '常温', shelf_life_days: 60 },
+  [FALLBACK_CATEGORY]: FALLBACK_DEFAULTS
+};
+
+export class BarcodeService {
+  private productCatalogRepository: ProductCatalogRepository;
+  private foodRepository: FoodRepository;
+  private categoryRepository: CategoryRepository;
+  private storageTipRepository: StorageTipRepository;
+  private householdService: HouseholdService;
+  private provider: BarcodeProvider;
+
+  constructor(provider: BarcodeProvider = createBarcodeProvider()) {
+    this.productCatalogRepository = new ProductCatalogRepository();
+    this.foodRepository = new FoodRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.storageTipRepository = new StorageTipRepository();
+    this.householdService = new HouseholdService();
+    this.provider = provider;
+  }
+
+  async scan(userId: number, barcode: string): Promise<FoodScanResult> {
+    if (!ValidationUtils.isValidBarcode(barcode)) {
+      throw new AppError('Invalid JAN/EAN barcode', 400);
+    }
+
+    const [categories, scope] = await Promise.all([
+      this.categoryRepository.findActive(),
+      this.householdService.getScopeUserIds(userId)
+    ]);
+    const [product, history] = await Promise.all([
+      this.findProduct(barcode, categories),
+      this.foodRepository.findByBarcode(barcode, scope)
+    ]);
+
+    // The household's most recent purchase of the same product beats catalog guesses
+    const previous = history[0];
+    if (!product && !previous) {
+      throw new AppError('No product found for this barcode', 404);
+    }
+
+    const categoryId = previous?.category_id || product?.category_id ||
+      categories.find(c => c.name === FALLBACK_CATEGORY)?.id;
+    if (!categoryId) {
+      throw new AppError('No category available for scanned product', 500);
+    }
+
+    const categoryName = categories.find(c => c.id === categoryId)?.name || FALLBACK_CATEGORY;
+    const defaults = CATEGORY_DEFAULTS[categoryName] || FALLBACK_DEFAULTS;
+    const name = product?.name || (previous as Food).name;
+    const storageLocation = previous?.storage_location || defaults.storage_location;
+    const purchaseDate = DateUtils.getCurrentDate();
+
+    const suggestion = await this.suggestShelfLife(name, categoryName, storageLocation, previous, defaults.shelf_life_days);
+
+    return {
+      barcode,
+      product,
+      food: {
+        name,
+        category_id: categoryId,
+        purchase_date: purchaseDate,
+        expiry_date: DateUtils.addDaysToDate(purchaseDate, suggestion.shelf_life_days),
+        quantity: previous?.quantity || 1,
+        unit: previous?.unit || '個',
+        storage_location: storageLocation,
+        barcode,
+        image_url: product?.image_url || previous?.image_url,
+        price: previous?.price
+      },
+      expiry_suggestion: suggestion
+    };
+  }
+
+  // Pre-fills a food bought without scanning, e.g. from a shopping list, the same way scan does
+  async suggestFoodDefaults(
+    userId: number,
+    name: string,
+    categoryId?: number | null
+  ): Promise<Pick<FoodCreateData, 'category_id' | 'storage_location' | 'purchase_date' | 'expiry_date'> & {
+    expiry_suggestion: FoodScanResult['expiry_suggestion'];
+  }> {
+    const [categories, scope] = await Promise.all([
+      this.categoryRepository.findActive(),
+      this.householdService.getScopeUserIds(userId)
+    ]);
+    const history = await this.foodRepository.findByName(name, scope);
+    const previous = history[0];
+
+    const resolvedCategoryId = categoryId || previous?.category_id ||
+      categories.find(c => c.name === FALLBACK_CATEGORY)?.id;
+    if (!resolvedCategoryId) {
+      throw new AppError('No category available for this food', 500);
+    }
+
+    const categoryName = categories.find(c => c.id === resolvedCategoryId)?.name || FALLBACK_CATEGORY;
+    const defaults = CATEGORY_DEFAULTS[categoryName] || FALLBACK_DEFAULTS;
+    const storageLocation = previous?.storage_location || defaults.storage_location;
+    const purchaseDate = DateUtils.getCurrentDate();
+
+    const suggestion = await this.suggestShelfLife(name, categoryName, storageLocation, previous, defaults.shelf_life_days);
+
+    return {
+      category_id: resolvedCategoryId,
+      storage_location: storageLocation,
+      purchase_date: purchaseDate,
+      expiry_date: DateUtils.addDaysToDate(purchaseDate, suggestion.shelf_life_days),
+      expiry_suggestion: suggestion
+    };
+  }
+
+  private async findProduct(barcode: string, categories: Category[]): Promise<ProductCatalogEntry | null> {
+    const cached = await this.productCatalogRepository.findByBarcode(barcode);
+    if (cached) {
+      return cached;
+    }
+
+    let product: BarcodeProduct | null;
+    try {
+      product = await this.provider.lookup(barcode);
+    } catch (error) {
+      // A provider outage should not block scanning products the user has bought before
+      console.error(`Barcode lookup via ${this.provider.name} failed for ${barcode}:`, error);
+      return null;
+    }
+
+    if (!product) {
+      return null;
+    }
+
+    return this.productCatalogRepository.upsert({
+      ...product,
+      category_id: this.mapCategory(product.categories, categories),
+      source: this.provider.name
+    });
+  }
+
+  private mapCategory(providerCategories: string | undefined, categories: Category[]): number | undefined {
+    if (!providerCategories) {
+      return undefined;
+    }
+
+    // Providers list categories from broadest to most specific
+    const terms = providerCategories
+      .split(',')
+      .map(term => term.replace(/^[a-z]{2}:/, '').trim().toLowerCase())
+      .filter(Boolean)
+      .reverse();
+
+    for (const term of terms) {
+      for (const [categoryName, keywords] of CATEGORY_KEYWORDS) {
+        if (keywords.some(keyword => term.includes(keyword))) {
+          return categories.find(c => c.name === categoryName)?.id;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  private async suggestShelfLife(
+    name: string,
+    categoryName: string,
+    storageLocation: StorageLocation,
+    previous: Food | undefined,
+    defaultDays: number
+  ): Promise<{ shelf_life_days: number; basis: ExpirySuggestionBasis }> {
+    if (previous) {
+      // pg may hand DATE columns back as Date objects, so don't assume ISO strings here
+      const days = Math.round(
+        (new Date(previous.expiry_date).getTime() - new Date(previous.purchase_date).getTime()) / (24 * 60 * 60 * 1000)
+      );
+      if (days > 0) {
+        return { shelf_life_days: days, basis: 'history' };
+      }
+    }
+
+    const storageTip = await this.storageTipRepository.findByFoodName(name, categoryName);
+    if (storageTip && storageTip.storage_method === storageLocation) {
+      return { shelf_life_days: storageTip.shelf_life_days, basis: 'storage_tip' };
+    }
+
+    return { shelf_life_days: defaultDays, basis: 'category_default' };
+  }
+}
\ No newline at end of file
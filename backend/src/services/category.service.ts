@@ -0,0 +1,200 @@
+import { CategoryRepository } from '../repositories/category.repository';
+import { HouseholdService } from './household.service';
+import { AuditService } from './audit.service';
+import {
+  Category,
+  CategoryCreateData,
+  CategoryUpdateData,
+  CategoryStats,
+  AppError,
+  ValidationError
+} from '@shared/types';
+
+const DEFAULT_ICON = '📦';
+const DEFAULT_COLOR = '#9E9E9E';
+
+export class CategoryService {
+  private categoryRepository: CategoryRepository;
+  private householdService: HouseholdService;
+  private auditService: AuditService;
+
+  constructor() {
+    this.categoryRepository = new CategoryRepository();
+    this.householdService = new HouseholdService();
+    this.auditService = new AuditService();
+  }
+
+  async getCategories(userId: number): Promise<Category[]> {
+    const scope = await this.householdService.getScopeUserIds(userId);
+    return this.categoryRepository.findVisible(scope, userId);
+  }
+
+  async getCategoryById(userId: number, categoryId: number): Promise<Category> {
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const category = await this.categoryRepository.findVisibleById(categoryId, scope);
+
+    if (!category) {
+      throw new AppError('Category not found', 404);
+    }
+
+    const foodCount = await this.categoryRepository.getFoodCountByCategory(categoryId, scope);
+    return { ...category, food_count: foodCount };
+  }
+
+  async getCategoryStats(userId: number): Promise<CategoryStats[]> {
+    const scope = await this.householdService.getScopeUserIds(userId);
+    return this.categoryRepository.getCategoryStats(scope);
+  }
+
+  async createCategory(userId: number, data: CategoryCreateData): Promise<Category> {
+    const name = data.name?.trim();
+    this.validateName(name);
+
+    const scope = await this.householdService.getScopeUserIds(userId);
+    await this.assertNameAvailable(name!, scope);
+
+    const category = await this.categoryRepository.create({
+      name: name!,
+      icon: data.icon || DEFAULT_ICON,
+      color: data.color || DEFAULT_COLOR,
+      description: data.description,
+      user_id: userId,
+      sort_order: await this.categoryRepository.getNextSortOrder(userId)
+    });
+
+    await this.auditService.log(userId, 'create', 'category', category.id, null, category);
+
+    return category;
+  }
+
+  async updateCategory(userId: number, categoryId: number, data: CategoryUpdateData): Promise<Category> {
+    const { category, scope } = await this.getCustomCategory(userId, categoryId);
+
+    const updateData: Partial<Category> = { ...data };
+    if (data.name !== undefined) {
+      const name = data.name.trim();
+      this.validateName(name);
+
+      if (name.toLowerCase() !== category.name.toLowerCase()) {
+        await this.assertNameAvailable(name, scope);
+      }
+      updateData.name = name;
+    }
+
+    const updatedCategory = await this.categoryRepository.update(categoryId, updateData);
+    if (!updatedCategory) {
+      throw new AppError('Failed to update category', 500);
+    }
+
+    await this.auditService.log(userId, 'update', 'category', categoryId, category, updatedCategory);
+
+    return updatedCategory;
+  }
+
+  // Saves the user's own display order; categories left out fall back to the default order after these
+  async reorderCategories(userId: number, categoryIds: number[]): Promise<Category[]> {
+    if (new Set(categoryIds).size !== categoryIds.length) {
+      throw new ValidationError('Validation failed', { category_ids: ['Category IDs must be unique'] });
+    }
+
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const visibleIds = new Set((await this.categoryRepository.findVisible(scope, userId)).map(c => c.id));
+    const unknownIds = categoryIds.filter(id => !visibleIds.has(id));
+
+    if (unknownIds.length > 0) {
+      throw new ValidationError('Validation failed', {
+        category_ids: [`Unknown category IDs: ${unknownIds.join(', ')}`]
+      });
+    }
+
+    await this.categoryRepository.saveOrder(userId, categoryIds);
+
+    return this.categoryRepository.findVisible(scope, userId);
+  }
+
+  // Reassigns all foods of the source category to the target and removes the source
+  async mergeCategories(
+    userId: number,
+    sourceId: number,
+    targetId: number
+  ): Promise<{ category: Category; reassigned_count: number }> {
+    if (sourceId === targetId) {
+      throw new AppError('Cannot merge a category into itself', 400);
+    }
+
+    const { category: source, scope } = await this.getCustomCategory(userId, sourceId);
+
+    const target = await this.categoryRepository.findVisibleById(targetId, scope);
+    if (!target) {
+      throw new AppError('Target category not found', 404);
+    }
+
+    const reassignedCount = await this.categoryRepository.mergeInto(sourceId, targetId);
+
+    await this.auditService.log(userId, 'merge', 'category', sourceId, source, {
+      target_category_id: targetId,
+      reassigned_count: reassignedCount
+    });
+
+    return { category: target, reassigned_count: reassignedCount };
+  }
+
+  // Refuses to delete a category still referenced by foods unless a category to move them to is given
+  async deleteCategory(userId: number, categoryId: number, reassignTo?: number): Promise<{ reassigned_count: number }> {
+    const { category } = await this.getCustomCategory(userId, categoryId);
+
+    if (reassignTo !== undefined) {
+      const { reassigned_count } = await this.mergeCategories(userId, categoryId, reassignTo);
+      return { reassigned_count };
+    }
+
+    const foodCount = await this.categoryRepository.countFoodReferences(categoryId);
+    if (foodCount > 0) {
+      throw new AppError(
+        `Category is still used by ${foodCount} food item(s); choose a category to move them to`,
+        409
+      );
+    }
+
+    const deleted = await this.categoryRepository.delete(categoryId);
+    if (!deleted) {
+      throw new AppError('Failed to delete category', 500);
+    }
+
+    await this.auditService.log(userId, 'delete', 'category', categoryId, category);
+
+    return { reassigned_count: 0 };
+  }
+
+  // Built-in categories are shared by everyone and cannot be changed through the API
+  private async getCustomCategory(userId: number, categoryId: number): Promise<{ category: Category; scope: number[] }> {
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const category = await this.categoryRepository.findVisibleById(categoryId, scope);
+
+    if (!category) {
+      throw new AppError('Category not found', 404);
+    }
+
+    if (category.user_id === null || category.user_id === undefined) {
+      throw new AppError('Built-in categories cannot be modified', 403);
+    }
+
+    return { category, scope };
+  }
+
+  private validateName(name: string | undefined): void {
+    if (!name) {
+      throw new ValidationError('Validation failed', { name: ['Category name is required'] });
+    }
+
+    if (name.length > 50) {
+      throw new ValidationError('Validation failed', { name: ['Category name must be 50 characters or less'] });
+    }
+  }
+
+  private async assertNameAvailable(name: string, scope: number[]): Promise<void> {
+    if (await this.categoryRepository.findVisibleByName(name, scope)) {
+      throw new AppError('A category with this name already exists', 409);
+    }
+  }
+}
\ No newline at end of file
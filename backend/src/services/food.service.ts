@@ -2,37 +2,54 @@ import { FoodRepository } from '../repositories/food.repository';
 import { CategoryRepository } from '../repositories/category.repository';
 import { NotificationRepository } from '../repositories/notification.repository';
 import { StorageTipRepository } from '../repositories/storage-tip.repository';
+import { FoodConsumptionRepository } from '../repositories/food-consumption.repository';
+import { NotificationService } from './notification.service';
+import { HouseholdService } from './household.service';
+import { AuditService } from './audit.service';
 import {
   Food,
   FoodCreateData,
   FoodUpdateData,
   FoodFilterOptions,
+  FoodConsumeData,
+  FoodConsumption,
+  FoodStats,
   PaginatedResponse,
   AppError,
   ValidationError,
-  StorageLocation
+  StorageLocation,
+  UserPreferences
 } from '@shared/types';
-import { ValidationUtils, DateUtils } from '@shared/utils';
+import { ValidationUtils, DateUtils, UnitUtils } from '@shared/utils';
 
 export class FoodService {
   private foodRepository: FoodRepository;
   private categoryRepository: CategoryRepository;
   private notificationRepository: NotificationRepository;
   private storageTipRepository: StorageTipRepository;
+  private foodConsumptionRepository: FoodConsumptionRepository;
+  private notificationService: NotificationService;
+  private householdService: HouseholdService;
+  private auditService: AuditService;
 
   constructor() {
     this.foodRepository = new FoodRepository();
     this.categoryRepository = new CategoryRepository();
     this.notificationRepository = new NotificationRepository();
     this.storageTipRepository = new StorageTipRepository();
+    this.foodConsumptionRepository = new FoodConsumptionRepository();
+    this.notificationService = new NotificationService();
+    this.householdService = new HouseholdService();
+    this.auditService = new AuditService();
   }
 
   async createFood(userId: number, foodData: FoodCreateData): Promise<Food> {
     // Validate input data
     await this.validateFoodData(foodData);
 
-    // Check if category exists
-    const category = await this.categoryRepository.findById(foodData.category_id);
+    // Check if category exists and is available to the user's household
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const category = await this.categoryRepository.findVisibleById(foodData.category_id, scope);
     if (!category) {
       throw new AppError('Category not found', 404);
     }
@@ -61,14 +78,16 @@ export class FoodService {
     filters?: FoodFilterOptions,
     pagination?: { page?: number; per_page?: number }
   ): Promise<PaginatedResponse<any>> {
+    const scope = await this.householdService.getScopeUserIds(userId);
+
     if (pagination) {
-      return this.foodRepository.findByUserIdWithPagination(userId, {
+      return this.foodRepository.findByUserIdsWithPagination(scope, {
         ...filters,
         ...pagination
       });
     }
 
-    const foods = await this.foodRepository.findByUserId(userId, filters);
+    const foods = await this.foodRepository.findByUserIds(scope, filters);
     return {
       items: foods,
       total_count: foods.length,
@@ -83,23 +102,29 @@ export class FoodService {
   async getFoodById(userId: number, foodId: number): Promise<Food> {
     const food = await this.foodRepository.findById(foodId);
 
-    if (!food || food.user_id !== userId) {
+    // Foods are shared with everyone in the owner's household
+    const scope = await this.householdService.getScopeUserIds(userId);
+    if (!food || !scope.includes(food.user_id)) {
       throw new AppError('Food not found', 404);
     }
 
     return food;
   }
 
-  async updateFood(userId: number, foodId: number, updateData: FoodUpdateData): Promise<Food> {
+  async updateFood(userId: number, foodId: number, data: FoodUpdateData): Promise<Food> {
+    const { expected_updated_at, ...updateData } = data;
+
     // Check if food exists and belongs to user
     const existingFood = await this.getFoodById(userId, foodId);
+    this.assertUnchangedSince(existingFood, expected_updated_at);
 
     // Validate update data
     await this.validateFoodUpdateData(updateData);
 
     // If category is being changed, validate it exists
     if (updateData.category_id) {
-      const category = await this.categoryRepository.findById(updateData.category_id);
+      const scope = await this.householdService.getScopeUserIds(userId);
+      const category = await this.categoryRepository.findVisibleById(updateData.category_id, scope);
       if (!category) {
         throw new AppError('Category not found', 404);
       }
@@ -114,9 +139,14 @@ export class FoodService {
       });
     }
 
-    // Update food
-    const updatedFood = await this.foodRepository.update(foodId, adjustedUpdateData);
+    // Update food; a versioned write only lands if nobody changed the food in the meantime
+    const updatedFood = expected_updated_at
+      ? await this.foodRepository.updateIfUnchanged(foodId, adjustedUpdateData, expected_updated_at)
+      : await this.foodRepository.update(foodId, adjustedUpdateData);
     if (!updatedFood) {
+      if (expected_updated_at) {
+        throw new AppError('Food was modified by someone else', 409);
+      }
       throw new AppError('Failed to update food', 500);
     }
 
@@ -148,11 +178,24 @@ export class FoodService {
     await this.logUserAction(userId, 'delete', 'food', foodId, food);
   }
 
-  async markAsConsumed(userId: number, foodId: number): Promise<Food> {
+  async markAsConsumed(userId: number, foodId: number, expectedUpdatedAt?: string): Promise<Food> {
     const food = await this.getFoodById(userId, foodId);
+    this.assertUnchangedSince(food, expectedUpdatedAt);
+    if (food.status === 'consumed') {
+      return food;
+    }
 
-    const updatedFood = await this.foodRepository.markAsConsumed(foodId, userId);
+    // Whatever was left is recorded as the final consumption event
+    const [updatedFood] = await this.foodConsumptionRepository.consumeRemaining(
+      [foodId],
+      [food.user_id],
+      userId,
+      expectedUpdatedAt || null
+    );
     if (!updatedFood) {
+      if (expectedUpdatedAt) {
+        throw new AppError('Food was modified by someone else', 409);
+      }
       throw new AppError('Failed to mark food as consumed', 500);
     }
 
@@ -165,10 +208,75 @@ export class FoodService {
     return updatedFood;
   }
 
+  async consumeFood(
+    userId: number,
+    foodId: number,
+    data: FoodConsumeData
+  ): Promise<{ food: Food; consumption: FoodConsumption }> {
+    const food = await this.getFoodById(userId, foodId);
+    this.assertUnchangedSince(food, data.expected_updated_at);
+    if (food.status !== 'active') {
+      throw new AppError('Only active foods can be consumed', 400);
+    }
+
+    const unit = data.unit || food.unit;
+    const converted = UnitUtils.convert(data.quantity, unit, food.unit);
+    // Stored quantities have two decimals; compare in the same precision
+    const foodQuantity = converted === null ? 0 : Math.round(converted * 100) / 100;
+    const remaining = Number(food.quantity);
+    const errors: Record<string, string[]> = {};
+
+    if (!ValidationUtils.isValidQuantity(data.quantity)) {
+      errors.quantity = ['Quantity must be a positive number'];
+    } else if (converted === null) {
+      errors.unit = [`Cannot convert ${unit} to ${food.unit}`];
+    } else if (foodQuantity <= 0) {
+      errors.quantity = [`Quantity is too small to record in ${food.unit}`];
+    } else if (foodQuantity > remaining) {
+      errors.quantity = [`Only ${remaining}${food.unit} remaining`];
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError('Validation failed', errors);
+    }
+
+    const result = await this.foodConsumptionRepository.consume(
+      foodId,
+      userId,
+      data.quantity,
+      unit,
+      foodQuantity,
+      data.expected_updated_at || null
+    );
+    if (!result) {
+      throw new AppError('Food was modified concurrently, please try again', 409);
+    }
+
+    if (result.food.status === 'consumed') {
+      await this.notificationRepository.deleteByFoodId(foodId);
+    }
+
+    await this.logUserAction(
+      userId,
+      result.food.status === 'consumed' ? 'consume' : 'consume_partial',
+      'food',
+      foodId,
+      { quantity: food.quantity },
+      { quantity: result.food.quantity, consumed: data.quantity, unit }
+    );
+
+    return result;
+  }
+
+  async getConsumptionHistory(userId: number, foodId: number): Promise<FoodConsumption[]> {
+    await this.getFoodById(userId, foodId);
+    return this.foodConsumptionRepository.findByFoodId(foodId);
+  }
+
   async markAsExpired(userId: number, foodId: number): Promise<Food> {
     const food = await this.getFoodById(userId, foodId);
 
-    const updatedFood = await this.foodRepository.markAsExpired(foodId, userId);
+    const updatedFood = await this.foodRepository.markAsExpired(foodId, food.user_id);
     if (!updatedFood) {
       throw new AppError('Failed to mark food as expired', 500);
     }
@@ -180,15 +288,18 @@ export class FoodService {
   }
 
   async getExpiringFoods(userId: number, daysThreshold: number = 3): Promise<any[]> {
-    return this.foodRepository.findExpiringFoods(userId, daysThreshold);
+    const scope = await this.householdService.getScopeUserIds(userId);
+    return this.foodRepository.findExpiringFoods(scope, daysThreshold);
   }
 
   async getExpiredFoods(userId: number): Promise<any[]> {
-    return this.foodRepository.findExpiredFoods(userId);
+    const scope = await this.householdService.getScopeUserIds(userId);
+    return this.foodRepository.findExpiredFoods(scope);
   }
 
-  async getInventoryStats(userId: number): Promise<any> {
-    return this.foodRepository.getInventoryStats(userId);
+  async getInventoryStats(userId: number): Promise<FoodStats> {
+    const scope = await this.householdService.getScopeUserIds(userId);
+    return this.foodRepository.getInventoryStats(scope);
   }
 
   async searchFoods(userId: number, searchTerm: string): Promise<any[]> {
@@ -196,23 +307,26 @@ export class FoodService {
       return [];
     }
 
-    return this.foodRepository.searchFoodsByName(userId, searchTerm);
+    const scope = await this.householdService.getScopeUserIds(userId);
+    return this.foodRepository.searchFoodsByName(scope, searchTerm);
   }
 
   async getFoodIngredients(userId: number): Promise<string[]> {
-    return this.foodRepository.getFoodIngredients(userId);
+    const scope = await this.householdService.getScopeUserIds(userId);
+    return this.foodRepository.getFoodIngredients(scope);
   }
 
   async bulkMarkAsConsumed(userId: number, foodIds: number[]): Promise<number> {
-    // Verify all foods belong to the user
+    // Verify all foods belong to the user's household
+    const scope = await this.householdService.getScopeUserIds(userId);
     const foods = await this.foodRepository.findByIds(foodIds);
-    const userFoods = foods.filter(food => (food as any).user_id === userId);
+    const userFoods = foods.filter(food => scope.includes(food.user_id));
 
     if (userFoods.length !== foodIds.length) {
       throw new AppError('Some foods not found or do not belong to user', 404);
     }
 
-    const updatedCount = await this.foodRepository.bulkUpdateStatus(foodIds, 'consumed', userId);
+    const updatedCount = (await this.foodConsumptionRepository.consumeRemaining(foodIds, scope, userId)).length;
 
     // Remove notifications for these foods
     for (const foodId of foodIds) {
@@ -229,12 +343,18 @@ export class FoodService {
     return this.storageTipRepository.findByFoodName(foodName, category);
   }
 
-  async checkExpiringFoodsForUser(userId: number, daysThreshold: number = 3): Promise<void> {
+  async checkExpiringFoodsForUser(
+    userId: number,
+    daysThreshold: number = 3,
+    preferences?: UserPreferences
+  ): Promise<number> {
     const expiringFoods = await this.getExpiringFoods(userId, daysThreshold);
 
-    for (const food of expiringFoods) {
-      await this.checkAndCreateExpiryNotification(food);
-    }
+    return this.notificationService.createExpiryAlerts(userId, expiringFoods, preferences);
+  }
+
+  async expirePastDueFoods(userId: number): Promise<Food[]> {
+    return this.foodRepository.markPastDueAsExpired(userId);
   }
 
   private async validateFoodData(data: FoodCreateData): Promise<void> {
@@ -316,6 +436,14 @@ export class FoodService {
     }
   }
 
+  // Offline clients replay queued writes later; refuse them if someone else changed the food meanwhile.
+  // This only fails fast; the write itself re-checks the version so a concurrent change can't slip in.
+  private assertUnchangedSince(food: Food, expectedUpdatedAt?: string): void {
+    if (expectedUpdatedAt && new Date(food.updated_at).getTime() !== new Date(expectedUpdatedAt).getTime()) {
+      throw new AppError('Food was modified by someone else', 409);
+    }
+  }
+
   private async adjustExpiryDateBasedOnStorage(foodData: any): Promise<any> {
     if (!foodData.storage_location || !foodData.name) {
       return foodData;
@@ -343,54 +471,8 @@ export class FoodService {
   }
 
   private async checkAndCreateExpiryNotification(food: Food): Promise<void> {
-    if (food.status !== 'active') {
-      return;
-    }
-
-    const daysUntilExpiry = DateUtils.getDaysUntilExpiry(food.expiry_date);
-
-    // Create notification if food is expiring soon (within 3 days) or expired
-    if (daysUntilExpiry <= 3) {
-      const existingNotification = await this.notificationRepository.findByUserAndFood(
-        food.user_id,
-        food.id,
-        'expiry_alert'
-      );
-
-      if (!existingNotification) {
-        let title: string;
-        let message: string;
-        let priority: 'high' | 'medium' | 'low' = 'medium';
-
-        if (daysUntilExpiry < 0) {
-          title = '期限切れの食品があります';
-          message = `${food.name}が期限切れです（${Math.abs(daysUntilExpiry)}日経過）`;
-          priority = 'high';
-        } else if (daysUntilExpiry === 0) {
-          title = '本日期限切れの食品があります';
-          message = `${food.name}が本日期限切れです！早めにお使いください。`;
-          priority = 'high';
-        } else if (daysUntilExpiry === 1) {
-          title = '明日期限切れの食品があります';
-          message = `${food.name}が明日期限切れです。使い切りレシピをチェックしましょう！`;
-          priority = 'high';
-        } else {
-          title = '期限切れ間近の食品があります';
-          message = `${food.name}があと${daysUntilExpiry}日で期限切れです。`;
-          priority = 'medium';
-        }
-
-        await this.notificationRepository.create({
-          user_id: food.user_id,
-          food_id: food.id,
-          type: 'expiry_alert',
-          title,
-          message,
-          priority,
-          sent_at: new Date()
-        });
-      }
-    }
+    // Respects the user's enable_expiry_alerts / expiry_alert_days preferences
+    await this.notificationService.createExpiryAlert(food);
   }
 
   private async logUserAction(
@@ -401,7 +483,6 @@ export class FoodService {
     oldValues?: any,
     newValues?: any
   ): Promise<void> {
-    // TODO: Implement audit logging
-    console.log(`User ${userId} performed action: ${action} on ${entityType} ${entityId}`);
+    await this.auditService.log(userId, action, entityType, entityId, oldValues, newValues);
   }
 }
\ No newline at end of file
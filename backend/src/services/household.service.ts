@@ -0,0 +1,247 @@
+import { HouseholdRepository, HouseholdResource } from '../repositories/household.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { AuditService } from './audit.service';
+import { CryptoUtils } from '../utils/crypto';
+import {
+  Household,
+  HouseholdCreateData,
+  HouseholdInvitation,
+  HouseholdInviteData,
+  HouseholdRole,
+  AppError,
+  ValidationError
+} from '@shared/types';
+import { ValidationUtils } from '@shared/utils';
+
+const INVITATION_TTL_DAYS = 7;
+
+export class HouseholdService {
+  private householdRepository: HouseholdRepository;
+  private userRepository: UserRepository;
+  private auditService: AuditService;
+
+  constructor() {
+    this.householdRepository = new HouseholdRepository();
+    this.userRepository = new UserRepository();
+    this.auditService = new AuditService();
+  }
+
+  // Users whose foods and shopping lists the given user can see.
+  // Without a household this is just the user themself.
+  async getScopeUserIds(userId: number): Promise<number[]> {
+    const memberIds = await this.householdRepository.findMemberIds(userId);
+    return memberIds.length > 0 ? memberIds : [userId];
+  }
+
+  // A user without a household owns their personal inventory
+  async getRole(userId: number): Promise<HouseholdRole> {
+    const membership = await this.householdRepository.findMembership(userId);
+    return membership?.role || 'owner';
+  }
+
+  async canAccess(userId: number, resource: HouseholdResource, resourceId: number): Promise<boolean> {
+    const ownerId = await this.householdRepository.findResourceOwnerId(resource, resourceId);
+    if (ownerId === null) {
+      return false;
+    }
+
+    const scope = await this.getScopeUserIds(userId);
+    return scope.includes(ownerId);
+  }
+
+  async getHousehold(userId: number): Promise<Household> {
+    const membership = await this.requireMembership(userId);
+
+    const [household, members, invitations] = await Promise.all([
+      this.householdRepository.findById(membership.household_id),
+      this.householdRepository.findMembers(membership.household_id),
+      membership.role === 'owner'
+        ? this.householdRepository.findPendingInvitations({ householdId: membership.household_id })
+        : Promise.resolve([])
+    ]);
+
+    if (!household) {
+      throw new AppError('Household not found', 404);
+    }
+
+    return {
+      ...household,
+      role: membership.role,
+      members,
+      invitations
+    };
+  }
+
+  async createHousehold(userId: number, data: HouseholdCreateData): Promise<Household> {
+    const name = data.name?.trim();
+    if (!name) {
+      throw new ValidationError('Validation failed', { name: ['Household name is required'] });
+    }
+
+    if (await this.householdRepository.findMembership(userId)) {
+      throw new AppError('You already belong to a household', 409);
+    }
+
+    const household = await this.householdRepository.createWithOwner(name, userId);
+    await this.auditService.log(userId, 'create', 'household', household.id, null, { name });
+
+    return this.getHousehold(userId);
+  }
+
+  async inviteMember(userId: number, data: HouseholdInviteData): Promise<HouseholdInvitation> {
+    const membership = await this.requireMembership(userId);
+    this.assertOwner(membership.role);
+
+    const email = data.email?.trim().toLowerCase();
+    if (!email || !ValidationUtils.isValidEmail(email)) {
+      throw new ValidationError('Validation failed', { email: ['Valid email is required'] });
+    }
+
+    const invitee = await this.userRepository.findByEmail(email);
+    if (invitee) {
+      const inviteeMembership = await this.householdRepository.findMembership(invitee.id);
+      if (inviteeMembership?.household_id === membership.household_id) {
+        throw new AppError('User is already a member of this household', 409);
+      }
+    }
+
+    // Only the hash is stored; the plain token is handed out once to be shared with the invitee
+    const { token, hash } = CryptoUtils.generateResetToken();
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    const invitation = await this.householdRepository.createInvitation(
+      membership.household_id,
+      email,
+      data.role || 'member',
+      hash,
+      userId,
+      expiresAt
+    );
+
+    await this.auditService.log(userId, 'invite', 'household', membership.household_id, null, {
+      email,
+      role: invitation.role
+    });
+
+    return { ...invitation, token };
+  }
+
+  async revokeInvitation(userId: number, invitationId: number): Promise<void> {
+    const membership = await this.requireMembership(userId);
+    this.assertOwner(membership.role);
+
+    const deleted = await this.householdRepository.deleteInvitation(invitationId, membership.household_id);
+    if (!deleted) {
+      throw new AppError('Invitation not found', 404);
+    }
+  }
+
+  async getMyInvitations(userId: number): Promise<HouseholdInvitation[]> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    return this.householdRepository.findPendingInvitations({ email: user.email });
+  }
+
+  async acceptInvitation(userId: number, token: string): Promise<Household> {
+    const invitation = await this.householdRepository.findInvitationByTokenHash(CryptoUtils.hashString(token));
+    if (!invitation || invitation.accepted_at) {
+      throw new AppError('Invitation not found', 404);
+    }
+
+    if (new Date(invitation.expires_at) < new Date()) {
+      throw new AppError('Invitation has expired', 410);
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user || user.email.toLowerCase() !== invitation.email.toLowerCase()) {
+      throw new AppError('This invitation was sent to a different email address', 403);
+    }
+
+    if (await this.householdRepository.findMembership(userId)) {
+      throw new AppError('Leave your current household before joining another one', 409);
+    }
+
+    await this.householdRepository.acceptInvitation(invitation.id, invitation.household_id, userId, invitation.role);
+    await this.auditService.log(userId, 'join', 'household', invitation.household_id, null, { role: invitation.role });
+
+    return this.getHousehold(userId);
+  }
+
+  async leaveHousehold(userId: number): Promise<void> {
+    const membership = await this.requireMembership(userId);
+    const members = await this.householdRepository.findMembers(membership.household_id);
+
+    if (members.length === 1) {
+      // Last one out: the household goes away and the user's data becomes personal again
+      await this.householdRepository.delete(membership.household_id);
+    } else {
+      this.assertOwnerRemains(members, userId);
+      await this.householdRepository.removeMember(membership.household_id, userId);
+    }
+
+    await this.auditService.log(userId, 'leave', 'household', membership.household_id);
+  }
+
+  async updateMemberRole(userId: number, memberId: number, role: HouseholdRole): Promise<Household> {
+    const membership = await this.requireMembership(userId);
+    this.assertOwner(membership.role);
+
+    const members = await this.householdRepository.findMembers(membership.household_id);
+    const member = members.find(m => m.user_id === memberId);
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+
+    if (role !== 'owner') {
+      this.assertOwnerRemains(members, memberId);
+    }
+
+    await this.householdRepository.updateMemberRole(membership.household_id, memberId, role);
+    await this.auditService.log(userId, 'update_member_role', 'household', membership.household_id,
+      { user_id: memberId, role: member.role },
+      { user_id: memberId, role }
+    );
+
+    return this.getHousehold(userId);
+  }
+
+  async removeMember(userId: number, memberId: number): Promise<void> {
+    const membership = await this.requireMembership(userId);
+    this.assertOwner(membership.role);
+
+    if (memberId === userId) {
+      throw new AppError('Use leave to remove yourself from the household', 400);
+    }
+
+    const removed = await this.householdRepository.removeMember(membership.household_id, memberId);
+    if (!removed) {
+      throw new AppError('Member not found', 404);
+    }
+
+    await this.auditService.log(userId, 'remove_member', 'household', membership.household_id, { user_id: memberId });
+  }
+
+  private async requireMembership(userId: number): Promise<{ household_id: number; role: HouseholdRole }> {
+    const membership = await this.householdRepository.findMembership(userId);
+    if (!membership) {
+      throw new AppError('You do not belong to a household', 404);
+    }
+    return membership;
+  }
+
+  private assertOwner(role: HouseholdRole): void {
+    if (role !== 'owner') {
+      throw new AppError('Only household owners can manage members', 403);
+    }
+  }
+
+  private assertOwnerRemains(members: Array<{ user_id: number; role: HouseholdRole }>, leavingUserId: number): void {
+    const remainingOwners = members.filter(m => m.role === 'owner' && m.user_id !== leavingUserId);
+    if (remainingOwners.length === 0) {
+      throw new AppError('A household needs at least one owner; transfer ownership first', 400);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { IngredientSynonymRepository } from '../repositories/ingredient-synonym.repository';
+import { IngredientMatcher } from '@shared/utils';
+
+const SYNONYM_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Shared by every service instance; the dictionary rarely changes
+let cachedMatcher: { matcher: IngredientMatcher; expiresAt: number } | null = null;
+
+export class IngredientMatchingService {
+  private synonymRepository: IngredientSynonymRepository;
+
+  constructor() {
+    this.synonymRepository = new IngredientSynonymRepository();
+  }
+
+  async getMatcher(): Promise<IngredientMatcher> {
+    if (cachedMatcher && cachedMatcher.expiresAt > Date.now()) {
+      return cachedMatcher.matcher;
+    }
+
+    try {
+      const synonyms = await this.synonymRepository.findAllSynonyms();
+      cachedMatcher = {
+        matcher: new IngredientMatcher(synonyms),
+        expiresAt: Date.now() + SYNONYM_CACHE_TTL_MS
+      };
+      return cachedMatcher.matcher;
+    } catch (error) {
+      // Normalization alone still beats failing the whole request
+      console.error('Failed to load ingredient synonyms:', error);
+      return cachedMatcher?.matcher ?? new IngredientMatcher();
+    }
+  }
+}
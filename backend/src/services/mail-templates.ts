@@ -0,0 +1,191 @@
+import { EmailTemplateName, LanguagePreference } from '@shared/types';
+
+export interface EmailTemplateData {
+  email_verification: {
+    username: string;
+    verification_url: string;
+  };
+  password_reset: {
+    username: string;
+    reset_url: string;
+    expires_in_minutes: number;
+  };
+  weekly_digest: {
+    username: string;
+    expiring_foods: Array<{ name: string; expiry_date: string; days_left: number }>;
+    expired_count: number;
+    inventory_url: string;
+    settings_url: string;
+  };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// A paragraph is either a sentence or a bullet list
+type Paragraph = string | string[];
+
+interface EmailContent {
+  subject: string;
+  greeting: string;
+  paragraphs: Paragraph[];
+  action?: { label: string; url: string };
+  footer: string;
+}
+
+type DigestFood = EmailTemplateData['weekly_digest']['expiring_foods'][number];
+
+type TemplateRenderer<T extends EmailTemplateName> = (data: EmailTemplateData[T]) => EmailContent;
+
+// Every template has to be written in every supported language (LanguagePreference)
+interface LocalizedTemplate<T extends EmailTemplateName> {
+  ja: TemplateRenderer<T>;
+  en: TemplateRenderer<T>;
+}
+
+const TEMPLATES: { [T in EmailTemplateName]-?: LocalizedTemplate<T> } = {
+  email_verification: {
+    ja: data => ({
+      subject: '【FoodKeeper】メールアドレスの確認',
+      greeting: `${data.username} さん`,
+      paragraphs: [
+        'FoodKeeper にご登録いただきありがとうございます。',
+        '下のリンクからメールアドレスの確認を完了してください。'
+      ],
+      action: { label: 'メールアドレスを確認する', url: data.verification_url },
+      footer: 'このメールに心当たりがない場合は破棄してください。'
+    }),
+    en: data => ({
+      subject: '[FoodKeeper] Confirm your email address',
+      greeting: `Hi ${data.username},`,
+      paragraphs: [
+        'Thanks for signing up for FoodKeeper.',
+        'Please confirm your email address using the link below.'
+      ],
+      action: { label: 'Confirm email address', url: data.verification_url },
+      footer: 'If you did not create an account, you can ignore this email.'
+    })
+  },
+
+  password_reset: {
+    ja: data => ({
+      subject: '【FoodKeeper】パスワードの再設定',
+      greeting: `${data.username} さん`,
+      paragraphs: [
+        'パスワード再設定のリクエストを受け付けました。',
+        `下のリンクから${data.expires_in_minutes}分以内に新しいパスワードを設定してください。`
+      ],
+      action: { label: 'パスワードを再設定する', url: data.reset_url },
+      footer: 'リクエストに心当たりがない場合は、このメールを破棄してください。パスワードは変更されません。'
+    }),
+    en: data => ({
+      subject: '[FoodKeeper] Reset your password',
+      greeting: `Hi ${data.username},`,
+      paragraphs: [
+        'We received a request to reset your password.',
+        `Use the link below within ${data.expires_in_minutes} minutes to choose a new one.`
+      ],
+      action: { label: 'Reset password', url: data.reset_url },
+      footer: 'If you did not request this, you can ignore this email and your password will stay the same.'
+    })
+  },
+
+  weekly_digest: {
+    ja: data => ({
+      subject: `【FoodKeeper】今週期限を迎える食品 ${data.expiring_foods.length}件`,
+      greeting: `${data.username} さん`,
+      paragraphs: [
+        '今週賞味期限・消費期限を迎える食品のお知らせです。',
+        data.expiring_foods.map((food: DigestFood) =>
+          `${food.name}（${food.expiry_date}・${food.days_left === 0 ? '今日まで' : `あと${food.days_left}日`}）`
+        ),
+        ...(data.expired_count > 0 ? [`期限切れの食品が${data.expired_count}件あります。`] : []),
+        '早めに使い切って食品ロスを減らしましょう。'
+      ],
+      action: { label: '在庫を確認する', url: data.inventory_url },
+      footer: `このメールの配信設定は ${data.settings_url} から変更できます。`
+    }),
+    en: data => ({
+      subject: `[FoodKeeper] ${data.expiring_foods.length} item(s) expiring this week`,
+      greeting: `Hi ${data.username},`,
+      paragraphs: [
+        'These foods reach their best-before or use-by date this week:',
+        data.expiring_foods.map((food: DigestFood) =>
+          `${food.name} (${food.expiry_date}, ${food.days_left === 0 ? 'today' : `${food.days_left} day(s) left`})`
+        ),
+        ...(data.expired_count > 0 ? [`${data.expired_count} item(s) in your inventory have already expired.`] : []),
+        'Use them up soon to keep food out of the bin.'
+      ],
+      action: { label: 'View inventory', url: data.inventory_url },
+      footer: `You can change your email preferences at ${data.settings_url}.`
+    })
+  }
+};
+
+export function renderEmailTemplate<T extends EmailTemplateName>(
+  template: T,
+  language: LanguagePreference,
+  data: EmailTemplateData[T]
+): RenderedEmail {
+  const renderers = TEMPLATES[template] as LocalizedTemplate<T>;
+  // Japanese is the default for anything we don't have a translation for
+  const render = language === 'en' ? renderers.en : renderers.ja;
+  const content = render(data);
+
+  return {
+    subject: content.subject,
+    text: renderText(content),
+    html: renderHtml(content)
+  };
+}
+
+function renderText(content: EmailContent): string {
+  const blocks = [
+    content.greeting,
+    ...content.paragraphs.map(paragraph =>
+      Array.isArray(paragraph) ? paragraph.map(item => `- ${item}`).join('\n') : paragraph
+    ),
+    ...(content.action ? [`${content.action.label}:\n${content.action.url}`] : []),
+    '--',
+    content.footer,
+    'FoodKeeper'
+  ];
+
+  return blocks.join('\n\n');
+}
+
+function renderHtml(content: EmailContent): string {
+  const paragraphs = content.paragraphs.map(paragraph =>
+    Array.isArray(paragraph)
+      ? `<ul>${paragraph.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+      : `<p>${escapeHtml(paragraph)}</p>`
+  );
+
+  const action = content.action
+    ? `<p><a href="${escapeHtml(content.action.url)}" style="display:inline-block;padding:10px 20px;` +
+      `background:#16a34a;color:#ffffff;text-decoration:none;border-radius:6px">` +
+      `${escapeHtml(content.action.label)}</a></p>`
+    : '';
+
+  return [
+    '<!DOCTYPE html>',
+    '<html><body style="font-family:sans-serif;color:#1f2937;line-height:1.6">',
+    `<p>${escapeHtml(content.greeting)}</p>`,
+    ...paragraphs,
+    action,
+    `<hr><p style="font-size:12px;color:#6b7280">${escapeHtml(content.footer)}</p>`,
+    '</body></html>'
+  ].join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
\ No newline at end of file
@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../config/environment';
+import { MailTransportName } from '@shared/types';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: MailTransportName;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Raised for SMTP replies; 5xx codes are permanent and not worth retrying
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  get permanent(): boolean {
+    return this.code >= 500;
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+  timeout?: number;
+}
+
+// SMTP via nodemailer: implicit TLS on port 465, STARTTLS otherwise. With credentials configured
+// STARTTLS is mandatory, so AUTH is never sent over a plaintext connection.
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp' as const;
+  private transporter: Transporter;
+
+  constructor(options?: Partial<SmtpOptions>) {
+    const host = options?.host || config.SMTP_HOST || 'localhost';
+    const port = options?.port || config.SMTP_PORT || 587;
+    const user = options?.user ?? config.SMTP_USER;
+    const pass = options?.pass ?? config.SMTP_PASS;
+    const timeout = options?.timeout || 30000;
+    const authenticated = !!(user && pass);
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: port === 465,
+      requireTLS: authenticated,
+      auth: authenticated ? { user, pass } : undefined,
+      connectionTimeout: timeout,
+      greetingTimeout: timeout,
+      socketTimeout: timeout
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      });
+    } catch (error) {
+      const responseCode = (error as { responseCode?: number }).responseCode;
+      if (responseCode) {
+        throw new SmtpError(`SMTP server replied ${responseCode}: ${(error as Error).message}`, responseCode);
+      }
+      throw error;
+    }
+  }
+}
+
+// Writes each message as an .eml file; handy for inspecting mail in dev and asserting on it in tests
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file' as const;
+  private directory: string;
+
+  constructor(directory: string = config.MAIL_FILE_DIR) {
+    this.directory = directory;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    await fs.promises.writeFile(path.join(this.directory, fileName), buildMimeMessage(message));
+  }
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console' as const;
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+export function createMailTransport(name: MailTransportName = config.MAIL_TRANSPORT): MailTransport {
+  switch (name) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'file':
+      return new FileMailTransport();
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${name}`);
+  }
+}
+
+// "FoodKeeper <noreply@example.com>" -> "noreply@example.com"
+function extractAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1]! : mailbox).trim();
+}
+
+// RFC 2047 encoded-word so Japanese subjects and display names survive 7-bit transports
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function encodeMailbox(mailbox: string): string {
+  const match = mailbox.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  return match && match[1] ? `${encodeHeader(match[1])} <${match[2]}>` : mailbox;
+}
+
+function encodeBody(content: string): string {
+  return Buffer.from(content).toString('base64').replace(/(.{76})/g, '$1\r\n');
+}
+
+export function buildMimeMessage(message: MailMessage): string {
+  const domain = extractAddress(message.from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${encodeMailbox(message.from)}`,
+    `To: ${encodeMailbox(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0'
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text)
+    ].join('\r\n');
+  }
+
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`
+  ].join('\r\n');
+}
\ No newline at end of file
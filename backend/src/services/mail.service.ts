@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import redisClient from '../config/redis';
+import { config } from '../config/environment';
+import { UserPreferencesRepository } from '../repositories/user-preferences.repository';
+import { MailTransport, SmtpError, createMailTransport } from './mail-transport';
+import { EmailTemplateData, renderEmailTemplate } from './mail-templates';
+import { User, EmailTemplateName, LanguagePreference } from '@shared/types';
+
+const QUEUE_KEY = 'mail:queue';
+const RETRY_KEY = 'mail:retry';
+const DEAD_LETTER_KEY = 'mail:dead';
+const RETRY_BASE_DELAY_SECONDS = 30;
+const RETRY_MAX_DELAY_SECONDS = 60 * 60;
+
+interface MailJob<T extends EmailTemplateName = EmailTemplateName> {
+  id: string;
+  template: T;
+  to: string;
+  language: LanguagePreference;
+  data: EmailTemplateData[T];
+  attempts: number;
+  enqueued_at: string;
+  last_error?: string;
+}
+
+export interface MailQueueResult {
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+// Outbound email goes through a Redis list so request handlers never wait on SMTP;
+// MailQueueJob drains it, retrying transient failures with exponential backoff
+export class MailService {
+  private userPreferencesRepository: UserPreferencesRepository;
+  private transport: MailTransport;
+
+  constructor(transport: MailTransport = createMailTransport()) {
+    this.userPreferencesRepository = new UserPreferencesRepository();
+    this.transport = transport;
+  }
+
+  async sendVerificationEmail(user: User, token: string): Promise<void> {
+    await this.enqueue('email_verification', user, {
+      username: user.username,
+      verification_url: `${config.APP_URL}/verify-email/${token}`
+    });
+  }
+
+  async sendPasswordResetEmail(user: User, token: string, expiresInMinutes: number): Promise<void> {
+    await this.enqueue('password_reset', user, {
+      username: user.username,
+      reset_url: `${config.APP_URL}/reset-password/${token}`,
+      expires_in_minutes: expiresInMinutes
+    });
+  }
+
+  async sendWeeklyDigest(
+    user: User,
+    language: LanguagePreference,
+    digest: Pick<EmailTemplateData['weekly_digest'], 'expiring_foods' | 'expired_count'>
+  ): Promise<void> {
+    await this.enqueue('weekly_digest', user, {
+      username: user.username,
+      ...digest,
+      inventory_url: `${config.APP_URL}/inventory`,
+      settings_url: `${config.APP_URL}/settings`
+    }, language);
+  }
+
+  // Mail is best effort: a failure here must never fail the request that triggered it
+  async enqueue<T extends EmailTemplateName>(
+    template: T,
+    user: User,
+    data: EmailTemplateData[T],
+    language?: LanguagePreference
+  ): Promise<void> {
+    try {
+      const job: MailJob<T> = {
+        id: crypto.randomUUID(),
+        template,
+        to: user.email,
+        language: language || await this.getLanguage(user.id),
+        data,
+        attempts: 0,
+        enqueued_at: new Date().toISOString()
+      };
+
+      const queued = await redisClient.lpush(QUEUE_KEY, JSON.stringify(job));
+
+      // Redis unavailable: try to deliver right away rather than dropping the message
+      if (!queued) {
+        await this.deliver(job);
+      }
+    } catch (error) {
+      console.error(`Failed to send ${template} email to user ${user.id}:`, error);
+    }
+  }
+
+  async processQueue(limit: number = 50): Promise<MailQueueResult> {
+    const result: MailQueueResult = { sent: 0, retried: 0, failed: 0 };
+
+    // Retries whose backoff has elapsed go back into the queue first
+    await redisClient.moveDueToList(RETRY_KEY, QUEUE_KEY, Date.now());
+
+    for (let i = 0; i < limit; i++) {
+      const payload = await redisClient.rpop(QUEUE_KEY);
+      if (!payload) {
+        break;
+      }
+
+      let job: MailJob;
+      try {
+        job = JSON.parse(payload);
+      } catch (error) {
+        console.error('Dropping malformed mail job:', payload);
+        continue;
+      }
+
+      try {
+        await this.deliver(job);
+        result.sent++;
+      } catch (error) {
+        job.attempts++;
+        job.last_error = error instanceof Error ? error.message : String(error);
+
+        const permanent = error instanceof SmtpError && error.permanent;
+        if (permanent || job.attempts >= config.MAIL_MAX_ATTEMPTS) {
+          // Kept for inspection; nothing reads the dead letter list automatically
+          await redisClient.lpush(DEAD_LETTER_KEY, JSON.stringify(job));
+          console.error(`Giving up on ${job.template} email ${job.id} after ${job.attempts} attempt(s): ${job.last_error}`);
+          result.failed++;
+        } else {
+          const delaySeconds = Math.min(
+            RETRY_BASE_DELAY_SECONDS * Math.pow(2, job.attempts - 1),
+            RETRY_MAX_DELAY_SECONDS
+          );
+          await redisClient.zadd(RETRY_KEY, Date.now() + delaySeconds * 1000, JSON.stringify(job));
+          result.retried++;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private async deliver(job: MailJob): Promise<void> {
+    const rendered = renderEmailTemplate(job.template, job.language, job.data);
+
+    await this.transport.send({
+      from: config.FROM_EMAIL,
+      to: job.to,
+      subject: rendered.subject,
+      text: rendered.text,
+      html: rendered.html
+    });
+  }
+
+  private async getLanguage(userId: number): Promise<LanguagePreference> {
+    const preferences = await this.userPreferencesRepository.findByUserId(userId);
+    return preferences?.language || 'ja';
+  }
+}
\ No newline at end of file
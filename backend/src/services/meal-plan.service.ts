@@ -0,0 +1,508 @@
+import { MealPlanRepository, MealPlanDraft } from '../repositories/meal-plan.repository';
+import { RecipeRepository } from '../repositories/recipe.repository';
+import { FoodRepository } from '../repositories/food.repository';
+import { FoodService } from './food.service';
+import { ShoppingService } from './shopping.service';
+import { HouseholdService } from './household.service';
+import { IngredientMatchingService } from './ingredient-matching.service';
+import {
+  Food,
+  FoodUnit,
+  MealPlan,
+  MealPlanAutoOptions,
+  MealPlanAutoResult,
+  MealPlanCreateData,
+  MealPlanIngredient,
+  MealPlanShoppingListOptions,
+  MealPlanUpdateData,
+  MealSlot,
+  RecipeWithIngredients,
+  ShoppingList,
+  ShoppingListItemCreateData,
+  AppError,
+  ValidationError
+} from '@shared/types';
+import { DateUtils, IngredientMatcher, NumberUtils, UnitUtils, ValidationUtils } from '@shared/utils';
+
+// A food still in stock, with what is left after other meals' reservations
+interface PooledFood {
+  food: Food;
+  expiry_date: string;
+  remaining: number;
+}
+
+interface IngredientAllocation {
+  reservations: MealPlanDraft['reservations'];
+  missing: MealPlanIngredient[];
+  // Ids of the foods the meal draws on
+  food_ids: number[];
+}
+
+const DEFAULT_AUTO_PLAN_DAYS = 7;
+const MAX_AUTO_PLAN_DAYS = 14;
+const MAX_PLAN_RANGE_DAYS = 62;
+const AUTO_PLAN_CANDIDATE_LIMIT = 50;
+
+export class MealPlanService {
+  private mealPlanRepository: MealPlanRepository;
+  private recipeRepository: RecipeRepository;
+  private foodRepository: FoodRepository;
+  private foodService: FoodService;
+  private shoppingService: ShoppingService;
+  private householdService: HouseholdService;
+  private ingredientMatchingService: IngredientMatchingService;
+
+  constructor() {
+    this.mealPlanRepository = new MealPlanRepository();
+    this.recipeRepository = new RecipeRepository();
+    this.foodRepository = new FoodRepository();
+    this.foodService = new FoodService();
+    this.shoppingService = new ShoppingService();
+    this.householdService = new HouseholdService();
+    this.ingredientMatchingService = new IngredientMatchingService();
+  }
+
+  // Meal plans are shared within the household, like the inventory they draw on
+  async getMealPlans(userId: number, from?: string, to?: string): Promise<MealPlan[]> {
+    const start = from || DateUtils.getCurrentDate();
+    const end = to || DateUtils.addDaysToDate(start, DEFAULT_AUTO_PLAN_DAYS - 1);
+    this.validateRange(start, end);
+
+    const scope = await this.householdService.getScopeUserIds(userId);
+    return this.mealPlanRepository.findByUserIds(scope, start, end);
+  }
+
+  async getMealPlanById(userId: number, mealPlanId: number): Promise<MealPlan> {
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const mealPlan = await this.mealPlanRepository.findByIdWithDetails(mealPlanId, scope);
+
+    if (!mealPlan) {
+      throw new AppError('Meal plan not found', 404);
+    }
+
+    return mealPlan;
+  }
+
+  async createMealPlan(userId: number, data: MealPlanCreateData): Promise<MealPlan> {
+    this.validateDate(data.planned_date, 'planned_date');
+
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const recipe = await this.getRecipe(data.recipe_id);
+    const servings = data.servings || recipe.servings;
+
+    const [pool, matcher] = await Promise.all([
+      this.loadFoodPool(scope),
+      this.ingredientMatchingService.getMatcher()
+    ]);
+    const allocation = this.allocateIngredients(recipe, servings, data.planned_date, pool, matcher);
+
+    const [mealPlanId] = await this.mealPlanRepository.createManyWithReservations(userId, [{
+      planned_date: data.planned_date,
+      meal_slot: data.meal_slot,
+      recipe_id: recipe.id,
+      servings,
+      ...(data.notes !== undefined && { notes: data.notes }),
+      missing_ingredients: allocation.missing,
+      reservations: allocation.reservations
+    }]);
+
+    return this.getMealPlanById(userId, mealPlanId as number);
+  }
+
+  // Any change re-plans the meal, so reservations always match its recipe, servings and date
+  async updateMealPlan(userId: number, mealPlanId: number, data: MealPlanUpdateData): Promise<MealPlan> {
+    const existing = await this.getMealPlanById(userId, mealPlanId);
+
+    if (existing.status !== 'planned') {
+      throw new AppError('Cooked meals can no longer be changed', 409);
+    }
+
+    const plannedDate = data.planned_date ?? existing.planned_date;
+    this.validateDate(plannedDate, 'planned_date');
+
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const recipe = await this.getRecipe(data.recipe_id ?? existing.recipe_id);
+    const servings = data.servings
+      ?? (data.recipe_id !== undefined && data.recipe_id !== existing.recipe_id ? recipe.servings : existing.servings);
+
+    const [pool, matcher] = await Promise.all([
+      this.loadFoodPool(scope, mealPlanId),
+      this.ingredientMatchingService.getMatcher()
+    ]);
+    const allocation = this.allocateIngredients(recipe, servings, plannedDate, pool, matcher);
+    const notes = data.notes !== undefined ? data.notes : existing.notes;
+
+    const updated = await this.mealPlanRepository.replaceWithReservations(mealPlanId, {
+      planned_date: plannedDate,
+      meal_slot: data.meal_slot ?? existing.meal_slot,
+      recipe_id: recipe.id,
+      servings,
+      ...(notes !== undefined && { notes }),
+      missing_ingredients: allocation.missing,
+      reservations: allocation.reservations
+    });
+    if (!updated) {
+      throw new AppError('Meal plan was modified concurrently, please try again', 409);
+    }
+
+    return this.getMealPlanById(userId, mealPlanId);
+  }
+
+  // Deleting the meal releases its reservations
+  async deleteMealPlan(userId: number, mealPlanId: number): Promise<void> {
+    await this.getMealPlanById(userId, mealPlanId);
+
+    const deleted = await this.mealPlanRepository.delete(mealPlanId);
+    if (!deleted) {
+      throw new AppError('Failed to delete meal plan', 500);
+    }
+  }
+
+  /**
+   * Marks the meal as cooked and consumes the reserved quantities from the inventory.
+   * Reservations whose food was used up or removed in the meantime are reported back
+   * instead of failing the whole meal.
+   */
+  async cookMealPlan(userId: number, mealPlanId: number): Promise<{ meal_plan: MealPlan; skipped_ingredients: string[] }> {
+    const mealPlan = await this.getMealPlanById(userId, mealPlanId);
+
+    if (mealPlan.status !== 'planned') {
+      throw new AppError('Meal has already been cooked', 409);
+    }
+
+    const marked = await this.mealPlanRepository.markCooked(mealPlanId);
+    if (!marked) {
+      throw new AppError('Meal has already been cooked', 409);
+    }
+
+    const skippedIngredients: string[] = [];
+
+    for (const reservation of mealPlan.reservations || []) {
+      try {
+        await this.foodService.consumeFood(userId, reservation.food_id, {
+          quantity: Number(reservation.quantity),
+          unit: reservation.unit as FoodUnit
+        });
+      } catch (error) {
+        if (!(error instanceof AppError)) {
+          throw error;
+        }
+        skippedIngredients.push(reservation.ingredient_name);
+      }
+    }
+
+    return {
+      meal_plan: await this.getMealPlanById(userId, mealPlanId),
+      skipped_ingredients: skippedIngredients
+    };
+  }
+
+  /**
+   * Fills the free meal slots of the coming days with recipes that use up foods before
+   * they expire. Each slot gets the candidate that draws on the most soon-to-expire
+   * foods still unreserved, so earlier days consume the most urgent items first.
+   */
+  async autoPlan(userId: number, options: MealPlanAutoOptions = {}): Promise<MealPlanAutoResult> {
+    const startDate = options.start_date || DateUtils.getCurrentDate();
+    const days = options.days ?? DEFAULT_AUTO_PLAN_DAYS;
+    const mealSlots: MealSlot[] = options.meal_slots && options.meal_slots.length > 0 ? options.meal_slots : ['dinner'];
+
+    this.validateDate(startDate, 'start_date');
+    if (!Number.isInteger(days) || days < 1 || days > MAX_AUTO_PLAN_DAYS) {
+      throw new ValidationError('Validation failed', {
+        days: [`Days must be an integer between 1 and ${MAX_AUTO_PLAN_DAYS}`]
+      });
+    }
+
+    const endDate = DateUtils.addDaysToDate(startDate, days - 1);
+    const scope = await this.householdService.getScopeUserIds(userId);
+
+    const [pool, expiringFoods, occupiedSlots, matcher] = await Promise.all([
+      this.loadFoodPool(scope),
+      // Everything that expires before the plan ends counts as expiring
+      this.foodRepository.findExpiringFoods(scope, Math.max(0, DateUtils.getDaysUntilExpiry(endDate) + 1)),
+      this.mealPlanRepository.findOccupiedSlots(scope, startDate, endDate),
+      this.ingredientMatchingService.getMatcher()
+    ]);
+    const expiringIds = new Set<number>(expiringFoods.map(food => food.id));
+
+    const candidates = await this.recipeRepository.findCandidatesByIngredients(
+      matcher.expand(pool.map(item => item.food.name)),
+      {
+        ...(options.max_prep_time !== undefined && { max_prep_time: options.max_prep_time }),
+        ...(options.max_cook_time !== undefined && { max_cook_time: options.max_cook_time }),
+        limit: AUTO_PLAN_CANDIDATE_LIMIT
+      }
+    );
+    if (candidates.length === 0) {
+      throw new AppError('No recipes match the foods in your inventory', 422);
+    }
+
+    const occupied = new Set(occupiedSlots.map(slot => `${slot.planned_date}|${slot.meal_slot}`));
+    // Already planned recipes are skipped so the week doesn't repeat itself
+    const usedRecipeIds = new Set<number>(occupiedSlots.map(slot => slot.recipe_id));
+    const drafts: MealPlanDraft[] = [];
+    const usedExpiringIds = new Set<number>();
+
+    for (let day = 0; day < days; day++) {
+      const date = DateUtils.addDaysToDate(startDate, day);
+
+      for (const mealSlot of mealSlots) {
+        if (occupied.has(`${date}|${mealSlot}`)) continue;
+
+        const choice = this.pickRecipe(
+          candidates.filter(recipe => !usedRecipeIds.has(recipe.id)),
+          date,
+          pool,
+          expiringIds,
+          matcher,
+          options.servings
+        );
+        if (!choice) continue;
+
+        const servings = options.servings || choice.recipe.servings;
+        const allocation = this.allocateIngredients(choice.recipe, servings, date, pool, matcher);
+
+        allocation.food_ids.filter(id => expiringIds.has(id)).forEach(id => usedExpiringIds.add(id));
+        usedRecipeIds.add(choice.recipe.id);
+        drafts.push({
+          planned_date: date,
+          meal_slot: mealSlot,
+          recipe_id: choice.recipe.id,
+          servings,
+          missing_ingredients: allocation.missing,
+          reservations: allocation.reservations
+        });
+      }
+    }
+
+    if (drafts.length === 0) {
+      throw new AppError('No free meal slots could be filled from your inventory', 422);
+    }
+
+    const mealPlanIds = await this.mealPlanRepository.createManyWithReservations(userId, drafts);
+    const mealPlans = await this.mealPlanRepository.findManyWithDetails(mealPlanIds);
+
+    let shoppingList: ShoppingList | null = null;
+    if (options.create_shopping_list !== false) {
+      const items = this.buildShoppingItems(matcher, mealPlans.map(mealPlan => ({
+        recipe_name: mealPlan.recipe_name || '',
+        missing_ingredients: mealPlan.missing_ingredients
+      })));
+
+      if (items.length > 0) {
+        shoppingList = await this.shoppingService.createList(userId, {
+          name: options.shopping_list_name?.trim() || `献立の買い物リスト ${startDate}〜${endDate}`,
+          items
+        });
+      }
+    }
+
+    return {
+      meal_plans: mealPlans,
+      shopping_list: shoppingList,
+      expiring_foods_used: expiringFoods
+        .filter(food => usedExpiringIds.has(food.id))
+        .map(food => food.name)
+    };
+  }
+
+  // Collects what the planned meals in the range still lack into a new shopping list
+  async createShoppingList(userId: number, options: MealPlanShoppingListOptions): Promise<ShoppingList> {
+    this.validateRange(options.from, options.to);
+
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const [meals, matcher] = await Promise.all([
+      this.mealPlanRepository.findMissingIngredients(scope, options.from, options.to),
+      this.ingredientMatchingService.getMatcher()
+    ]);
+    const items = this.buildShoppingItems(matcher, meals);
+
+    if (items.length === 0) {
+      throw new AppError('Nothing to add: the planned meals have no missing ingredients', 422);
+    }
+
+    return this.shoppingService.createList(userId, {
+      name: options.name?.trim() || `献立の買い物リスト ${options.from}〜${options.to}`,
+      items
+    });
+  }
+
+  private async getRecipe(recipeId: number): Promise<RecipeWithIngredients> {
+    const recipe = await this.recipeRepository.findWithIngredients(recipeId);
+
+    if (!recipe) {
+      throw new AppError('Recipe not found', 404);
+    }
+
+    return recipe;
+  }
+
+  // Active foods, soonest expiry first, minus what other planned meals already hold
+  private async loadFoodPool(scope: number[], excludeMealPlanId?: number): Promise<PooledFood[]> {
+    const foods = await this.foodRepository.findByUserIds(scope, {
+      status: ['active'],
+      sort_by: 'expiry_date',
+      sort_order: 'asc'
+    });
+    const reserved = await this.mealPlanRepository.findReservedQuantities(
+      foods.map(food => food.id),
+      excludeMealPlanId
+    );
+
+    return foods
+      .map(food => ({
+        food,
+        expiry_date: DateUtils.formatDate(food.expiry_date),
+        remaining: NumberUtils.round(Number(food.quantity) - (reserved.get(food.id) || 0))
+      }))
+      .filter(item => item.remaining > 0);
+  }
+
+  private pickRecipe(
+    candidates: RecipeWithIngredients[],
+    date: string,
+    pool: PooledFood[],
+    expiringIds: Set<number>,
+    matcher: IngredientMatcher,
+    servings?: number
+  ): { recipe: RecipeWithIngredients; score: number } | null {
+    let best: { recipe: RecipeWithIngredients; score: number } | null = null;
+
+    for (const recipe of candidates) {
+      // Scored on a copy; only the chosen recipe reserves from the real pool
+      const trial = pool.map(item => ({ ...item }));
+      const allocation = this.allocateIngredients(recipe, servings || recipe.servings, date, trial, matcher);
+
+      if (allocation.food_ids.length === 0) continue;
+
+      const required = recipe.ingredients.filter(ingredient => !ingredient.optional).length;
+      const coverage = required > 0 ? 1 - allocation.missing.length / required : 0;
+
+      // Each expiring food counts more the closer it is to its expiry date
+      const urgency = trial
+        .filter(item => allocation.food_ids.includes(item.food.id) && expiringIds.has(item.food.id))
+        .reduce((sum, item) => sum + 1 / (1 + Math.max(0, this.daysBetween(date, item.expiry_date))), 0);
+
+      const score = urgency * 10 + coverage;
+      if (!best || score > best.score) {
+        best = { recipe, score };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Reserves stock for every ingredient of the recipe, scaled to the servings, taking
+   * the foods that expire first. Foods expiring before the meal date are not used.
+   * Mutates the pool so later meals only see what is left.
+   */
+  private allocateIngredients(
+    recipe: RecipeWithIngredients,
+    servings: number,
+    plannedDate: string,
+    pool: PooledFood[],
+    matcher: IngredientMatcher
+  ): IngredientAllocation {
+    const scale = servings / recipe.servings;
+    const allocation: IngredientAllocation = { reservations: [], missing: [], food_ids: [] };
+
+    for (const ingredient of recipe.ingredients) {
+      let needed = NumberUtils.round(Number(ingredient.quantity) * scale);
+
+      const matches = pool.filter(item =>
+        item.remaining > 0 &&
+        item.expiry_date >= plannedDate &&
+        matcher.matches(item.food.name, ingredient.ingredient_name)
+      );
+
+      for (const item of matches) {
+        if (needed <= 0) break;
+
+        const neededInFoodUnit = UnitUtils.convert(needed, ingredient.unit, item.food.unit);
+        // Units that can't be compared (2 個 against a パック): one unit of the food covers it
+        const quantity = NumberUtils.round(Math.min(neededInFoodUnit ?? 1, item.remaining));
+        if (quantity <= 0) continue;
+
+        item.remaining = NumberUtils.round(item.remaining - quantity);
+        allocation.reservations.push({
+          food_id: item.food.id,
+          ingredient_name: ingredient.ingredient_name,
+          quantity,
+          unit: item.food.unit
+        });
+        allocation.food_ids.push(item.food.id);
+
+        needed = neededInFoodUnit === null
+          ? 0
+          : NumberUtils.round(needed - (UnitUtils.convert(quantity, item.food.unit, ingredient.unit) as number));
+      }
+
+      // Optional ingredients are used when available but never bought for the meal
+      if (needed > 0 && !ingredient.optional) {
+        allocation.missing.push({
+          ingredient_name: ingredient.ingredient_name,
+          quantity: needed,
+          unit: ingredient.unit
+        });
+      }
+    }
+
+    return allocation;
+  }
+
+  // Merges the same ingredient across meals, as ShoppingService.generateList does
+  private buildShoppingItems(
+    matcher: IngredientMatcher,
+    meals: Array<{ recipe_name: string; missing_ingredients: MealPlanIngredient[] }>
+  ): ShoppingListItemCreateData[] {
+    const items = new Map<string, ShoppingListItemCreateData>();
+
+    for (const meal of meals) {
+      for (const ingredient of meal.missing_ingredients) {
+        const key = `${matcher.canonicalize(ingredient.ingredient_name)}|${ingredient.unit}`;
+        const existing = items.get(key);
+
+        if (existing) {
+          existing.quantity = NumberUtils.round(existing.quantity + Number(ingredient.quantity));
+          if (meal.recipe_name && !existing.notes?.includes(meal.recipe_name)) {
+            existing.notes = existing.notes ? `${existing.notes}, ${meal.recipe_name}` : meal.recipe_name;
+          }
+        } else {
+          items.set(key, {
+            item_name: ingredient.ingredient_name,
+            quantity: Number(ingredient.quantity),
+            unit: ingredient.unit,
+            ...(meal.recipe_name && { notes: meal.recipe_name })
+          });
+        }
+      }
+    }
+
+    return Array.from(items.values());
+  }
+
+  private daysBetween(from: string, to: string): number {
+    return Math.round((DateUtils.parseDate(to).getTime() - DateUtils.parseDate(from).getTime()) / (24 * 60 * 60 * 1000));
+  }
+
+  private validateDate(date: string, field: string): void {
+    if (!ValidationUtils.isValidDate(date)) {
+      throw new ValidationError('Validation failed', { [field]: ['Date must be in YYYY-MM-DD format'] });
+    }
+  }
+
+  private validateRange(from: string, to: string): void {
+    this.validateDate(from, 'from');
+    this.validateDate(to, 'to');
+
+    const span = this.daysBetween(from, to);
+    if (span < 0) {
+      throw new ValidationError('Validation failed', { to: ['End date must not be before start date'] });
+    }
+    if (span >= MAX_PLAN_RANGE_DAYS) {
+      throw new ValidationError('Validation failed', { to: [`Range must not exceed ${MAX_PLAN_RANGE_DAYS} days`] });
+    }
+  }
+}
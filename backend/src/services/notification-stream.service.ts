@@ -0,0 +1,158 @@
+import { Request, Response } from 'express';
+import redisClient from '../config/redis';
+import { NotificationStreamEvent, AppError } from '@shared/types';
+
+const CHANNEL_PREFIX = 'notifications:stream:';
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const RECONNECT_DELAY_MS = 5 * 1000;
+// Streams are closed periodically so the client reconnects and its token is checked again
+const MAX_STREAM_DURATION_MS = 30 * 60 * 1000;
+const MAX_STREAMS_PER_USER = 5;
+
+/**
+ * Server-Sent Events fan-out for notifications. Each instance keeps the streams of
+ * its own clients and subscribes to a per-user Redis channel while that user has an
+ * open stream, so an event published on any instance reaches every open tab.
+ */
+export class NotificationStreamService {
+  private streams = new Map<number, Set<Response>>();
+  private subscriptions = new Map<number, Promise<boolean>>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  async open(userId: number, req: Request, res: Response, initialEvent: NotificationStreamEvent): Promise<void> {
+    const userStreams = this.streams.get(userId);
+    if (userStreams && userStreams.size >= MAX_STREAMS_PER_USER) {
+      throw new AppError('Too many open notification streams', 429);
+    }
+
+    // Concurrent opens for the same user share one subscription, or events would be
+    // delivered once per listener
+    let subscription = this.subscriptions.get(userId);
+    if (!subscription) {
+      subscription = redisClient.subscribe(this.channel(userId), message => this.dispatch(userId, message));
+      this.subscriptions.set(userId, subscription);
+    }
+
+    // Without the subscription this instance would miss events; the client polls instead
+    if (!await subscription) {
+      if (this.subscriptions.get(userId) === subscription) {
+        this.subscriptions.delete(userId);
+      }
+      throw new AppError('Notification stream is temporarily unavailable', 503);
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      // no-transform keeps the compression middleware from buffering the stream
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+    this.write(res, initialEvent);
+
+    this.add(userId, res);
+
+    const timeout = setTimeout(() => res.end(), MAX_STREAM_DURATION_MS);
+    timeout.unref();
+
+    const close = () => {
+      clearTimeout(timeout);
+      this.remove(userId, res);
+    };
+
+    // The client may have gone away while we were subscribing
+    if (req.socket.destroyed) {
+      close();
+    } else {
+      req.on('close', close);
+    }
+  }
+
+  // Best effort: the notification is already stored, the stream only saves a refetch
+  async publish(userId: number, event: NotificationStreamEvent): Promise<void> {
+    const message = JSON.stringify(event);
+    const published = await redisClient.publish(this.channel(userId), message);
+
+    // Redis unavailable: at least reach the streams held by this instance
+    if (!published) {
+      this.dispatch(userId, message);
+    }
+  }
+
+  closeAll(): void {
+    for (const userStreams of this.streams.values()) {
+      for (const res of userStreams) {
+        res.end();
+      }
+    }
+  }
+
+  private add(userId: number, res: Response): void {
+    const userStreams = this.streams.get(userId) || new Set<Response>();
+    userStreams.add(res);
+    this.streams.set(userId, userStreams);
+
+    if (!this.heartbeat) {
+      // Comment lines keep proxies and load balancers from closing idle streams
+      this.heartbeat = setInterval(() => this.broadcast(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+      this.heartbeat.unref();
+    }
+  }
+
+  private remove(userId: number, res: Response): void {
+    const userStreams = this.streams.get(userId);
+    if (!userStreams || !userStreams.delete(res)) {
+      return;
+    }
+
+    if (userStreams.size === 0) {
+      this.streams.delete(userId);
+      this.subscriptions.delete(userId);
+      redisClient.unsubscribe(this.channel(userId));
+    }
+
+    if (this.streams.size === 0 && this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  private dispatch(userId: number, message: string): void {
+    const userStreams = this.streams.get(userId);
+    if (!userStreams) {
+      return;
+    }
+
+    let event: NotificationStreamEvent;
+    try {
+      event = JSON.parse(message);
+    } catch (error) {
+      console.error('Dropping malformed notification stream event:', message);
+      return;
+    }
+
+    for (const res of userStreams) {
+      this.write(res, event);
+    }
+  }
+
+  private broadcast(chunk: string): void {
+    for (const userStreams of this.streams.values()) {
+      for (const res of userStreams) {
+        res.write(chunk);
+      }
+    }
+  }
+
+  private write(res: Response, event: NotificationStreamEvent): void {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+
+  private channel(userId: number): string {
+    return `${CHANNEL_PREFIX}${userId}`;
+  }
+}
+
+export const notificationStream = new NotificationStreamService();
@@ -0,0 +1,376 @@
+import { NotificationRepository } from '../repositories/notification.repository';
+import { UserPreferencesRepository } from '../repositories/user-preferences.repository';
+import { PushService } from './push.service';
+import { notificationStream } from './notification-stream.service';
+import {
+  Food,
+  Notification,
+  NotificationType,
+  NotificationStatus,
+  NotificationPriority,
+  PaginatedResponse,
+  PushNotificationPayload,
+  UserPreferences,
+  UserPreferencesUpdateData,
+  AppError,
+  ValidationError
+} from '@shared/types';
+import { DateUtils } from '@shared/utils';
+
+export interface NotificationCreateData {
+  type: NotificationType;
+  title: string;
+  message: string;
+  food_id?: number;
+  priority?: NotificationPriority;
+  action_url?: string;
+  metadata?: Record<string, any>;
+}
+
+const NOTIFICATION_TYPES: NotificationType[] = ['expiry_alert', 'recipe_suggestion', 'shopping_reminder', 'system'];
+
+// Maps a notification type to the preference flag that enables it; system notices are always delivered
+const TYPE_PREFERENCE_FLAGS: Partial<Record<NotificationType, keyof UserPreferences>> = {
+  expiry_alert: 'enable_expiry_alerts',
+  recipe_suggestion: 'enable_recipe_suggestions',
+  shopping_reminder: 'enable_shopping_reminders'
+};
+
+export class NotificationService {
+  private notificationRepository: NotificationRepository;
+  private userPreferencesRepository: UserPreferencesRepository;
+  private pushService: PushService;
+
+  constructor() {
+    this.notificationRepository = new NotificationRepository();
+    this.userPreferencesRepository = new UserPreferencesRepository();
+    this.pushService = new PushService();
+  }
+
+  async getNotifications(
+    userId: number,
+    options: {
+      type?: NotificationType;
+      status?: NotificationStatus;
+      page?: number;
+      per_page?: number;
+    } = {}
+  ): Promise<PaginatedResponse<Notification>> {
+    if (options.type && !NOTIFICATION_TYPES.includes(options.type)) {
+      throw new AppError('Invalid notification type', 400);
+    }
+
+    if (options.status && options.status !== 'read' && options.status !== 'unread') {
+      throw new AppError('Invalid notification status', 400);
+    }
+
+    return this.notificationRepository.findByUserIdWithPagination(userId, options);
+  }
+
+  async getUnreadNotifications(userId: number): Promise<{ notifications: Notification[]; unread_count: number }> {
+    const [notifications, unreadCount] = await Promise.all([
+      this.notificationRepository.findByUserId(userId, { status: 'unread', limit: 50 }),
+      this.notificationRepository.getUnreadCount(userId)
+    ]);
+
+    return { notifications, unread_count: unreadCount };
+  }
+
+  async getUnreadCount(userId: number): Promise<number> {
+    return this.notificationRepository.getUnreadCount(userId);
+  }
+
+  async markAsRead(userId: number, notificationId: number): Promise<Notification> {
+    const notification = await this.notificationRepository.markAsRead(notificationId, userId);
+
+    if (!notification) {
+      const existing = await this.notificationRepository.findById(notificationId);
+      if (!existing || existing.user_id !== userId) {
+        throw new AppError('Notification not found', 404);
+      }
+      return existing;
+    }
+
+    await this.publishUnreadCount(userId);
+
+    return notification;
+  }
+
+  async markAllAsRead(userId: number, type?: NotificationType): Promise<void> {
+    if (type && !NOTIFICATION_TYPES.includes(type)) {
+      throw new AppError('Invalid notification type', 400);
+    }
+
+    const updated = await this.notificationRepository.markAllAsRead(userId, type);
+    if (updated > 0) {
+      await this.publishUnreadCount(userId);
+    }
+  }
+
+  async deleteNotification(userId: number, notificationId: number): Promise<void> {
+    const notification = await this.notificationRepository.findById(notificationId);
+
+    if (!notification || notification.user_id !== userId) {
+      throw new AppError('Notification not found', 404);
+    }
+
+    const deleted = await this.notificationRepository.delete(notificationId);
+    if (!deleted) {
+      throw new AppError('Failed to delete notification', 500);
+    }
+
+    if (notification.status === 'unread') {
+      await this.publishUnreadCount(userId);
+    }
+  }
+
+  async getStats(userId: number) {
+    return this.notificationRepository.getNotificationStats(userId);
+  }
+
+  async getPreferences(userId: number): Promise<UserPreferences> {
+    return this.userPreferencesRepository.findByUserId(userId);
+  }
+
+  async updatePreferences(userId: number, updateData: UserPreferencesUpdateData): Promise<UserPreferences> {
+    this.validatePreferences(updateData);
+
+    return this.userPreferencesRepository.updateByUserId(userId, updateData);
+  }
+
+  /**
+   * Creates a notification unless the user has switched off that notification type.
+   * Returns null when the notification was suppressed by preferences.
+   */
+  async createNotification(userId: number, data: NotificationCreateData): Promise<Notification | null> {
+    const preferences = await this.getPreferences(userId);
+
+    if (!this.isTypeEnabled(preferences, data.type)) {
+      return null;
+    }
+
+    const notification = await this.notificationRepository.create({
+      user_id: userId,
+      food_id: data.food_id,
+      type: data.type,
+      title: data.title,
+      message: data.message,
+      status: 'unread',
+      priority: data.priority || 'low',
+      action_url: data.action_url,
+      metadata: data.metadata,
+      sent_at: new Date()
+    });
+
+    await this.publishNotification(notification);
+
+    return notification;
+  }
+
+  /**
+   * Creates an expiry alert for an active food once it falls inside the user's
+   * expiry_alert_days window. Only one alert is kept per food.
+   */
+  async createExpiryAlert(food: Food, preferences?: UserPreferences): Promise<Notification | null> {
+    if (food.status !== 'active') {
+      return null;
+    }
+
+    const userPreferences = preferences || await this.getPreferences(food.user_id);
+    if (!this.isTypeEnabled(userPreferences, 'expiry_alert')) {
+      return null;
+    }
+
+    const daysUntilExpiry = DateUtils.getDaysUntilExpiry(food.expiry_date);
+    if (daysUntilExpiry > userPreferences.expiry_alert_days) {
+      return null;
+    }
+
+    const existingNotification = await this.notificationRepository.findByUserAndFood(
+      food.user_id,
+      food.id,
+      'expiry_alert'
+    );
+    if (existingNotification) {
+      return null;
+    }
+
+    const alert = this.buildExpiryAlert(food.name, daysUntilExpiry);
+    const notification = await this.notificationRepository.create({
+      user_id: food.user_id,
+      food_id: food.id,
+      type: 'expiry_alert',
+      status: 'unread',
+      ...alert,
+      sent_at: new Date()
+    });
+
+    await this.publishNotification(notification);
+    await this.pushExpiryAlerts(food.user_id, userPreferences, [{ food_id: food.id, ...alert }]);
+
+    return notification;
+  }
+
+  /**
+   * Bulk variant used by the scheduled scan. The caller decides which foods are in
+   * the alert window; foods that already have an expiry alert are skipped.
+   */
+  async createExpiryAlerts(userId: number, foods: Food[], preferences?: UserPreferences): Promise<number> {
+    if (foods.length === 0) {
+      return 0;
+    }
+
+    const userPreferences = preferences || await this.getPreferences(userId);
+    if (!this.isTypeEnabled(userPreferences, 'expiry_alert')) {
+      return 0;
+    }
+
+    const notifiedFoodIds = new Set(await this.notificationRepository.findNotifiedFoodIds(
+      userId,
+      foods.map(food => food.id),
+      'expiry_alert'
+    ));
+
+    const notifications = foods
+      .filter(food => !notifiedFoodIds.has(food.id))
+      .map(food => ({
+        user_id: userId,
+        food_id: food.id,
+        ...this.buildExpiryAlert(food.name, DateUtils.getDaysUntilExpiry(food.expiry_date))
+      }));
+
+    const created = await this.notificationRepository.createBulkExpiryNotifications(notifications);
+    if (created > 0) {
+      // The bulk insert doesn't return rows; clients refetch when the count goes up
+      await this.publishUnreadCount(userId);
+    }
+    await this.pushExpiryAlerts(userId, userPreferences, notifications);
+
+    return created;
+  }
+
+  async deleteOldNotifications(olderThanDays: number): Promise<number> {
+    return this.notificationRepository.deleteOldNotifications(olderThanDays);
+  }
+
+  // Open notification streams are a convenience on top of the stored notification,
+  // so a failure here only means the client picks the change up on its next refetch
+  private async publishNotification(notification: Notification): Promise<void> {
+    try {
+      const unreadCount = await this.notificationRepository.getUnreadCount(notification.user_id);
+      await notificationStream.publish(notification.user_id, {
+        type: 'notification',
+        notification,
+        unread_count: unreadCount
+      });
+    } catch (error) {
+      console.error(`Failed to publish notification ${notification.id} to stream:`, error);
+    }
+  }
+
+  private async publishUnreadCount(userId: number): Promise<void> {
+    try {
+      const unreadCount = await this.notificationRepository.getUnreadCount(userId);
+      await notificationStream.publish(userId, { type: 'unread_count', unread_count: unreadCount });
+    } catch (error) {
+      console.error(`Failed to publish unread count for user ${userId} to stream:`, error);
+    }
+  }
+
+  // One push per scan rather than one per food, so a full fridge doesn't flood the device
+  private async pushExpiryAlerts(
+    userId: number,
+    preferences: UserPreferences,
+    alerts: Array<{ food_id: number; title: string; message: string }>
+  ): Promise<void> {
+    if (alerts.length === 0 || !preferences.enable_push_notifications || !this.pushService.isConfigured()) {
+      return;
+    }
+
+    const [firstAlert] = alerts;
+    const payload: PushNotificationPayload = alerts.length === 1
+      ? {
+          type: 'expiry_alert',
+          title: firstAlert!.title,
+          body: firstAlert!.message,
+          url: '/inventory',
+          tag: `expiry-${firstAlert!.food_id}`
+        }
+      : {
+          type: 'expiry_alert',
+          title: '期限切れ間近の食品があります',
+          body: `${alerts.length}件の食品の期限が近づいています。`,
+          url: '/inventory',
+          tag: 'expiry-summary'
+        };
+
+    try {
+      await this.pushService.sendToUser(userId, payload);
+    } catch (error) {
+      // The in-app notification already exists; push is a best-effort extra
+      console.error(`Failed to push expiry alerts to user ${userId}:`, error);
+    }
+  }
+
+  private buildExpiryAlert(
+    foodName: string,
+    daysUntilExpiry: number
+  ): { title: string; message: string; priority: NotificationPriority } {
+    if (daysUntilExpiry < 0) {
+      return {
+        title: '期限切れの食品があります',
+        message: `${foodName}が期限切れです（${Math.abs(daysUntilExpiry)}日経過）`,
+        priority: 'high'
+      };
+    }
+
+    if (daysUntilExpiry === 0) {
+      return {
+        title: '本日期限切れの食品があります',
+        message: `${foodName}が本日期限切れです！早めにお使いください。`,
+        priority: 'high'
+      };
+    }
+
+    if (daysUntilExpiry === 1) {
+      return {
+        title: '明日期限切れの食品があります',
+        message: `${foodName}が明日期限切れです。使い切りレシピをチェックしましょう！`,
+        priority: 'high'
+      };
+    }
+
+    return {
+      title: '期限切れ間近の食品があります',
+      message: `${foodName}があと${daysUntilExpiry}日で期限切れです。`,
+      priority: 'medium'
+    };
+  }
+
+  private isTypeEnabled(preferences: UserPreferences, type: NotificationType): boolean {
+    const flag = TYPE_PREFERENCE_FLAGS[type];
+    return flag ? preferences[flag] !== false : true;
+  }
+
+  private validatePreferences(data: UserPreferencesUpdateData): void {
+    const errors: Record<string, string[]> = {};
+
+    if (data.expiry_alert_days !== undefined &&
+        (!Number.isInteger(data.expiry_alert_days) || data.expiry_alert_days < 0 || data.expiry_alert_days > 30)) {
+      errors.expiry_alert_days = ['Expiry alert days must be an integer between 0 and 30'];
+    }
+
+    if (data.max_cooking_time !== undefined &&
+        (!Number.isInteger(data.max_cooking_time) || data.max_cooking_time <= 0)) {
+      errors.max_cooking_time = ['Max cooking time must be a positive integer'];
+    }
+
+    if (data.notification_time !== undefined && !/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(data.notification_time)) {
+      errors.notification_time = ['Notification time must be in HH:mm format'];
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError('Validation failed', errors);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { config } from '../config/environment';
+import { PushSubscriptionRepository } from '../repositories/push-subscription.repository';
+import { getRequestContext } from '../middleware/request-context.middleware';
+import { WebPushUtils, VapidKeys } from '../utils/web-push';
+import {
+  PushNotificationPayload,
+  PushSubscriptionData,
+  PushSubscriptionRecord,
+  AppError
+} from '@shared/types';
+
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+const PUSH_TIMEOUT_MS = 10000;
+
+export class PushService {
+  private pushSubscriptionRepository: PushSubscriptionRepository;
+
+  constructor() {
+    this.pushSubscriptionRepository = new PushSubscriptionRepository();
+  }
+
+  isConfigured(): boolean {
+    return !!(config.VAPID_PUBLIC_KEY && config.VAPID_PRIVATE_KEY);
+  }
+
+  getPublicKey(): string {
+    if (!this.isConfigured()) {
+      throw new AppError('Push notifications are not configured on this server', 503);
+    }
+    return config.VAPID_PUBLIC_KEY!;
+  }
+
+  async subscribe(userId: number, subscription: PushSubscriptionData): Promise<PushSubscriptionRecord> {
+    if (!this.isConfigured()) {
+      throw new AppError('Push notifications are not configured on this server', 503);
+    }
+
+    const record = await this.pushSubscriptionRepository.upsert(userId, subscription, getRequestContext().user_agent);
+    if (!record) {
+      throw new AppError('Push subscription belongs to another account', 409);
+    }
+    return record;
+  }
+
+  async unsubscribe(userId: number, endpoint: string): Promise<void> {
+    const deleted = await this.pushSubscriptionRepository.deleteByEndpoint(userId, endpoint);
+    if (!deleted) {
+      throw new AppError('Push subscription not found', 404);
+    }
+  }
+
+  /**
+   * Delivers the payload to every browser the user subscribed. Subscriptions the push
+   * service reports as gone (404/410) are deleted. Returns the number of deliveries.
+   */
+  async sendToUser(userId: number, payload: PushNotificationPayload): Promise<number> {
+    if (!this.isConfigured()) {
+      return 0;
+    }
+
+    const subscriptions = await this.pushSubscriptionRepository.findByUserId(userId);
+    let delivered = 0;
+
+    for (const subscription of subscriptions) {
+      try {
+        const status = await this.send(subscription, payload);
+
+        if (status === 404 || status === 410) {
+          await this.pushSubscriptionRepository.deleteByEndpoint(subscription.user_id, subscription.endpoint);
+        } else if (status >= 200 && status < 300) {
+          await this.pushSubscriptionRepository.markSuccess(subscription.id);
+          delivered++;
+        } else {
+          console.warn(`Push service responded ${status} for subscription ${subscription.id}`);
+        }
+      } catch (error) {
+        // Network trouble with one push service must not affect the others
+        console.error(`Failed to deliver push to subscription ${subscription.id}:`, error);
+      }
+    }
+
+    return delivered;
+  }
+
+  // Drops subscriptions past the expiration time the browser reported
+  async pruneExpiredSubscriptions(): Promise<number> {
+    return this.pushSubscriptionRepository.deleteExpired();
+  }
+
+  private async send(subscription: PushSubscriptionRecord, payload: PushNotificationPayload): Promise<number> {
+    const keys: VapidKeys = {
+      publicKey: config.VAPID_PUBLIC_KEY!,
+      privateKey: config.VAPID_PRIVATE_KEY!
+    };
+
+    return WebPushUtils.send(subscription, JSON.stringify(payload), keys, config.VAPID_SUBJECT, {
+      ttlSeconds: PUSH_TTL_SECONDS,
+      timeoutMs: PUSH_TIMEOUT_MS
+    });
+  }
+}
\ No newline at end of file
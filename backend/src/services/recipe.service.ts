@@ -0,0 +1,216 @@
+import { RecipeRepository } from '../repositories/recipe.repository';
+import { FoodRepository } from '../repositories/food.repository';
+import { HouseholdService } from './household.service';
+import { IngredientMatchingService } from './ingredient-matching.service';
+import {
+  RecipeCreateData,
+  RecipeDifficulty,
+  RecipeMatch,
+  RecipeSuggestionResponse,
+  RecipeWithIngredients,
+  AppError,
+  ValidationError
+} from '@shared/types';
+import { ArrayUtils, IngredientMatcher } from '@shared/utils';
+
+export interface RecipeSuggestionOptions {
+  max_prep_time?: number;
+  max_cook_time?: number;
+  difficulty?: RecipeDifficulty;
+  limit?: number;
+  expiring_within_days?: number;
+  // Restricts matching to these inventory items instead of everything on hand
+  ingredients?: string[];
+}
+
+export class RecipeService {
+  private recipeRepository: RecipeRepository;
+  private foodRepository: FoodRepository;
+  private householdService: HouseholdService;
+  private ingredientMatchingService: IngredientMatchingService;
+
+  constructor() {
+    this.recipeRepository = new RecipeRepository();
+    this.foodRepository = new FoodRepository();
+    this.householdService = new HouseholdService();
+    this.ingredientMatchingService = new IngredientMatchingService();
+  }
+
+  async getSuggestions(
+    userId: number,
+    options: RecipeSuggestionOptions = {}
+  ): Promise<RecipeSuggestionResponse> {
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const inventory = await this.foodRepository.getFoodIngredients(scope);
+    const availableIngredients = options.ingredients?.length
+      ? inventory.filter(name => options.ingredients!.includes(name))
+      : inventory;
+
+    if (availableIngredients.length === 0) {
+      return {
+        recipes: [],
+        matched_ingredients: [],
+        missing_ingredients: [],
+        personalized: true
+      };
+    }
+
+    const expiringNames = await this.foodRepository.getExpiringFoodNames(
+      scope,
+      options.expiring_within_days ?? 3
+    );
+
+    const matcher = await this.ingredientMatchingService.getMatcher();
+    // Every spelling is searched so "玉ねぎ" in the inventory also finds recipes using "たまねぎ"
+    const candidates = await this.recipeRepository.findCandidatesByIngredients(matcher.expand(availableIngredients), {
+      ...(options.max_prep_time !== undefined && { max_prep_time: options.max_prep_time }),
+      ...(options.max_cook_time !== undefined && { max_cook_time: options.max_cook_time }),
+      ...(options.difficulty && { difficulty: options.difficulty })
+    });
+
+    const favoriteIds = new Set<number>(await this.recipeRepository.findFavoriteIds(userId));
+
+    const ranked = candidates
+      .map(recipe => this.scoreRecipe(matcher, recipe, availableIngredients, expiringNames, favoriteIds))
+      // The text search is looser than the matcher; drop candidates it found nothing in
+      .filter(recipe => recipe.match_score > 0)
+      .sort((a, b) =>
+        b.uses_expiring.length - a.uses_expiring.length ||
+        b.match_score - a.match_score
+      )
+      .slice(0, options.limit || 10);
+
+    return {
+      recipes: ranked,
+      matched_ingredients: ArrayUtils.unique(ranked.flatMap(recipe => recipe.matched_ingredients)),
+      missing_ingredients: ArrayUtils.unique(ranked.flatMap(recipe => recipe.missing_ingredients)),
+      ...(ranked[0] && { source: ranked[0].source }),
+      personalized: true
+    };
+  }
+
+  async searchRecipes(userId: number, searchTerm: string): Promise<RecipeMatch[]> {
+    if (!searchTerm.trim()) {
+      return [];
+    }
+
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const [recipes, availableIngredients, favoriteIds, matcher] = await Promise.all([
+      this.recipeRepository.searchRecipes(searchTerm.trim()),
+      this.foodRepository.getFoodIngredients(scope),
+      this.recipeRepository.findFavoriteIds(userId),
+      this.ingredientMatchingService.getMatcher()
+    ]);
+
+    const favorites = new Set<number>(favoriteIds);
+    return recipes.map(recipe => this.scoreRecipe(matcher, recipe, availableIngredients, [], favorites));
+  }
+
+  async getRecipeById(recipeId: number): Promise<RecipeWithIngredients> {
+    const recipe = await this.recipeRepository.findWithIngredients(recipeId);
+
+    if (!recipe) {
+      throw new AppError('Recipe not found', 404);
+    }
+
+    return recipe;
+  }
+
+  async createRecipe(userId: number, recipeData: RecipeCreateData): Promise<RecipeWithIngredients> {
+    this.validateRecipeData(recipeData);
+
+    const recipe = await this.recipeRepository.createWithIngredients(recipeData, userId);
+
+    // Users almost always want to find their own recipes again
+    await this.recipeRepository.addFavorite(userId, recipe.id);
+
+    return recipe;
+  }
+
+  async deleteRecipe(userId: number, recipeId: number): Promise<void> {
+    const recipe = await this.getRecipeById(recipeId);
+
+    if (recipe.source !== 'user_created' || recipe.created_by !== userId) {
+      throw new AppError('You can only delete recipes you created', 403);
+    }
+
+    const deleted = await this.recipeRepository.softDelete(recipeId);
+    if (!deleted) {
+      throw new AppError('Failed to delete recipe', 500);
+    }
+  }
+
+  async addToFavorites(userId: number, recipeId: number): Promise<void> {
+    await this.getRecipeById(recipeId);
+    await this.recipeRepository.addFavorite(userId, recipeId);
+  }
+
+  async removeFromFavorites(userId: number, recipeId: number): Promise<void> {
+    const removed = await this.recipeRepository.removeFavorite(userId, recipeId);
+
+    if (!removed) {
+      throw new AppError('Recipe is not in favorites', 404);
+    }
+  }
+
+  async getFavorites(userId: number): Promise<RecipeWithIngredients[]> {
+    return this.recipeRepository.findFavoritesByUserId(userId);
+  }
+
+  private scoreRecipe(
+    matcher: IngredientMatcher,
+    recipe: RecipeWithIngredients,
+    availableIngredients: string[],
+    expiringNames: string[],
+    favoriteIds: Set<number>
+  ): RecipeMatch {
+    const { matched, missing, percentage, score } = matcher.matchIngredients(
+      availableIngredients,
+      recipe.ingredients
+    );
+
+    const usesExpiring = expiringNames.length > 0
+      ? recipe.ingredients
+          .filter(ingredient => expiringNames.some(name => matcher.matches(name, ingredient.ingredient_name)))
+          .map(ingredient => ingredient.ingredient_name)
+      : [];
+
+    return {
+      ...recipe,
+      matched_ingredients: matched,
+      missing_ingredients: missing,
+      match_percentage: percentage,
+      match_score: score,
+      uses_expiring: usesExpiring,
+      is_favorite: favoriteIds.has(recipe.id)
+    };
+  }
+
+  private validateRecipeData(data: RecipeCreateData): void {
+    const errors: Record<string, string[]> = {};
+
+    if (!data.name || data.name.trim().length === 0) {
+      errors.name = ['Recipe name is required'];
+    } else if (data.name.length > 255) {
+      errors.name = ['Recipe name must not exceed 255 characters'];
+    }
+
+    if (!Array.isArray(data.instructions) || data.instructions.length === 0) {
+      errors.instructions = ['At least one instruction step is required'];
+    }
+
+    if (!Array.isArray(data.ingredients) || data.ingredients.length === 0) {
+      errors.ingredients = ['At least one ingredient is required'];
+    } else if (data.ingredients.every(ingredient => ingredient.optional)) {
+      errors.ingredients = ['At least one ingredient must be required'];
+    }
+
+    if (!Number.isInteger(data.servings) || data.servings <= 0) {
+      errors.servings = ['Servings must be a positive integer'];
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError('Validation failed', errors);
+    }
+  }
+}
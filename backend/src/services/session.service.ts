@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import redisClient from '../config/redis';
+import { getRequestContext } from '../middleware/request-context.middleware';
+import { AuthSession } from '@shared/types';
+
+const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60; // matches the refresh token lifetime
+
+interface StoredSession {
+  id: string;
+  user_id: number;
+  token_id: string; // jti of the only refresh token of this family that may still be used
+  device: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_used_at: string;
+}
+
+export type SessionRotationResult =
+  | { status: 'rotated'; tokenId: string }
+  | { status: 'reused' }
+  | { status: 'missing' };
+
+// Each login starts a refresh token family stored in Redis under session:<id>; every refresh
+// swaps the family's current token id, so presenting an older token means it was replayed.
+export class SessionService {
+  async start(userId: number): Promise<{ id: string; tokenId: string }> {
+    const context = getRequestContext();
+    const now = new Date().toISOString();
+
+    const session: StoredSession = {
+      id: crypto.randomUUID(),
+      user_id: userId,
+      token_id: crypto.randomUUID(),
+      device: this.describeDevice(context.user_agent),
+      ip_address: context.ip_address || null,
+      user_agent: context.user_agent || null,
+      created_at: now,
+      last_used_at: now
+    };
+
+    await redisClient.createSession(session.id, session, SESSION_TTL_SECONDS);
+    await redisClient.sadd(this.userSessionsKey(userId), session.id);
+    await redisClient.expire(this.userSessionsKey(userId), SESSION_TTL_SECONDS);
+
+    return { id: session.id, tokenId: session.token_id };
+  }
+
+  async rotate(userId: number, sessionId: string, presentedTokenId: string): Promise<SessionRotationResult> {
+    const session = await redisClient.getSession<StoredSession>(sessionId);
+    if (!session || session.user_id !== userId) {
+      return { status: 'missing' };
+    }
+
+    if (session.token_id !== presentedTokenId) {
+      return { status: 'reused' };
+    }
+
+    const context = getRequestContext();
+    const nextSession: StoredSession = {
+      ...session,
+      token_id: crypto.randomUUID(),
+      ip_address: context.ip_address || session.ip_address,
+      last_used_at: new Date().toISOString()
+    };
+
+    // Two refreshes racing with the same token: only one may win, the other counts as reuse
+    const result = await redisClient.replaceSessionIf(
+      sessionId, 'token_id', presentedTokenId, nextSession, SESSION_TTL_SECONDS
+    );
+    if (result === 'missing') {
+      return { status: 'missing' };
+    }
+    if (result === 'mismatch') {
+      return { status: 'reused' };
+    }
+
+    await redisClient.expire(this.userSessionsKey(userId), SESSION_TTL_SECONDS);
+
+    return { status: 'rotated', tokenId: nextSession.token_id };
+  }
+
+  // Access tokens name their session, so ending the session cuts off the tokens issued for it
+  async isActive(userId: number, sessionId: string): Promise<boolean> {
+    const session = await redisClient.getSession<StoredSession>(sessionId);
+    return !!session && session.user_id === userId;
+  }
+
+  async list(userId: number, currentSessionId?: string): Promise<AuthSession[]> {
+    const sessionIds = await redisClient.smembers(this.userSessionsKey(userId));
+    const sessions: AuthSession[] = [];
+
+    for (const sessionId of sessionIds) {
+      const session = await redisClient.getSession<StoredSession>(sessionId);
+
+      if (!session) {
+        // Expired in Redis; drop the dangling reference
+        await redisClient.srem(this.userSessionsKey(userId), sessionId);
+        continue;
+      }
+
+      sessions.push({
+        id: session.id,
+        device: session.device,
+        ip_address: session.ip_address,
+        user_agent: session.user_agent,
+        created_at: session.created_at,
+        last_used_at: session.last_used_at,
+        current: session.id === currentSessionId
+      });
+    }
+
+    return sessions.sort((a, b) => b.last_used_at.localeCompare(a.last_used_at));
+  }
+
+  // Returns false when the session does not exist or belongs to someone else
+  async revoke(userId: number, sessionId: string): Promise<boolean> {
+    const session = await redisClient.getSession<StoredSession>(sessionId);
+    if (!session || session.user_id !== userId) {
+      return false;
+    }
+
+    await redisClient.deleteSession(sessionId);
+    await redisClient.srem(this.userSessionsKey(userId), sessionId);
+    return true;
+  }
+
+  async revokeAll(userId: number, exceptSessionId?: string): Promise<number> {
+    const sessionIds = await redisClient.smembers(this.userSessionsKey(userId));
+    let revoked = 0;
+
+    for (const sessionId of sessionIds) {
+      if (sessionId === exceptSessionId) {
+        continue;
+      }
+
+      if (await redisClient.deleteSession(sessionId)) {
+        revoked++;
+      }
+      await redisClient.srem(this.userSessionsKey(userId), sessionId);
+    }
+
+    return revoked;
+  }
+
+  private userSessionsKey(userId: number): string {
+    return `user_sessions:${userId}`;
+  }
+
+  // Short human readable label such as "Chrome on Windows"
+  private describeDevice(userAgent?: string): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    const browsers: Array<[RegExp, string]> = [
+      [/Edg\//, 'Edge'],
+      [/OPR\/|Opera/, 'Opera'],
+      [/Firefox\//, 'Firefox'],
+      [/Chrome\//, 'Chrome'],
+      [/Safari\//, 'Safari'],
+      [/okhttp|Dalvik/i, 'Android app'],
+      [/CFNetwork/, 'iOS app'],
+      [/curl|PostmanRuntime|axios|node-fetch/i, 'API client']
+    ];
+    const systems: Array<[RegExp, string]> = [
+      [/iPhone|iPad|iPod/, 'iOS'],
+      [/Android/, 'Android'],
+      [/Windows/, 'Windows'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/CrOS/, 'ChromeOS'],
+      [/Linux/, 'Linux']
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && system) {
+      return `${browser} on ${system}`;
+    }
+    return browser || system || 'Unknown device';
+  }
+}
\ No newline at end of file
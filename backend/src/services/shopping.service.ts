@@ -0,0 +1,345 @@
+import { ShoppingRepository } from '../repositories/shopping.repository';
+import { FoodRepository } from '../repositories/food.repository';
+import { RecipeRepository } from '../repositories/recipe.repository';
+import { CategoryRepository } from '../repositories/category.repository';
+import { FoodService } from './food.service';
+import { BarcodeService } from './barcode.service';
+import { HouseholdService } from './household.service';
+import { IngredientMatchingService } from './ingredient-matching.service';
+import {
+  ShoppingList,
+  ShoppingListItem,
+  ShoppingListCreateData,
+  ShoppingListUpdateData,
+  ShoppingListItemCreateData,
+  ShoppingListItemUpdateData,
+  ShoppingListGenerateOptions,
+  ShoppingInventoryMoveResult,
+  Food,
+  FoodUnit,
+  AppError,
+  ValidationError
+} from '@shared/types';
+import { DateUtils, ValidationUtils } from '@shared/utils';
+
+export class ShoppingService {
+  private shoppingRepository: ShoppingRepository;
+  private foodRepository: FoodRepository;
+  private recipeRepository: RecipeRepository;
+  private categoryRepository: CategoryRepository;
+  private foodService: FoodService;
+  private barcodeService: BarcodeService;
+  private householdService: HouseholdService;
+  private ingredientMatchingService: IngredientMatchingService;
+
+  constructor() {
+    this.shoppingRepository = new ShoppingRepository();
+    this.foodRepository = new FoodRepository();
+    this.recipeRepository = new RecipeRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.foodService = new FoodService();
+    this.barcodeService = new BarcodeService();
+    this.householdService = new HouseholdService();
+    this.ingredientMatchingService = new IngredientMatchingService();
+  }
+
+  // Shopping lists are shared within the household, like the inventory they refill
+  async getLists(userId: number, completed?: boolean): Promise<ShoppingList[]> {
+    const scope = await this.householdService.getScopeUserIds(userId);
+    return this.shoppingRepository.findByUserIds(scope, completed);
+  }
+
+  async getListById(userId: number, listId: number): Promise<ShoppingList> {
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const list = await this.shoppingRepository.findByIdWithItems(listId, scope);
+
+    if (!list) {
+      throw new AppError('Shopping list not found', 404);
+    }
+
+    return list;
+  }
+
+  async createList(userId: number, listData: ShoppingListCreateData): Promise<ShoppingList> {
+    this.validateListName(listData.name);
+
+    const items = listData.items || [];
+    items.forEach((item, index) => this.validateItemData(item, `items.${index}.`));
+    await this.validateCategories(userId, items.map(item => item.category_id));
+
+    const listId = await this.shoppingRepository.createWithItems(
+      userId,
+      listData.name.trim(),
+      items,
+      listData.notes
+    );
+
+    return this.getListById(userId, listId);
+  }
+
+  async updateList(userId: number, listId: number, updateData: ShoppingListUpdateData): Promise<ShoppingList> {
+    await this.getListById(userId, listId);
+
+    if (updateData.name !== undefined) {
+      this.validateListName(updateData.name);
+    }
+
+    const updated = await this.shoppingRepository.update(listId, {
+      ...updateData,
+      ...(updateData.name !== undefined && { name: updateData.name.trim() })
+    });
+    if (!updated) {
+      throw new AppError('Failed to update shopping list', 500);
+    }
+
+    return this.getListById(userId, listId);
+  }
+
+  async deleteList(userId: number, listId: number): Promise<void> {
+    await this.getListById(userId, listId);
+
+    const deleted = await this.shoppingRepository.delete(listId);
+    if (!deleted) {
+      throw new AppError('Failed to delete shopping list', 500);
+    }
+  }
+
+  async completeList(userId: number, listId: number): Promise<ShoppingList> {
+    const list = await this.getListById(userId, listId);
+
+    if (!list.items || list.items.length === 0) {
+      throw new AppError('Cannot complete an empty shopping list', 400);
+    }
+
+    // Completion and total cost are maintained by the shopping_list_items trigger
+    await this.shoppingRepository.markAllItemsPurchased(listId);
+
+    return this.getListById(userId, listId);
+  }
+
+  async addItem(userId: number, listId: number, itemData: ShoppingListItemCreateData): Promise<ShoppingListItem> {
+    await this.getListById(userId, listId);
+    this.validateItemData(itemData);
+    await this.validateCategories(userId, [itemData.category_id]);
+
+    return this.shoppingRepository.addItem(listId, {
+      ...itemData,
+      item_name: itemData.item_name.trim()
+    });
+  }
+
+  async getItemById(userId: number, itemId: number): Promise<ShoppingListItem> {
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const item = await this.shoppingRepository.findItemById(itemId, scope);
+
+    if (!item) {
+      throw new AppError('Shopping list item not found', 404);
+    }
+
+    return item;
+  }
+
+  async updateItem(userId: number, itemId: number, updateData: ShoppingListItemUpdateData): Promise<ShoppingListItem> {
+    const existingItem = await this.getItemById(userId, itemId);
+    this.validateItemData({ ...existingItem, ...updateData });
+    await this.validateCategories(userId, [updateData.category_id]);
+
+    const updatedItem = await this.shoppingRepository.updateItem(itemId, updateData);
+    if (!updatedItem) {
+      throw new AppError('Failed to update shopping list item', 500);
+    }
+
+    return updatedItem;
+  }
+
+  async markAsPurchased(
+    userId: number,
+    itemId: number,
+    purchased: boolean = true,
+    actualPrice?: number
+  ): Promise<ShoppingListItem> {
+    return this.updateItem(userId, itemId, {
+      purchased,
+      ...(actualPrice !== undefined && { actual_price: actualPrice })
+    });
+  }
+
+  async removeItem(userId: number, itemId: number): Promise<void> {
+    await this.getItemById(userId, itemId);
+
+    const deleted = await this.shoppingRepository.deleteItem(itemId);
+    if (!deleted) {
+      throw new AppError('Failed to remove shopping list item', 500);
+    }
+  }
+
+  // Turns the purchased items into foods with suggested expiry dates; each item is moved once
+  async moveToInventory(userId: number, listId: number): Promise<ShoppingInventoryMoveResult> {
+    await this.getListById(userId, listId);
+
+    const items = await this.shoppingRepository.claimPurchasedItems(listId);
+    if (items.length === 0) {
+      throw new AppError('No purchased items left to move into the inventory', 422);
+    }
+
+    const foods: Food[] = [];
+    const skipped: ShoppingInventoryMoveResult['skipped_items'] = [];
+    const unmovedIds = new Set(items.map(item => item.id));
+
+    try {
+      for (const item of items) {
+        try {
+          const defaults = await this.barcodeService.suggestFoodDefaults(userId, item.item_name, item.category_id);
+          const price = item.actual_price ?? (
+            item.estimated_price != null ? Number(item.estimated_price) * Number(item.quantity) : undefined
+          );
+
+          const food = await this.foodService.createFood(userId, {
+            name: item.item_name,
+            category_id: defaults.category_id,
+            purchase_date: defaults.purchase_date,
+            expiry_date: defaults.expiry_date,
+            quantity: Number(item.quantity),
+            unit: item.unit as FoodUnit,
+            storage_location: defaults.storage_location,
+            ...(price != null && { price: Number(price) })
+          });
+
+          await this.shoppingRepository.setItemFood(item.id, food.id);
+          unmovedIds.delete(item.id);
+          foods.push(food);
+        } catch (error) {
+          if (!(error instanceof AppError)) throw error;
+          skipped.push({
+            item_id: item.id,
+            item_name: item.item_name,
+            reason: error instanceof ValidationError
+              ? Object.values(error.errors).flat().join(', ')
+              : error.message
+          });
+        }
+      }
+    } finally {
+      // Skipped and unprocessed items stay on the list so they can be fixed and moved again
+      await this.shoppingRepository.releaseClaimedItems(Array.from(unmovedIds));
+    }
+
+    return { foods, skipped_items: skipped, list: await this.getListById(userId, listId) };
+  }
+
+  async generateList(userId: number, options: ShoppingListGenerateOptions = {}): Promise<ShoppingList> {
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const matcher = await this.ingredientMatchingService.getMatcher();
+    const items = new Map<string, ShoppingListItemCreateData>();
+
+    const addItem = (item: ShoppingListItemCreateData): void => {
+      const key = `${matcher.canonicalize(item.item_name)}|${item.unit}`;
+      const existing = items.get(key);
+
+      if (existing) {
+        existing.quantity += item.quantity;
+        if (item.notes && !existing.notes?.includes(item.notes)) {
+          existing.notes = existing.notes ? `${existing.notes}, ${item.notes}` : item.notes;
+        }
+      } else {
+        items.set(key, { ...item });
+      }
+    };
+
+    if (options.include_low_stock !== false) {
+      const lowStockFoods = await this.foodRepository.findLowStockFoods(
+        scope,
+        options.low_stock_threshold ?? 1
+      );
+
+      lowStockFoods.forEach(food => addItem({
+        item_name: food.name,
+        quantity: 1,
+        unit: food.unit,
+        notes: '在庫わずか'
+      }));
+    }
+
+    if (options.recipe_ids && options.recipe_ids.length > 0) {
+      const recipes = await this.recipeRepository.findManyWithIngredients(options.recipe_ids);
+
+      if (recipes.length !== new Set(options.recipe_ids).size) {
+        throw new AppError('One or more recipes not found', 404);
+      }
+
+      const availableIngredients = await this.foodRepository.getFoodIngredients(scope);
+
+      for (const recipe of recipes) {
+        // Optional ingredients are never bought just for the recipe
+        const { missing } = matcher.matchIngredients(availableIngredients, recipe.ingredients);
+
+        recipe.ingredients
+          .filter(ingredient => !ingredient.optional && missing.includes(ingredient.ingredient_name))
+          .forEach(ingredient => addItem({
+            item_name: ingredient.ingredient_name,
+            quantity: ingredient.quantity,
+            unit: ingredient.unit,
+            notes: recipe.name
+          }));
+      }
+    }
+
+    if (items.size === 0) {
+      throw new AppError('Nothing to add: no low-stock foods or missing recipe ingredients found', 422);
+    }
+
+    const name = options.name?.trim() || `買い物リスト ${DateUtils.getCurrentDate()}`;
+    const listId = await this.shoppingRepository.createWithItems(userId, name, Array.from(items.values()));
+
+    return this.getListById(userId, listId);
+  }
+
+  private validateListName(name: string): void {
+    if (!name || name.trim().length === 0) {
+      throw new ValidationError('Validation failed', { name: ['List name is required'] });
+    }
+
+    if (name.length > 255) {
+      throw new ValidationError('Validation failed', { name: ['List name must not exceed 255 characters'] });
+    }
+  }
+
+  private validateItemData(data: Partial<ShoppingListItemCreateData>, prefix: string = ''): void {
+    const errors: Record<string, string[]> = {};
+
+    if (!data.item_name || data.item_name.trim().length === 0) {
+      errors[`${prefix}item_name`] = ['Item name is required'];
+    } else if (data.item_name.length > 100) {
+      errors[`${prefix}item_name`] = ['Item name must not exceed 100 characters'];
+    }
+
+    if (data.quantity === undefined || !ValidationUtils.isValidQuantity(Number(data.quantity))) {
+      errors[`${prefix}quantity`] = ['Quantity must be a positive number'];
+    }
+
+    if (!data.unit || data.unit.trim().length === 0) {
+      errors[`${prefix}unit`] = ['Unit is required'];
+    }
+
+    if (data.estimated_price !== undefined && data.estimated_price !== null && Number(data.estimated_price) < 0) {
+      errors[`${prefix}estimated_price`] = ['Estimated price must not be negative'];
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError('Validation failed', errors);
+    }
+  }
+
+  // Built-in categories and the household's own ones
+  private async validateCategories(userId: number, categoryIds: Array<number | null | undefined>): Promise<void> {
+    const ids = [...new Set(categoryIds.filter((id): id is number => id != null))];
+    if (ids.length === 0) return;
+
+    const scope = await this.householdService.getScopeUserIds(userId);
+    const categories = await Promise.all(ids.map(id => this.categoryRepository.findVisibleById(id, scope)));
+
+    if (categories.some(category => !category)) {
+      throw new ValidationError('Validation failed', { category_id: ['Category not found'] });
+    }
+  }
+}
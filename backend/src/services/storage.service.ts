@@ -0,0 +1,276 @@
+import { StorageTipRepository } from '../repositories/storage-tip.repository';
+import { AuditService } from './audit.service';
+import { CsvUtils } from '../utils/csv';
+import {
+  StorageTip,
+  StorageTipCreateData,
+  StorageTipUpdateData,
+  StorageTipFilterOptions,
+  StorageTipImportData,
+  StorageTipImportResult,
+  StorageLocation,
+  PaginatedResponse,
+  AppError,
+  ValidationError
+} from '@shared/types';
+
+const STORAGE_METHODS: StorageLocation[] = ['冷蔵庫', '冷凍庫', '常温', 'その他'];
+const MAX_IMPORT_ROWS = 1000;
+// Separator for the tips column in CSV imports
+const CSV_TIP_SEPARATOR = '|';
+
+export class StorageService {
+  private storageTipRepository: StorageTipRepository;
+  private auditService: AuditService;
+
+  constructor() {
+    this.storageTipRepository = new StorageTipRepository();
+    this.auditService = new AuditService();
+  }
+
+  async getStorageAdvice(category: string, foodName?: string): Promise<{
+    category: string;
+    tips: StorageTip[];
+    advice: Awaited<ReturnType<StorageTipRepository['getOptimalStorageForFood']>>;
+    similar: StorageTip[];
+  }> {
+    const tips = await this.storageTipRepository.findByCategory(category);
+
+    if (!foodName) {
+      return { category, tips, advice: null, similar: [] };
+    }
+
+    const advice = await this.storageTipRepository.getOptimalStorageForFood(foodName);
+    // Only worth suggesting look-alikes when the food itself is unknown
+    const similar = advice ? [] : await this.storageTipRepository.findSimilarFoods(foodName, 5);
+
+    return { category, tips, advice, similar };
+  }
+
+  async searchTips(searchTerm: string): Promise<{ tips: StorageTip[]; fuzzy: boolean }> {
+    const tips = await this.storageTipRepository.searchTips(searchTerm);
+    if (tips.length > 0) {
+      return { tips, fuzzy: false };
+    }
+
+    // Fall back to trigram similarity so typos and spelling variants still find something
+    return { tips: await this.storageTipRepository.findSimilarFoods(searchTerm), fuzzy: true };
+  }
+
+  async getRandomTips(limit: number = 5): Promise<StorageTip[]> {
+    return this.storageTipRepository.getRandomTips(Math.min(Math.max(limit, 1), 20));
+  }
+
+  // Admin: knowledge base management
+  async listTips(filters: StorageTipFilterOptions): Promise<PaginatedResponse<StorageTip>> {
+    return this.storageTipRepository.findWithFilters(filters);
+  }
+
+  async getTipById(tipId: number): Promise<StorageTip> {
+    const tip = await this.storageTipRepository.findById(tipId);
+    if (!tip) {
+      throw new AppError('Storage tip not found', 404);
+    }
+    return tip;
+  }
+
+  async createTip(adminId: number, data: StorageTipCreateData): Promise<StorageTip> {
+    const tipData = this.normalizeTip(data);
+    this.throwIfInvalid(this.validateTip(tipData));
+
+    if (await this.storageTipRepository.findByFoodNameAndCategory(tipData.food_name, tipData.category)) {
+      throw new AppError('A storage tip for this food and category already exists', 409);
+    }
+
+    const tip = await this.storageTipRepository.create({ ...tipData, source: 'admin' } as Omit<StorageTip, 'id' | 'created_at' | 'updated_at'>);
+    await this.auditService.log(adminId, 'create', 'storage_tip', tip.id, null, tip);
+
+    return tip;
+  }
+
+  async updateTip(adminId: number, tipId: number, data: StorageTipUpdateData): Promise<StorageTip> {
+    const existingTip = await this.getTipById(tipId);
+
+    const tipData = this.normalizeTip({ ...existingTip, ...data } as StorageTipCreateData);
+    this.throwIfInvalid(this.validateTip(tipData));
+
+    const duplicate = await this.storageTipRepository.findByFoodNameAndCategory(tipData.food_name, tipData.category);
+    if (duplicate && duplicate.id !== tipId) {
+      throw new AppError('A storage tip for this food and category already exists', 409);
+    }
+
+    const updatedTip = await this.storageTipRepository.update(tipId, { ...tipData, source: 'admin' } as Partial<StorageTip>);
+    if (!updatedTip) {
+      throw new AppError('Failed to update storage tip', 500);
+    }
+
+    await this.auditService.log(adminId, 'update', 'storage_tip', tipId, existingTip, updatedTip);
+
+    return updatedTip;
+  }
+
+  // Tips are deactivated rather than removed so the change can be undone
+  async deleteTip(adminId: number, tipId: number): Promise<void> {
+    const tip = await this.getTipById(tipId);
+
+    await this.storageTipRepository.softDelete(tipId);
+    await this.auditService.log(adminId, 'delete', 'storage_tip', tipId, tip);
+  }
+
+  // All rows are validated before anything is written; one bad row rejects the whole file
+  async importTips(adminId: number, data: StorageTipImportData): Promise<StorageTipImportResult> {
+    const records = this.parseImport(data);
+
+    if (records.length === 0) {
+      throw new ValidationError('Validation failed', { content: ['The file does not contain any storage tips'] });
+    }
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError('Validation failed', {
+        content: [`At most ${MAX_IMPORT_ROWS} storage tips can be imported at once`]
+      });
+    }
+
+    // CSV rows are numbered as a spreadsheet shows them, after the header line
+    const firstRow = data.format === 'csv' ? 2 : 1;
+    const errors: Record<string, string[]> = {};
+    const seen = new Map<string, number>();
+    const tips: StorageTipCreateData[] = [];
+
+    records.forEach((record, index) => {
+      const row = firstRow + index;
+      const tip = this.normalizeTip(this.recordToTip(record));
+      const rowErrors = Object.values(this.validateTip(tip)).flat();
+
+      const key = `${tip.food_name.toLowerCase()}\u0000${tip.category || ''}`;
+      if (tip.food_name && seen.has(key)) {
+        rowErrors.push(`Duplicate of row ${seen.get(key)}`);
+      }
+      seen.set(key, row);
+
+      if (rowErrors.length > 0) {
+        errors[`row ${row}`] = rowErrors;
+      }
+      tips.push(tip);
+    });
+
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError('Import failed', errors);
+    }
+
+    if (data.dry_run) {
+      const existing = await Promise.all(
+        tips.map(tip => this.storageTipRepository.findByFoodNameAndCategory(tip.food_name, tip.category))
+      );
+      const updated = existing.filter(Boolean).length;
+
+      return { total: tips.length, created: tips.length - updated, updated, dry_run: true };
+    }
+
+    const { created, updated } = await this.storageTipRepository.upsertMany(tips, 'import');
+
+    await this.auditService.log(adminId, 'import', 'storage_tip', undefined, null, {
+      format: data.format,
+      total: tips.length,
+      created,
+      updated
+    });
+
+    return { total: tips.length, created, updated, dry_run: false };
+  }
+
+  private parseImport(data: StorageTipImportData): Array<Record<string, any>> {
+    try {
+      if (data.format === 'csv') {
+        return CsvUtils.parseRecords(data.content);
+      }
+
+      const parsed = JSON.parse(data.content);
+      const records = Array.isArray(parsed) ? parsed : parsed?.tips;
+      if (!Array.isArray(records)) {
+        throw new Error('Expected an array of storage tips or an object with a "tips" array');
+      }
+      return records;
+    } catch (error) {
+      throw new ValidationError('Validation failed', {
+        content: [`Could not parse ${data.format.toUpperCase()}: ${(error as Error).message}`]
+      });
+    }
+  }
+
+  // Accepts both JSON objects and CSV records, where every value is a string
+  private recordToTip(record: Record<string, any>): StorageTipCreateData {
+    const tips = Array.isArray(record.tips)
+      ? record.tips
+      : String(record.tips ?? '').split(CSV_TIP_SEPARATOR);
+
+    let isActive: boolean | undefined;
+    if (typeof record.is_active === 'boolean') {
+      isActive = record.is_active;
+    } else if (typeof record.is_active === 'string' && record.is_active.trim() !== '') {
+      isActive = ['true', '1', 'yes'].includes(record.is_active.trim().toLowerCase());
+    }
+
+    return {
+      food_name: record.food_name,
+      category: record.category,
+      storage_method: record.storage_method,
+      optimal_temp: record.optimal_temp,
+      humidity_level: record.humidity_level,
+      shelf_life_days: typeof record.shelf_life_days === 'number'
+        ? record.shelf_life_days
+        : Number(String(record.shelf_life_days ?? '').trim() || NaN),
+      tips,
+      is_active: isActive
+    };
+  }
+
+  private normalizeTip(data: StorageTipCreateData): StorageTipCreateData {
+    return {
+      food_name: typeof data.food_name === 'string' ? data.food_name.trim() : '',
+      category: typeof data.category === 'string' && data.category.trim() ? data.category.trim() : undefined,
+      storage_method: data.storage_method,
+      optimal_temp: typeof data.optimal_temp === 'string' ? data.optimal_temp.trim() || undefined : undefined,
+      humidity_level: typeof data.humidity_level === 'string' ? data.humidity_level.trim() || undefined : undefined,
+      shelf_life_days: data.shelf_life_days,
+      tips: Array.isArray(data.tips)
+        ? data.tips.map(tip => String(tip).trim()).filter(Boolean)
+        : [],
+      is_active: data.is_active
+    };
+  }
+
+  private validateTip(tip: StorageTipCreateData): Record<string, string[]> {
+    const errors: Record<string, string[]> = {};
+
+    if (!tip.food_name) {
+      errors.food_name = ['Food name is required'];
+    } else if (tip.food_name.length > 100) {
+      errors.food_name = ['Food name must not exceed 100 characters'];
+    }
+
+    if (tip.category && tip.category.length > 50) {
+      errors.category = ['Category must not exceed 50 characters'];
+    }
+
+    if (!STORAGE_METHODS.includes(tip.storage_method)) {
+      errors.storage_method = [`Storage method must be one of: ${STORAGE_METHODS.join(', ')}`];
+    }
+
+    if (!Number.isInteger(tip.shelf_life_days) || tip.shelf_life_days <= 0) {
+      errors.shelf_life_days = ['Shelf life must be a positive whole number of days'];
+    }
+
+    if (tip.tips.length === 0) {
+      errors.tips = ['At least one tip is required'];
+    }
+
+    return errors;
+  }
+
+  private throwIfInvalid(errors: Record<string, string[]>): void {
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError('Validation failed', errors);
+    }
+  }
+}
\ No newline at end of file
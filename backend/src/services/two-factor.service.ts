@@ -0,0 +1,182 @@
+import { UserRepository } from '../repositories/user.repository';
+import { RecoveryCodeRepository } from '../repositories/recovery-code.repository';
+import { AuditService } from './audit.service';
+import { CryptoUtils } from '../utils/crypto';
+import { config } from '../config/environment';
+import { User, TwoFactorSetup, TwoFactorStatus, AppError, ValidationError } from '@shared/types';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// TOTP enrollment and verification. The secret is stored encrypted and only trusted once the
+// user has proven their authenticator works by confirming a first code.
+export class TwoFactorService {
+  private userRepository: UserRepository;
+  private recoveryCodeRepository: RecoveryCodeRepository;
+  private auditService: AuditService;
+
+  constructor() {
+    this.userRepository = new UserRepository();
+    this.recoveryCodeRepository = new RecoveryCodeRepository();
+    this.auditService = new AuditService();
+  }
+
+  async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const user = await this.findUser(userId);
+    const remaining = user.totp_enabled
+      ? await this.recoveryCodeRepository.countUnusedByUser(userId)
+      : 0;
+
+    return {
+      enabled: !!user.totp_enabled,
+      enabled_at: user.totp_enabled_at || null,
+      recovery_codes_remaining: remaining
+    };
+  }
+
+  // Starts (or restarts) enrollment with a fresh secret
+  async setup(userId: number): Promise<TwoFactorSetup> {
+    const user = await this.findUser(userId);
+    if (user.totp_enabled) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = CryptoUtils.generateTOTPSecret();
+    const stored = await this.userRepository.setPendingTotpSecret(userId, this.encryptSecret(secret));
+    if (!stored) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+
+    return {
+      secret,
+      otpauth_url: CryptoUtils.buildTOTPUri(secret, user.email, config.TOTP_ISSUER)
+    };
+  }
+
+  // Confirms enrollment with a code from the authenticator; the recovery codes are only ever returned here
+  async enable(userId: number, code: string): Promise<{ recovery_codes: string[] }> {
+    const user = await this.findUser(userId);
+    if (user.totp_enabled) {
+      throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+    if (!user.totp_secret) {
+      throw new AppError('Two-factor setup has not been started', 400);
+    }
+
+    const timeStep = CryptoUtils.verifyTOTP(this.decryptSecret(user.totp_secret), code);
+    if (timeStep === null) {
+      throw new ValidationError('Validation failed', { code: ['Invalid authentication code'] });
+    }
+
+    await this.userRepository.enableTotp(userId, timeStep);
+    const recoveryCodes = await this.issueRecoveryCodes(userId);
+
+    await this.auditService.log(userId, 'two_factor_enabled', 'user', userId);
+
+    return { recovery_codes: recoveryCodes };
+  }
+
+  async disable(userId: number, password: string): Promise<void> {
+    const user = await this.findUser(userId);
+    await this.verifyPassword(user, password);
+
+    if (!user.totp_enabled) {
+      throw new AppError('Two-factor authentication is not enabled', 409);
+    }
+
+    await this.userRepository.disableTotp(userId);
+    await this.recoveryCodeRepository.deleteForUser(userId);
+
+    await this.auditService.log(userId, 'two_factor_disabled', 'user', userId);
+  }
+
+  async regenerateRecoveryCodes(userId: number, password: string): Promise<{ recovery_codes: string[] }> {
+    const user = await this.findUser(userId);
+    await this.verifyPassword(user, password);
+
+    if (!user.totp_enabled) {
+      throw new AppError('Two-factor authentication is not enabled', 409);
+    }
+
+    const recoveryCodes = await this.issueRecoveryCodes(userId);
+    await this.auditService.log(userId, 'recovery_codes_regenerated', 'user', userId);
+
+    return { recovery_codes: recoveryCodes };
+  }
+
+  // Each code is accepted once, even inside its validity window
+  async verifyCode(user: User, code: string): Promise<boolean> {
+    if (!user.totp_enabled || !user.totp_secret) {
+      return false;
+    }
+
+    const timeStep = CryptoUtils.verifyTOTP(this.decryptSecret(user.totp_secret), code);
+    if (timeStep === null) {
+      return false;
+    }
+
+    return this.userRepository.recordTotpStep(user.id, timeStep);
+  }
+
+  async verifyRecoveryCode(user: User, recoveryCode: string): Promise<boolean> {
+    if (!user.totp_enabled) {
+      return false;
+    }
+
+    const normalized = this.normalizeRecoveryCode(recoveryCode);
+    const codes = await this.recoveryCodeRepository.findUnusedByUser(user.id);
+
+    const match = codes.find(code =>
+      CryptoUtils.timingSafeEqual(CryptoUtils.hashStringWithSalt(normalized, code.salt), code.code_hash)
+    );
+    if (!match) {
+      return false;
+    }
+
+    return this.recoveryCodeRepository.markUsed(match.id);
+  }
+
+  private async issueRecoveryCodes(userId: number): Promise<string[]> {
+    const recoveryCodes: string[] = [];
+    const entries: Array<{ code_hash: string; salt: string }> = [];
+
+    for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+      // Formatted as xxxxx-xxxxx for readability; the dash is ignored when verifying
+      const raw = CryptoUtils.generateSecureRandom(5);
+      const salt = CryptoUtils.generateSecureRandom(16);
+
+      recoveryCodes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+      entries.push({ code_hash: CryptoUtils.hashStringWithSalt(raw, salt), salt });
+    }
+
+    await this.recoveryCodeRepository.replaceForUser(userId, entries);
+    return recoveryCodes;
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[\s-]/g, '');
+  }
+
+  private async verifyPassword(user: User, password: string): Promise<void> {
+    const isPasswordValid = await CryptoUtils.verifyPassword(password, user.password_hash!);
+    if (!isPasswordValid) {
+      await this.auditService.log(user.id, 'two_factor_password_failed', 'user', user.id);
+      throw new AppError('Password is incorrect', 400);
+    }
+  }
+
+  private async findUser(userId: number): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    return user;
+  }
+
+  private encryptSecret(secret: string): string {
+    return CryptoUtils.encryptBuffer(Buffer.from(secret), config.TOTP_ENCRYPTION_KEY).toString('base64');
+  }
+
+  private decryptSecret(encryptedSecret: string): string {
+    return CryptoUtils.decryptBuffer(Buffer.from(encryptedSecret, 'base64'), config.TOTP_ENCRYPTION_KEY).toString();
+  }
+}
\ No newline at end of file
@@ -7,6 +7,9 @@ import { User, AuthTokens } from '@shared/types';
 export class CryptoUtils {
   private static readonly SALT_ROUNDS = 12;
   private static readonly TOKEN_ALGORITHM = 'HS256';
+  private static readonly TOTP_DIGITS = 6;
+  private static readonly TOTP_PERIOD_SECONDS = 30;
+  private static readonly BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
 
   // Password hashing
   static async hashPassword(password: string): Promise<string> {
@@ -26,12 +29,13 @@ export class CryptoUtils {
   }
 
   // JWT token generation and verification
-  static generateAccessToken(user: User): string {
+  static generateAccessToken(user: User, sessionId?: string): string {
     const payload = {
       id: user.id,
       email: user.email,
       username: user.username,
-      type: 'access'
+      type: 'access',
+      ...(sessionId ? { sid: sessionId } : {})
     };
 
     return jwt.sign(payload, config.JWT_SECRET, {
@@ -42,12 +46,15 @@ export class CryptoUtils {
     });
   }
 
-  static generateRefreshToken(user: User): string {
+  // sid ties the token to its rotation family (session); tokenId lets the server tell
+  // the current token of a family from ones that were already rotated away
+  static generateRefreshToken(user: User, session?: { id: string; tokenId: string }): string {
     const payload = {
       id: user.id,
       email: user.email,
       type: 'refresh',
-      jti: crypto.randomUUID() // Unique token ID
+      jti: session?.tokenId || crypto.randomUUID(), // Unique token ID
+      ...(session ? { sid: session.id } : {})
     };
 
     return jwt.sign(payload, config.JWT_SECRET, {
@@ -58,9 +65,9 @@ export class CryptoUtils {
     });
   }
 
-  static generateTokenPair(user: User): AuthTokens {
-    const accessToken = this.generateAccessToken(user);
-    const refreshToken = this.generateRefreshToken(user);
+  static generateTokenPair(user: User, session?: { id: string; tokenId: string }): AuthTokens {
+    const accessToken = this.generateAccessToken(user, session?.id);
+    const refreshToken = this.generateRefreshToken(user, session);
 
     // Parse expiry from access token
     const decoded = jwt.decode(accessToken) as jwt.JwtPayload;
@@ -73,6 +80,22 @@ export class CryptoUtils {
     };
   }
 
+  // Proves the password step of a two-factor login; only accepted by the code verification endpoint
+  static generateTwoFactorChallengeToken(user: User, expiresInSeconds: number): string {
+    const payload = {
+      id: user.id,
+      type: 'two_factor',
+      jti: crypto.randomUUID()
+    };
+
+    return jwt.sign(payload, config.JWT_SECRET, {
+      expiresIn: expiresInSeconds,
+      algorithm: this.TOKEN_ALGORITHM,
+      issuer: 'food-waste-app',
+      audience: 'food-waste-users'
+    });
+  }
+
   static verifyToken(token: string): jwt.JwtPayload {
     try {
       return jwt.verify(token, config.JWT_SECRET, {
@@ -151,7 +174,7 @@ export class CryptoUtils {
     const iv = crypto.randomBytes(16);
     const keyBuffer = crypto.scryptSync(key, 'salt', 32);
 
-    const cipher = crypto.createCipherGCM(algorithm, keyBuffer, iv);
+    const cipher = crypto.createCipheriv(algorithm, keyBuffer, iv);
     const encrypted = Buffer.concat([cipher.update(buffer), cipher.final()]);
     const authTag = cipher.getAuthTag();
 
@@ -166,7 +189,7 @@ export class CryptoUtils {
     const authTag = encryptedBuffer.subarray(16, 32);
     const encrypted = encryptedBuffer.subarray(32);
 
-    const decipher = crypto.createDecipherGCM(algorithm, keyBuffer, iv);
+    const decipher = crypto.createDecipheriv(algorithm, keyBuffer, iv);
     decipher.setAuthTag(authTag);
 
     return Buffer.concat([decipher.update(encrypted), decipher.final()]);
@@ -192,6 +215,104 @@ export class CryptoUtils {
     return (Math.floor(crypto.randomInt(min, max + 1))).toString().padStart(length, '0');
   }
 
+  // TOTP (RFC 6238) for two-factor authentication
+  static generateTOTPSecret(): string {
+    // 160 bits, the key length recommended by RFC 4226
+    return this.base32Encode(crypto.randomBytes(20));
+  }
+
+  static generateTOTP(secret: string, timeStep: number = this.currentTOTPStep()): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(timeStep));
+
+    const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(counter).digest();
+
+    // Dynamic truncation (RFC 4226 section 5.3)
+    const offset = hmac[hmac.length - 1]! & 0x0f;
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % Math.pow(10, this.TOTP_DIGITS);
+
+    return binary.toString().padStart(this.TOTP_DIGITS, '0');
+  }
+
+  // Returns the time step the code matched, allowing one step of clock drift either way,
+  // or null when it matches none
+  static verifyTOTP(secret: string, code: string, window: number = 1): number | null {
+    const currentStep = this.currentTOTPStep();
+
+    for (let drift = -window; drift <= window; drift++) {
+      const step = currentStep + drift;
+      if (this.timingSafeEqual(this.generateTOTP(secret, step), code)) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  static currentTOTPStep(): number {
+    return Math.floor(Date.now() / 1000 / this.TOTP_PERIOD_SECONDS);
+  }
+
+  // Key URI understood by authenticator apps, rendered as a QR code by the client
+  static buildTOTPUri(secret: string, accountName: string, issuer: string): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: this.TOTP_DIGITS.toString(),
+      period: this.TOTP_PERIOD_SECONDS.toString()
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  private static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += this.BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += this.BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private static base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = this.BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 character');
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+
   // Timing safe comparison
   static timingSafeEqual(a: string, b: string): boolean {
     if (a.length !== b.length) return false;
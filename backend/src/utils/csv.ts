@@ -0,0 +1,71 @@
+export class CsvUtils {
+  // RFC 4180 style parsing: quoted fields may contain commas, newlines and doubled quotes
+  static parse(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const text = content.replace(/^﻿/, ''); // Excel adds a BOM to UTF-8 exports
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new Error('Unterminated quoted field');
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    // Blank lines carry no data
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+  }
+
+  // Maps each data row onto the (trimmed, lower-cased) header row
+  static parseRecords(content: string): Array<Record<string, string>> {
+    const [header, ...rows] = CsvUtils.parse(content);
+    if (!header) {
+      return [];
+    }
+
+    const keys = header.map(key => key.trim().toLowerCase());
+
+    return rows.map(values => {
+      const record: Record<string, string> = {};
+      keys.forEach((key, index) => {
+        record[key] = (values[index] ?? '').trim();
+      });
+      return record;
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,83 @@
+import webpush from 'web-push';
+
+export interface VapidKeys {
+  publicKey: string;  // base64url, uncompressed P-256 point (65 bytes)
+  privateKey: string; // base64url, raw P-256 scalar (32 bytes)
+}
+
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushSendOptions {
+  ttlSeconds: number;
+  timeoutMs: number;
+}
+
+// Push services operated by the browser vendors. Endpoints come from the client, so anything
+// else is refused rather than letting the server POST to arbitrary (internal) hosts.
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'android.googleapis.com',
+  'push.services.mozilla.com',
+  'notify.windows.com',
+  'push.apple.com'
+];
+
+// Message encryption (RFC 8291) and VAPID (RFC 8292) are handled by the web-push package
+export class WebPushUtils {
+  static generateVapidKeys(): VapidKeys {
+    return webpush.generateVAPIDKeys();
+  }
+
+  static isPushServiceEndpoint(endpoint: string): boolean {
+    let url: URL;
+    try {
+      url = new URL(endpoint);
+    } catch {
+      return false;
+    }
+
+    if (url.protocol !== 'https:' || url.username || url.password || (url.port && url.port !== '443')) {
+      return false;
+    }
+
+    const host = url.hostname.toLowerCase();
+    return PUSH_SERVICE_HOSTS.some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+  }
+
+  // Resolves with the push service's HTTP status; only network failures reject
+  static async send(
+    target: PushTarget,
+    payload: string,
+    keys: VapidKeys,
+    subject: string,
+    options: PushSendOptions
+  ): Promise<number> {
+    if (!this.isPushServiceEndpoint(target.endpoint)) {
+      throw new Error(`Refusing to send push to unknown endpoint host: ${target.endpoint}`);
+    }
+
+    try {
+      const result = await webpush.sendNotification(
+        { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+        payload,
+        {
+          vapidDetails: { subject, publicKey: keys.publicKey, privateKey: keys.privateKey },
+          contentEncoding: 'aes128gcm',
+          TTL: options.ttlSeconds,
+          urgency: 'normal',
+          timeout: options.timeoutMs
+        }
+      );
+      return result.statusCode;
+    } catch (error) {
+      if (error instanceof webpush.WebPushError) {
+        return error.statusCode;
+      }
+      throw error;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,208 @@
+import { AuthMiddleware } from '../../src/middleware/auth.middleware';
+import { AuthService } from '../../src/services/auth.service';
+import { SessionService } from '../../src/services/session.service';
+import { CryptoUtils } from '../../src/utils/crypto';
+import { HouseholdRole, User } from '@shared/types';
+
+const mockUsers = new Map<number, Partial<User>>();
+const mockSessions = new Map<string, any>();
+const mockMemberships = new Map<number, { household_id: number; role: HouseholdRole }>();
+const mockFoodOwners = new Map<number, number>();
+
+jest.mock('../../src/repositories/user.repository', () => ({
+  UserRepository: jest.fn().mockImplementation(() => ({
+    findById: jest.fn(async (id: number) => mockUsers.get(id) ?? null)
+  }))
+}));
+
+jest.mock('../../src/repositories/household.repository', () => ({
+  HouseholdRepository: jest.fn().mockImplementation(() => ({
+    findMembership: jest.fn(async (userId: number) => mockMemberships.get(userId) ?? null),
+    findMemberIds: jest.fn(async (userId: number) => {
+      const householdId = mockMemberships.get(userId)?.household_id;
+      return Array.from(mockMemberships)
+        .filter(([, membership]) => householdId !== undefined && membership.household_id === householdId)
+        .map(([memberId]) => memberId);
+    }),
+    findResourceOwnerId: jest.fn(async (_resource: string, id: number) => mockFoodOwners.get(id) ?? null)
+  }))
+}));
+
+jest.mock('../../src/config/redis', () => ({
+  __esModule: true,
+  default: {
+    createSession: jest.fn(async (id: string, data: any) => {
+      mockSessions.set(id, JSON.parse(JSON.stringify(data)));
+    }),
+    getSession: jest.fn(async (id: string) => mockSessions.get(id) ?? null),
+    deleteSession: jest.fn(async (id: string) => mockSessions.delete(id)),
+    replaceSessionIf: jest.fn(async (id: string, field: string, expected: string, data: any) => {
+      const current = mockSessions.get(id);
+      if (!current) return 'missing';
+      if (current[field] !== expected) return 'mismatch';
+      mockSessions.set(id, JSON.parse(JSON.stringify(data)));
+      return 'replaced';
+    }),
+    sadd: jest.fn(async () => undefined),
+    srem: jest.fn(async () => undefined),
+    smembers: jest.fn(async () => Array.from(mockSessions.keys())),
+    expire: jest.fn(async () => true)
+  }
+}));
+
+jest.mock('../../src/services/audit.service', () => ({
+  AuditService: jest.fn().mockImplementation(() => ({ log: jest.fn(async () => undefined) }))
+}));
+
+const alice = { id: 1, email: 'alice@example.com', username: 'alice', is_active: true } as User;
+
+interface RouteResult {
+  status: number;
+  body: any;
+  user?: unknown;
+}
+
+// Runs a middleware in front of a handler the way a protected route would
+async function runMiddleware(
+  middleware: (req: any, res: any, next: () => void) => Promise<void>,
+  req: any
+): Promise<RouteResult> {
+  const result: RouteResult = { status: 0, body: undefined };
+  const res: any = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      result.body = body;
+      return res;
+    }
+  };
+
+  await middleware(req, res, () => {
+    result.status = 200;
+    result.user = req.user;
+  });
+
+  return result;
+}
+
+async function requestProtectedRoute(token?: string): Promise<RouteResult> {
+  return runMiddleware(AuthMiddleware.authenticate, { headers: token ? { authorization: `Bearer ${token}` } : {} });
+}
+
+describe('AuthMiddleware.authenticate', () => {
+  const sessionService = new SessionService();
+
+  // Signs alice in on a new device and returns that session's tokens
+  async function signIn() {
+    const session = await sessionService.start(alice.id);
+    return { sessionId: session.id, ...CryptoUtils.generateTokenPair(alice, session) };
+  }
+
+  beforeEach(() => {
+    mockUsers.clear();
+    mockSessions.clear();
+    mockUsers.set(alice.id, { ...alice });
+  });
+
+  it('lets a valid access token through', async () => {
+    const result = await requestProtectedRoute((await signIn()).access_token);
+
+    expect(result.status).toBe(200);
+    expect(result.user).toMatchObject({ id: 1, username: 'alice' });
+  });
+
+  it('rejects missing tokens and refresh tokens', async () => {
+    expect((await requestProtectedRoute()).status).toBe(401);
+    expect((await requestProtectedRoute((await signIn()).refresh_token)).status).toBe(401);
+  });
+
+  it('rejects the tokens of an account deactivated after they were issued', async () => {
+    const token = (await signIn()).access_token;
+    mockUsers.set(alice.id, { ...alice, is_active: false });
+
+    const result = await requestProtectedRoute(token);
+
+    expect(result).toEqual({ status: 401, body: { success: false, error: 'Account is inactive' } });
+  });
+
+  it('rejects access tokens of a session that was signed out', async () => {
+    const device = await signIn();
+    const other = await signIn();
+
+    await sessionService.revoke(alice.id, device.sessionId);
+
+    expect(await requestProtectedRoute(device.access_token)).toEqual({
+      status: 401,
+      body: { success: false, error: 'Session has expired or was revoked' }
+    });
+    expect((await requestProtectedRoute(other.access_token)).status).toBe(200);
+  });
+
+  it('rejects access tokens without a session', async () => {
+    expect((await requestProtectedRoute(CryptoUtils.generateAccessToken(alice))).status).toBe(401);
+  });
+
+  it('cuts off the whole family when a rotated refresh token is replayed', async () => {
+    const authService = new AuthService();
+    const stolen = await signIn();
+    const refreshed = await authService.refreshToken(stolen.refresh_token);
+
+    await expect(authService.refreshToken(stolen.refresh_token)).rejects.toThrow('already been used');
+
+    expect((await requestProtectedRoute(stolen.access_token)).status).toBe(401);
+    expect((await requestProtectedRoute(refreshed.tokens.access_token)).status).toBe(401);
+    await expect(authService.refreshToken(refreshed.tokens.refresh_token)).rejects.toThrow('expired or was revoked');
+  });
+});
+
+describe('AuthMiddleware household access', () => {
+  const bob = { id: 2, email: 'bob@example.com', username: 'bob' } as User;
+  const carol = { id: 3, email: 'carol@example.com', username: 'carol' } as User;
+
+  // Routes only see the user authenticate put on the request
+  const asUser = (user: User, params: Record<string, string> = {}) => ({ headers: {}, params, user });
+  const canWrite = AuthMiddleware.requireRole(['owner', 'member']);
+  const ownsFood = AuthMiddleware.requireOwnership('foods');
+
+  beforeEach(() => {
+    mockMemberships.clear();
+    mockFoodOwners.clear();
+
+    // alice and bob share a household in which bob may only look; carol keeps her own inventory
+    mockMemberships.set(alice.id, { household_id: 1, role: 'owner' });
+    mockMemberships.set(bob.id, { household_id: 1, role: 'viewer' });
+    mockFoodOwners.set(10, alice.id);
+    mockFoodOwners.set(30, carol.id);
+  });
+
+  it('lets owners, members and users without a household write', async () => {
+    expect((await runMiddleware(canWrite, asUser(alice))).status).toBe(200);
+    expect((await runMiddleware(canWrite, asUser(carol))).status).toBe(200);
+
+    mockMemberships.set(bob.id, { household_id: 1, role: 'member' });
+    expect((await runMiddleware(canWrite, asUser(bob))).status).toBe(200);
+  });
+
+  it('forbids viewers from writing', async () => {
+    expect(await runMiddleware(canWrite, asUser(bob))).toEqual({
+      status: 403,
+      body: { success: false, error: 'Insufficient household permissions' }
+    });
+  });
+
+  it("grants access to the household's shared foods", async () => {
+    expect((await runMiddleware(ownsFood, asUser(alice, { id: '10' }))).status).toBe(200);
+    expect((await runMiddleware(ownsFood, asUser(bob, { id: '10' }))).status).toBe(200);
+  });
+
+  it("answers 404 for another household's foods and for ids that do not exist", async () => {
+    const notFound = { status: 404, body: { success: false, error: 'Resource not found' } };
+
+    expect(await runMiddleware(ownsFood, asUser(bob, { id: '30' }))).toEqual(notFound);
+    expect(await runMiddleware(ownsFood, asUser(carol, { id: '10' }))).toEqual(notFound);
+    expect(await runMiddleware(ownsFood, asUser(alice, { id: '99' }))).toEqual(notFound);
+    expect(await runMiddleware(ownsFood, asUser(alice, { id: 'abc' }))).toEqual(notFound);
+  });
+});
@@ -0,0 +1,68 @@
+import { HouseholdService } from '../../src/services/household.service';
+import { HouseholdRole } from '@shared/types';
+
+// In-memory stand-in for the household_members table, keyed by user id
+const mockMemberships = new Map<number, { household_id: number; role: HouseholdRole }>();
+const mockFoodOwners = new Map<number, number>();
+
+jest.mock('../../src/repositories/household.repository', () => ({
+  HouseholdRepository: jest.fn().mockImplementation(() => ({
+    findMembership: jest.fn(async (userId: number) => mockMemberships.get(userId) ?? null),
+    findMemberIds: jest.fn(async (userId: number) => {
+      const householdId = mockMemberships.get(userId)?.household_id;
+      return Array.from(mockMemberships)
+        .filter(([, membership]) => householdId !== undefined && membership.household_id === householdId)
+        .map(([memberId]) => memberId)
+        .sort((a, b) => a - b);
+    }),
+    findResourceOwnerId: jest.fn(async (_resource: string, id: number) => mockFoodOwners.get(id) ?? null)
+  }))
+}));
+
+jest.mock('../../src/repositories/user.repository', () => ({
+  UserRepository: jest.fn().mockImplementation(() => ({}))
+}));
+
+jest.mock('../../src/services/audit.service', () => ({
+  AuditService: jest.fn().mockImplementation(() => ({ log: jest.fn(async () => undefined) }))
+}));
+
+describe('HouseholdService scoping', () => {
+  const householdService = new HouseholdService();
+
+  beforeEach(() => {
+    mockMemberships.clear();
+    mockFoodOwners.clear();
+
+    // Users 1-3 share household 1, user 4 is alone in household 2 and user 5 has none
+    mockMemberships.set(1, { household_id: 1, role: 'owner' });
+    mockMemberships.set(2, { household_id: 1, role: 'member' });
+    mockMemberships.set(3, { household_id: 1, role: 'viewer' });
+    mockMemberships.set(4, { household_id: 2, role: 'owner' });
+    [1, 3, 4, 5].forEach(userId => mockFoodOwners.set(userId * 10, userId));
+  });
+
+  it('scopes members to everyone in their household', async () => {
+    expect(await householdService.getScopeUserIds(1)).toEqual([1, 2, 3]);
+    expect(await householdService.getScopeUserIds(3)).toEqual([1, 2, 3]);
+    expect(await householdService.getScopeUserIds(4)).toEqual([4]);
+  });
+
+  it('scopes users without a household to themselves', async () => {
+    expect(await householdService.getScopeUserIds(5)).toEqual([5]);
+  });
+
+  it('treats users without a household as owners of their own inventory', async () => {
+    expect(await householdService.getRole(3)).toBe('viewer');
+    expect(await householdService.getRole(5)).toBe('owner');
+  });
+
+  it('allows access only to resources created inside the household', async () => {
+    expect(await householdService.canAccess(2, 'foods', 10)).toBe(true);
+    expect(await householdService.canAccess(2, 'foods', 30)).toBe(true);
+    expect(await householdService.canAccess(2, 'foods', 40)).toBe(false);
+    expect(await householdService.canAccess(4, 'foods', 10)).toBe(false);
+    expect(await householdService.canAccess(5, 'foods', 50)).toBe(true);
+    expect(await householdService.canAccess(5, 'foods', 999)).toBe(false);
+  });
+});
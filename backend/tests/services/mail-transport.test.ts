@@ -0,0 +1,174 @@
+import net, { AddressInfo } from 'net';
+import { MailMessage, SmtpError, SmtpMailTransport, buildMimeMessage } from '../../src/services/mail-transport';
+
+const message: MailMessage = {
+  from: 'FoodKeeper <noreply@foodkeeper.test>',
+  to: 'alice@example.com',
+  subject: '賞味期限のお知らせ',
+  text: '今週期限を迎える食品があります。'
+};
+
+function decodePart(mime: string, contentType: string): string {
+  const start = mime.indexOf(`Content-Type: ${contentType}`);
+  const body = mime.slice(mime.indexOf('\r\n\r\n', start) + 4).split(/\r\n(?:--|$)/)[0]!;
+  return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+}
+
+describe('buildMimeMessage', () => {
+  it('encodes non-ASCII headers as RFC 2047 encoded words', () => {
+    const mime = buildMimeMessage({ ...message, from: 'フードキーパー <noreply@foodkeeper.test>' });
+
+    expect(mime).toContain(`Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`);
+    expect(mime).toContain(`From: =?UTF-8?B?${Buffer.from('フードキーパー').toString('base64')}?= <noreply@foodkeeper.test>`);
+    expect(mime).toContain('To: alice@example.com');
+    expect(mime).toMatch(/^Message-ID: <[0-9a-f-]+@foodkeeper\.test>$/m);
+  });
+
+  it('leaves plain ASCII headers readable', () => {
+    const mime = buildMimeMessage({ ...message, subject: 'Confirm your email address' });
+
+    expect(mime).toContain('Subject: Confirm your email address');
+    expect(mime).toContain('From: FoodKeeper <noreply@foodkeeper.test>');
+  });
+
+  it('sends text-only mail as a single base64 part wrapped at 76 characters', () => {
+    const text = 'あ'.repeat(200);
+    const mime = buildMimeMessage({ ...message, text });
+    const body = mime.slice(mime.indexOf('\r\n\r\n') + 4);
+
+    expect(mime).toContain('Content-Type: text/plain; charset=UTF-8');
+    expect(mime).not.toContain('multipart/alternative');
+    expect(body.split('\r\n').every(line => line.length <= 76)).toBe(true);
+    expect(Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8')).toBe(text);
+  });
+
+  it('sends text and HTML as multipart/alternative', () => {
+    const html = '<p>今週期限を迎える食品があります。</p>';
+    const mime = buildMimeMessage({ ...message, html });
+    const boundary = mime.match(/boundary="([^"]+)"/)![1];
+
+    expect(mime).toContain(`--${boundary}\r\nContent-Type: text/plain; charset=UTF-8`);
+    expect(mime).toContain(`--${boundary}\r\nContent-Type: text/html; charset=UTF-8`);
+    expect(mime.endsWith(`--${boundary}--`)).toBe(true);
+    expect(decodePart(mime, 'text/plain')).toBe(message.text);
+    expect(decodePart(mime, 'text/html')).toBe(html);
+  });
+});
+
+interface FakeSmtpServer {
+  port: number;
+  commands: string[];
+  data: string[];
+  close(): Promise<void>;
+}
+
+// Just enough of an SMTP server to watch what the transport sends. It neither offers nor accepts STARTTLS.
+async function startFakeSmtpServer(options: { rejectRecipient?: boolean } = {}): Promise<FakeSmtpServer> {
+  const commands: string[] = [];
+  const data: string[] = [];
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+
+    let buffer = '';
+    let inData = false;
+    socket.write('220 fake.test ESMTP\r\n');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          data.push(buffer.slice(0, end));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 2.0.0 queued\r\n');
+          continue;
+        }
+
+        const end = buffer.indexOf('\r\n');
+        if (end === -1) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        commands.push(line);
+
+        const verb = line.split(' ')[0]!.toUpperCase();
+        if (verb === 'EHLO') {
+          socket.write('250-fake.test\r\n250 AUTH PLAIN LOGIN\r\n');
+        } else if (verb === 'STARTTLS') {
+          socket.write('454 4.7.0 TLS not available\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 2.7.0 accepted\r\n');
+        } else if (verb === 'RCPT' && options.rejectRecipient) {
+          socket.write('550 5.1.1 no such user\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    data,
+    close: () => new Promise<void>(resolve => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(() => resolve());
+    })
+  };
+}
+
+describe('SmtpMailTransport', () => {
+  let server: FakeSmtpServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('delivers the message and dot-stuffs lines starting with a period', async () => {
+    server = await startFakeSmtpServer();
+    const transport = new SmtpMailTransport({ host: '127.0.0.1', port: server.port, user: '', pass: '' });
+
+    await transport.send({ ...message, subject: 'Digest', text: 'first line\n.\n.hidden\nlast line' });
+
+    expect(server.commands).toContain('MAIL FROM:<noreply@foodkeeper.test>');
+    expect(server.commands).toContain('RCPT TO:<alice@example.com>');
+    expect(server.data).toHaveLength(1);
+    expect(server.data[0]).toContain('\r\n..\r\n..hidden\r\n');
+    expect(server.data[0]).not.toMatch(/\r\n\.(?!\.)/);
+  });
+
+  it('refuses to authenticate over a connection without TLS', async () => {
+    server = await startFakeSmtpServer();
+    const transport = new SmtpMailTransport({ host: '127.0.0.1', port: server.port, user: 'mailer', pass: 'secret' });
+
+    await expect(transport.send(message)).rejects.toThrow();
+
+    expect(server.commands).toContain('STARTTLS');
+    expect(server.commands.some(command => command.toUpperCase().startsWith('AUTH'))).toBe(false);
+    expect(server.data).toHaveLength(0);
+  });
+
+  it('raises permanent SMTP rejections as SmtpError', async () => {
+    server = await startFakeSmtpServer({ rejectRecipient: true });
+    const transport = new SmtpMailTransport({ host: '127.0.0.1', port: server.port, user: '', pass: '' });
+
+    const error = await transport.send(message).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.code).toBe(550);
+    expect(error.permanent).toBe(true);
+  });
+});
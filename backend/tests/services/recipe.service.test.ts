@@ -0,0 +1,136 @@
+import { RecipeService } from '../../src/services/recipe.service';
+import { AppError, RecipeWithIngredients } from '@shared/types';
+
+// In-memory stand-ins for the recipe and favorite tables
+const mockRecipes = new Map<number, RecipeWithIngredients>();
+const mockFavorites = new Set<string>();
+const mockInventory: string[] = [];
+
+jest.mock('../../src/repositories/recipe.repository', () => ({
+  RecipeRepository: jest.fn().mockImplementation(() => ({
+    findWithIngredients: jest.fn(async (id: number) => mockRecipes.get(id) ?? null),
+    findCandidatesByIngredients: jest.fn(async () => Array.from(mockRecipes.values())),
+    createWithIngredients: jest.fn(async (data: any, userId: number) => {
+      const recipe = { ...data, id: 100, source: 'user_created', created_by: userId };
+      mockRecipes.set(recipe.id, recipe);
+      return recipe;
+    }),
+    addFavorite: jest.fn(async (userId: number, recipeId: number) => {
+      mockFavorites.add(`${userId}:${recipeId}`);
+      return true;
+    }),
+    removeFavorite: jest.fn(async (userId: number, recipeId: number) => mockFavorites.delete(`${userId}:${recipeId}`)),
+    findFavoriteIds: jest.fn(async (userId: number) =>
+      Array.from(mockFavorites)
+        .filter(key => key.startsWith(`${userId}:`))
+        .map(key => Number(key.split(':')[1]))
+    )
+  }))
+}));
+
+jest.mock('../../src/repositories/food.repository', () => ({
+  FoodRepository: jest.fn().mockImplementation(() => ({
+    getFoodIngredients: jest.fn(async () => mockInventory),
+    getExpiringFoodNames: jest.fn(async () => [])
+  }))
+}));
+
+jest.mock('../../src/services/household.service', () => ({
+  HouseholdService: jest.fn().mockImplementation(() => ({
+    getScopeUserIds: jest.fn(async (userId: number) => [userId])
+  }))
+}));
+
+jest.mock('../../src/services/ingredient-matching.service', () => {
+  const { IngredientMatcher } = jest.requireActual('@shared/utils');
+  return {
+    IngredientMatchingService: jest.fn().mockImplementation(() => ({
+      getMatcher: jest.fn(async () => new IngredientMatcher())
+    }))
+  };
+});
+
+function buildRecipe(id: number, ingredients: string[]): RecipeWithIngredients {
+  return {
+    id,
+    name: `Recipe ${id}`,
+    instructions: ['Cook'],
+    prep_time: 10,
+    cook_time: 10,
+    servings: 2,
+    difficulty: 'easy',
+    source: 'user_created',
+    created_at: new Date(),
+    updated_at: new Date(),
+    ingredients: ingredients.map((name, index) => ({
+      id: id * 10 + index,
+      recipe_id: id,
+      ingredient_name: name,
+      quantity: 1,
+      unit: '個',
+      optional: false,
+      created_at: new Date(),
+      updated_at: new Date()
+    }))
+  };
+}
+
+describe('RecipeService favorites', () => {
+  const recipeService = new RecipeService();
+
+  beforeEach(() => {
+    mockRecipes.clear();
+    mockFavorites.clear();
+    mockInventory.splice(0, mockInventory.length, 'たまねぎ', 'にんじん');
+    mockRecipes.set(1, buildRecipe(1, ['たまねぎ', 'にんじん']));
+    mockRecipes.set(2, buildRecipe(2, ['たまねぎ']));
+  });
+
+  it('adds and removes favorites per user', async () => {
+    await recipeService.addToFavorites(1, 2);
+
+    expect(mockFavorites).toEqual(new Set(['1:2']));
+
+    await recipeService.removeFromFavorites(1, 2);
+    expect(mockFavorites.size).toBe(0);
+  });
+
+  it('refuses to favorite a recipe that does not exist', async () => {
+    const error = await recipeService.addToFavorites(1, 999).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.statusCode).toBe(404);
+    expect(mockFavorites.size).toBe(0);
+  });
+
+  it('reports removing a recipe that was not a favorite as not found', async () => {
+    await recipeService.addToFavorites(2, 1);
+
+    await expect(recipeService.removeFromFavorites(1, 1)).rejects.toMatchObject({ statusCode: 404 });
+    expect(mockFavorites).toEqual(new Set(['2:1']));
+  });
+
+  it('favorites recipes for their creator', async () => {
+    const recipe = await recipeService.createRecipe(1, {
+      name: '野菜炒め',
+      instructions: ['切る', '炒める'],
+      prep_time: 10,
+      cook_time: 5,
+      servings: 2,
+      difficulty: 'easy',
+      ingredients: [{ ingredient_name: 'にんじん', quantity: 1, unit: '本' }]
+    });
+
+    expect(mockFavorites).toEqual(new Set([`1:${recipe.id}`]));
+  });
+
+  it("marks only the requesting user's favorites in suggestions", async () => {
+    await recipeService.addToFavorites(1, 2);
+    await recipeService.addToFavorites(2, 1);
+
+    const { recipes } = await recipeService.getSuggestions(1);
+    const favorites = Object.fromEntries(recipes.map(recipe => [recipe.id, recipe.is_favorite]));
+
+    expect(favorites).toEqual({ 1: false, 2: true });
+  });
+});
@@ -0,0 +1,102 @@
+import { SessionService } from '../../src/services/session.service';
+
+// In-memory stand-in for the parts of RedisClient the session service uses
+const mockSessions = new Map<string, any>();
+const mockSets = new Map<string, Set<string>>();
+
+jest.mock('../../src/config/redis', () => ({
+  __esModule: true,
+  default: {
+    createSession: jest.fn(async (id: string, data: any) => {
+      mockSessions.set(id, JSON.parse(JSON.stringify(data)));
+    }),
+    getSession: jest.fn(async (id: string) => mockSessions.get(id) ?? null),
+    deleteSession: jest.fn(async (id: string) => mockSessions.delete(id)),
+    replaceSessionIf: jest.fn(async (id: string, field: string, expected: string, data: any) => {
+      const current = mockSessions.get(id);
+      if (!current) return 'missing';
+      if (current[field] !== expected) return 'mismatch';
+      mockSessions.set(id, JSON.parse(JSON.stringify(data)));
+      return 'replaced';
+    }),
+    sadd: jest.fn(async (key: string, member: string) => {
+      mockSets.set(key, (mockSets.get(key) ?? new Set()).add(member));
+    }),
+    srem: jest.fn(async (key: string, member: string) => {
+      mockSets.get(key)?.delete(member);
+    }),
+    smembers: jest.fn(async (key: string) => Array.from(mockSets.get(key) ?? [])),
+    expire: jest.fn(async () => true)
+  }
+}));
+
+describe('SessionService refresh token rotation', () => {
+  const sessionService = new SessionService();
+
+  beforeEach(() => {
+    mockSessions.clear();
+    mockSets.clear();
+  });
+
+  it('rotates the current token of a session to a new one', async () => {
+    const session = await sessionService.start(1);
+
+    const result = await sessionService.rotate(1, session.id, session.tokenId);
+
+    expect(result).toEqual({ status: 'rotated', tokenId: mockSessions.get(session.id).token_id });
+    expect(mockSessions.get(session.id).token_id).not.toBe(session.tokenId);
+  });
+
+  it('reports a token that was already rotated away as reused', async () => {
+    const session = await sessionService.start(1);
+    await sessionService.rotate(1, session.id, session.tokenId);
+
+    await expect(sessionService.rotate(1, session.id, session.tokenId)).resolves.toEqual({ status: 'reused' });
+  });
+
+  it('keeps the legitimate token usable after a replay was detected', async () => {
+    const session = await sessionService.start(1);
+    const rotated = await sessionService.rotate(1, session.id, session.tokenId);
+    if (rotated.status !== 'rotated') throw new Error('expected rotation');
+
+    await sessionService.rotate(1, session.id, session.tokenId);
+
+    // Revoking the family is the caller's decision; the service itself must not rotate on reuse
+    expect(mockSessions.get(session.id).token_id).toBe(rotated.tokenId);
+  });
+
+  it('lets only one of two racing refreshes with the same token win', async () => {
+    const session = await sessionService.start(1);
+
+    const results = await Promise.all([
+      sessionService.rotate(1, session.id, session.tokenId),
+      sessionService.rotate(1, session.id, session.tokenId)
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['reused', 'rotated']);
+  });
+
+  it('treats sessions of other users and revoked sessions as missing', async () => {
+    const session = await sessionService.start(1);
+
+    await expect(sessionService.rotate(2, session.id, session.tokenId)).resolves.toEqual({ status: 'missing' });
+
+    await sessionService.revoke(1, session.id);
+    await expect(sessionService.rotate(1, session.id, session.tokenId)).resolves.toEqual({ status: 'missing' });
+  });
+
+  it('revokes every other session of the user', async () => {
+    const current = await sessionService.start(1);
+    const other = await sessionService.start(1);
+    const foreign = await sessionService.start(2);
+
+    await expect(sessionService.revokeAll(1, current.id)).resolves.toBe(1);
+
+    expect(mockSessions.has(current.id)).toBe(true);
+    expect(mockSessions.has(other.id)).toBe(false);
+    expect(mockSessions.has(foreign.id)).toBe(true);
+    await expect(sessionService.list(1, current.id)).resolves.toEqual([
+      expect.objectContaining({ id: current.id, current: true })
+    ]);
+  });
+});
@@ -0,0 +1,5 @@
+// config/environment requires these; tests never reach a real database or Redis
+process.env.NODE_ENV = 'test';
+process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgresql://localhost:5432/foodkeeper_test';
+process.env.REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
@@ -0,0 +1,77 @@
+import { CryptoUtils } from '../../src/utils/crypto';
+
+// RFC 6238 appendix B (SHA-1): the shared secret is the ASCII string "12345678901234567890".
+// The RFC lists 8-digit codes; ours are 6 digits, i.e. the last six of each.
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_VECTORS: Array<[number, string]> = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130']
+];
+
+describe('CryptoUtils TOTP', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it.each(RFC_VECTORS)('matches the RFC 6238 vector at T=%d', (unixTime, expected) => {
+    expect(CryptoUtils.generateTOTP(RFC_SECRET, Math.floor(unixTime / 30))).toBe(expected);
+  });
+
+  it('uses the current 30 second step by default', () => {
+    jest.useFakeTimers({ now: 1111111109 * 1000 });
+
+    expect(CryptoUtils.currentTOTPStep()).toBe(37037036);
+    expect(CryptoUtils.generateTOTP(RFC_SECRET)).toBe('081804');
+  });
+
+  it('accepts codes one step either side of now and reports the matching step', () => {
+    jest.useFakeTimers({ now: 1111111111 * 1000 });
+    const current = CryptoUtils.currentTOTPStep();
+
+    expect(CryptoUtils.verifyTOTP(RFC_SECRET, CryptoUtils.generateTOTP(RFC_SECRET, current))).toBe(current);
+    expect(CryptoUtils.verifyTOTP(RFC_SECRET, CryptoUtils.generateTOTP(RFC_SECRET, current - 1))).toBe(current - 1);
+    expect(CryptoUtils.verifyTOTP(RFC_SECRET, CryptoUtils.generateTOTP(RFC_SECRET, current + 1))).toBe(current + 1);
+  });
+
+  it('rejects codes outside the drift window', () => {
+    jest.useFakeTimers({ now: 1111111111 * 1000 });
+    const current = CryptoUtils.currentTOTPStep();
+
+    expect(CryptoUtils.verifyTOTP(RFC_SECRET, CryptoUtils.generateTOTP(RFC_SECRET, current - 2))).toBeNull();
+    expect(CryptoUtils.verifyTOTP(RFC_SECRET, CryptoUtils.generateTOTP(RFC_SECRET, current + 2))).toBeNull();
+    expect(CryptoUtils.verifyTOTP(RFC_SECRET, '12345')).toBeNull();
+  });
+
+  it('decodes secrets regardless of case, padding and spacing', () => {
+    const spaced = 'gezd gnbv gy3t qojq gezd gnbv gy3t qojq====';
+
+    expect(CryptoUtils.generateTOTP(spaced, 1)).toBe('287082');
+    expect(() => CryptoUtils.generateTOTP('NOT-BASE32!', 1)).toThrow('Invalid base32 character');
+  });
+
+  it('generates 160-bit secrets that round-trip through the generator', () => {
+    const secret = CryptoUtils.generateTOTPSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(CryptoUtils.generateTOTP(secret, 1)).toMatch(/^\d{6}$/);
+  });
+
+  it('builds an otpauth URI authenticator apps understand', () => {
+    const uri = new URL(CryptoUtils.buildTOTPUri(RFC_SECRET, 'alice@example.com', 'FoodKeeper'));
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/FoodKeeper:alice@example.com');
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'FoodKeeper',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30'
+    });
+  });
+});
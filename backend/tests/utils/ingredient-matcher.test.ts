@@ -0,0 +1,79 @@
+import { IngredientMatcher, RecipeUtils } from '@shared/utils';
+
+const matcher = new IngredientMatcher([
+  { canonical_name: 'たまねぎ', synonym: '玉ねぎ' },
+  { canonical_name: 'たまねぎ', synonym: '玉葱' },
+  { canonical_name: 'じゃがいも', synonym: 'ばれいしょ' }
+]);
+
+describe('IngredientMatcher', () => {
+  it('folds width, katakana, case, spacing and bracketed notes', () => {
+    expect(IngredientMatcher.normalize('ＴＯＭＡＴＯ')).toBe('tomato');
+    expect(IngredientMatcher.normalize('ﾀﾏﾈｷﾞ')).toBe('たまねぎ');
+    expect(IngredientMatcher.normalize('タマネギ')).toBe('たまねぎ');
+    expect(IngredientMatcher.normalize('鶏もも肉（皮なし）')).toBe('鶏もも肉');
+    expect(IngredientMatcher.normalize('【特売】 豚 ・ バラ')).toBe('豚ばら');
+  });
+
+  it('treats every spelling in the synonym dictionary as the same ingredient', () => {
+    expect(matcher.compare('タマネギ', '玉ねぎ')).toBe(1);
+    expect(matcher.compare('玉葱', 'たまねぎ')).toBe(1);
+    expect(matcher.compare('馬鈴薯', 'じゃがいも')).toBe(0);
+    expect(matcher.compare('バレイショ', 'じゃがいも')).toBe(1);
+  });
+
+  it('gives partial credit when one name is a more specific form of the other', () => {
+    expect(matcher.compare('豚ひき肉', 'ひき肉')).toBe(IngredientMatcher.PARTIAL_MATCH_WEIGHT);
+    expect(matcher.compare('新玉ねぎ', 'たまねぎ')).toBe(IngredientMatcher.PARTIAL_MATCH_WEIGHT);
+  });
+
+  it('does not let short generic names match inside longer ones', () => {
+    expect(matcher.matches('油', 'ごま油')).toBe(false);
+    expect(matcher.matches('ごま油', '油')).toBe(false);
+    expect(matcher.matches('塩', '塩昆布')).toBe(false);
+  });
+
+  it('scores optional ingredients and partial matches for less', () => {
+    const result = matcher.matchIngredients(['玉ねぎ', '豚ひき肉'], [
+      { ingredient_name: 'たまねぎ' },
+      { ingredient_name: 'ひき肉' },
+      { ingredient_name: 'にんじん' },
+      { ingredient_name: 'パセリ', optional: true }
+    ]);
+
+    expect(result).toEqual({
+      matched: ['たまねぎ', 'ひき肉'],
+      missing: ['にんじん'],
+      optional_matched: [],
+      optional_missing: ['パセリ'],
+      percentage: 67,
+      // (1 + 0.75) of 3 core ingredients plus 0.25 for the optional one
+      score: 54
+    });
+  });
+
+  it('leaves the core percentage untouched by optional ingredients', () => {
+    const result = matcher.matchIngredients(['たまねぎ', 'パセリ'], [
+      { ingredient_name: '玉ねぎ' },
+      { ingredient_name: 'パセリ', optional: true }
+    ]);
+
+    expect(result.percentage).toBe(100);
+    expect(result.optional_matched).toEqual(['パセリ']);
+    expect(result.score).toBe(100);
+  });
+
+  it('expands names to every known spelling for text search', () => {
+    const expanded = matcher.expand(['タマネギ', 'にんじん']);
+
+    expect(expanded.sort()).toEqual(['たまねぎ', 'にんじん', 'タマネギ', '玉ねぎ', '玉葱'].sort());
+  });
+
+  it('backs RecipeUtils.matchIngredients without a dictionary', () => {
+    expect(RecipeUtils.matchIngredients(['タマネギ', 'サラダ油'], ['たまねぎ', '油', 'にんじん'])).toEqual({
+      matched: ['たまねぎ'],
+      missing: ['油', 'にんじん'],
+      percentage: 33
+    });
+  });
+});
@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  moduleNameMapper: {
+    '^@shared/(.*)$': '<rootDir>/../shared/$1'
+  },
+  transform: {
+    // tests/tsconfig.json inherits isolatedModules, so ts-jest only transpiles; tsc does the type checking
+    '^.+\\.tsx?$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }]
+  }
+};
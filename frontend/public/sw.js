@@ -0,0 +1,112 @@
+/* Service worker: shows Web Push notifications sent by the backend (see PushService),
+   keeps the app shell available offline and wakes open tabs to replay queued changes */
+
+const SHELL_CACHE = 'foodkeeper-shell-v1';
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icons/icon.svg'];
+const FOOD_SYNC_TAG = 'food-mutations';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  // API data is cached by the app itself in IndexedDB
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // Every route serves the same index.html, so the cached root answers any navigation offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put('/', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  // Built assets carry a content hash in their name, so a cached copy never goes stale
+  if (url.pathname.startsWith('/assets/') || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      }))
+    );
+  }
+});
+
+// The replay needs the access token, which only the page has, so just wake the open tabs
+self.addEventListener('sync', (event) => {
+  if (event.tag !== FOOD_SYNC_TAG) return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: 'sync' }));
+    })
+  );
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch (error) {
+    payload = { title: 'FoodKeeper', body: event.data.text() };
+  }
+
+  event.waitUntil(
+    Promise.all([
+      self.registration.showNotification(payload.title || 'FoodKeeper', {
+        body: payload.body,
+        tag: payload.tag,
+        data: { url: payload.url || '/' }
+      }),
+      // Open tabs refresh their notification list right away instead of waiting for the next poll
+      self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+        clients.forEach((client) => client.postMessage({ type: 'push', payload }));
+      })
+    ])
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const targetUrl = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => client.url.startsWith(self.location.origin));
+      if (existing) {
+        return existing.navigate(targetUrl).then((client) => (client || existing).focus());
+      }
+      return self.clients.openWindow(targetUrl);
+    })
+  );
+});
\ No newline at end of file
@@ -1,11 +1,19 @@
-import React, { useState } from 'react';
-import { BrowserRouter as Router, Routes, Route, NavLink } from 'react-router-dom';
+import React from 'react';
+import { BrowserRouter as Router, Routes, Route, Navigate, Outlet } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Toaster } from 'react-hot-toast';
 import Dashboard from './pages/Dashboard';
 import Inventory from './pages/Inventory';
 import Recipes from './pages/Recipes';
-import Login from './pages/Login';
+import Shopping from './pages/Shopping';
+import Settings from './pages/Settings';
+import { LoginPage } from './pages/LoginPage';
+import { AuthProvider } from './contexts/AuthContext';
+import { ThemeProvider } from './contexts/ThemeContext';
+import { NotificationProvider } from './contexts/NotificationContext';
+import { SyncProvider } from './contexts/SyncContext';
+import { PrivateRoute } from './components/common/PrivateRoute';
+import { Layout } from './components/layout/Layout';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -17,91 +25,38 @@ const queryClient = new QueryClient({
 });
 
 function App() {
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-
-  if (!isLoggedIn) {
-    return (
-      <QueryClientProvider client={queryClient}>
-        <Login onLogin={() => setIsLoggedIn(true)} />
-        <Toaster position="top-right" />
-      </QueryClientProvider>
-    );
-  }
-
   return (
     <QueryClientProvider client={queryClient}>
       <Router>
-        <div className="min-h-screen bg-gray-50">
-          {/* Navigation */}
-          <nav className="bg-white shadow">
-            <div className="max-w-7xl mx-auto px-4">
-              <div className="flex justify-between h-16">
-                <div className="flex">
-                  <div className="flex-shrink-0 flex items-center">
-                    <h1 className="text-xl font-bold text-green-600">
-                      🥬 FoodKeeper
-                    </h1>
-                  </div>
-                  <div className="ml-6 flex space-x-8">
-                    <NavLink
-                      to="/"
-                      className={({ isActive }) =>
-                        `inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
-                          isActive
-                            ? 'border-green-500 text-gray-900'
-                            : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
-                        }`
-                      }
-                    >
-                      ダッシュボード
-                    </NavLink>
-                    <NavLink
-                      to="/inventory"
-                      className={({ isActive }) =>
-                        `inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
-                          isActive
-                            ? 'border-green-500 text-gray-900'
-                            : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
-                        }`
-                      }
-                    >
-                      食材一覧
-                    </NavLink>
-                    <NavLink
-                      to="/recipes"
-                      className={({ isActive }) =>
-                        `inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
-                          isActive
-                            ? 'border-green-500 text-gray-900'
-                            : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
-                        }`
-                      }
-                    >
-                      レシピ提案
-                    </NavLink>
-                  </div>
-                </div>
-                <div className="flex items-center">
-                  <button
-                    onClick={() => setIsLoggedIn(false)}
-                    className="text-gray-500 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+        <AuthProvider>
+          {/* Inside AuthProvider so the theme saved on the account is loaded after sign-in */}
+          <ThemeProvider>
+            <NotificationProvider>
+              <SyncProvider>
+                <Routes>
+                  <Route path="/login" element={<LoginPage />} />
+                  <Route
+                    element={
+                      <PrivateRoute>
+                        <Layout>
+                          <Outlet />
+                        </Layout>
+                      </PrivateRoute>
+                    }
                   >
-                    ログアウト
-                  </button>
-                </div>
-              </div>
-            </div>
-          </nav>
-
-          {/* Main Content */}
-          <main className="max-w-7xl mx-auto py-6 px-4">
-            <Routes>
-              <Route path="/" element={<Dashboard />} />
-              <Route path="/inventory" element={<Inventory />} />
-              <Route path="/recipes" element={<Recipes />} />
-            </Routes>
-          </main>
-        </div>
+                    <Route path="/" element={<Navigate to="/dashboard" replace />} />
+                    <Route path="/dashboard" element={<Dashboard />} />
+                    <Route path="/inventory" element={<Inventory />} />
+                    <Route path="/recipes" element={<Recipes />} />
+                    <Route path="/shopping" element={<Shopping />} />
+                    <Route path="/settings" element={<Settings />} />
+                  </Route>
+                  <Route path="*" element={<Navigate to="/dashboard" replace />} />
+                </Routes>
+              </SyncProvider>
+            </NotificationProvider>
+          </ThemeProvider>
+        </AuthProvider>
       </Router>
 
       <Toaster position="top-right" />
@@ -0,0 +1,183 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { XMarkIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import { barcodeReader } from '../../services/scanner/barcodeReader';
+
+const SCAN_INTERVAL_MS = 250;
+// The camera sees the same code on many consecutive frames
+const REPEAT_COOLDOWN_MS = 2500;
+
+interface BarcodeScannerProps {
+  // Scanning several items in a row; the parent closes the scanner otherwise
+  continuous: boolean;
+  isLookingUp: boolean;
+  status: string | null;
+  onDetected: (barcode: string) => void;
+  onClose: () => void;
+}
+
+export function BarcodeScanner({ continuous, isLookingUp, status, onDetected, onClose }: BarcodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  const [cameraError, setCameraError] = useState<string | null>(
+    barcodeReader.canUseCamera() ? null : 'このブラウザではカメラでの読み取りに対応していません'
+  );
+  const [manualBarcode, setManualBarcode] = useState('');
+
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    if (!barcodeReader.canUseCamera()) return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | null = null;
+    let stopped = false;
+    let lastBarcode = '';
+    let lastSeenAt = 0;
+
+    const stop = () => {
+      stopped = true;
+      if (timer !== null) window.clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+      try {
+        const barcode = await barcodeReader.detect(video);
+        if (!barcode || stopped) return;
+
+        const now = Date.now();
+        if (barcode === lastBarcode && now - lastSeenAt < REPEAT_COOLDOWN_MS) {
+          lastSeenAt = now;
+          return;
+        }
+
+        lastBarcode = barcode;
+        lastSeenAt = now;
+        onDetectedRef.current(barcode);
+      } catch (error) {
+        console.error('Barcode detection failed:', error);
+      }
+    };
+
+    barcodeReader.openCamera()
+      .then(async mediaStream => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) {
+          stop();
+          return;
+        }
+
+        videoRef.current.srcObject = mediaStream;
+        await videoRef.current.play();
+        timer = window.setInterval(scanFrame, SCAN_INTERVAL_MS);
+      })
+      .catch(error => {
+        console.error('Camera unavailable:', error);
+        setCameraError(
+          error?.name === 'NotAllowedError'
+            ? 'カメラの使用が許可されていません。写真から読み取るか、番号を入力してください'
+            : 'カメラを起動できませんでした。写真から読み取るか、番号を入力してください'
+        );
+      });
+
+    return stop;
+  }, []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const barcode = await barcodeReader.detectInFile(file);
+      if (barcode) {
+        onDetected(barcode);
+      } else {
+        setCameraError('写真からバーコードを読み取れませんでした。番号を入力してください');
+      }
+    } catch (error) {
+      setCameraError('写真を読み込めませんでした');
+    }
+  };
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const barcode = manualBarcode.trim();
+    if (!barcodeReader.isValidBarcode(barcode)) {
+      setCameraError('8桁または12〜14桁の数字を入力してください');
+      return;
+    }
+
+    onDetected(barcode);
+    setManualBarcode('');
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mb-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-medium text-gray-900">
+          {continuous ? 'バーコードを続けて読み取り中' : 'バーコードを読み取る'}
+        </h3>
+        <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-600">
+          <XMarkIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {!cameraError && (
+        <div className="relative overflow-hidden rounded-md bg-black">
+          <video ref={videoRef} muted playsInline className="w-full max-h-72 object-cover" />
+          <div className="pointer-events-none absolute inset-x-8 top-1/2 h-0.5 -translate-y-1/2 bg-red-500/80" />
+        </div>
+      )}
+
+      {cameraError && <p className="text-sm text-orange-600">{cameraError}</p>}
+      {(isLookingUp || status) && (
+        <p className="text-sm text-gray-700">{isLookingUp ? '商品を検索中...' : status}</p>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        {barcodeReader.isSupported() && (
+          <>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center justify-center space-x-1 px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+            >
+              <PhotoIcon className="h-4 w-4" />
+              <span>写真から読み取る</span>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              onChange={handleFile}
+              className="hidden"
+            />
+          </>
+        )}
+        <form onSubmit={handleManualSubmit} className="flex flex-1">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={manualBarcode}
+            onChange={(e) => setManualBarcode(e.target.value)}
+            placeholder="バーコード番号を入力"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-l-md text-sm text-gray-900 focus:outline-none focus:ring-green-500 focus:border-green-500"
+          />
+          <button
+            type="submit"
+            disabled={isLookingUp}
+            className="px-3 py-2 text-sm bg-green-600 text-white rounded-r-md hover:bg-green-700 disabled:bg-green-400"
+          >
+            検索
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
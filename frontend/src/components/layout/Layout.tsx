@@ -2,6 +2,7 @@ import React, { ReactNode } from 'react';
 import { Header } from './Header';
 import { Sidebar } from './Sidebar';
 import { NotificationPanel } from '../notifications/NotificationPanel';
+import { OfflineBanner } from '../offline/OfflineBanner';
 
 interface LayoutProps {
   children: ReactNode;
@@ -35,6 +36,7 @@ export function Layout({ children }: LayoutProps) {
       <div className="lg:pl-64">
         <main className="py-6">
           <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+            <OfflineBanner />
             {children}
           </div>
         </main>
@@ -0,0 +1,166 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { XMarkIcon, TrashIcon, CheckIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { Notification } from '@shared/types';
+import { DateUtils } from '@shared/utils';
+import { useNotifications } from '../../contexts/NotificationContext';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+
+interface NotificationPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function NotificationPanel({ isOpen, onClose }: NotificationPanelProps) {
+  const navigate = useNavigate();
+  const {
+    notifications,
+    unreadCount,
+    isLoading,
+    isLive,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+    pushSupported,
+    pushEnabled,
+    enablePush,
+    disablePush
+  } = useNotifications();
+
+  const handleOpen = async (notification: Notification) => {
+    if (notification.status === 'unread') {
+      await markAsRead(notification.id).catch(() => undefined);
+    }
+
+    if (notification.action_url) {
+      navigate(notification.action_url);
+      onClose();
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    try {
+      await markAllAsRead();
+    } catch (error) {
+      toast.error('既読にできませんでした');
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await deleteNotification(id);
+    } catch (error) {
+      toast.error('通知の削除に失敗しました');
+    }
+  };
+
+  const handleTogglePush = async () => {
+    try {
+      if (pushEnabled) {
+        await disablePush();
+        toast.success('このブラウザのプッシュ通知を無効にしました');
+      } else {
+        await enablePush();
+        toast.success('プッシュ通知を有効にしました');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'プッシュ通知の設定に失敗しました');
+    }
+  };
+
+  return (
+    <div
+      className={`fixed inset-y-0 right-0 z-50 w-full max-w-sm transform bg-white shadow-xl transition-transform duration-300 ease-in-out dark:bg-gray-800 ${
+        isOpen ? 'translate-x-0' : 'translate-x-full'
+      }`}
+    >
+      <div className="flex h-full flex-col">
+        {/* Header */}
+        <div className="flex h-16 shrink-0 items-center justify-between border-b border-gray-200 px-4 dark:border-gray-700">
+          <div className="flex items-center space-x-2">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">通知</h2>
+            <span
+              className={`h-2 w-2 rounded-full ${isLive ? 'bg-green-500' : 'bg-gray-300'}`}
+              title={isLive ? 'リアルタイム更新中' : '定期更新中'}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllAsRead}
+                className="text-sm text-green-600 hover:text-green-700 dark:text-green-400"
+              >
+                すべて既読
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-600 dark:text-gray-400 dark:hover:text-gray-300"
+            >
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        {/* Notification list */}
+        <div className="flex-1 overflow-y-auto">
+          {isLoading && notifications.length === 0 ? (
+            <LoadingSpinner className="py-12" />
+          ) : notifications.length === 0 ? (
+            <p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">通知はありません</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {notifications.map(notification => (
+                <li
+                  key={notification.id}
+                  className={`flex items-start gap-3 p-4 ${
+                    notification.status === 'unread' ? 'bg-green-50 dark:bg-green-900/20' : ''
+                  }`}
+                >
+                  <button onClick={() => handleOpen(notification)} className="flex-1 text-left">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{notification.title}</p>
+                    <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">{notification.message}</p>
+                    <p className="mt-1 text-xs text-gray-400">
+                      {DateUtils.formatDate(notification.created_at, 'yyyy/MM/dd HH:mm')}
+                    </p>
+                  </button>
+                  <div className="flex flex-col space-y-1">
+                    {notification.status === 'unread' && (
+                      <button
+                        onClick={() => markAsRead(notification.id).catch(() => undefined)}
+                        className="text-gray-400 hover:text-green-600"
+                        title="既読にする"
+                      >
+                        <CheckIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(notification.id)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="削除"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Push toggle */}
+        {pushSupported && (
+          <div className="border-t border-gray-200 p-4 dark:border-gray-700">
+            <button
+              onClick={handleTogglePush}
+              className="w-full rounded-md bg-gray-100 px-3 py-2 text-sm text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+            >
+              {pushEnabled ? 'このブラウザのプッシュ通知を無効にする' : 'プッシュ通知を有効にする'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
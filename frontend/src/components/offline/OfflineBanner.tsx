@@ -0,0 +1,43 @@
+import React from 'react';
+import { SignalSlashIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { useSync } from '../../contexts/SyncContext';
+
+export function OfflineBanner() {
+  const { isOnline, isSyncing, pendingCount, syncNow } = useSync();
+
+  if (isOnline && pendingCount === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className={`mb-6 flex items-center justify-between rounded-md px-4 py-3 text-sm ${
+        isOnline
+          ? 'bg-blue-50 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200'
+          : 'bg-yellow-50 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200'
+      }`}
+    >
+      <div className="flex items-center space-x-2">
+        {isOnline ? (
+          <ArrowPathIcon className={`h-5 w-5 ${isSyncing ? 'animate-spin' : ''}`} />
+        ) : (
+          <SignalSlashIcon className="h-5 w-5" />
+        )}
+        <span>
+          {isOnline
+            ? `未同期の変更が${pendingCount}件あります`
+            : `オフラインです。保存済みの在庫を表示しています${pendingCount > 0 ? `（未同期 ${pendingCount}件）` : ''}`}
+        </span>
+      </div>
+      {isOnline && (
+        <button
+          onClick={() => syncNow()}
+          disabled={isSyncing}
+          className="font-medium hover:underline disabled:opacity-50"
+        >
+          {isSyncing ? '同期中...' : '今すぐ同期'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import React from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { FoodSyncConflict } from '../../services/offline/foodSync';
+import { useSync } from '../../contexts/SyncContext';
+
+const describeChange = (conflict: FoodSyncConflict): string => {
+  const { mutation } = conflict;
+  if (mutation.type === 'consume') {
+    return '使い切った記録';
+  }
+  if (mutation.type === 'update') {
+    const fields = [];
+    if (mutation.data.quantity !== undefined) fields.push(`数量 ${mutation.data.quantity}`);
+    if (mutation.data.expiry_date) fields.push(`賞味期限 ${mutation.data.expiry_date}`);
+    return fields.length > 0 ? `変更（${fields.join('、')}）` : '変更';
+  }
+  return '追加';
+};
+
+// Changes made offline that the server refused because the food changed or disappeared in the meantime
+export function SyncConflictList() {
+  const { conflicts, resolveConflict } = useSync();
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  const handleResolve = async (conflict: FoodSyncConflict, keep: 'server' | 'local') => {
+    try {
+      await resolveConflict(conflict, keep);
+    } catch (error) {
+      toast.error('競合を解決できませんでした');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg border border-orange-200">
+      <div className="px-6 py-4 border-b border-orange-200 flex items-center space-x-2">
+        <ExclamationTriangleIcon className="h-5 w-5 text-orange-500" />
+        <h2 className="text-lg font-medium text-gray-900">同期できなかった変更</h2>
+      </div>
+      <ul className="divide-y divide-gray-200">
+        {conflicts.map(conflict => (
+          <li key={conflict.id} className="px-6 py-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div className="text-sm">
+              <p className="font-medium text-gray-900">
+                {conflict.server_food?.name ?? '削除された食材'}の{describeChange(conflict)}
+              </p>
+              <p className="text-gray-600">
+                {conflict.server_food
+                  ? `オフライン中に他の端末で更新されました（現在の数量: ${conflict.server_food.quantity} ${conflict.server_food.unit}）`
+                  : 'オフライン中に他の端末で削除されました'}
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => handleResolve(conflict, 'server')}
+                className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+              >
+                {conflict.server_food ? 'サーバーの内容を使う' : '破棄する'}
+              </button>
+              {conflict.server_food && (
+                <button
+                  onClick={() => handleResolve(conflict, 'local')}
+                  className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+                >
+                  自分の変更で上書き
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
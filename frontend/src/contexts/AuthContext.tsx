@@ -1,16 +1,22 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User, AuthResponse } from '@shared/types';
+import { useQueryClient } from '@tanstack/react-query';
+import { User, AuthResponse, TwoFactorChallenge } from '@shared/types';
 import { authApi } from '../services/api/auth.api';
+import { refreshAccessToken } from '../services/api/base.api';
 import { tokenManager } from '../services/auth/tokenManager';
+import { foodSync } from '../services/offline/foodSync';
 import toast from 'react-hot-toast';
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves with a challenge when the account needs a second factor
+  login: (email: string, password: string) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
   register: (username: string, email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
+  clearSession: () => void;
   refreshToken: () => Promise<void>;
 }
 
@@ -31,17 +37,19 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const queryClient = useQueryClient();
 
   const isAuthenticated = !!user;
 
   // Initialize auth state on mount
   useEffect(() => {
     const initializeAuth = async () => {
-      const token = tokenManager.getAccessToken();
-      if (token && !tokenManager.isTokenExpired(token)) {
+      // An expired access token is fine as long as the refresh token still works;
+      // BaseApi refreshes it on the first 401
+      if (tokenManager.getRefreshToken()) {
         try {
-          const userData = await authApi.getCurrentUser();
-          setUser(userData);
+          const response = await authApi.getCurrentUser();
+          setUser(response.data!.user);
         } catch (error) {
           console.error('Failed to get current user:', error);
           tokenManager.clearTokens();
@@ -68,15 +76,24 @@ export function AuthProvider({ children }: AuthProviderProps) {
     return () => clearInterval(interval);
   }, [isAuthenticated]);
 
-  const login = async (email: string, password: string): Promise<void> => {
+  const startSession = (auth: AuthResponse) => {
+    tokenManager.setTokens(auth.tokens.access_token, auth.tokens.refresh_token);
+    setUser(auth.user);
+  };
+
+  const login = async (email: string, password: string): Promise<TwoFactorChallenge | null> => {
     try {
       setIsLoading(true);
-      const response: AuthResponse = await authApi.login({ email, password });
+      const response = await authApi.login({ email, password });
+      const result = response.data!;
 
-      tokenManager.setTokens(response.access_token, response.refresh_token);
-      setUser(response.user);
+      if ('two_factor_required' in result) {
+        return result;
+      }
 
+      startSession(result);
       toast.success('ログインしました');
+      return null;
     } catch (error: any) {
       const message = error.response?.data?.error || 'ログインに失敗しました';
       toast.error(message);
@@ -86,18 +103,37 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  const verifyTwoFactor = async (challengeToken: string, code: string): Promise<void> => {
+    try {
+      setIsLoading(true);
+      // Authenticator codes are digits only; anything else is treated as a recovery code
+      const response = await authApi.verifyTwoFactorLogin(
+        /^\d{6}$/.test(code)
+          ? { challenge_token: challengeToken, code }
+          : { challenge_token: challengeToken, recovery_code: code }
+      );
+
+      startSession(response.data!);
+      toast.success('ログインしました');
+    } catch (error: any) {
+      const message = error.response?.data?.error || '認証コードが正しくありません';
+      toast.error(message);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const register = async (username: string, email: string, password: string): Promise<void> => {
     try {
       setIsLoading(true);
-      const response: AuthResponse = await authApi.register({
+      const response = await authApi.register({
         username,
         email,
         password
       });
 
-      tokenManager.setTokens(response.access_token, response.refresh_token);
-      setUser(response.user);
-
+      startSession(response.data!);
       toast.success('アカウントを作成しました');
     } catch (error: any) {
       const message = error.response?.data?.error || 'アカウント作成に失敗しました';
@@ -108,14 +144,22 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  // Forgets the session locally, for when the server has already ended it
+  const clearSession = () => {
+    tokenManager.clearTokens();
+    setUser(null);
+    // Cached queries belong to the user who just left; their queued offline changes are kept
+    queryClient.clear();
+    foodSync.clearCache().catch(error => console.error('Failed to clear offline cache:', error));
+  };
+
   const logout = async (): Promise<void> => {
     try {
-      await authApi.logout();
+      await authApi.logout(tokenManager.getRefreshToken());
     } catch (error) {
       console.error('Logout API call failed:', error);
     } finally {
-      tokenManager.clearTokens();
-      setUser(null);
+      clearSession();
       toast.success('ログアウトしました');
     }
   };
@@ -127,20 +171,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
         throw new Error('No refresh token available');
       }
 
-      const response: AuthResponse = await authApi.refreshToken({
-        refresh_token: refreshToken
-      });
-
-      tokenManager.setTokens(response.access_token, response.refresh_token);
-
-      // Update user data if provided
-      if (response.user) {
-        setUser(response.user);
-      }
+      // Shares the in-flight request with BaseApi's interceptor; refresh tokens are single-use
+      await refreshAccessToken(refreshToken);
     } catch (error) {
       console.error('Token refresh failed:', error);
-      tokenManager.clearTokens();
-      setUser(null);
+      clearSession();
       toast.error('セッションが期限切れです。再度ログインしてください。');
     }
   };
@@ -150,8 +185,10 @@ export function AuthProvider({ children }: AuthProviderProps) {
     isLoading,
     isAuthenticated,
     login,
+    verifyTwoFactor,
     register,
     logout,
+    clearSession,
     refreshToken
   };
 
@@ -1,16 +1,23 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Notification } from '@shared/types';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { Notification, NotificationStreamEvent } from '@shared/types';
 import { notificationApi } from '../services/api/notification.api';
+import { pushManager } from '../services/push/pushManager';
+import { notificationStream } from '../services/stream/notificationStream';
 import { useAuth } from './AuthContext';
 
 interface NotificationContextType {
   notifications: Notification[];
   unreadCount: number;
   isLoading: boolean;
+  isLive: boolean;
   markAsRead: (id: number) => Promise<void>;
   markAllAsRead: () => Promise<void>;
   deleteNotification: (id: number) => Promise<void>;
   refetchNotifications: () => Promise<void>;
+  pushSupported: boolean;
+  pushEnabled: boolean;
+  enablePush: () => Promise<void>;
+  disablePush: () => Promise<void>;
 }
 
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
@@ -31,16 +38,23 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
   const { isAuthenticated } = useAuth();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [isLive, setIsLive] = useState(false);
+  // Authoritative count from the stream; null until the first stream event arrives
+  const [streamUnreadCount, setStreamUnreadCount] = useState<number | null>(null);
+  const streamUnreadCountRef = useRef<number | null>(null);
+  const hasStreamedRef = useRef(false);
+  const pushSupported = pushManager.isSupported();
 
-  const unreadCount = notifications.filter(n => !n.is_read).length;
+  const unreadCount = streamUnreadCount ?? notifications.filter(n => n.status === 'unread').length;
 
   const fetchNotifications = async () => {
     if (!isAuthenticated) return;
 
     try {
       setIsLoading(true);
-      const data = await notificationApi.getAll();
-      setNotifications(data.notifications || []);
+      const response = await notificationApi.getAll();
+      setNotifications(response.data?.items || []);
     } catch (error) {
       console.error('Failed to fetch notifications:', error);
     } finally {
@@ -54,7 +68,7 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
       setNotifications(prev =>
         prev.map(notification =>
           notification.id === id
-            ? { ...notification, is_read: true }
+            ? { ...notification, status: 'read' }
             : notification
         )
       );
@@ -70,7 +84,7 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
       setNotifications(prev =>
         prev.map(notification => ({
           ...notification,
-          is_read: true
+          status: 'read'
         }))
       );
     } catch (error) {
@@ -81,7 +95,7 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
 
   const deleteNotification = async (id: number): Promise<void> => {
     try {
-      await notificationApi.delete(id);
+      await notificationApi.deleteNotification(id);
       setNotifications(prev =>
         prev.filter(notification => notification.id !== id)
       );
@@ -95,6 +109,48 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
     await fetchNotifications();
   };
 
+  const enablePush = async (): Promise<void> => {
+    await pushManager.subscribe();
+    // The server only pushes to users who opted in
+    await notificationApi.updatePreferences({ enable_push_notifications: true });
+    setPushEnabled(true);
+  };
+
+  // Only unsubscribes this browser; other devices keep receiving pushes
+  const disablePush = async (): Promise<void> => {
+    await pushManager.unsubscribe();
+    setPushEnabled(false);
+  };
+
+  const handleStreamEvent = (event: NotificationStreamEvent) => {
+    const previousCount = streamUnreadCountRef.current;
+    streamUnreadCountRef.current = event.unread_count;
+    setStreamUnreadCount(event.unread_count);
+
+    if (event.type === 'notification') {
+      setNotifications(prev =>
+        prev.some(notification => notification.id === event.notification.id)
+          ? prev
+          : [event.notification, ...prev]
+      );
+    } else if (previousCount !== null && event.unread_count > previousCount) {
+      // Bulk alerts only announce the new count; load the notifications themselves
+      fetchNotifications();
+    }
+  };
+
+  const handleStreamConnectionChange = (connected: boolean) => {
+    setIsLive(connected);
+
+    if (connected) {
+      // Anything created while we were disconnected never reached the stream
+      if (hasStreamedRef.current) {
+        fetchNotifications();
+      }
+      hasStreamedRef.current = true;
+    }
+  };
+
   // Fetch notifications when authenticated
   useEffect(() => {
     if (isAuthenticated) {
@@ -104,25 +160,71 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
     }
   }, [isAuthenticated]);
 
-  // Poll for new notifications every 5 minutes
+  // Live updates over Server-Sent Events; reconnects on its own with backoff
   useEffect(() => {
     if (!isAuthenticated) return;
 
+    notificationStream.connect({
+      onEvent: handleStreamEvent,
+      onConnectionChange: handleStreamConnectionChange,
+    });
+
+    return () => {
+      notificationStream.disconnect();
+      setIsLive(false);
+      setStreamUnreadCount(null);
+      streamUnreadCountRef.current = null;
+      hasStreamedRef.current = false;
+    };
+  }, [isAuthenticated]);
+
+  // Reflect whether this browser already has a push subscription
+  useEffect(() => {
+    if (!isAuthenticated || !pushSupported) return;
+
+    pushManager.getSubscription()
+      .then(subscription => setPushEnabled(!!subscription))
+      .catch(() => setPushEnabled(false));
+  }, [isAuthenticated]);
+
+  // The service worker forwards pushes to open tabs
+  useEffect(() => {
+    if (!isAuthenticated || !pushSupported) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'push') {
+        fetchNotifications();
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [isAuthenticated]);
+
+  // Fall back to polling every minute while the stream is down
+  useEffect(() => {
+    if (!isAuthenticated || isLive) return;
+
     const interval = setInterval(() => {
       fetchNotifications();
-    }, 5 * 60 * 1000); // 5 minutes
+    }, 60 * 1000); // 1 minute
 
     return () => clearInterval(interval);
-  }, [isAuthenticated]);
+  }, [isAuthenticated, isLive]);
 
   const value: NotificationContextType = {
     notifications,
     unreadCount,
     isLoading,
+    isLive,
     markAsRead,
     markAllAsRead,
     deleteNotification,
-    refetchNotifications
+    refetchNotifications,
+    pushSupported,
+    pushEnabled,
+    enablePush,
+    disablePush
   };
 
   return (
@@ -0,0 +1,153 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { foodSync, FoodSyncConflict } from '../services/offline/foodSync';
+import { FOODS_QUERY_KEY } from '../hooks/useFoods';
+import { useAuth } from './AuthContext';
+
+interface SyncContextType {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  // Foods with changes that haven't reached the server yet
+  pendingFoodIds: number[];
+  conflicts: FoodSyncConflict[];
+  syncNow: () => Promise<void>;
+  resolveConflict: (conflict: FoodSyncConflict, keep: 'server' | 'local') => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+}
+
+interface SyncProviderProps {
+  children: ReactNode;
+}
+
+export function SyncProvider({ children }: SyncProviderProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingFoodIds, setPendingFoodIds] = useState<number[]>([]);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [conflicts, setConflicts] = useState<FoodSyncConflict[]>([]);
+
+  const loadQueueState = async () => {
+    if (!user || !foodSync.isSupported()) {
+      setPendingCount(0);
+      setPendingFoodIds([]);
+      setConflicts([]);
+      return;
+    }
+
+    try {
+      const [pending, storedConflicts] = await Promise.all([
+        foodSync.getPending(user.id),
+        foodSync.getConflicts(user.id)
+      ]);
+      setPendingCount(pending.length);
+      setPendingFoodIds(Array.from(new Set(pending.map(mutation => mutation.food_id))));
+      setConflicts(storedConflicts);
+    } catch (error) {
+      console.error('Failed to read offline queue:', error);
+    }
+  };
+
+  const syncNow = async (): Promise<void> => {
+    if (!user || !foodSync.isSupported() || foodSync.isOffline()) return;
+
+    try {
+      setIsSyncing(true);
+      const result = await foodSync.replay(user.id);
+
+      if (result.synced + result.conflicts + result.failed > 0) {
+        queryClient.invalidateQueries({ queryKey: FOODS_QUERY_KEY });
+      }
+      if (result.synced > 0) {
+        toast.success(`オフライン中の変更を${result.synced}件同期しました`);
+      }
+      if (result.conflicts > 0) {
+        toast.error(`${result.conflicts}件の変更が他の端末での更新と競合しました`);
+      }
+      if (result.failed > 0) {
+        toast.error(`${result.failed}件の変更を保存できませんでした`);
+      }
+    } catch (error) {
+      console.error('Offline sync failed:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const resolveConflict = async (conflict: FoodSyncConflict, keep: 'server' | 'local'): Promise<void> => {
+    await foodSync.resolveConflict(conflict, keep);
+    if (keep === 'local') {
+      await syncNow();
+    } else {
+      queryClient.invalidateQueries({ queryKey: FOODS_QUERY_KEY });
+    }
+  };
+
+  // Keep the counts in step with the queue
+  useEffect(() => {
+    loadQueueState();
+    return foodSync.subscribe(loadQueueState);
+  }, [user?.id]);
+
+  // Replay whatever was queued as soon as we are signed in and online
+  useEffect(() => {
+    if (!user) return;
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    syncNow();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [user?.id]);
+
+  // The service worker's background sync only wakes us up; the replay needs the tokens held here
+  useEffect(() => {
+    if (!user || !('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'sync') {
+        syncNow();
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [user?.id]);
+
+  const value: SyncContextType = {
+    isOnline,
+    isSyncing,
+    pendingCount,
+    pendingFoodIds,
+    conflicts,
+    syncNow,
+    resolveConflict
+  };
+
+  return (
+    <SyncContext.Provider value={value}>
+      {children}
+    </SyncContext.Provider>
+  );
+}
\ No newline at end of file
@@ -1,6 +1,18 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { ThemePreference } from '@shared/types';
+import { notificationApi } from '../services/api/notification.api';
+import { useAuth } from './AuthContext';
 
-type Theme = 'light' | 'dark' | 'system';
+export type Theme = 'light' | 'dark' | 'system';
+
+// The server calls the follow-the-OS setting 'auto'
+function toServerTheme(theme: Theme): ThemePreference {
+  return theme === 'system' ? 'auto' : theme;
+}
+
+function fromServerTheme(theme: ThemePreference): Theme {
+  return theme === 'auto' ? 'system' : theme;
+}
 
 interface ThemeContextType {
   theme: Theme;
@@ -24,6 +36,7 @@ interface ThemeProviderProps {
 }
 
 export function ThemeProvider({ children }: ThemeProviderProps) {
+  const { isAuthenticated } = useAuth();
   const [theme, setThemeState] = useState<Theme>(() => {
     const savedTheme = localStorage.getItem('theme') as Theme;
     return savedTheme || 'system';
@@ -31,6 +44,30 @@ export function ThemeProvider({ children }: ThemeProviderProps) {
 
   const [actualTheme, setActualTheme] = useState<'light' | 'dark'>('light');
 
+  // The saved preference wins over whatever this browser last used
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let cancelled = false;
+    notificationApi
+      .getPreferences()
+      .then((response) => {
+        const preferences = response.data?.preferences;
+        if (cancelled || !preferences) return;
+
+        const serverTheme = fromServerTheme(preferences.theme);
+        setThemeState(serverTheme);
+        localStorage.setItem('theme', serverTheme);
+      })
+      .catch((error) => {
+        console.error('Failed to load theme preference:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated]);
+
   // Update actual theme based on theme setting
   useEffect(() => {
     const updateActualTheme = () => {
@@ -67,6 +104,12 @@ export function ThemeProvider({ children }: ThemeProviderProps) {
   const setTheme = (newTheme: Theme) => {
     setThemeState(newTheme);
     localStorage.setItem('theme', newTheme);
+
+    if (isAuthenticated) {
+      notificationApi.updatePreferences({ theme: toServerTheme(newTheme) }).catch((error) => {
+        console.error('Failed to save theme preference:', error);
+      });
+    }
   };
 
   const toggleTheme = () => {
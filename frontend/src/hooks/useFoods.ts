@@ -0,0 +1,151 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AnalyticsGranularity, Food, FoodCreateData, FoodUpdateData, PaginatedResponse } from '@shared/types';
+import { foodApi, FoodFilters } from '../services/api/food.api';
+import { foodSync, isNetworkError } from '../services/offline/foodSync';
+import { useAuth } from '../contexts/AuthContext';
+
+// Everything food related lives under this key so one invalidation refreshes every view
+export const FOODS_QUERY_KEY = ['foods'];
+
+// Lists are mirrored to IndexedDB and served from there, with queued offline changes applied,
+// when the server can't be reached
+async function fetchFoods(userId: number, filters: FoodFilters): Promise<PaginatedResponse<Food>> {
+  if (!foodSync.isSupported()) {
+    return foodApi.getAll(filters);
+  }
+
+  if (!foodSync.isOffline()) {
+    try {
+      await foodSync.cacheFoods(userId, filters, await foodApi.getAll(filters));
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  return foodSync.getCachedFoods(userId, filters);
+}
+
+// Writes go to the offline queue when there is no connection, or when the food itself
+// only exists in the queue so far
+async function sendOrQueue<T>(send: () => Promise<T>, queue: () => Promise<T>, queueOnly = false): Promise<T> {
+  if (!foodSync.isSupported()) {
+    return send();
+  }
+
+  if (queueOnly || foodSync.isOffline()) {
+    return queue();
+  }
+
+  try {
+    return await send();
+  } catch (error) {
+    if (isNetworkError(error)) {
+      return queue();
+    }
+    throw error;
+  }
+}
+
+export function useFoods(filters: FoodFilters = { status: 'active' }) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: [...FOODS_QUERY_KEY, 'list', filters],
+    queryFn: () => fetchFoods(user!.id, filters),
+    // Offline reads are answered from IndexedDB, so react-query must not pause them
+    networkMode: 'always',
+  });
+}
+
+export function useExpiringFoods(days?: number) {
+  return useQuery({
+    queryKey: [...FOODS_QUERY_KEY, 'expiring', days],
+    queryFn: () => foodApi.getExpiring(days),
+  });
+}
+
+export function useFoodStats() {
+  return useQuery({
+    queryKey: [...FOODS_QUERY_KEY, 'stats'],
+    queryFn: () => foodApi.getStats(),
+  });
+}
+
+export function useFoodAnalytics(granularity: AnalyticsGranularity = 'month') {
+  return useQuery({
+    queryKey: [...FOODS_QUERY_KEY, 'analytics', granularity],
+    queryFn: () => foodApi.getAnalytics({ granularity }),
+  });
+}
+
+// Distinct names of the foods on hand, as used for recipe matching
+export function useFoodIngredients() {
+  return useQuery({
+    queryKey: [...FOODS_QUERY_KEY, 'ingredients'],
+    queryFn: () => foodApi.getIngredients(),
+  });
+}
+
+export function useCreateFood() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (data: FoodCreateData) => sendOrQueue(
+      () => foodApi.create(data),
+      () => foodSync.queueCreate(user!.id, data)
+    ),
+    networkMode: 'always',
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: FOODS_QUERY_KEY }),
+  });
+}
+
+export function useUpdateFood() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: ({ food, data }: { food: Food; data: FoodUpdateData }) => sendOrQueue(
+      () => foodApi.update(food.id, data),
+      () => foodSync.queueUpdate(user!.id, food, data),
+      food.id < 0
+    ),
+    networkMode: 'always',
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: FOODS_QUERY_KEY }),
+  });
+}
+
+export function useConsumeFood() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (food: Food) => sendOrQueue(
+      () => foodApi.markAsConsumed(food.id).then(() => undefined),
+      () => foodSync.queueConsume(user!.id, food),
+      food.id < 0
+    ),
+    networkMode: 'always',
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: FOODS_QUERY_KEY }),
+  });
+}
+
+// Lookups only; nothing is saved until the scanned food is added
+export function useScanBarcode() {
+  return useMutation({
+    mutationFn: (barcode: string) => foodApi.scan(barcode),
+  });
+}
+
+export function useDeleteFoods() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (ids: number[]) => Promise.all(
+      ids.map(id => id < 0 ? foodSync.discardDraft(user!.id, id) : foodApi.deleteFood(id))
+    ),
+    // Some deletions may have gone through even when one failed
+    onSettled: () => queryClient.invalidateQueries({ queryKey: FOODS_QUERY_KEY }),
+  });
+}
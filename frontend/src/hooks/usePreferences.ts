@@ -0,0 +1,22 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { UserPreferencesUpdateData } from '@shared/types';
+import { notificationApi } from '../services/api/notification.api';
+
+export const PREFERENCES_QUERY_KEY = ['preferences'];
+
+export function usePreferences() {
+  return useQuery({
+    queryKey: PREFERENCES_QUERY_KEY,
+    queryFn: async () => (await notificationApi.getPreferences()).data!.preferences,
+  });
+}
+
+export function useUpdatePreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (changes: UserPreferencesUpdateData) =>
+      (await notificationApi.updatePreferences(changes)).data!.preferences,
+    onSuccess: (preferences) => queryClient.setQueryData(PREFERENCES_QUERY_KEY, preferences),
+  });
+}
@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { recipeApi, RecipeSuggestionFilters } from '../services/api/recipe.api';
+
+export const RECIPES_QUERY_KEY = ['recipes'];
+
+// Pass null to hold off until the user asks for suggestions
+export function useRecipeSuggestions(filters: RecipeSuggestionFilters | null) {
+  return useQuery({
+    queryKey: [...RECIPES_QUERY_KEY, 'suggestions', filters],
+    queryFn: () => recipeApi.getSuggestions(filters!),
+    enabled: filters !== null,
+  });
+}
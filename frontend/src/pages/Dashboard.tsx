@@ -1,23 +1,14 @@
 import React from 'react';
-import { useQuery } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
+import { useExpiringFoods, useFoodAnalytics, useFoodStats } from '../hooks/useFoods';
 
 const Dashboard = () => {
   const navigate = useNavigate();
 
-  const { data: foods, isLoading } = useQuery({
-    queryKey: ['foods'],
-    queryFn: async () => {
-      const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}/foods`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-        },
-      });
-      if (!response.ok) throw new Error('Failed to fetch foods');
-      return response.json();
-    },
-  });
+  const { data: stats, isLoading } = useFoodStats();
+  const { data: expiringSoon = [] } = useExpiringFoods(3);
+  const { data: analytics } = useFoodAnalytics('month');
 
   if (isLoading) {
     return (
@@ -27,15 +18,6 @@ const Dashboard = () => {
     );
   }
 
-  const foodData = foods?.data || [];
-  const expiringSoon = foodData.filter((food: any) => {
-    const expiryDate = new Date(food.expiry_date);
-    const today = new Date();
-    const diffTime = expiryDate.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return diffDays <= 3 && diffDays >= 0;
-  });
-
   const handleAddFood = () => {
     navigate('/inventory');
     toast.success('食材一覧ページに移動しました！');
@@ -58,7 +40,7 @@ const Dashboard = () => {
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-lg font-medium text-gray-900">総食材数</h3>
           <p className="text-3xl font-bold text-green-600 mt-2">
-            {foodData.length}
+            {stats?.active ?? 0}
           </p>
         </div>
 
@@ -71,7 +53,18 @@ const Dashboard = () => {
 
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-lg font-medium text-gray-900">廃棄削減率</h3>
-          <p className="text-3xl font-bold text-blue-600 mt-2">85%</p>
+          <p className="text-3xl font-bold text-blue-600 mt-2">
+            {analytics?.summary.waste_reduction_rate != null
+              ? `${analytics.summary.waste_reduction_rate}%`
+              : '--'}
+          </p>
+          {analytics?.summary.waste_rate != null && (
+            <p className="text-sm text-gray-500 mt-1">
+              廃棄率 {analytics.summary.waste_rate}%
+              {analytics.summary.money_wasted > 0 &&
+                ` ・ 損失 ¥${analytics.summary.money_wasted.toLocaleString()}`}
+            </p>
+          )}
         </div>
       </div>
 
@@ -85,7 +78,7 @@ const Dashboard = () => {
           </div>
           <div className="p-6">
             <div className="space-y-3">
-              {expiringSoon.map((food: any) => {
+              {expiringSoon.map(food => {
                 const expiryDate = new Date(food.expiry_date);
                 const today = new Date();
                 const diffTime = expiryDate.getTime() - today.getTime();
@@ -1,108 +1,224 @@
 import React, { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
 import toast from 'react-hot-toast';
+import { ExpirySuggestionBasis, Food, FoodCreateData, FoodUnit, StorageLocation } from '@shared/types';
+import { DateUtils } from '@shared/utils';
+import {
+  useConsumeFood,
+  useCreateFood,
+  useDeleteFoods,
+  useFoods,
+  useScanBarcode,
+  useUpdateFood
+} from '../hooks/useFoods';
+import { categoryApi } from '../services/api/category.api';
+import { useSync } from '../contexts/SyncContext';
+import { SyncConflictList } from '../components/offline/SyncConflictList';
+import { BarcodeScanner } from '../components/inventory/BarcodeScanner';
+
+const FOODS_PER_PAGE = 30;
+
+const EXPIRY_BASIS_LABELS: Record<ExpirySuggestionBasis, string> = {
+  history: '前回の購入から推定',
+  storage_tip: '保存のコツから推定',
+  category_default: 'カテゴリの目安から推定'
+};
+
+interface ScannedItem {
+  barcode: string;
+  food: FoodCreateData;
+}
+
+const emptyFood = (): FoodCreateData => ({
+  name: '',
+  quantity: 1,
+  unit: '個',
+  purchase_date: DateUtils.getCurrentDate(),
+  expiry_date: '',
+  storage_location: '冷蔵庫',
+  category_id: 1
+});
 
 const Inventory = () => {
   const [showAddForm, setShowAddForm] = useState(false);
   const [selectedFoods, setSelectedFoods] = useState<number[]>([]);
   const [selectAll, setSelectAll] = useState(false);
-  const queryClient = useQueryClient();
-
-  const { data: foods, isLoading } = useQuery({
-    queryKey: ['foods'],
-    queryFn: async () => {
-      const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}/foods`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-        },
-      });
-      if (!response.ok) throw new Error('Failed to fetch foods');
-      return response.json();
-    },
-  });
+  const [page, setPage] = useState(1);
+  const [newFood, setNewFood] = useState<FoodCreateData>(emptyFood);
+  const [editingFoodId, setEditingFoodId] = useState<number | null>(null);
+  const [editQuantity, setEditQuantity] = useState(0);
+  const [editExpiryDate, setEditExpiryDate] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [multiScan, setMultiScan] = useState(false);
+  const [scannedItems, setScannedItems] = useState<ScannedItem[]>([]);
+  const [scanStatus, setScanStatus] = useState<string | null>(null);
+  const [expiryHint, setExpiryHint] = useState<string | null>(null);
+  const [isAddingScanned, setIsAddingScanned] = useState(false);
+  const { isOnline, pendingFoodIds } = useSync();
 
-  const addFoodMutation = useMutation({
-    mutationFn: async (foodData: any) => {
-      const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}/foods`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-        },
-        body: JSON.stringify(foodData),
-      });
-      if (!response.ok) throw new Error('Failed to add food');
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['foods'] });
-      queryClient.refetchQueries({ queryKey: ['foods'] });
-      setShowAddForm(false);
-      setNewFood({
-        name: '',
-        quantity: 1,
-        unit: '個',
-        purchase_date: new Date().toISOString().split('T')[0],
-        expiry_date: '',
-        storage_location: '冷蔵庫',
-        category_id: 1
-      });
-      toast.success('食材を追加しました！');
-    },
-    onError: () => {
-      toast.error('食材の追加に失敗しました');
-    },
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn: () => categoryApi.getAll(),
   });
 
-  const deleteFoodsMutation = useMutation({
-    mutationFn: async (foodIds: number[]) => {
-      const promises = foodIds.map(id =>
-        fetch(`${import.meta.env.VITE_API_BASE_URL}/foods/${id}`, {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('token')}`,
-          },
-        })
-      );
-      const responses = await Promise.all(promises);
-      const failedRequests = responses.filter(response => !response.ok);
-      if (failedRequests.length > 0) {
-        throw new Error(`Failed to delete ${failedRequests.length} items`);
-      }
-    },
-    onSuccess: (_, deletedIds) => {
-      queryClient.invalidateQueries({ queryKey: ['foods'] });
-      queryClient.refetchQueries({ queryKey: ['foods'] });
-      setSelectedFoods([]);
-      setSelectAll(false);
-      toast.success(`${deletedIds.length}個の食材を削除しました！`);
-    },
-    onError: (error: any) => {
-      toast.error('食材の削除に失敗しました');
-    },
+  const { data: foods, isLoading } = useFoods({
+    status: 'active',
+    sort_by: 'expiry_date',
+    sort_order: 'asc',
+    page,
+    per_page: FOODS_PER_PAGE
   });
 
-  const [newFood, setNewFood] = useState({
-    name: '',
-    quantity: 1,
-    unit: '個',
-    purchase_date: new Date().toISOString().split('T')[0],
-    expiry_date: '',
-    storage_location: '冷蔵庫',
-    category_id: 1
-  });
+  const addFoodMutation = useCreateFood();
+  const updateFoodMutation = useUpdateFood();
+  const consumeFoodMutation = useConsumeFood();
+  const deleteFoodsMutation = useDeleteFoods();
+  const scanMutation = useScanBarcode();
+
+  // Offline changes are queued, so say when they will actually be saved
+  const savedMessage = (message: string) => isOnline ? message : `${message}（オンライン復帰時に同期します）`;
 
   const handleAddFood = (e: React.FormEvent) => {
     e.preventDefault();
-    addFoodMutation.mutate(newFood);
+    addFoodMutation.mutate(newFood, {
+      onSuccess: () => {
+        setShowAddForm(false);
+        setNewFood(emptyFood());
+        setExpiryHint(null);
+        toast.success(savedMessage('食材を追加しました！'));
+      },
+      onError: () => {
+        toast.error('食材の追加に失敗しました');
+      },
+    });
+  };
+
+  const toggleAddForm = () => {
+    setShowAddForm(!showAddForm);
+    setShowScanner(false);
+    setScanStatus(null);
+  };
+
+  const handleBarcode = (barcode: string) => {
+    if (scanMutation.isPending) return;
+
+    // Scanning the same product again while unpacking means one more of it
+    const existing = multiScan ? scannedItems.find(item => item.barcode === barcode) : undefined;
+    if (existing) {
+      setScannedItems(items => items.map(item =>
+        item.barcode === barcode
+          ? { ...item, food: { ...item.food, quantity: item.food.quantity + 1 } }
+          : item
+      ));
+      setScanStatus(`${existing.food.name}の数量を増やしました`);
+      return;
+    }
+
+    scanMutation.mutate(barcode, {
+      onSuccess: (result) => {
+        const basis = EXPIRY_BASIS_LABELS[result.expiry_suggestion.basis];
+
+        if (multiScan) {
+          setScannedItems(items => [...items, { barcode, food: result.food }]);
+          setScanStatus(`${result.food.name}を読み取りました（賞味期限は${basis}）`);
+        } else {
+          setNewFood({ ...emptyFood(), ...result.food });
+          setExpiryHint(`${basis}（${result.expiry_suggestion.shelf_life_days}日）`);
+          setShowScanner(false);
+          setScanStatus(null);
+          toast.success(`${result.food.name}を読み取りました`);
+        }
+      },
+      onError: (error) => {
+        setScanStatus(
+          isAxiosError(error) && error.response?.status === 404
+            ? `${barcode}の商品が見つかりませんでした。手入力で追加してください`
+            : 'バーコードの検索に失敗しました'
+        );
+      },
+    });
+  };
+
+  const updateScannedItem = (barcode: string, changes: Partial<FoodCreateData>) => {
+    setScannedItems(items => items.map(item =>
+      item.barcode === barcode ? { ...item, food: { ...item.food, ...changes } } : item
+    ));
+  };
+
+  const removeScannedItem = (barcode: string) => {
+    setScannedItems(items => items.filter(item => item.barcode !== barcode));
+  };
+
+  // One at a time so offline additions keep their order in the queue
+  const handleAddScanned = async () => {
+    setIsAddingScanned(true);
+    const failed: ScannedItem[] = [];
+
+    for (const item of scannedItems) {
+      try {
+        await addFoodMutation.mutateAsync(item.food);
+      } catch (error) {
+        failed.push(item);
+      }
+    }
+
+    const added = scannedItems.length - failed.length;
+    setScannedItems(failed);
+    setIsAddingScanned(false);
+
+    if (added > 0) {
+      toast.success(savedMessage(`${added}個の食材を追加しました！`));
+    }
+    if (failed.length > 0) {
+      toast.error(`${failed.length}個の食材を追加できませんでした`);
+    }
+  };
+
+  const startEditing = (food: Food) => {
+    setEditingFoodId(food.id);
+    setEditQuantity(Number(food.quantity));
+    setEditExpiryDate(food.expiry_date.slice(0, 10));
+  };
+
+  const handleSaveEdit = (food: Food) => {
+    updateFoodMutation.mutate(
+      { food, data: { quantity: editQuantity, expiry_date: editExpiryDate } },
+      {
+        onSuccess: () => {
+          setEditingFoodId(null);
+          toast.success(savedMessage(`${food.name}を更新しました`));
+        },
+        onError: () => {
+          toast.error('食材の更新に失敗しました');
+        },
+      }
+    );
+  };
+
+  const handleConsume = (food: Food) => {
+    consumeFoodMutation.mutate(food, {
+      onSuccess: () => {
+        toast.success(savedMessage(`${food.name}を使い切りました`));
+      },
+      onError: () => {
+        toast.error('食材の更新に失敗しました');
+      },
+    });
+  };
+
+  const changePage = (nextPage: number) => {
+    setPage(nextPage);
+    setSelectedFoods([]);
+    setSelectAll(false);
   };
 
   const handleSelectAll = () => {
-    const foodData = foods?.data || [];
+    const foodData = foods?.items || [];
     if (selectAll) {
       setSelectedFoods([]);
     } else {
-      setSelectedFoods(foodData.map((food: any) => food.id));
+      setSelectedFoods(foodData.map(food => food.id));
     }
     setSelectAll(!selectAll);
   };
@@ -114,7 +230,7 @@ const Inventory = () => {
     } else {
       const newSelected = [...selectedFoods, foodId];
       setSelectedFoods(newSelected);
-      const foodData = foods?.data || [];
+      const foodData = foods?.items || [];
       if (newSelected.length === foodData.length) {
         setSelectAll(true);
       }
@@ -125,7 +241,16 @@ const Inventory = () => {
     if (selectedFoods.length === 0) return;
 
     if (window.confirm(`選択した${selectedFoods.length}個の食材を削除しますか？この操作は取り消せません。`)) {
-      deleteFoodsMutation.mutate(selectedFoods);
+      deleteFoodsMutation.mutate(selectedFoods, {
+        onSuccess: (_, deletedIds) => {
+          setSelectedFoods([]);
+          setSelectAll(false);
+          toast.success(`${deletedIds.length}個の食材を削除しました！`);
+        },
+        onError: () => {
+          toast.error('食材の削除に失敗しました');
+        },
+      });
     }
   };
 
@@ -137,7 +262,7 @@ const Inventory = () => {
     );
   }
 
-  const foodData = foods?.data || [];
+  const foodData = foods?.items || [];
 
   return (
     <div className="space-y-6">
@@ -150,14 +275,15 @@ const Inventory = () => {
           {selectedFoods.length > 0 && (
             <button
               onClick={handleDeleteSelected}
-              disabled={deleteFoodsMutation.isPending}
+              disabled={deleteFoodsMutation.isPending || !isOnline}
+              title={isOnline ? undefined : '削除はオンライン時のみ行えます'}
               className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors disabled:bg-red-400"
             >
               {deleteFoodsMutation.isPending ? '削除中...' : `選択項目を削除 (${selectedFoods.length})`}
             </button>
           )}
           <button
-            onClick={() => setShowAddForm(!showAddForm)}
+            onClick={toggleAddForm}
             className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 transition-colors"
           >
             {showAddForm ? 'キャンセル' : '食材を追加'}
@@ -165,10 +291,95 @@ const Inventory = () => {
         </div>
       </div>
 
+      <SyncConflictList />
+
       {/* Add Food Form */}
       {showAddForm && (
         <div className="bg-white p-6 rounded-lg shadow">
-          <h2 className="text-lg font-medium mb-4">新しい食材を追加</h2>
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 mb-4">
+            <h2 className="text-lg font-medium">新しい食材を追加</h2>
+            <div className="flex items-center space-x-3">
+              <label className="flex items-center space-x-2 text-sm text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={multiScan}
+                  onChange={(e) => setMultiScan(e.target.checked)}
+                  className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                />
+                <span>続けて読み取る</span>
+              </label>
+              <button
+                type="button"
+                onClick={() => {
+                  setShowScanner(!showScanner);
+                  setScanStatus(null);
+                }}
+                disabled={!isOnline}
+                title={isOnline ? undefined : 'バーコード検索はオンライン時のみ利用できます'}
+                className="px-3 py-2 text-sm bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:bg-gray-400"
+              >
+                {showScanner ? 'スキャンを終了' : 'バーコードで読み取る'}
+              </button>
+            </div>
+          </div>
+
+          {showScanner && (
+            <BarcodeScanner
+              continuous={multiScan}
+              isLookingUp={scanMutation.isPending}
+              status={scanStatus}
+              onDetected={handleBarcode}
+              onClose={() => setShowScanner(false)}
+            />
+          )}
+
+          {scannedItems.length > 0 && (
+            <div className="border border-gray-200 rounded-lg mb-4">
+              <div className="px-4 py-3 border-b border-gray-200 flex justify-between items-center">
+                <h3 className="text-sm font-medium text-gray-900">読み取った食材 ({scannedItems.length})</h3>
+                <button
+                  type="button"
+                  onClick={handleAddScanned}
+                  disabled={isAddingScanned}
+                  className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-green-400"
+                >
+                  {isAddingScanned ? '追加中...' : 'まとめて追加'}
+                </button>
+              </div>
+              <ul className="divide-y divide-gray-200">
+                {scannedItems.map(item => (
+                  <li key={item.barcode} className="px-4 py-3 flex flex-col md:flex-row md:items-center gap-2">
+                    <span className="flex-1 text-sm text-gray-900">{item.food.name}</span>
+                    <div className="flex items-center space-x-1">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={item.food.quantity}
+                        onChange={(e) => updateScannedItem(item.barcode, { quantity: parseFloat(e.target.value) })}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-green-500 focus:border-green-500"
+                      />
+                      <span className="text-sm text-gray-600">{item.food.unit}</span>
+                    </div>
+                    <input
+                      type="date"
+                      value={item.food.expiry_date}
+                      onChange={(e) => updateScannedItem(item.barcode, { expiry_date: e.target.value })}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-green-500 focus:border-green-500"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeScannedItem(item.barcode)}
+                      className="text-sm text-red-600 hover:text-red-700"
+                    >
+                      削除
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <form onSubmit={handleAddFood} className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700">食材名</label>
@@ -196,7 +407,7 @@ const Inventory = () => {
                 />
                 <select
                   value={newFood.unit}
-                  onChange={(e) => setNewFood({...newFood, unit: e.target.value})}
+                  onChange={(e) => setNewFood({...newFood, unit: e.target.value as FoodUnit})}
                   className="border border-gray-300 rounded-r-md px-3 py-2 focus:outline-none focus:ring-green-500 focus:border-green-500 text-gray-900"
                 >
                   <option value="個">個</option>
@@ -205,6 +416,9 @@ const Inventory = () => {
                   <option value="ml">ml</option>
                   <option value="L">L</option>
                   <option value="パック">パック</option>
+                  <option value="本">本</option>
+                  <option value="袋">袋</option>
+                  <option value="その他">その他</option>
                 </select>
               </div>
             </div>
@@ -226,16 +440,20 @@ const Inventory = () => {
                 type="date"
                 required
                 value={newFood.expiry_date}
-                onChange={(e) => setNewFood({...newFood, expiry_date: e.target.value})}
+                onChange={(e) => {
+                  setNewFood({...newFood, expiry_date: e.target.value});
+                  setExpiryHint(null);
+                }}
                 className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-green-500 focus:border-green-500 text-gray-900"
               />
+              {expiryHint && <p className="mt-1 text-xs text-gray-500">{expiryHint}</p>}
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700">保存場所</label>
               <select
                 value={newFood.storage_location}
-                onChange={(e) => setNewFood({...newFood, storage_location: e.target.value})}
+                onChange={(e) => setNewFood({...newFood, storage_location: e.target.value as StorageLocation})}
                 className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-green-500 focus:border-green-500 text-gray-900"
               >
                 <option value="冷蔵庫">冷蔵庫</option>
@@ -245,6 +463,21 @@ const Inventory = () => {
               </select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700">カテゴリ</label>
+              <select
+                value={newFood.category_id}
+                onChange={(e) => setNewFood({...newFood, category_id: Number(e.target.value)})}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-green-500 focus:border-green-500 text-gray-900"
+              >
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>
+                    {category.icon} {category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="md:col-span-2">
               <button
                 type="submit"
@@ -284,7 +517,7 @@ const Inventory = () => {
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 p-6">
-              {foodData.map((food: any) => {
+              {foodData.map(food => {
                 const expiryDate = new Date(food.expiry_date);
                 const today = new Date();
                 const diffTime = expiryDate.getTime() - today.getTime();
@@ -305,6 +538,9 @@ const Inventory = () => {
                           className="w-4 h-4 text-green-600 bg-gray-100 border-gray-300 rounded focus:ring-green-500 focus:ring-2 mt-1"
                         />
                         <h3 className="text-lg font-medium text-gray-900">{food.name}</h3>
+                        {pendingFoodIds.includes(food.id) && (
+                          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">未同期</span>
+                        )}
                       </div>
                       <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusColor}`}>
                         {diffDays <= 0 ? '期限切れ' : diffDays <= 3 ? '期限間近' : '良好'}
@@ -318,12 +554,85 @@ const Inventory = () => {
                         {diffDays <= 0 ? '期限切れ' : `あと${diffDays}日`}
                       </p>
                     </div>
+                    {editingFoodId === food.id ? (
+                      <div className="mt-3 space-y-2">
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.1"
+                            value={editQuantity}
+                            onChange={(e) => setEditQuantity(parseFloat(e.target.value))}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-green-500 focus:border-green-500"
+                          />
+                          <span className="text-sm text-gray-600">{food.unit}</span>
+                        </div>
+                        <input
+                          type="date"
+                          value={editExpiryDate}
+                          onChange={(e) => setEditExpiryDate(e.target.value)}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-green-500 focus:border-green-500"
+                        />
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => handleSaveEdit(food)}
+                            disabled={updateFoodMutation.isPending || !(editQuantity > 0) || !editExpiryDate}
+                            className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-green-400"
+                          >
+                            保存
+                          </button>
+                          <button
+                            onClick={() => setEditingFoodId(null)}
+                            className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                          >
+                            キャンセル
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="mt-3 flex space-x-2">
+                        <button
+                          onClick={() => startEditing(food)}
+                          className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                        >
+                          編集
+                        </button>
+                        <button
+                          onClick={() => handleConsume(food)}
+                          disabled={consumeFoodMutation.isPending}
+                          className="px-3 py-1 text-sm bg-green-50 text-green-700 rounded hover:bg-green-100 disabled:opacity-50"
+                        >
+                          使い切った
+                        </button>
+                      </div>
+                    )}
                   </div>
                 );
               })}
             </div>
           )}
         </div>
+        {foods && foods.total_pages > 1 && (
+          <div className="px-6 py-4 border-t border-gray-200 flex justify-between items-center">
+            <button
+              onClick={() => changePage(page - 1)}
+              disabled={!foods.has_prev}
+              className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+            >
+              前へ
+            </button>
+            <span className="text-sm text-gray-600">
+              {foods.page} / {foods.total_pages}ページ（全{foods.total_count}件）
+            </span>
+            <button
+              onClick={() => changePage(page + 1)}
+              disabled={!foods.has_next}
+              className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+            >
+              次へ
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,13 +1,13 @@
 import React, { useState } from 'react';
-import { Link, useNavigate, useLocation } from 'react-router-dom';
+import { Link, Navigate, useNavigate, useLocation } from 'react-router-dom';
+import { TwoFactorChallenge } from '@shared/types';
 import { useAuth } from '../contexts/AuthContext';
 import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
-import toast from 'react-hot-toast';
 
 export function LoginPage() {
   const navigate = useNavigate();
   const location = useLocation();
-  const { login, isLoading } = useAuth();
+  const { login, verifyTwoFactor, isAuthenticated, isLoading } = useAuth();
 
   const [formData, setFormData] = useState({
     email: '',
@@ -15,6 +15,8 @@ export function LoginPage() {
   });
   const [showPassword, setShowPassword] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
 
   const from = location.state?.from?.pathname || '/dashboard';
 
@@ -23,7 +25,11 @@ export function LoginPage() {
     setErrors({});
 
     try {
-      await login(formData.email, formData.password);
+      const twoFactorChallenge = await login(formData.email, formData.password);
+      if (twoFactorChallenge) {
+        setChallenge(twoFactorChallenge);
+        return;
+      }
       navigate(from, { replace: true });
     } catch (error: any) {
       if (error.response?.data?.errors) {
@@ -32,6 +38,22 @@ export function LoginPage() {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+
+    try {
+      await verifyTwoFactor(challenge.challenge_token, twoFactorCode.trim());
+      navigate(from, { replace: true });
+    } catch (error: any) {
+      // After too many wrong codes the challenge is burnt and only a fresh login helps
+      if (error.response?.status === 429) {
+        setChallenge(null);
+        setTwoFactorCode('');
+      }
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -47,6 +69,68 @@ export function LoginPage() {
     }
   };
 
+  if (isAuthenticated) {
+    return <Navigate to={from} replace />;
+  }
+
+  if (challenge) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900 dark:text-white">
+              二段階認証
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600 dark:text-gray-400">
+              認証アプリの6桁のコード、またはリカバリーコードを入力してください
+            </p>
+          </div>
+
+          <form className="mt-8 space-y-6" onSubmit={handleTwoFactorSubmit}>
+            <div>
+              <label htmlFor="two-factor-code" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                認証コード
+              </label>
+              <input
+                id="two-factor-code"
+                name="two-factor-code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                autoFocus
+                required
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+                className="mt-1 relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md placeholder-gray-500 text-gray-900 dark:text-white dark:bg-gray-800 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm tracking-widest"
+                placeholder="123456"
+              />
+            </div>
+
+            <div className="space-y-3">
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:bg-green-400 disabled:cursor-not-allowed dark:focus:ring-offset-gray-900"
+              >
+                {isLoading ? '確認中...' : '確認'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setChallenge(null);
+                  setTwoFactorCode('');
+                }}
+                className="w-full text-center text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+              >
+                ログイン画面に戻る
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -1,71 +1,29 @@
 import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
+import { RecipeSuggestionFilters } from '../services/api/recipe.api';
+import { useFoodIngredients } from '../hooks/useFoods';
+import { useRecipeSuggestions } from '../hooks/useRecipes';
 
 const Recipes = () => {
-  const [recipes, setRecipes] = useState<any[]>([]);
-  const [isLoadingRecipes, setIsLoadingRecipes] = useState(false);
   const [selectedIngredients, setSelectedIngredients] = useState<string[]>([]);
+  // Suggestions are only fetched once the user asks for them
+  const [request, setRequest] = useState<RecipeSuggestionFilters | null>(null);
 
-  const { data: foods } = useQuery({
-    queryKey: ['foods'],
-    queryFn: async () => {
-      const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}/foods`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`,
-        },
-      });
-      if (!response.ok) throw new Error('Failed to fetch foods');
-      return response.json();
-    },
-  });
+  const { data: ingredients = [] } = useFoodIngredients();
+  const { data: suggestions, isFetching: isLoadingRecipes } = useRecipeSuggestions(request);
 
-  const foodData = foods?.data || [];
-  const availableIngredients = foodData
-    .filter((food: any) => food.status === 'active')
-    .map((food: any) => food.name)
+  const availableIngredients = ingredients
     .filter((name: string) => name && /^[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAFa-zA-Z0-9\s]+$/.test(name)); // 文字化けをフィルタリング
+  const recipes = suggestions?.recipes ?? [];
 
-
-  const fetchRecipes = async () => {
-    const ingredientsToUse = selectedIngredients.length > 0 ? selectedIngredients : availableIngredients;
-
-    if (ingredientsToUse.length === 0) {
+  const fetchRecipes = () => {
+    if (selectedIngredients.length === 0 && availableIngredients.length === 0) {
       toast.error('使用する食材を選択してください。');
       return;
     }
 
-    setIsLoadingRecipes(true);
-    try {
-      const response = await fetch('http://localhost:8001/mcp/tools/get_recipe_suggestions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          user_id: 1,
-          ingredients: ingredientsToUse.slice(0, 10) // 最大10つの食材を使用
-        }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success && data.data.length > 0) {
-          setRecipes(data.data);
-          toast.success(`${data.data.length}件のレシピを取得しました！`);
-        } else {
-          toast.info('選択した食材でのレシピ提案が見つかりませんでした');
-          setRecipes([]);
-        }
-      } else {
-        toast.error('レシピ提案の取得に失敗しました');
-      }
-    } catch (error) {
-      console.error('Recipe fetch error:', error);
-      toast.error('レシピ提案機能は現在利用できません');
-    } finally {
-      setIsLoadingRecipes(false);
-    }
+    // Without a selection the server matches against everything on hand
+    setRequest(selectedIngredients.length > 0 ? { ingredients: selectedIngredients } : {});
   };
 
   const toggleIngredientSelection = (ingredient: string) => {
@@ -196,17 +154,22 @@ const Recipes = () => {
       {/* Recipes */}
       {recipes.length > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          {recipes.map((recipe: any, index: number) => (
-            <div key={index} className="bg-white shadow rounded-lg overflow-hidden">
+          {recipes.map(recipe => (
+            <div key={recipe.id} className="bg-white shadow rounded-lg overflow-hidden">
               <div className="p-6">
-                <h3 className="text-xl font-semibold text-gray-900 mb-2">{recipe.name}</h3>
+                <div className="flex justify-between items-start mb-2">
+                  <h3 className="text-xl font-semibold text-gray-900">{recipe.name}</h3>
+                  <span className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 whitespace-nowrap">
+                    一致 {recipe.match_percentage}%
+                  </span>
+                </div>
                 <p className="text-gray-600 mb-4">{recipe.description}</p>
 
                 {/* Recipe Info */}
                 <div className="flex items-center space-x-4 mb-4 text-sm text-gray-500">
                   <span>🕐 準備: {recipe.prep_time}分</span>
                   <span>🔥 調理: {recipe.cook_time}分</span>
-                  <span>👥 {recipe.servings || 2}人分</span>
+                  <span>👥 {recipe.servings}人分</span>
                   <span className={`px-2 py-1 rounded text-xs font-medium ${
                     recipe.difficulty === 'easy' ? 'bg-green-100 text-green-800' :
                     recipe.difficulty === 'medium' ? 'bg-yellow-100 text-yellow-800' :
@@ -221,8 +184,15 @@ const Recipes = () => {
                 <div className="mb-4">
                   <h4 className="font-medium text-gray-900 mb-2">材料:</h4>
                   <ul className="text-sm text-gray-600 space-y-1">
-                    {recipe.ingredients.map((ingredient: string, idx: number) => (
-                      <li key={idx}>• {ingredient}</li>
+                    {recipe.ingredients.map(ingredient => (
+                      <li
+                        key={ingredient.id}
+                        className={recipe.missing_ingredients.includes(ingredient.ingredient_name) ? 'text-gray-400' : ''}
+                      >
+                        • {ingredient.ingredient_name} {ingredient.quantity}{ingredient.unit}
+                        {ingredient.optional && '（お好みで）'}
+                        {recipe.missing_ingredients.includes(ingredient.ingredient_name) && '（不足）'}
+                      </li>
                     ))}
                   </ul>
                 </div>
@@ -231,22 +201,22 @@ const Recipes = () => {
                 <div>
                   <h4 className="font-medium text-gray-900 mb-2">作り方:</h4>
                   <ol className="text-sm text-gray-600 space-y-1">
-                    {recipe.instructions.map((instruction: string, idx: number) => (
+                    {recipe.instructions.map((instruction, idx) => (
                       <li key={idx}>{idx + 1}. {instruction}</li>
                     ))}
                   </ol>
                 </div>
 
-                {/* Tags */}
-                {recipe.tags && recipe.tags.length > 0 && (
+                {/* Expiring ingredients this recipe uses up */}
+                {recipe.uses_expiring.length > 0 && (
                   <div className="mt-4 pt-4 border-t border-gray-200">
                     <div className="flex flex-wrap gap-2">
-                      {recipe.tags.map((tag: string, idx: number) => (
+                      {recipe.uses_expiring.map(name => (
                         <span
-                          key={idx}
-                          className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800"
+                          key={name}
+                          className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-orange-100 text-orange-800"
                         >
-                          {tag}
+                          ⚠️ {name}を使い切れます
                         </span>
                       ))}
                     </div>
@@ -266,8 +236,14 @@ const Recipes = () => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
             </svg>
           </div>
-          <p className="text-gray-500">レシピ提案を取得してください</p>
-          <p className="text-sm text-gray-400 mt-1">利用可能な食材からAIがレシピを提案します</p>
+          {request ? (
+            <p className="text-gray-500">選択した食材でのレシピ提案が見つかりませんでした</p>
+          ) : (
+            <>
+              <p className="text-gray-500">レシピ提案を取得してください</p>
+              <p className="text-sm text-gray-400 mt-1">期限が近い食材を優先してレシピを提案します</p>
+            </>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,678 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import {
+  AuthSession,
+  LanguagePreference,
+  SkillLevel,
+  StorageLocation,
+  UserPreferences,
+  UserPreferencesUpdateData
+} from '@shared/types';
+import { DateUtils } from '@shared/utils';
+import { authApi } from '../services/api/auth.api';
+import { pushManager } from '../services/push/pushManager';
+import { useAuth } from '../contexts/AuthContext';
+import { Theme, useTheme } from '../contexts/ThemeContext';
+import { usePreferences, useUpdatePreferences } from '../hooks/usePreferences';
+
+type Section = 'profile' | 'notifications' | 'display' | 'food' | 'security' | 'data';
+
+const SESSIONS_QUERY_KEY = ['auth-sessions'];
+
+const SECTIONS: Array<{ value: Section; label: string }> = [
+  { value: 'profile', label: 'プロフィール' },
+  { value: 'notifications', label: '通知' },
+  { value: 'display', label: '表示' },
+  { value: 'food', label: '食材・レシピ' },
+  { value: 'security', label: 'セキュリティ' },
+  { value: 'data', label: 'データとアカウント' },
+];
+
+const THEME_OPTIONS: Array<{ value: Theme; label: string }> = [
+  { value: 'light', label: 'ライト' },
+  { value: 'dark', label: 'ダーク' },
+  { value: 'system', label: 'システム設定に合わせる' },
+];
+
+const LANGUAGE_OPTIONS: Array<{ value: LanguagePreference; label: string }> = [
+  { value: 'ja', label: '日本語' },
+  { value: 'en', label: 'English' },
+];
+
+const CURRENCY_OPTIONS = ['JPY', 'USD', 'EUR'];
+const DATE_FORMAT_OPTIONS = ['YYYY-MM-DD', 'YYYY/MM/DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+const STORAGE_LOCATIONS: StorageLocation[] = ['冷蔵庫', '冷凍庫', '常温', 'その他'];
+
+const SKILL_LEVEL_OPTIONS: Array<{ value: SkillLevel; label: string }> = [
+  { value: 'beginner', label: '初心者' },
+  { value: 'medium', label: '中級' },
+  { value: 'advanced', label: '上級' },
+];
+
+const inputClassName =
+  'mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-green-500';
+
+// Only the fields the user actually touched are sent, so concurrent edits elsewhere are not overwritten
+const changedPreferences = (
+  preferences: UserPreferences,
+  draft: UserPreferencesUpdateData
+): UserPreferencesUpdateData =>
+  Object.fromEntries(
+    Object.entries(draft).filter(
+      ([key, value]) => JSON.stringify(value) !== JSON.stringify(preferences[key as keyof UserPreferences])
+    )
+  );
+
+const parseList = (value: string): string[] | null => {
+  const items = value.split(/[,、]/).map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : null;
+};
+
+interface ToggleProps {
+  label: string;
+  description?: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const Toggle: React.FC<ToggleProps> = ({ label, description, checked, onChange }) => (
+  <label className="flex items-start justify-between py-3 cursor-pointer">
+    <span>
+      <span className="block text-sm font-medium text-gray-900">{label}</span>
+      {description && <span className="block text-sm text-gray-500">{description}</span>}
+    </span>
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="mt-1 h-4 w-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+    />
+  </label>
+);
+
+const Settings = () => {
+  const [section, setSection] = useState<Section>('profile');
+  const [draft, setDraft] = useState<UserPreferencesUpdateData>({});
+  const [passwordForm, setPasswordForm] = useState({ current_password: '', new_password: '', confirm_password: '' });
+  const [deactivatePassword, setDeactivatePassword] = useState('');
+  const { user, clearSession } = useAuth();
+  const { theme, setTheme } = useTheme();
+  const queryClient = useQueryClient();
+
+  const { data: preferences, isLoading: preferencesLoading } = usePreferences();
+  const updatePreferencesMutation = useUpdatePreferences();
+
+  const { data: sessions = [] } = useQuery({
+    queryKey: SESSIONS_QUERY_KEY,
+    queryFn: async () => (await authApi.getSessions()).data!.sessions,
+    enabled: section === 'security',
+  });
+
+  // Start every edit from what the server has
+  useEffect(() => {
+    if (preferences) {
+      setDraft({});
+    }
+  }, [preferences]);
+
+  const value = <K extends keyof UserPreferencesUpdateData>(key: K): UserPreferences[K] | undefined =>
+    (key in draft ? draft[key] : preferences?.[key]) as UserPreferences[K] | undefined;
+
+  const updateDraft = <K extends keyof UserPreferencesUpdateData>(key: K, fieldValue: UserPreferencesUpdateData[K]) => {
+    setDraft(current => ({ ...current, [key]: fieldValue }));
+  };
+
+  const pendingChanges = preferences ? changedPreferences(preferences, draft) : {};
+  const hasChanges = Object.keys(pendingChanges).length > 0;
+
+  const changePasswordMutation = useMutation({
+    mutationFn: () =>
+      authApi.changePassword({
+        current_password: passwordForm.current_password,
+        new_password: passwordForm.new_password,
+      }),
+    onSuccess: () => {
+      // Every session was revoked on the server, including this one
+      toast.success('パスワードを変更しました。再度ログインしてください');
+      clearSession();
+    },
+    onError: () => {
+      toast.error('パスワードの変更に失敗しました。現在のパスワードと新しいパスワードの条件を確認してください');
+    },
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: (session: AuthSession) => authApi.revokeSession(session.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      toast.success('セッションをログアウトしました');
+    },
+    onError: () => {
+      toast.error('セッションのログアウトに失敗しました');
+    },
+  });
+
+  const revokeOtherSessionsMutation = useMutation({
+    mutationFn: () => authApi.revokeOtherSessions(),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      toast.success(`${response.data?.revoked_count ?? 0}件のセッションをログアウトしました`);
+    },
+    onError: () => {
+      toast.error('セッションのログアウトに失敗しました');
+    },
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: (password: string) => authApi.deactivateAccount(password),
+    onSuccess: () => {
+      toast.success('アカウントを無効化しました');
+      clearSession();
+    },
+    onError: () => {
+      toast.error('アカウントの無効化に失敗しました。パスワードを確認してください');
+    },
+  });
+
+  const handleSavePreferences = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasChanges) return;
+
+    // Push needs this browser's permission and subscription before the server starts sending
+    try {
+      if (pendingChanges.enable_push_notifications === true) {
+        await pushManager.subscribe();
+      } else if (pendingChanges.enable_push_notifications === false) {
+        await pushManager.unsubscribe().catch(error => console.error('Failed to unsubscribe push:', error));
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'プッシュ通知を有効にできませんでした');
+      return;
+    }
+
+    updatePreferencesMutation.mutate(pendingChanges, {
+      onSuccess: (updated) => {
+        document.documentElement.lang = updated.language;
+        toast.success('設定を保存しました');
+      },
+      onError: () => {
+        toast.error('設定の保存に失敗しました');
+      },
+    });
+  };
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwordForm.new_password.length < 8) {
+      toast.error('新しいパスワードは8文字以上で入力してください');
+      return;
+    }
+    if (passwordForm.new_password !== passwordForm.confirm_password) {
+      toast.error('新しいパスワードが一致しません');
+      return;
+    }
+    changePasswordMutation.mutate();
+  };
+
+  const handleDeactivate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deactivatePassword) return;
+    if (confirm('アカウントを無効化しますか？すべての端末からログアウトされます。')) {
+      deactivateMutation.mutate(deactivatePassword);
+    }
+  };
+
+  const preferencesFooter = (
+    <div className="flex justify-end gap-2 pt-4 border-t border-gray-200">
+      <button
+        type="button"
+        onClick={() => setDraft({})}
+        disabled={!hasChanges}
+        className="bg-gray-200 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-300 text-sm disabled:opacity-50"
+      >
+        元に戻す
+      </button>
+      <button
+        type="submit"
+        disabled={!hasChanges || updatePreferencesMutation.isPending}
+        className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 text-sm disabled:opacity-50"
+      >
+        {updatePreferencesMutation.isPending ? '保存中...' : '保存'}
+      </button>
+    </div>
+  );
+
+  const renderProfile = () => (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">プロフィール</h2>
+      {user ? (
+        <dl className="divide-y divide-gray-200">
+          <div className="py-3 flex justify-between text-sm">
+            <dt className="text-gray-500">ユーザー名</dt>
+            <dd className="text-gray-900">{user.username}</dd>
+          </div>
+          <div className="py-3 flex justify-between text-sm">
+            <dt className="text-gray-500">メールアドレス</dt>
+            <dd className="text-gray-900">
+              {user.email}
+              {!user.email_verified && (
+                <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800">未確認</span>
+              )}
+            </dd>
+          </div>
+          <div className="py-3 flex justify-between text-sm">
+            <dt className="text-gray-500">登録日</dt>
+            <dd className="text-gray-900">{DateUtils.formatDate(user.created_at, 'yyyy/MM/dd')}</dd>
+          </div>
+          <div className="py-3 flex justify-between text-sm">
+            <dt className="text-gray-500">二段階認証</dt>
+            <dd className="text-gray-900">{user.totp_enabled ? '有効' : '無効'}</dd>
+          </div>
+        </dl>
+      ) : (
+        <p className="text-sm text-gray-500">読み込み中...</p>
+      )}
+    </div>
+  );
+
+  const renderNotifications = () => (
+    <form onSubmit={handleSavePreferences} className="space-y-2">
+      <h2 className="text-lg font-semibold text-gray-900">通知</h2>
+      <div className="divide-y divide-gray-200">
+        <Toggle
+          label="期限切れアラート"
+          description="賞味期限が近い食材をお知らせします"
+          checked={!!value('enable_expiry_alerts')}
+          onChange={(checked) => updateDraft('enable_expiry_alerts', checked)}
+        />
+        <div className="py-3">
+          <label className="block text-sm font-medium text-gray-900">何日前に知らせるか</label>
+          <input
+            type="number"
+            min={0}
+            max={30}
+            value={value('expiry_alert_days') ?? 3}
+            onChange={(e) => updateDraft('expiry_alert_days', parseInt(e.target.value) || 0)}
+            disabled={!value('enable_expiry_alerts')}
+            className={`${inputClassName} max-w-[8rem] disabled:bg-gray-100`}
+          />
+        </div>
+        <div className="py-3">
+          <label className="block text-sm font-medium text-gray-900">通知時刻</label>
+          <input
+            type="time"
+            value={(value('notification_time') || '09:00').slice(0, 5)}
+            onChange={(e) => updateDraft('notification_time', e.target.value)}
+            className={`${inputClassName} max-w-[10rem]`}
+          />
+        </div>
+        <Toggle
+          label="レシピ提案"
+          description="期限が近い食材を使うレシピをお知らせします"
+          checked={!!value('enable_recipe_suggestions')}
+          onChange={(checked) => updateDraft('enable_recipe_suggestions', checked)}
+        />
+        <Toggle
+          label="買い物リマインダー"
+          checked={!!value('enable_shopping_reminders')}
+          onChange={(checked) => updateDraft('enable_shopping_reminders', checked)}
+        />
+        <Toggle
+          label="メール通知"
+          checked={!!value('enable_email_notifications')}
+          onChange={(checked) => updateDraft('enable_email_notifications', checked)}
+        />
+        <Toggle
+          label="プッシュ通知"
+          description={
+            pushManager.isSupported()
+              ? 'アプリを閉じていてもこのブラウザに通知します'
+              : 'このブラウザはプッシュ通知に対応していません'
+          }
+          checked={!!value('enable_push_notifications')}
+          onChange={(checked) => updateDraft('enable_push_notifications', checked)}
+        />
+      </div>
+      {preferencesFooter}
+    </form>
+  );
+
+  const renderDisplay = () => (
+    <form onSubmit={handleSavePreferences} className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">表示</h2>
+      <div>
+        <span className="block text-sm font-medium text-gray-900">テーマ</span>
+        {/* Applied immediately and saved to the account by ThemeContext */}
+        <div className="mt-2 flex flex-wrap gap-2">
+          {THEME_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setTheme(option.value)}
+              className={`px-3 py-2 rounded-md text-sm border ${
+                theme === option.value
+                  ? 'border-green-500 bg-green-50 text-green-700'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-900">言語</label>
+          <select
+            value={value('language') || 'ja'}
+            onChange={(e) => updateDraft('language', e.target.value as LanguagePreference)}
+            className={inputClassName}
+          >
+            {LANGUAGE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-900">通貨</label>
+          <select
+            value={value('currency') || 'JPY'}
+            onChange={(e) => updateDraft('currency', e.target.value)}
+            className={inputClassName}
+          >
+            {CURRENCY_OPTIONS.map(currency => (
+              <option key={currency} value={currency}>{currency}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-900">日付の形式</label>
+          <select
+            value={value('date_format') || 'YYYY-MM-DD'}
+            onChange={(e) => updateDraft('date_format', e.target.value)}
+            className={inputClassName}
+          >
+            {DATE_FORMAT_OPTIONS.map(format => (
+              <option key={format} value={format}>{format}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {preferencesFooter}
+    </form>
+  );
+
+  const renderFood = () => (
+    <form onSubmit={handleSavePreferences} className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">食材・レシピ</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-900">既定の保存場所</label>
+          <select
+            value={value('default_storage_location') || '冷蔵庫'}
+            onChange={(e) => updateDraft('default_storage_location', e.target.value as StorageLocation)}
+            className={inputClassName}
+          >
+            {STORAGE_LOCATIONS.map(location => (
+              <option key={location} value={location}>{location}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-900">調理時間の上限（分）</label>
+          <input
+            type="number"
+            min={1}
+            value={value('max_cooking_time') ?? 60}
+            onChange={(e) => updateDraft('max_cooking_time', parseInt(e.target.value) || 1)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-900">料理の腕前</label>
+          <select
+            value={value('skill_level') || 'beginner'}
+            onChange={(e) => updateDraft('skill_level', e.target.value as SkillLevel)}
+            className={inputClassName}
+          >
+            {SKILL_LEVEL_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-900">食事制限（カンマ区切り）</label>
+          <input
+            type="text"
+            key={String(value('dietary_restrictions'))}
+            defaultValue={(value('dietary_restrictions') || []).join(', ')}
+            onBlur={(e) => updateDraft('dietary_restrictions', parseList(e.target.value))}
+            placeholder="例: ベジタリアン, 乳製品なし"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-900">好きな料理ジャンル（カンマ区切り）</label>
+          <input
+            type="text"
+            key={String(value('preferred_cuisine'))}
+            defaultValue={(value('preferred_cuisine') || []).join(', ')}
+            onBlur={(e) => updateDraft('preferred_cuisine', parseList(e.target.value))}
+            placeholder="例: 和食, イタリアン"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div className="divide-y divide-gray-200">
+        <Toggle
+          label="使い切った食材を買い物リストに追加"
+          checked={!!value('auto_add_to_shopping_list')}
+          onChange={(checked) => updateDraft('auto_add_to_shopping_list', checked)}
+        />
+        <Toggle
+          label="賞味期限の自動推定"
+          description="カテゴリと保存場所から賞味期限を提案します"
+          checked={!!value('smart_expiry_calculation')}
+          onChange={(checked) => updateDraft('smart_expiry_calculation', checked)}
+        />
+      </div>
+      {preferencesFooter}
+    </form>
+  );
+
+  const renderSecurity = () => (
+    <div className="space-y-8">
+      <form onSubmit={handleChangePassword} className="space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">パスワードの変更</h2>
+        <p className="text-sm text-gray-500">変更するとすべての端末からログアウトされます。</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-900">現在のパスワード</label>
+            <input
+              type="password"
+              autoComplete="current-password"
+              required
+              value={passwordForm.current_password}
+              onChange={(e) => setPasswordForm({ ...passwordForm, current_password: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-900">新しいパスワード</label>
+            <input
+              type="password"
+              autoComplete="new-password"
+              required
+              value={passwordForm.new_password}
+              onChange={(e) => setPasswordForm({ ...passwordForm, new_password: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-900">新しいパスワード（確認）</label>
+            <input
+              type="password"
+              autoComplete="new-password"
+              required
+              value={passwordForm.confirm_password}
+              onChange={(e) => setPasswordForm({ ...passwordForm, confirm_password: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={changePasswordMutation.isPending}
+            className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 text-sm disabled:opacity-50"
+          >
+            {changePasswordMutation.isPending ? '変更中...' : 'パスワードを変更'}
+          </button>
+        </div>
+      </form>
+
+      <div className="space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">ログイン中の端末</h2>
+          <button
+            onClick={() => revokeOtherSessionsMutation.mutate()}
+            disabled={revokeOtherSessionsMutation.isPending || sessions.every(session => session.current)}
+            className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+          >
+            他の端末をすべてログアウト
+          </button>
+        </div>
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {sessions.map(session => (
+            <li key={session.id} className="flex justify-between items-center p-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {session.device}
+                  {session.current && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">この端末</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {session.ip_address || 'IP不明'} ・ 最終利用 {DateUtils.formatDate(session.last_used_at, 'yyyy/MM/dd HH:mm')}
+                </p>
+              </div>
+              {!session.current && (
+                <button
+                  onClick={() => revokeSessionMutation.mutate(session)}
+                  disabled={revokeSessionMutation.isPending}
+                  className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  ログアウト
+                </button>
+              )}
+            </li>
+          ))}
+          {sessions.length === 0 && (
+            <li className="p-3 text-sm text-gray-500">セッションがありません</li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+
+  const renderData = () => (
+    <div className="space-y-8">
+      <form onSubmit={handleSavePreferences} className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900">データの利用</h2>
+        <div className="divide-y divide-gray-200">
+          <Toggle
+            label="匿名データの共有"
+            description="食品ロス削減の統計に匿名化したデータを提供します"
+            checked={!!value('data_sharing')}
+            onChange={(checked) => updateDraft('data_sharing', checked)}
+          />
+          <Toggle
+            label="利用状況の分析"
+            checked={!!value('analytics')}
+            onChange={(checked) => updateDraft('analytics', checked)}
+          />
+        </div>
+        {preferencesFooter}
+      </form>
+
+      <form onSubmit={handleDeactivate} className="space-y-4 border border-red-200 rounded-md p-4">
+        <h2 className="text-lg font-semibold text-red-700">アカウントの無効化</h2>
+        <p className="text-sm text-gray-600">
+          アカウントを無効化するとログインできなくなり、すべての端末からログアウトされます。
+        </p>
+        <div className="flex flex-col md:flex-row gap-2 md:items-end">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-900">パスワード</label>
+            <input
+              type="password"
+              autoComplete="current-password"
+              required
+              value={deactivatePassword}
+              onChange={(e) => setDeactivatePassword(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!deactivatePassword || deactivateMutation.isPending}
+            className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 text-sm disabled:opacity-50"
+          >
+            アカウントを無効化
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+
+  const renderSection = () => {
+    switch (section) {
+      case 'profile':
+        return renderProfile();
+      case 'notifications':
+        return renderNotifications();
+      case 'display':
+        return renderDisplay();
+      case 'food':
+        return renderFood();
+      case 'security':
+        return renderSecurity();
+      case 'data':
+        return renderData();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">設定</h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <nav className="bg-white rounded-lg shadow p-2 h-fit">
+          {SECTIONS.map(item => (
+            <button
+              key={item.value}
+              onClick={() => setSection(item.value)}
+              className={`block w-full text-left px-3 py-2 rounded-md text-sm font-medium ${
+                section === item.value ? 'bg-green-50 text-green-700' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </nav>
+
+        <div className="lg:col-span-3 bg-white rounded-lg shadow p-6">
+          {preferencesLoading && section !== 'profile' && section !== 'security' ? (
+            <p className="text-sm text-gray-500">読み込み中...</p>
+          ) : (
+            renderSection()
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
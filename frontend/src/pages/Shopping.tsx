@@ -0,0 +1,545 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { ShoppingList, ShoppingListItem, ShoppingListItemCreateData } from '@shared/types';
+import { NumberUtils } from '@shared/utils';
+import { shoppingApi } from '../services/api/shopping.api';
+import { categoryApi } from '../services/api/category.api';
+
+type GroupBy = 'store' | 'category';
+
+const LISTS_QUERY_KEY = ['shopping-lists'];
+
+const UNASSIGNED_STORE = '店舗未設定';
+const UNASSIGNED_CATEGORY = '未分類';
+
+const emptyItem = (): ShoppingListItemCreateData => ({
+  item_name: '',
+  quantity: 1,
+  unit: '個',
+  store_name: ''
+});
+
+// estimated_price is per unit, as in the list's total_estimated_cost
+const estimateCost = (items: ShoppingListItem[]): number =>
+  items.reduce((sum, item) => sum + Number(item.estimated_price ?? 0) * Number(item.quantity), 0);
+
+const groupItems = (items: ShoppingListItem[], groupBy: GroupBy): Array<[string, ShoppingListItem[]]> => {
+  const unassigned = groupBy === 'store' ? UNASSIGNED_STORE : UNASSIGNED_CATEGORY;
+  const groups = new Map<string, ShoppingListItem[]>();
+
+  for (const item of items) {
+    const key = (groupBy === 'store' ? item.store_name : item.category_name) || unassigned;
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+
+  return Array.from(groups.entries()).sort(([a], [b]) =>
+    a === unassigned ? 1 : b === unassigned ? -1 : a.localeCompare(b, 'ja')
+  );
+};
+
+const updateListItems = (
+  lists: ShoppingList[] | undefined,
+  listId: number,
+  update: (items: ShoppingListItem[]) => ShoppingListItem[]
+): ShoppingList[] | undefined =>
+  lists?.map(list => (list.id === listId ? { ...list, items: update(list.items || []) } : list));
+
+const Shopping = () => {
+  const [selectedListId, setSelectedListId] = useState<number | null>(null);
+  const [groupBy, setGroupBy] = useState<GroupBy>('store');
+  const [newListName, setNewListName] = useState('');
+  const [showAddItem, setShowAddItem] = useState(false);
+  const [newItem, setNewItem] = useState<ShoppingListItemCreateData>(emptyItem);
+  const queryClient = useQueryClient();
+
+  const { data: lists = [], isLoading } = useQuery({
+    queryKey: LISTS_QUERY_KEY,
+    queryFn: () => shoppingApi.getLists(),
+  });
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn: () => categoryApi.getAll(),
+  });
+
+  // Open the most recent unfinished list, and fall back when the selected one is deleted
+  useEffect(() => {
+    if (!lists.some(list => list.id === selectedListId)) {
+      setSelectedListId((lists.find(list => !list.completed) ?? lists[0])?.id ?? null);
+    }
+  }, [lists, selectedListId]);
+
+  const selectedList = lists.find(list => list.id === selectedListId) || null;
+  const items = selectedList?.items || [];
+  const groups = useMemo(() => groupItems(items, groupBy), [items, groupBy]);
+  const movableCount = items.filter(item => item.purchased && !item.moved_to_inventory_at).length;
+
+  const createListMutation = useMutation({
+    mutationFn: (name: string) => shoppingApi.createList({ name, items: [] }),
+    onSuccess: (list) => {
+      queryClient.invalidateQueries({ queryKey: LISTS_QUERY_KEY });
+      setSelectedListId(list.id);
+      setNewListName('');
+      toast.success('買い物リストを作成しました');
+    },
+    onError: () => {
+      toast.error('買い物リストの作成に失敗しました');
+    },
+  });
+
+  const generateListMutation = useMutation({
+    mutationFn: () => shoppingApi.generateList(),
+    onSuccess: (list) => {
+      queryClient.invalidateQueries({ queryKey: LISTS_QUERY_KEY });
+      setSelectedListId(list.id);
+      toast.success('在庫から買い物リストを作成しました');
+    },
+    onError: () => {
+      toast.error('追加する食材が見つかりませんでした');
+    },
+  });
+
+  const deleteListMutation = useMutation({
+    mutationFn: (listId: number) => shoppingApi.deleteList(listId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: LISTS_QUERY_KEY });
+      toast.success('買い物リストを削除しました');
+    },
+    onError: () => {
+      toast.error('買い物リストの削除に失敗しました');
+    },
+  });
+
+  const addItemMutation = useMutation({
+    mutationFn: ({ listId, item }: { listId: number; item: ShoppingListItemCreateData }) =>
+      shoppingApi.addItem(listId, item),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: LISTS_QUERY_KEY });
+      setNewItem(emptyItem());
+      toast.success('アイテムを追加しました');
+    },
+    onError: () => {
+      toast.error('アイテムの追加に失敗しました');
+    },
+  });
+
+  // Check-off updates the cache first so the list reacts instantly, and rolls back on failure
+  const togglePurchasedMutation = useMutation({
+    mutationFn: ({ item, purchased }: { item: ShoppingListItem; purchased: boolean }) =>
+      shoppingApi.setPurchased(item.id, purchased),
+    onMutate: async ({ item, purchased }) => {
+      await queryClient.cancelQueries({ queryKey: LISTS_QUERY_KEY });
+      const previous = queryClient.getQueryData<ShoppingList[]>(LISTS_QUERY_KEY);
+
+      queryClient.setQueryData<ShoppingList[]>(LISTS_QUERY_KEY, lists =>
+        updateListItems(lists, item.list_id, items =>
+          items.map(current => (current.id === item.id ? { ...current, purchased } : current))
+        )
+      );
+
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(LISTS_QUERY_KEY, context?.previous);
+      toast.error('更新に失敗しました');
+    },
+    onSettled: () => {
+      // Completion and totals are recalculated on the server
+      queryClient.invalidateQueries({ queryKey: LISTS_QUERY_KEY });
+    },
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: (item: ShoppingListItem) => shoppingApi.removeItem(item.id),
+    onMutate: async (item) => {
+      await queryClient.cancelQueries({ queryKey: LISTS_QUERY_KEY });
+      const previous = queryClient.getQueryData<ShoppingList[]>(LISTS_QUERY_KEY);
+
+      queryClient.setQueryData<ShoppingList[]>(LISTS_QUERY_KEY, lists =>
+        updateListItems(lists, item.list_id, items => items.filter(current => current.id !== item.id))
+      );
+
+      return { previous };
+    },
+    onError: (_error, _item, context) => {
+      queryClient.setQueryData(LISTS_QUERY_KEY, context?.previous);
+      toast.error('アイテムの削除に失敗しました');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: LISTS_QUERY_KEY });
+    },
+  });
+
+  const moveToInventoryMutation = useMutation({
+    mutationFn: (listId: number) => shoppingApi.moveToInventory(listId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: LISTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ['foods'] });
+
+      if (result.foods.length > 0) {
+        toast.success(`${result.foods.length}件の食材を在庫に追加しました！`);
+      }
+      result.skipped_items.forEach(item => {
+        toast.error(`${item.item_name}を追加できませんでした: ${item.reason}`);
+      });
+    },
+    onError: () => {
+      toast.error('在庫への追加に失敗しました');
+    },
+  });
+
+  const handleCreateList = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newListName.trim()) return;
+    createListMutation.mutate(newListName.trim());
+  };
+
+  // Cleared optional fields are left out of the item rather than set to undefined
+  const setOptionalNumber = (key: 'estimated_price' | 'category_id', value: number | undefined) => {
+    setNewItem(item => {
+      const next = { ...item };
+      if (value === undefined) {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+      return next;
+    });
+  };
+
+  const handleAddItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedList) return;
+
+    const { store_name, ...item } = newItem;
+    const storeName = store_name?.trim();
+
+    addItemMutation.mutate({
+      listId: selectedList.id,
+      item: {
+        ...item,
+        item_name: newItem.item_name.trim(),
+        ...(storeName ? { store_name: storeName } : {})
+      }
+    });
+  };
+
+  const handleDeleteList = () => {
+    if (!selectedList) return;
+
+    if (window.confirm(`「${selectedList.name}」を削除しますか？この操作は取り消せません。`)) {
+      deleteListMutation.mutate(selectedList.id);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">買い物リスト</h1>
+          <p className="mt-2 text-gray-600">買うものをまとめて、買ったものはそのまま在庫に追加できます</p>
+        </div>
+        <button
+          onClick={() => generateListMutation.mutate()}
+          disabled={generateListMutation.isPending}
+          className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 transition-colors disabled:bg-green-400"
+        >
+          {generateListMutation.isPending ? '作成中...' : '在庫から自動作成'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Lists */}
+        <div className="bg-white shadow rounded-lg p-4 space-y-4 lg:col-span-1">
+          <form onSubmit={handleCreateList} className="flex space-x-2">
+            <input
+              type="text"
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+              placeholder="新しいリスト名"
+              maxLength={255}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-green-500 focus:border-green-500 text-gray-900"
+            />
+            <button
+              type="submit"
+              disabled={createListMutation.isPending || !newListName.trim()}
+              className="bg-green-600 text-white px-3 py-2 rounded-md hover:bg-green-700 transition-colors disabled:bg-green-400"
+            >
+              作成
+            </button>
+          </form>
+
+          {lists.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">買い物リストはまだありません</p>
+          ) : (
+            <ul className="space-y-1">
+              {lists.map(list => {
+                const listItems = list.items || [];
+                const purchasedCount = listItems.filter(item => item.purchased).length;
+
+                return (
+                  <li key={list.id}>
+                    <button
+                      onClick={() => setSelectedListId(list.id)}
+                      className={`w-full text-left px-3 py-2 rounded-md transition-colors ${
+                        list.id === selectedListId ? 'bg-green-50 text-green-700' : 'hover:bg-gray-50 text-gray-700'
+                      }`}
+                    >
+                      <div className="flex justify-between items-center">
+                        <span className={`font-medium truncate ${list.completed ? 'line-through text-gray-400' : ''}`}>
+                          {list.name}
+                        </span>
+                        <span className="ml-2 text-xs text-gray-500 shrink-0">
+                          {purchasedCount}/{listItems.length}
+                        </span>
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Selected list */}
+        <div className="lg:col-span-3 space-y-4">
+          {!selectedList ? (
+            <div className="bg-white shadow rounded-lg text-center py-12">
+              <p className="text-gray-500">リストを作成するか選択してください</p>
+            </div>
+          ) : (
+            <>
+              <div className="bg-white shadow rounded-lg p-6">
+                <div className="flex flex-wrap justify-between items-start gap-4">
+                  <div>
+                    <h2 className="text-lg font-medium text-gray-900">{selectedList.name}</h2>
+                    <div className="mt-1 space-y-1 text-sm text-gray-600">
+                      <p>見積もり合計: {NumberUtils.formatCurrency(estimateCost(items))}</p>
+                      <p>残り: {NumberUtils.formatCurrency(estimateCost(items.filter(item => !item.purchased)))}</p>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => moveToInventoryMutation.mutate(selectedList.id)}
+                      disabled={movableCount === 0 || moveToInventoryMutation.isPending}
+                      className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 transition-colors disabled:bg-green-300"
+                    >
+                      {moveToInventoryMutation.isPending ? '追加中...' : `購入済みを在庫へ (${movableCount})`}
+                    </button>
+                    <button
+                      onClick={() => setShowAddItem(!showAddItem)}
+                      className="border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 transition-colors"
+                    >
+                      {showAddItem ? 'キャンセル' : 'アイテムを追加'}
+                    </button>
+                    <button
+                      onClick={handleDeleteList}
+                      disabled={deleteListMutation.isPending}
+                      className="text-red-600 px-4 py-2 rounded-md hover:bg-red-50 transition-colors"
+                    >
+                      削除
+                    </button>
+                  </div>
+                </div>
+
+                {showAddItem && (
+                  <form onSubmit={handleAddItem} className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">アイテム名</label>
+                      <input
+                        type="text"
+                        required
+                        maxLength={100}
+                        value={newItem.item_name}
+                        onChange={(e) => setNewItem({ ...newItem, item_name: e.target.value })}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-green-500 focus:border-green-500 text-gray-900"
+                        placeholder="例: 牛乳"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">数量</label>
+                      <div className="mt-1 flex">
+                        <input
+                          type="number"
+                          required
+                          min="0.1"
+                          step="0.1"
+                          value={newItem.quantity}
+                          onChange={(e) => setNewItem({ ...newItem, quantity: parseFloat(e.target.value) })}
+                          className="block w-full px-3 py-2 border border-gray-300 rounded-l-md focus:outline-none focus:ring-green-500 focus:border-green-500 text-gray-900"
+                        />
+                        <select
+                          value={newItem.unit}
+                          onChange={(e) => setNewItem({ ...newItem, unit: e.target.value })}
+                          className="border border-gray-300 rounded-r-md px-3 py-2 focus:outline-none focus:ring-green-500 focus:border-green-500 text-gray-900"
+                        >
+                          <option value="個">個</option>
+                          <option value="g">g</option>
+                          <option value="kg">kg</option>
+                          <option value="ml">ml</option>
+                          <option value="L">L</option>
+                          <option value="本">本</option>
+                          <option value="袋">袋</option>
+                          <option value="パック">パック</option>
+                        </select>
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">単価（目安）</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={newItem.estimated_price ?? ''}
+                        onChange={(e) => setOptionalNumber(
+                          'estimated_price',
+                          e.target.value === '' ? undefined : parseFloat(e.target.value)
+                        )}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-green-500 focus:border-green-500 text-gray-900"
+                        placeholder="円"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">お店</label>
+                      <input
+                        type="text"
+                        maxLength={100}
+                        value={newItem.store_name || ''}
+                        onChange={(e) => setNewItem({ ...newItem, store_name: e.target.value })}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-green-500 focus:border-green-500 text-gray-900"
+                        placeholder="例: スーパー"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">カテゴリ</label>
+                      <select
+                        value={newItem.category_id ?? ''}
+                        onChange={(e) => setOptionalNumber(
+                          'category_id',
+                          e.target.value === '' ? undefined : Number(e.target.value)
+                        )}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-green-500 focus:border-green-500 text-gray-900"
+                      >
+                        <option value="">{UNASSIGNED_CATEGORY}</option>
+                        {categories.map(category => (
+                          <option key={category.id} value={category.id}>
+                            {category.icon} {category.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="flex items-end">
+                      <button
+                        type="submit"
+                        disabled={addItemMutation.isPending}
+                        className="bg-green-600 text-white px-6 py-2 rounded-md hover:bg-green-700 transition-colors disabled:bg-green-400"
+                      >
+                        {addItemMutation.isPending ? '追加中...' : '追加'}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+
+              <div className="bg-white shadow rounded-lg">
+                <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+                  <h3 className="text-lg font-medium text-gray-900">アイテム</h3>
+                  <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+                    <button
+                      onClick={() => setGroupBy('store')}
+                      className={`px-3 py-1 ${groupBy === 'store' ? 'bg-green-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+                    >
+                      お店別
+                    </button>
+                    <button
+                      onClick={() => setGroupBy('category')}
+                      className={`px-3 py-1 ${groupBy === 'category' ? 'bg-green-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+                    >
+                      カテゴリ別
+                    </button>
+                  </div>
+                </div>
+
+                {items.length === 0 ? (
+                  <div className="text-center py-12">
+                    <p className="text-gray-500">アイテムがありません</p>
+                    <p className="text-sm text-gray-400 mt-1">「アイテムを追加」ボタンから始めましょう</p>
+                  </div>
+                ) : (
+                  <div className="divide-y divide-gray-200">
+                    {groups.map(([groupName, groupItems]) => (
+                      <div key={groupName} className="px-6 py-4">
+                        <div className="flex justify-between items-center mb-2">
+                          <h4 className="text-sm font-semibold text-gray-700">{groupName}</h4>
+                          <span className="text-xs text-gray-500">
+                            {NumberUtils.formatCurrency(estimateCost(groupItems))}
+                          </span>
+                        </div>
+                        <ul className="space-y-2">
+                          {groupItems.map(item => (
+                            <li key={item.id} className="flex items-center justify-between">
+                              <label className="flex items-center space-x-3 cursor-pointer min-w-0">
+                                <input
+                                  type="checkbox"
+                                  checked={item.purchased}
+                                  disabled={Boolean(item.moved_to_inventory_at)}
+                                  onChange={() => togglePurchasedMutation.mutate({ item, purchased: !item.purchased })}
+                                  className="w-4 h-4 text-green-600 bg-gray-100 border-gray-300 rounded focus:ring-green-500 focus:ring-2"
+                                />
+                                <span className={`truncate ${item.purchased ? 'line-through text-gray-400' : 'text-gray-900'}`}>
+                                  {item.item_name}
+                                </span>
+                                <span className="text-sm text-gray-500 shrink-0">
+                                  {Number(item.quantity)} {item.unit}
+                                </span>
+                                {item.moved_to_inventory_at && (
+                                  <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800 shrink-0">
+                                    在庫に追加済み
+                                  </span>
+                                )}
+                              </label>
+                              <div className="flex items-center space-x-3 shrink-0">
+                                {item.estimated_price != null && (
+                                  <span className="text-sm text-gray-600">
+                                    {NumberUtils.formatCurrency(Number(item.estimated_price) * Number(item.quantity))}
+                                  </span>
+                                )}
+                                <button
+                                  onClick={() => removeItemMutation.mutate(item)}
+                                  className="text-sm text-gray-400 hover:text-red-600"
+                                  aria-label={`${item.item_name}を削除`}
+                                >
+                                  ✕
+                                </button>
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Shopping;
@@ -2,52 +2,69 @@ import { BaseApi } from './base.api';
 import {
   User,
   AuthResponse,
-  LoginRequest,
-  RegisterRequest,
-  RefreshTokenRequest,
-  PasswordResetRequest,
-  PasswordChangeRequest
+  LoginResult,
+  UserLoginData,
+  UserRegistrationData,
+  TwoFactorLoginData,
+  PasswordChangeData,
+  AuthSession,
+  ApiResponse
 } from '@shared/types';
 
 class AuthApi extends BaseApi {
-  async register(data: RegisterRequest): Promise<AuthResponse> {
-    return this.post<AuthResponse>('/auth/register', data);
+  async register(data: UserRegistrationData): Promise<ApiResponse<AuthResponse>> {
+    return this.post<ApiResponse<AuthResponse>>('/auth/register', data);
   }
 
-  async login(data: LoginRequest): Promise<AuthResponse> {
-    return this.post<AuthResponse>('/auth/login', data);
+  // Accounts with two-factor authentication get a challenge instead of tokens
+  async login(data: UserLoginData): Promise<ApiResponse<LoginResult>> {
+    return this.post<ApiResponse<LoginResult>>('/auth/login', data);
   }
 
-  async logout(): Promise<void> {
-    return this.post<void>('/auth/logout');
+  async verifyTwoFactorLogin(data: TwoFactorLoginData): Promise<ApiResponse<AuthResponse>> {
+    return this.post<ApiResponse<AuthResponse>>('/auth/login/2fa', data);
   }
 
-  async refreshToken(data: RefreshTokenRequest): Promise<AuthResponse> {
-    return this.post<AuthResponse>('/auth/refresh', data);
+  async logout(refreshToken: string | null): Promise<void> {
+    await this.post<ApiResponse<void>>('/auth/logout', { refresh_token: refreshToken });
   }
 
-  async getCurrentUser(): Promise<User> {
-    return this.get<User>('/auth/me');
+  async getCurrentUser(): Promise<ApiResponse<{ user: User }>> {
+    return this.get<ApiResponse<{ user: User }>>('/auth/me');
   }
 
-  async requestPasswordReset(data: PasswordResetRequest): Promise<{ message: string }> {
-    return this.post<{ message: string }>('/auth/request-password-reset', data);
+  async requestPasswordReset(email: string): Promise<ApiResponse<void>> {
+    return this.post<ApiResponse<void>>('/auth/request-password-reset', { email });
   }
 
-  async resetPassword(token: string, password: string): Promise<{ message: string }> {
-    return this.post<{ message: string }>(`/auth/reset-password/${token}`, { password });
+  async resetPassword(token: string, password: string): Promise<ApiResponse<void>> {
+    return this.post<ApiResponse<void>>(`/auth/reset-password/${token}`, { password });
   }
 
-  async changePassword(data: PasswordChangeRequest): Promise<{ message: string }> {
-    return this.post<{ message: string }>('/auth/change-password', data);
+  // The server revokes every session on success, so the caller has to sign in again
+  async changePassword(data: PasswordChangeData): Promise<ApiResponse<void>> {
+    return this.post<ApiResponse<void>>('/auth/change-password', data);
   }
 
-  async verifyEmail(token: string): Promise<{ message: string }> {
-    return this.get<{ message: string }>(`/auth/verify-email/${token}`);
+  async verifyEmail(token: string): Promise<ApiResponse<{ user: User }>> {
+    return this.get<ApiResponse<{ user: User }>>(`/auth/verify-email/${token}`);
   }
 
-  async deactivateAccount(password: string): Promise<{ message: string }> {
-    return this.post<{ message: string }>('/auth/deactivate', { password });
+  async deactivateAccount(password: string): Promise<ApiResponse<void>> {
+    return this.post<ApiResponse<void>>('/auth/deactivate', { password });
+  }
+
+  // Signed-in devices
+  async getSessions(): Promise<ApiResponse<{ sessions: AuthSession[]; count: number }>> {
+    return this.get<ApiResponse<{ sessions: AuthSession[]; count: number }>>('/auth/sessions');
+  }
+
+  async revokeSession(id: string): Promise<ApiResponse<void>> {
+    return this.delete<ApiResponse<void>>(`/auth/sessions/${id}`);
+  }
+
+  async revokeOtherSessions(): Promise<ApiResponse<{ revoked_count: number }>> {
+    return this.delete<ApiResponse<{ revoked_count: number }>>('/auth/sessions');
   }
 }
 
@@ -2,8 +2,36 @@ import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { tokenManager } from '../auth/tokenManager';
 import toast from 'react-hot-toast';
 
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Skips the global error toasts for callers that report failures themselves
+    silent?: boolean;
+  }
+}
+
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api/v1';
 
+// Refresh tokens are single-use (the server rotates them and treats a replay as theft),
+// so concurrent 401s across all API clients must share one refresh request
+let refreshPromise: Promise<string> | null = null;
+
+function refreshAccessToken(refreshToken: string): Promise<string> {
+  if (!refreshPromise) {
+    refreshPromise = axios
+      .post(`${API_BASE_URL}/auth/refresh`, { refresh_token: refreshToken })
+      .then((response) => {
+        const { access_token, refresh_token: newRefreshToken } = response.data.data.tokens;
+        tokenManager.setTokens(access_token, newRefreshToken);
+        return access_token as string;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+}
+
 class BaseApi {
   protected api: AxiosInstance;
 
@@ -49,12 +77,7 @@ class BaseApi {
           try {
             const refreshToken = tokenManager.getRefreshToken();
             if (refreshToken) {
-              const response = await axios.post(`${API_BASE_URL}/auth/refresh`, {
-                refresh_token: refreshToken
-              });
-
-              const { access_token, refresh_token: newRefreshToken } = response.data;
-              tokenManager.setTokens(access_token, newRefreshToken);
+              const access_token = await refreshAccessToken(refreshToken);
 
               // Retry original request
               originalRequest.headers.Authorization = `Bearer ${access_token}`;
@@ -69,7 +92,9 @@ class BaseApi {
         }
 
         // Handle different error types
-        if (error.response) {
+        if (originalRequest?.silent) {
+          // The caller reports this failure itself
+        } else if (error.response) {
           const status = error.response.status;
           const message = error.response.data?.error || 'An error occurred';
 
@@ -147,4 +172,4 @@ class BaseApi {
   }
 }
 
-export { BaseApi };
\ No newline at end of file
+export { BaseApi, API_BASE_URL, refreshAccessToken };
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { BaseApi } from './base.api';
+import { Category, ApiResponse } from '@shared/types';
+
+class CategoryApi extends BaseApi {
+  async getAll(): Promise<Category[]> {
+    const response = await this.get<ApiResponse<{ categories: Category[]; count: number }>>('/categories');
+    return response.data!.categories;
+  }
+}
+
+export const categoryApi = new CategoryApi();
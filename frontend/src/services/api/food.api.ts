@@ -1,18 +1,29 @@
+import { AxiosRequestConfig } from 'axios';
 import { BaseApi } from './base.api';
 import {
   Food,
-  FoodCreationData,
+  FoodCreateData,
   FoodUpdateData,
   PaginatedResponse,
   FoodStats,
+  FoodConsumeData,
+  FoodConsumption,
+  FoodAnalytics,
+  AnalyticsGranularity,
+  FoodStatus,
+  StorageLocation,
+  StorageTip,
+  FoodScanResult,
   ApiResponse
 } from '@shared/types';
 
 export interface FoodFilters {
   page?: number;
   per_page?: number;
-  status?: 'active' | 'consumed' | 'expired' | 'disposed';
-  category_id?: number;
+  status?: FoodStatus;
+  categories?: number[];
+  storage_locations?: StorageLocation[];
+  expiry_within_days?: number;
   sort_by?: 'name' | 'expiry_date' | 'purchase_date' | 'created_at';
   sort_order?: 'asc' | 'desc';
   search?: string;
@@ -23,81 +34,133 @@ class FoodApi extends BaseApi {
     const params = new URLSearchParams();
     Object.entries(filters).forEach(([key, value]) => {
       if (value !== undefined) {
-        params.append(key, value.toString());
+        // The server takes list filters comma separated
+        params.append(key, Array.isArray(value) ? value.join(',') : value.toString());
       }
     });
 
     const queryString = params.toString();
     const url = queryString ? `/foods?${queryString}` : '/foods';
 
-    return this.get<PaginatedResponse<Food>>(url);
+    const response = await this.get<ApiResponse<PaginatedResponse<Food>>>(url);
+    return response.data!;
   }
 
-  async getById(id: number): Promise<Food> {
-    return this.get<Food>(`/foods/${id}`);
+  async getById(id: number, config?: AxiosRequestConfig): Promise<Food> {
+    const response = await this.get<ApiResponse<{ food: Food }>>(`/foods/${id}`, config);
+    return response.data!.food;
   }
 
-  async create(data: FoodCreationData): Promise<Food> {
-    return this.post<Food>('/foods', data);
+  async create(data: FoodCreateData, config?: AxiosRequestConfig): Promise<Food> {
+    const response = await this.post<ApiResponse<{ food: Food }>>('/foods', data, config);
+    return response.data!.food;
   }
 
-  async update(id: number, data: FoodUpdateData): Promise<Food> {
-    return this.put<Food>(`/foods/${id}`, data);
+  async update(id: number, data: FoodUpdateData, config?: AxiosRequestConfig): Promise<Food> {
+    const response = await this.put<ApiResponse<{ food: Food }>>(`/foods/${id}`, data, config);
+    return response.data!.food;
   }
 
-  async delete(id: number): Promise<void> {
-    return this.delete<void>(`/foods/${id}`);
+  async deleteFood(id: number): Promise<void> {
+    await this.delete<ApiResponse<void>>(`/foods/${id}`);
   }
 
-  async markAsConsumed(id: number): Promise<Food> {
-    return this.patch<Food>(`/foods/${id}/consume`);
+  // Passing the updated_at the caller saw makes the server refuse with 409 if the food changed since
+  async markAsConsumed(id: number, expectedUpdatedAt?: string, config?: AxiosRequestConfig): Promise<Food> {
+    const response = await this.patch<ApiResponse<{ food: Food }>>(`/foods/${id}/consume`, {
+      expected_updated_at: expectedUpdatedAt
+    }, config);
+    return response.data!.food;
+  }
+
+  async consume(id: number, data: FoodConsumeData): Promise<{ food: Food; consumption: FoodConsumption }> {
+    const response = await this.post<ApiResponse<{ food: Food; consumption: FoodConsumption }>>(
+      `/foods/${id}/consumptions`,
+      data
+    );
+    return response.data!;
+  }
+
+  async getConsumptions(id: number): Promise<FoodConsumption[]> {
+    const response = await this.get<ApiResponse<{ consumptions: FoodConsumption[] }>>(`/foods/${id}/consumptions`);
+    return response.data!.consumptions;
   }
 
   async markAsExpired(id: number): Promise<Food> {
-    return this.patch<Food>(`/foods/${id}/expire`);
+    const response = await this.patch<ApiResponse<{ food: Food }>>(`/foods/${id}/expire`);
+    return response.data!.food;
   }
 
-  async bulkMarkAsConsumed(foodIds: number[]): Promise<ApiResponse<{ updated_count: number }>> {
-    return this.post<ApiResponse<{ updated_count: number }>>('/foods/bulk-consume', {
+  async bulkMarkAsConsumed(foodIds: number[]): Promise<number> {
+    const response = await this.post<ApiResponse<{ updated_count: number }>>('/foods/bulk-consume', {
       food_ids: foodIds
     });
+    return response.data!.updated_count;
   }
 
-  async search(query: string): Promise<PaginatedResponse<Food>> {
-    return this.get<PaginatedResponse<Food>>(`/foods/search?q=${encodeURIComponent(query)}`);
+  // Product lookup for a JAN/EAN code, with add-form values pre-filled; 404 when nothing is known about it
+  async scan(barcode: string): Promise<FoodScanResult> {
+    const response = await this.post<ApiResponse<{ scan: FoodScanResult }>>('/foods/scan', { barcode });
+    return response.data!.scan;
   }
 
-  async getExpiring(): Promise<Food[]> {
-    const response = await this.get<ApiResponse<Food[]>>('/foods/expiring');
-    return response.data;
+  async search(query: string): Promise<Food[]> {
+    const response = await this.get<ApiResponse<{ foods: Food[]; count: number }>>(
+      `/foods/search?q=${encodeURIComponent(query)}`
+    );
+    return response.data!.foods;
+  }
+
+  async getExpiring(days?: number): Promise<Food[]> {
+    const url = days !== undefined ? `/foods/expiring?days=${days}` : '/foods/expiring';
+    const response = await this.get<ApiResponse<{ foods: Food[]; count: number }>>(url);
+    return response.data!.foods;
   }
 
   async getExpired(): Promise<Food[]> {
-    const response = await this.get<ApiResponse<Food[]>>('/foods/expired');
-    return response.data;
+    const response = await this.get<ApiResponse<{ foods: Food[]; count: number }>>('/foods/expired');
+    return response.data!.foods;
   }
 
   async getStats(): Promise<FoodStats> {
-    const response = await this.get<ApiResponse<FoodStats>>('/foods/stats');
-    return response.data;
+    const response = await this.get<ApiResponse<{ stats: FoodStats }>>('/foods/stats');
+    return response.data!.stats;
+  }
+
+  async getAnalytics(params: {
+    from?: string;
+    to?: string;
+    granularity?: AnalyticsGranularity;
+  } = {}): Promise<FoodAnalytics> {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        query.append(key, value);
+      }
+    });
+
+    const queryString = query.toString();
+    const url = queryString ? `/foods/analytics?${queryString}` : '/foods/analytics';
+
+    const response = await this.get<ApiResponse<{ analytics: FoodAnalytics }>>(url);
+    return response.data!.analytics;
   }
 
   async getIngredients(): Promise<string[]> {
-    const response = await this.get<ApiResponse<string[]>>('/foods/ingredients');
-    return response.data;
-  }
-
-  async getStorageAdvice(): Promise<Array<{
-    food_name: string;
-    storage_location: string;
-    tips: string[];
-  }>> {
-    const response = await this.get<ApiResponse<Array<{
-      food_name: string;
-      storage_location: string;
-      tips: string[];
-    }>>>('/foods/storage-advice');
-    return response.data;
+    const response = await this.get<ApiResponse<{ ingredients: string[] }>>('/foods/ingredients');
+    return response.data!.ingredients;
+  }
+
+  async getStorageAdvice(foodName: string, category?: string): Promise<StorageTip | null> {
+    const params = new URLSearchParams({ food_name: foodName });
+    if (category) {
+      params.append('category', category);
+    }
+
+    const response = await this.get<ApiResponse<{ advice: StorageTip | null }>>(
+      `/foods/storage-advice?${params.toString()}`
+    );
+    return response.data!.advice;
   }
 
   async uploadImage(file: File, foodId?: number): Promise<{ image_url: string }> {
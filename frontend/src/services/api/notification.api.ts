@@ -1,13 +1,20 @@
 import { BaseApi } from './base.api';
-import { Notification, PaginatedResponse, ApiResponse } from '@shared/types';
+import {
+  Notification,
+  PaginatedResponse,
+  ApiResponse,
+  PushSubscriptionData,
+  UserPreferences,
+  UserPreferencesUpdateData
+} from '@shared/types';
 
 class NotificationApi extends BaseApi {
-  async getAll(): Promise<ApiResponse<Notification[]>> {
-    return this.get<ApiResponse<Notification[]>>('/notifications');
+  async getAll(): Promise<ApiResponse<PaginatedResponse<Notification>>> {
+    return this.get<ApiResponse<PaginatedResponse<Notification>>>('/notifications');
   }
 
-  async getUnread(): Promise<ApiResponse<Notification[]>> {
-    return this.get<ApiResponse<Notification[]>>('/notifications/unread');
+  async getUnread(): Promise<ApiResponse<{ notifications: Notification[]; unread_count: number }>> {
+    return this.get<ApiResponse<{ notifications: Notification[]; unread_count: number }>>('/notifications/unread');
   }
 
   async markAsRead(id: number): Promise<void> {
@@ -18,8 +25,29 @@ class NotificationApi extends BaseApi {
     return this.patch<void>('/notifications/mark-all-read');
   }
 
-  async delete(id: number): Promise<void> {
-    return this.delete<void>(`/notifications/${id}`);
+  async deleteNotification(id: number): Promise<void> {
+    await this.delete<ApiResponse<void>>(`/notifications/${id}`);
+  }
+
+  async getPreferences(): Promise<ApiResponse<{ preferences: UserPreferences }>> {
+    return this.get<ApiResponse<{ preferences: UserPreferences }>>('/notifications/preferences');
+  }
+
+  async updatePreferences(data: UserPreferencesUpdateData): Promise<ApiResponse<{ preferences: UserPreferences }>> {
+    return this.put<ApiResponse<{ preferences: UserPreferences }>>('/notifications/preferences', data);
+  }
+
+  // Web Push
+  async getPushPublicKey(): Promise<ApiResponse<{ public_key: string }>> {
+    return this.get<ApiResponse<{ public_key: string }>>('/notifications/push/public-key');
+  }
+
+  async subscribePush(subscription: PushSubscriptionData): Promise<void> {
+    return this.post<void>('/notifications/push/subscriptions', subscription);
+  }
+
+  async unsubscribePush(endpoint: string): Promise<void> {
+    await this.delete<ApiResponse<void>>('/notifications/push/subscriptions', { data: { endpoint } });
   }
 }
 
@@ -0,0 +1,64 @@
+import { BaseApi } from './base.api';
+import {
+  RecipeDifficulty,
+  RecipeMatch,
+  RecipeSuggestionResponse,
+  RecipeWithIngredients,
+  ApiResponse
+} from '@shared/types';
+
+export interface RecipeSuggestionFilters {
+  ingredients?: string[];
+  max_prep_time?: number;
+  max_cook_time?: number;
+  difficulty?: RecipeDifficulty;
+  limit?: number;
+  expiring_within_days?: number;
+}
+
+class RecipeApi extends BaseApi {
+  // Ranked against the household's inventory on the server
+  async getSuggestions(filters: RecipeSuggestionFilters = {}): Promise<RecipeSuggestionResponse> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined) {
+        params.append(key, Array.isArray(value) ? value.join(',') : value.toString());
+      }
+    });
+
+    const queryString = params.toString();
+    const url = queryString ? `/recipes/suggestions?${queryString}` : '/recipes/suggestions';
+
+    const response = await this.get<ApiResponse<RecipeSuggestionResponse>>(url);
+    return response.data!;
+  }
+
+  async search(query: string): Promise<RecipeMatch[]> {
+    const response = await this.get<ApiResponse<{ recipes: RecipeMatch[]; count: number }>>(
+      `/recipes/search?q=${encodeURIComponent(query)}`
+    );
+    return response.data!.recipes;
+  }
+
+  async getById(id: number): Promise<RecipeWithIngredients> {
+    const response = await this.get<ApiResponse<{ recipe: RecipeWithIngredients }>>(`/recipes/${id}`);
+    return response.data!.recipe;
+  }
+
+  async getFavorites(): Promise<RecipeWithIngredients[]> {
+    const response = await this.get<ApiResponse<{ recipes: RecipeWithIngredients[]; count: number }>>(
+      '/recipes/favorites'
+    );
+    return response.data!.recipes;
+  }
+
+  async addToFavorites(id: number): Promise<void> {
+    await this.post<ApiResponse<void>>(`/recipes/favorite/${id}`);
+  }
+
+  async removeFromFavorites(id: number): Promise<void> {
+    await this.delete<ApiResponse<void>>(`/recipes/favorite/${id}`);
+  }
+}
+
+export const recipeApi = new RecipeApi();
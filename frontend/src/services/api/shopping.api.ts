@@ -0,0 +1,80 @@
+import { BaseApi } from './base.api';
+import {
+  ShoppingList,
+  ShoppingListItem,
+  ShoppingListCreateData,
+  ShoppingListUpdateData,
+  ShoppingListItemCreateData,
+  ShoppingListItemUpdateData,
+  ShoppingListGenerateOptions,
+  ShoppingInventoryMoveResult,
+  ApiResponse
+} from '@shared/types';
+
+class ShoppingApi extends BaseApi {
+  async getLists(completed?: boolean): Promise<ShoppingList[]> {
+    const url = completed !== undefined ? `/shopping?completed=${completed}` : '/shopping';
+    const response = await this.get<ApiResponse<{ lists: ShoppingList[]; count: number }>>(url);
+    return response.data!.lists;
+  }
+
+  async getList(id: number): Promise<ShoppingList> {
+    const response = await this.get<ApiResponse<{ list: ShoppingList }>>(`/shopping/lists/${id}`);
+    return response.data!.list;
+  }
+
+  async createList(data: ShoppingListCreateData): Promise<ShoppingList> {
+    const response = await this.post<ApiResponse<{ list: ShoppingList }>>('/shopping/lists', data);
+    return response.data!.list;
+  }
+
+  async updateList(id: number, data: ShoppingListUpdateData): Promise<ShoppingList> {
+    const response = await this.put<ApiResponse<{ list: ShoppingList }>>(`/shopping/lists/${id}`, data);
+    return response.data!.list;
+  }
+
+  async deleteList(id: number): Promise<void> {
+    await this.delete<void>(`/shopping/lists/${id}`);
+  }
+
+  async completeList(id: number): Promise<ShoppingList> {
+    const response = await this.patch<ApiResponse<{ list: ShoppingList }>>(`/shopping/lists/${id}/complete`);
+    return response.data!.list;
+  }
+
+  async generateList(options: ShoppingListGenerateOptions = {}): Promise<ShoppingList> {
+    const response = await this.post<ApiResponse<{ list: ShoppingList }>>('/shopping/generate', options);
+    return response.data!.list;
+  }
+
+  async moveToInventory(listId: number): Promise<ShoppingInventoryMoveResult> {
+    const response = await this.post<ApiResponse<ShoppingInventoryMoveResult>>(
+      `/shopping/lists/${listId}/move-to-inventory`
+    );
+    return response.data!;
+  }
+
+  async addItem(listId: number, data: ShoppingListItemCreateData): Promise<ShoppingListItem> {
+    const response = await this.post<ApiResponse<{ item: ShoppingListItem }>>(`/shopping/lists/${listId}/items`, data);
+    return response.data!.item;
+  }
+
+  async updateItem(itemId: number, data: ShoppingListItemUpdateData): Promise<ShoppingListItem> {
+    const response = await this.put<ApiResponse<{ item: ShoppingListItem }>>(`/shopping/${itemId}`, data);
+    return response.data!.item;
+  }
+
+  async setPurchased(itemId: number, purchased: boolean): Promise<ShoppingListItem> {
+    const response = await this.patch<ApiResponse<{ item: ShoppingListItem }>>(
+      `/shopping/${itemId}/purchased`,
+      { purchased }
+    );
+    return response.data!.item;
+  }
+
+  async removeItem(itemId: number): Promise<void> {
+    await this.delete<void>(`/shopping/${itemId}`);
+  }
+}
+
+export const shoppingApi = new ShoppingApi();
@@ -0,0 +1,361 @@
+import { isAxiosError } from 'axios';
+import { Food, FoodCreateData, FoodUpdateData, PaginatedResponse } from '@shared/types';
+import { foodApi, FoodFilters } from '../api/food.api';
+import { offlineDb } from './offlineDb';
+
+const SYNC_TAG = 'food-mutations';
+// Replay outcomes surface through the conflict list and sync result, not one toast per request
+const SYNC_REQUEST = { silent: true };
+
+interface QueuedMutationBase {
+  id?: number;
+  user_id: number;
+  // Negative for foods created offline that the server hasn't assigned an id to yet
+  food_id: number;
+  queued_at: string;
+}
+
+export type QueuedFoodMutation =
+  | (QueuedMutationBase & { type: 'create'; data: FoodCreateData })
+  | (QueuedMutationBase & { type: 'update'; data: FoodUpdateData })
+  | (QueuedMutationBase & { type: 'consume'; expected_updated_at?: string });
+
+export interface FoodSyncConflict {
+  id: number;
+  user_id: number;
+  mutation: QueuedFoodMutation;
+  // null when the food was deleted on the server
+  server_food: Food | null;
+  detected_at: string;
+}
+
+export interface FoodSyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+}
+
+interface CachedFoodList {
+  key: string;
+  user_id: number;
+  data: PaginatedResponse<Food>;
+  cached_at: string;
+}
+
+// Only a missing response means we're offline; an error status came from a reachable server
+export function isNetworkError(error: unknown): boolean {
+  return isAxiosError(error) && !error.response;
+}
+
+function toVersion(updatedAt: Date | string): string {
+  return new Date(updatedAt).toISOString();
+}
+
+// Keeps the inventory usable without a connection: lists are cached in IndexedDB,
+// writes are queued and replayed in order through the regular API clients once back online
+class FoodSync {
+  private listeners = new Set<() => void>();
+  private replayPromise: Promise<FoodSyncResult> | null = null;
+  private lastTempId = 0;
+
+  isSupported(): boolean {
+    return offlineDb.isSupported();
+  }
+
+  isOffline(): boolean {
+    return !navigator.onLine;
+  }
+
+  // Fires whenever the queue or the conflict list changes
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async cacheFoods(userId: number, filters: FoodFilters, data: PaginatedResponse<Food>): Promise<void> {
+    const entry: CachedFoodList = {
+      key: this.cacheKey(userId, filters),
+      user_id: userId,
+      data,
+      cached_at: new Date().toISOString()
+    };
+    await offlineDb.put('queries', entry);
+  }
+
+  // The last list the server sent, with the queued changes applied on top
+  async getCachedFoods(userId: number, filters: FoodFilters): Promise<PaginatedResponse<Food>> {
+    const cached = await offlineDb.get<CachedFoodList>('queries', this.cacheKey(userId, filters));
+    const page = cached?.data ?? {
+      items: [],
+      total_count: 0,
+      page: filters.page ?? 1,
+      per_page: filters.per_page ?? 20,
+      total_pages: 0,
+      has_next: false,
+      has_prev: false
+    };
+
+    let items = [...page.items];
+    for (const mutation of await this.getPending(userId)) {
+      if (mutation.type === 'create') {
+        if (page.page === 1) {
+          items = [this.toDraftFood(mutation), ...items];
+        }
+      } else if (mutation.type === 'update') {
+        items = items.map(food => food.id === mutation.food_id ? this.applyUpdate(food, mutation.data) : food);
+      } else if (filters.status === 'active') {
+        items = items.filter(food => food.id !== mutation.food_id);
+      }
+    }
+
+    return { ...page, items };
+  }
+
+  async clearCache(): Promise<void> {
+    await offlineDb.clear('queries');
+  }
+
+  async getPending(userId: number): Promise<QueuedFoodMutation[]> {
+    const mutations = await offlineDb.getAll<QueuedFoodMutation>('mutations');
+    return mutations
+      .filter(mutation => mutation.user_id === userId)
+      .sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+  }
+
+  async getConflicts(userId: number): Promise<FoodSyncConflict[]> {
+    const conflicts = await offlineDb.getAll<FoodSyncConflict>('conflicts');
+    return conflicts.filter(conflict => conflict.user_id === userId);
+  }
+
+  async queueCreate(userId: number, data: FoodCreateData): Promise<Food> {
+    const mutation: QueuedFoodMutation = {
+      type: 'create',
+      user_id: userId,
+      food_id: this.nextTempId(),
+      data,
+      queued_at: new Date().toISOString()
+    };
+    mutation.id = Number(await offlineDb.put('mutations', mutation));
+
+    this.queued();
+    return this.toDraftFood(mutation);
+  }
+
+  async queueUpdate(userId: number, food: Food, data: FoodUpdateData): Promise<Food> {
+    const pending = await this.getPending(userId);
+    const previous = pending.find(mutation => mutation.type === 'update' && mutation.food_id === food.id);
+
+    // Edits to the same food collapse into one write so they share the version check
+    if (previous && previous.type === 'update') {
+      await offlineDb.put('mutations', { ...previous, data: { ...previous.data, ...data } });
+    } else {
+      await offlineDb.put('mutations', {
+        type: 'update',
+        user_id: userId,
+        food_id: food.id,
+        data: food.id > 0 ? { ...data, expected_updated_at: toVersion(food.updated_at) } : data,
+        queued_at: new Date().toISOString()
+      });
+    }
+
+    this.queued();
+    return this.applyUpdate(food, data);
+  }
+
+  async queueConsume(userId: number, food: Food): Promise<void> {
+    if (food.id < 0) {
+      return this.discardDraft(userId, food.id);
+    }
+
+    await offlineDb.put('mutations', {
+      type: 'consume',
+      user_id: userId,
+      food_id: food.id,
+      expected_updated_at: toVersion(food.updated_at),
+      queued_at: new Date().toISOString()
+    });
+
+    this.queued();
+  }
+
+  // A food created offline never reached the server, so dropping its queued writes removes it
+  async discardDraft(userId: number, foodId: number): Promise<void> {
+    const pending = await this.getPending(userId);
+    await Promise.all(
+      pending
+        .filter(mutation => mutation.food_id === foodId)
+        .map(mutation => offlineDb.delete('mutations', mutation.id!))
+    );
+
+    this.changed();
+  }
+
+  // Keeping ours re-queues the change without the version check so it overwrites the server copy
+  async resolveConflict(conflict: FoodSyncConflict, keep: 'server' | 'local'): Promise<void> {
+    await offlineDb.delete('conflicts', conflict.id);
+
+    if (keep === 'local' && conflict.server_food) {
+      const { id, ...mutation } = conflict.mutation;
+      if (mutation.type === 'update') {
+        const { expected_updated_at, ...data } = mutation.data;
+        await offlineDb.put('mutations', { ...mutation, data });
+      } else if (mutation.type === 'consume') {
+        await offlineDb.put('mutations', { ...mutation, expected_updated_at: undefined });
+      }
+    }
+
+    this.changed();
+  }
+
+  // Lets the service worker wake an open tab once connectivity returns, where supported
+  async requestBackgroundSync(): Promise<void> {
+    if (!('serviceWorker' in navigator)) return;
+
+    try {
+      const registration = await navigator.serviceWorker.ready as ServiceWorkerRegistration & {
+        sync?: { register(tag: string): Promise<void> };
+      };
+      await registration.sync?.register(SYNC_TAG);
+    } catch (error) {
+      console.error('Background sync registration failed:', error);
+    }
+  }
+
+  replay(userId: number): Promise<FoodSyncResult> {
+    // Online events, service worker messages and manual retries can overlap
+    if (!this.replayPromise) {
+      this.replayPromise = this.runReplay(userId).finally(() => {
+        this.replayPromise = null;
+      });
+    }
+
+    return this.replayPromise;
+  }
+
+  private async runReplay(userId: number): Promise<FoodSyncResult> {
+    const result: FoodSyncResult = { synced: 0, conflicts: 0, failed: 0 };
+    // Versions we wrote ourselves during this replay, so later queued edits
+    // to the same food don't trip over the earlier ones
+    const versions = new Map<number, string>();
+    const createdIds = new Map<number, number>();
+
+    for (const mutation of await this.getPending(userId)) {
+      const foodId = createdIds.get(mutation.food_id) ?? mutation.food_id;
+
+      // The create this edit depends on was rejected
+      if (mutation.type !== 'create' && foodId < 0) {
+        result.failed++;
+        await offlineDb.delete('mutations', mutation.id!);
+        continue;
+      }
+
+      try {
+        if (mutation.type === 'create') {
+          const food = await foodApi.create(mutation.data, SYNC_REQUEST);
+          createdIds.set(foodId, food.id);
+          // Persisted too, in case the connection drops before the follow-up edits go out
+          await this.remapFoodId(userId, foodId, food.id);
+        } else if (mutation.type === 'update') {
+          const version = versions.get(foodId);
+          const data = version !== undefined ? { ...mutation.data, expected_updated_at: version } : mutation.data;
+          const food = await foodApi.update(foodId, data, SYNC_REQUEST);
+          versions.set(foodId, toVersion(food.updated_at));
+        } else {
+          const food = await foodApi.markAsConsumed(
+            foodId,
+            versions.get(foodId) ?? mutation.expected_updated_at,
+            SYNC_REQUEST
+          );
+          versions.set(foodId, toVersion(food.updated_at));
+        }
+
+        result.synced++;
+      } catch (error) {
+        // Still offline: leave this and everything after it queued for the next attempt
+        if (isNetworkError(error)) break;
+
+        const status = isAxiosError(error) ? error.response?.status : undefined;
+        if (status === 409 || status === 404) {
+          await this.recordConflict(mutation, status === 409 ? await this.fetchServerFood(foodId) : null);
+          result.conflicts++;
+        } else {
+          // Validation errors won't go away on retry
+          console.error('Dropping queued food change the server rejected:', error);
+          result.failed++;
+        }
+      }
+
+      await offlineDb.delete('mutations', mutation.id!);
+    }
+
+    this.changed();
+    return result;
+  }
+
+  private async remapFoodId(userId: number, tempId: number, foodId: number): Promise<void> {
+    const pending = await this.getPending(userId);
+    await Promise.all(
+      pending
+        .filter(mutation => mutation.type !== 'create' && mutation.food_id === tempId)
+        .map(mutation => offlineDb.put('mutations', { ...mutation, food_id: foodId }))
+    );
+  }
+
+  private async recordConflict(mutation: QueuedFoodMutation, serverFood: Food | null): Promise<void> {
+    const conflict: FoodSyncConflict = {
+      id: mutation.id!,
+      user_id: mutation.user_id,
+      mutation,
+      server_food: serverFood,
+      detected_at: new Date().toISOString()
+    };
+    await offlineDb.put('conflicts', conflict);
+  }
+
+  private async fetchServerFood(foodId: number): Promise<Food | null> {
+    try {
+      return await foodApi.getById(foodId, SYNC_REQUEST);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private applyUpdate(food: Food, data: FoodUpdateData): Food {
+    const { expected_updated_at, ...changes } = data;
+    return { ...food, ...changes };
+  }
+
+  private toDraftFood(mutation: QueuedFoodMutation & { type: 'create' }): Food {
+    const queuedAt = new Date(mutation.queued_at);
+    return {
+      ...mutation.data,
+      id: mutation.food_id,
+      user_id: mutation.user_id,
+      status: 'active',
+      created_at: queuedAt,
+      updated_at: queuedAt
+    };
+  }
+
+  private nextTempId(): number {
+    this.lastTempId = Math.min(-Date.now(), this.lastTempId - 1);
+    return this.lastTempId;
+  }
+
+  private cacheKey(userId: number, filters: FoodFilters): string {
+    return `foods:${userId}:${JSON.stringify(filters)}`;
+  }
+
+  private queued(): void {
+    this.changed();
+    this.requestBackgroundSync();
+  }
+
+  private changed(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const foodSync = new FoodSync();
@@ -0,0 +1,77 @@
+const DB_NAME = 'foodkeeper-offline';
+const DB_VERSION = 1;
+
+export type OfflineStore = 'queries' | 'mutations' | 'conflicts';
+
+// Thin promise wrapper around IndexedDB; the stores are small enough that every call
+// can open its own transaction
+class OfflineDb {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async get<T>(store: OfflineStore, key: IDBValidKey): Promise<T | undefined> {
+    return this.request<T | undefined>(store, 'readonly', objectStore => objectStore.get(key));
+  }
+
+  async getAll<T>(store: OfflineStore): Promise<T[]> {
+    return this.request<T[]>(store, 'readonly', objectStore => objectStore.getAll());
+  }
+
+  // Returns the key, which is how auto-incremented ids are handed back
+  async put<T>(store: OfflineStore, value: T): Promise<IDBValidKey> {
+    return this.request<IDBValidKey>(store, 'readwrite', objectStore => objectStore.put(value));
+  }
+
+  async delete(store: OfflineStore, key: IDBValidKey): Promise<void> {
+    await this.request(store, 'readwrite', objectStore => objectStore.delete(key));
+  }
+
+  async clear(store: OfflineStore): Promise<void> {
+    await this.request(store, 'readwrite', objectStore => objectStore.clear());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore('queries', { keyPath: 'key' });
+          db.createObjectStore('mutations', { keyPath: 'id', autoIncrement: true });
+          db.createObjectStore('conflicts', { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private async request<T>(
+    store: OfflineStore,
+    mode: IDBTransactionMode,
+    run: (objectStore: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(store, mode);
+      const request = run(transaction.objectStore(store));
+
+      // Resolve on commit rather than on the request so writes are durable when the promise settles
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+export const offlineDb = new OfflineDb();
@@ -0,0 +1,84 @@
+import { PushSubscriptionData } from '@shared/types';
+import { notificationApi } from '../api/notification.api';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+// applicationServerKey must be the raw key bytes, the server hands it out base64url encoded
+function base64UrlToArrayBuffer(base64String: string): ArrayBuffer {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const rawData = atob(base64);
+
+  const buffer = new ArrayBuffer(rawData.length);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < rawData.length; i++) {
+    bytes[i] = rawData.charCodeAt(i);
+  }
+  return buffer;
+}
+
+class PushManager {
+  isSupported(): boolean {
+    return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+  }
+
+  async registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+    if (!('serviceWorker' in navigator)) return null;
+
+    try {
+      return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    } catch (error) {
+      console.error('Service worker registration failed:', error);
+      return null;
+    }
+  }
+
+  async getSubscription(): Promise<PushSubscription | null> {
+    if (!this.isSupported()) return null;
+
+    const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    return registration ? registration.pushManager.getSubscription() : null;
+  }
+
+  // Asks for permission, subscribes this browser and stores the subscription on the server
+  async subscribe(): Promise<PushSubscription> {
+    if (!this.isSupported()) {
+      throw new Error('このブラウザはプッシュ通知に対応していません');
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      throw new Error('通知が許可されていません');
+    }
+
+    const registration = await navigator.serviceWorker.ready;
+    const response = await notificationApi.getPushPublicKey();
+    const publicKey = response.data?.public_key;
+    if (!publicKey) {
+      throw new Error('プッシュ通知はサーバーで無効になっています');
+    }
+
+    const subscription = await registration.pushManager.getSubscription()
+      || await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: base64UrlToArrayBuffer(publicKey)
+      });
+
+    await notificationApi.subscribePush(subscription.toJSON() as PushSubscriptionData);
+    return subscription;
+  }
+
+  async unsubscribe(): Promise<void> {
+    const subscription = await this.getSubscription();
+    if (!subscription) return;
+
+    try {
+      await notificationApi.unsubscribePush(subscription.endpoint);
+    } finally {
+      // Stop receiving pushes even if the server no longer knew the subscription
+      await subscription.unsubscribe();
+    }
+  }
+}
+
+export const pushManager = new PushManager();
\ No newline at end of file
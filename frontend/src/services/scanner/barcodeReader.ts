@@ -0,0 +1,75 @@
+// The Barcode Detection API isn't in the TypeScript DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+}
+
+// Grocery packaging only carries JAN/EAN/UPC codes
+const RETAIL_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+// Same codes the server accepts for a product lookup
+const BARCODE_PATTERN = /^(\d{8}|\d{12,14})$/;
+
+function getDetectorClass(): BarcodeDetectorConstructor | undefined {
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+class BarcodeReader {
+  private detector: BarcodeDetectorInstance | null = null;
+
+  isSupported(): boolean {
+    return !!getDetectorClass();
+  }
+
+  canUseCamera(): boolean {
+    return this.isSupported() && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  isValidBarcode(value: string): boolean {
+    return BARCODE_PATTERN.test(value);
+  }
+
+  // Prefers the rear camera on phones
+  openCamera(): Promise<MediaStream> {
+    return navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: 'environment' } },
+      audio: false
+    });
+  }
+
+  async detect(source: ImageBitmapSource): Promise<string | null> {
+    const detector = this.getDetector();
+    if (!detector) return null;
+
+    const barcodes = await detector.detect(source);
+    return barcodes.map(barcode => barcode.rawValue).find(value => this.isValidBarcode(value)) ?? null;
+  }
+
+  async detectInFile(file: File): Promise<string | null> {
+    const bitmap = await createImageBitmap(file);
+    try {
+      return await this.detect(bitmap);
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  private getDetector(): BarcodeDetectorInstance | null {
+    const BarcodeDetector = getDetectorClass();
+    if (!BarcodeDetector) return null;
+
+    if (!this.detector) {
+      this.detector = new BarcodeDetector({ formats: RETAIL_FORMATS });
+    }
+    return this.detector;
+  }
+}
+
+export const barcodeReader = new BarcodeReader();
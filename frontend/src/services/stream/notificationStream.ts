@@ -0,0 +1,178 @@
+import { NotificationStreamEvent } from '@shared/types';
+import { API_BASE_URL, refreshAccessToken } from '../api/base.api';
+import { tokenManager } from '../auth/tokenManager';
+
+const STREAM_URL = `${API_BASE_URL}/notifications/stream`;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+// The server sends a heartbeat every 25 seconds; silence for longer means a dead connection
+const IDLE_TIMEOUT_MS = 60 * 1000;
+
+export interface NotificationStreamHandlers {
+  onEvent: (event: NotificationStreamEvent) => void;
+  onConnectionChange: (connected: boolean) => void;
+}
+
+// EventSource can't send an Authorization header, so the stream is read with fetch
+// and parsed here; this keeps the access token out of the URL and server logs
+class NotificationStream {
+  private handlers: NotificationStreamHandlers | null = null;
+  private controller: AbortController | null = null;
+  private reconnectTimer: number | null = null;
+  private reconnectDelay = 5000;
+  private failures = 0;
+
+  isSupported(): boolean {
+    return typeof window.fetch === 'function' && typeof ReadableStream !== 'undefined' && 'TextDecoder' in window;
+  }
+
+  connect(handlers: NotificationStreamHandlers): void {
+    this.disconnect();
+
+    if (!this.isSupported()) {
+      handlers.onConnectionChange(false);
+      return;
+    }
+
+    this.handlers = handlers;
+    this.open();
+  }
+
+  disconnect(): void {
+    this.handlers = null;
+    this.failures = 0;
+
+    if (this.reconnectTimer !== null) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  private async open(): Promise<void> {
+    const handlers = this.handlers;
+    if (!handlers) return;
+
+    const controller = new AbortController();
+    this.controller = controller;
+
+    let idleTimer: number | null = null;
+    const resetIdleTimer = () => {
+      if (idleTimer !== null) window.clearTimeout(idleTimer);
+      idleTimer = window.setTimeout(() => controller.abort(), IDLE_TIMEOUT_MS);
+    };
+
+    try {
+      const response = await this.request(controller.signal);
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Notification stream responded ${response.status}`);
+      }
+
+      this.failures = 0;
+      handlers.onConnectionChange(true);
+
+      resetIdleTimer();
+      await this.read(response.body, resetIdleTimer);
+    } catch (error) {
+      // disconnect() aborted on purpose; nothing to report
+      if (this.controller !== controller) return;
+      this.failures++;
+    } finally {
+      if (idleTimer !== null) window.clearTimeout(idleTimer);
+    }
+
+    if (this.controller !== controller) return;
+
+    // The server ends streams periodically, so a clean close just means reconnect
+    handlers.onConnectionChange(false);
+    this.scheduleReconnect();
+  }
+
+  private async request(signal: AbortSignal): Promise<Response> {
+    const send = (token: string | null) => fetch(STREAM_URL, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      cache: 'no-store',
+      signal,
+    });
+
+    let token = tokenManager.getAccessToken();
+    const refreshToken = tokenManager.getRefreshToken();
+
+    if ((!token || !tokenManager.isTokenValid(token)) && refreshToken) {
+      token = await refreshAccessToken(refreshToken);
+    }
+
+    const response = await send(token);
+
+    // Same single-flight refresh as the API clients, so the rotated token isn't replayed
+    if (response.status === 401 && refreshToken) {
+      return send(await refreshAccessToken(refreshToken));
+    }
+
+    return response;
+  }
+
+  private async read(body: ReadableStream<Uint8Array>, onActivity: () => void): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      onActivity();
+      buffer += decoder.decode(value, { stream: true });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() || '';
+      blocks.forEach(block => this.handleBlock(block));
+    }
+  }
+
+  // Minimal SSE parser: the event type is repeated inside the JSON payload,
+  // so only the data and retry fields matter
+  private handleBlock(block: string): void {
+    const data: string[] = [];
+
+    for (const line of block.split(/\r?\n/)) {
+      if (!line || line.startsWith(':')) continue;
+
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+      if (field === 'data') {
+        data.push(value);
+      } else if (field === 'retry' && /^\d+$/.test(value)) {
+        this.reconnectDelay = Number(value);
+      }
+    }
+
+    if (data.length === 0) return;
+
+    try {
+      this.handlers?.onEvent(JSON.parse(data.join('\n')));
+    } catch (error) {
+      console.error('Failed to parse notification stream event:', error);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    // Exponential backoff with jitter so a restarted server isn't hit by every tab at once
+    const delay = Math.min(this.reconnectDelay * Math.pow(2, this.failures), MAX_RECONNECT_DELAY_MS);
+    const jitter = Math.random() * delay * 0.2;
+
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay + jitter);
+  }
+}
+
+export const notificationStream = new NotificationStream();
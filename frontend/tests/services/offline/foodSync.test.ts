@@ -0,0 +1,286 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { Food } from '@shared/types';
+import { foodSync, FoodSyncConflict, QueuedFoodMutation } from '../../../src/services/offline/foodSync';
+import { foodApi } from '../../../src/services/api/food.api';
+
+// In-memory stand-in for the IndexedDB stores, keyed the way offlineDb creates them
+const mockStores: Record<string, Map<IDBValidKey, any>> = {
+  queries: new Map(),
+  mutations: new Map(),
+  conflicts: new Map()
+};
+let mockNextMutationId = 1;
+
+jest.mock('../../../src/services/offline/offlineDb', () => ({
+  offlineDb: {
+    isSupported: () => true,
+    get: jest.fn(async (store: string, key: IDBValidKey) => mockStores[store]!.get(key)),
+    getAll: jest.fn(async (store: string) => Array.from(mockStores[store]!.values())),
+    put: jest.fn(async (store: string, value: any) => {
+      if (store === 'mutations' && value.id === undefined) {
+        value = { ...value, id: mockNextMutationId++ };
+      }
+      const key = store === 'queries' ? value.key : value.id;
+      mockStores[store]!.set(key, value);
+      return key;
+    }),
+    delete: jest.fn(async (store: string, key: IDBValidKey) => {
+      mockStores[store]!.delete(key);
+    }),
+    clear: jest.fn(async (store: string) => mockStores[store]!.clear())
+  }
+}));
+
+jest.mock('../../../src/services/api/food.api', () => ({
+  foodApi: {
+    create: jest.fn(),
+    update: jest.fn(),
+    markAsConsumed: jest.fn(),
+    getById: jest.fn()
+  }
+}));
+
+const api = foodApi as jest.Mocked<typeof foodApi>;
+const USER_ID = 1;
+
+function buildFood(overrides: Partial<Food> = {}): Food {
+  return {
+    id: 10,
+    user_id: USER_ID,
+    category_id: 1,
+    name: '牛乳',
+    purchase_date: '2026-10-01',
+    expiry_date: '2026-10-20',
+    quantity: 1,
+    unit: 'L',
+    storage_location: '冷蔵庫',
+    status: 'active',
+    created_at: new Date('2026-10-01T00:00:00.000Z'),
+    updated_at: new Date('2026-10-01T09:00:00.000Z'),
+    ...overrides
+  };
+}
+
+function httpError(status: number): AxiosError {
+  return new AxiosError('Request failed', 'ERR_BAD_REQUEST', undefined, undefined, {
+    status,
+    statusText: '',
+    headers: {},
+    data: {},
+    config: {}
+  } as AxiosResponse);
+}
+
+async function pending(): Promise<QueuedFoodMutation[]> {
+  return foodSync.getPending(USER_ID);
+}
+
+describe('foodSync replay', () => {
+  beforeAll(() => {
+    // Node has no navigator; queueing asks it for a service worker to register background sync with
+    Object.defineProperty(globalThis, 'navigator', { value: { onLine: true }, configurable: true });
+  });
+
+  beforeEach(() => {
+    Object.values(mockStores).forEach(store => store.clear());
+    mockNextMutationId = 1;
+    jest.clearAllMocks();
+  });
+
+  it('sends queued edits with the version they were made against', async () => {
+    const food = buildFood();
+    api.update.mockResolvedValue(buildFood({ quantity: 0.5, updated_at: new Date('2026-10-02T09:00:00.000Z') }));
+
+    await foodSync.queueUpdate(USER_ID, food, { quantity: 0.5 });
+    const result = await foodSync.replay(USER_ID);
+
+    expect(api.update).toHaveBeenCalledWith(
+      10,
+      { quantity: 0.5, expected_updated_at: '2026-10-01T09:00:00.000Z' },
+      { silent: true }
+    );
+    expect(result).toEqual({ synced: 1, conflicts: 0, failed: 0 });
+    expect(await pending()).toEqual([]);
+  });
+
+  it('records a 409 as a conflict holding the current server copy', async () => {
+    const serverFood = buildFood({ quantity: 2, updated_at: new Date('2026-10-03T09:00:00.000Z') });
+    api.update.mockRejectedValue(httpError(409));
+    api.getById.mockResolvedValue(serverFood);
+
+    await foodSync.queueUpdate(USER_ID, buildFood(), { quantity: 0.5 });
+    const result = await foodSync.replay(USER_ID);
+    const [conflict] = await foodSync.getConflicts(USER_ID);
+
+    expect(result).toEqual({ synced: 0, conflicts: 1, failed: 0 });
+    expect(api.getById).toHaveBeenCalledWith(10, { silent: true });
+    expect(conflict).toMatchObject({
+      user_id: USER_ID,
+      server_food: serverFood,
+      mutation: { type: 'update', food_id: 10, data: { quantity: 0.5 } }
+    });
+    expect(await pending()).toEqual([]);
+  });
+
+  it('records a 404 as a conflict with the food gone', async () => {
+    api.markAsConsumed.mockRejectedValue(httpError(404));
+
+    await foodSync.queueConsume(USER_ID, buildFood());
+    const result = await foodSync.replay(USER_ID);
+    const [conflict] = await foodSync.getConflicts(USER_ID);
+
+    expect(result.conflicts).toBe(1);
+    expect(api.getById).not.toHaveBeenCalled();
+    expect(conflict).toMatchObject({ server_food: null, mutation: { type: 'consume', food_id: 10 } });
+  });
+
+  it('keeps the queue intact when the network is still down', async () => {
+    api.update.mockRejectedValue(new AxiosError('Network Error', 'ERR_NETWORK'));
+
+    await foodSync.queueUpdate(USER_ID, buildFood(), { quantity: 0.5 });
+    await foodSync.queueConsume(USER_ID, buildFood({ id: 11 }));
+    const result = await foodSync.replay(USER_ID);
+
+    expect(result).toEqual({ synced: 0, conflicts: 0, failed: 0 });
+    expect(api.markAsConsumed).not.toHaveBeenCalled();
+    expect((await pending()).map(mutation => mutation.type)).toEqual(['update', 'consume']);
+    expect(await foodSync.getConflicts(USER_ID)).toEqual([]);
+  });
+
+  it('drops changes the server rejects outright', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    api.update.mockRejectedValue(httpError(400));
+
+    await foodSync.queueUpdate(USER_ID, buildFood(), { quantity: -1 });
+    const result = await foodSync.replay(USER_ID);
+
+    expect(result).toEqual({ synced: 0, conflicts: 0, failed: 1 });
+    expect(await pending()).toEqual([]);
+    expect(await foodSync.getConflicts(USER_ID)).toEqual([]);
+  });
+
+  it('checks later writes against the version its own earlier write produced', async () => {
+    api.update.mockResolvedValue(buildFood({ quantity: 0.5, updated_at: new Date('2026-10-02T09:00:00.000Z') }));
+    api.markAsConsumed.mockResolvedValue(buildFood({ status: 'consumed' }));
+
+    await foodSync.queueUpdate(USER_ID, buildFood(), { quantity: 0.5 });
+    await foodSync.queueConsume(USER_ID, buildFood());
+    await foodSync.replay(USER_ID);
+
+    expect(api.markAsConsumed).toHaveBeenCalledWith(10, '2026-10-02T09:00:00.000Z', { silent: true });
+  });
+
+  it('points edits of a food created offline at the id the server assigned', async () => {
+    const draft = await foodSync.queueCreate(USER_ID, {
+      name: '卵',
+      category_id: 1,
+      purchase_date: '2026-10-01',
+      expiry_date: '2026-10-15',
+      quantity: 10,
+      unit: '個',
+      storage_location: '冷蔵庫'
+    });
+    await foodSync.queueUpdate(USER_ID, draft, { quantity: 8 });
+    api.create.mockResolvedValue(buildFood({ id: 42, name: '卵' }));
+    api.update.mockResolvedValue(buildFood({ id: 42, name: '卵', quantity: 8 }));
+
+    const result = await foodSync.replay(USER_ID);
+
+    expect(draft.id).toBeLessThan(0);
+    expect(api.update).toHaveBeenCalledWith(42, { quantity: 8 }, { silent: true });
+    expect(result).toEqual({ synced: 2, conflicts: 0, failed: 0 });
+  });
+
+  it('fails edits whose offline create was rejected instead of sending a temporary id', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const draft = await foodSync.queueCreate(USER_ID, {
+      name: '',
+      category_id: 1,
+      purchase_date: '2026-10-01',
+      expiry_date: '2026-10-15',
+      quantity: 10,
+      unit: '個',
+      storage_location: '冷蔵庫'
+    });
+    await foodSync.queueUpdate(USER_ID, draft, { quantity: 8 });
+    api.create.mockRejectedValue(httpError(400));
+
+    const result = await foodSync.replay(USER_ID);
+
+    expect(api.update).not.toHaveBeenCalled();
+    expect(result).toEqual({ synced: 0, conflicts: 0, failed: 2 });
+  });
+});
+
+describe('foodSync conflict resolution', () => {
+  const conflict = (mutation: QueuedFoodMutation, serverFood: Food | null): FoodSyncConflict => ({
+    id: mutation.id!,
+    user_id: USER_ID,
+    mutation,
+    server_food: serverFood,
+    detected_at: '2026-10-03T09:00:00.000Z'
+  });
+
+  beforeEach(() => {
+    Object.values(mockStores).forEach(store => store.clear());
+    mockNextMutationId = 1;
+  });
+
+  it('re-queues our edit without the version check when keeping the local change', async () => {
+    const stale = conflict({
+      id: 7,
+      type: 'update',
+      user_id: USER_ID,
+      food_id: 10,
+      data: { quantity: 0.5, expected_updated_at: '2026-10-01T09:00:00.000Z' },
+      queued_at: '2026-10-02T09:00:00.000Z'
+    }, buildFood());
+    mockStores.conflicts!.set(stale.id, stale);
+
+    await foodSync.resolveConflict(stale, 'local');
+
+    expect(await foodSync.getConflicts(USER_ID)).toEqual([]);
+    expect(await pending()).toEqual([
+      expect.objectContaining({ type: 'update', food_id: 10, data: { quantity: 0.5 } })
+    ]);
+  });
+
+  it('re-queues a consumption without the version check when keeping the local change', async () => {
+    const stale = conflict({
+      id: 8,
+      type: 'consume',
+      user_id: USER_ID,
+      food_id: 10,
+      expected_updated_at: '2026-10-01T09:00:00.000Z',
+      queued_at: '2026-10-02T09:00:00.000Z'
+    }, buildFood());
+    mockStores.conflicts!.set(stale.id, stale);
+
+    await foodSync.resolveConflict(stale, 'local');
+
+    const [requeued] = await pending();
+    expect(requeued).toMatchObject({ type: 'consume', food_id: 10 });
+    expect(requeued && 'expected_updated_at' in requeued && requeued.expected_updated_at).toBeFalsy();
+  });
+
+  it('just forgets our change when keeping the server copy or the food is gone', async () => {
+    const mutation: QueuedFoodMutation = {
+      id: 9,
+      type: 'update',
+      user_id: USER_ID,
+      food_id: 10,
+      data: { quantity: 0.5 },
+      queued_at: '2026-10-02T09:00:00.000Z'
+    };
+    const keepServer = conflict(mutation, buildFood());
+    const deleted = conflict({ ...mutation, id: 10 }, null);
+    mockStores.conflicts!.set(keepServer.id, keepServer);
+    mockStores.conflicts!.set(deleted.id, deleted);
+
+    await foodSync.resolveConflict(keepServer, 'server');
+    await foodSync.resolveConflict(deleted, 'local');
+
+    expect(await foodSync.getConflicts(USER_ID)).toEqual([]);
+    expect(await pending()).toEqual([]);
+  });
+});
@@ -1,3 +1,7 @@
+import { z } from 'zod';
+import { LLMError, LLMProvider, createLLMProvider } from './llm-provider.js';
+import { IngredientMatcher } from './ingredient-matcher.js';
+
 export interface RecipeRequest {
   ingredients: string[];
   dietary_restrictions?: string[];
@@ -26,6 +30,7 @@ export interface BarcodeProduct {
   name: string;
   brand?: string;
   category?: string;
+  image_url?: string;
   nutritional_info?: {
     calories?: number;
     protein?: number;
@@ -34,27 +39,66 @@ export interface BarcodeProduct {
   };
 }
 
+// Runtime counterpart of the Recipe interface, used to validate LLM output
+const RecipeSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  ingredients: z.array(z.object({
+    name: z.string().min(1),
+    amount: z.coerce.string(),
+    unit: z.string()
+  })).min(1),
+  instructions: z.array(z.string().min(1)).min(1),
+  prep_time: z.number().int().nonnegative(),
+  cook_time: z.number().int().nonnegative(),
+  servings: z.number().int().positive(),
+  difficulty: z.enum(['easy', 'medium', 'hard']),
+  tags: z.array(z.string())
+});
+
+// Models answer either with a bare array or with { "recipes": [...] } (JSON mode requires an object)
+const RecipeResponseSchema = z.union([
+  z.array(RecipeSchema),
+  z.object({ recipes: z.array(RecipeSchema) }).transform(response => response.recipes)
+]);
+
+export class RecipeParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeParseError';
+  }
+}
+
 export class AIService {
-  private apiKey: string;
-  private baseUrl: string;
+  private llmProvider: LLMProvider | null;
+  private timeout: number;
+  private maxRetries: number;
+  private barcodeApiUrl: string;
+  private barcodeApiTimeout: number;
 
-  constructor() {
-    this.apiKey = process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY || '';
-    this.baseUrl = process.env.AI_API_BASE_URL || 'https://api.openai.com/v1';
+  constructor(llmProvider: LLMProvider | null = createLLMProvider()) {
+    this.llmProvider = llmProvider;
+    this.timeout = parseInt(process.env.AI_TIMEOUT_MS || '30000');
+    this.maxRetries = parseInt(process.env.AI_MAX_RETRIES || '2');
+    this.barcodeApiUrl = process.env.BARCODE_API_URL || 'https://world.openfoodfacts.org';
+    this.barcodeApiTimeout = parseInt(process.env.BARCODE_API_TIMEOUT || '5000');
   }
 
   async generateRecipeSuggestions(request: RecipeRequest): Promise<Recipe[]> {
-    if (!this.apiKey) {
-      // Return mock data if no API key is configured
+    if (!this.llmProvider) {
+      // Return mock data if no LLM provider is configured
       return this.getMockRecipes(request);
     }
 
+    const prompt = this.buildRecipePrompt(request);
+
     try {
-      const prompt = this.buildRecipePrompt(request);
-      const response = await this.callAI(prompt);
-      return this.parseRecipeResponse(response);
+      return await this.withRetries(async () => {
+        const response = await this.callAI(prompt);
+        return this.parseRecipeResponse(response).slice(0, request.max_recipes || 5);
+      });
     } catch (error) {
-      console.error('AI recipe generation failed:', error);
+      console.error(`AI recipe generation via ${this.llmProvider.name} failed:`, error);
       return this.getMockRecipes(request);
     }
   }
@@ -85,23 +129,66 @@ export class AIService {
 - 難易度
 - タグ
 
-JSON形式で回答してください。`;
+次のJSON形式のみで回答してください（説明文は不要です）：
+{"recipes": [{"name": "料理名", "description": "説明", "ingredients": [{"name": "食材名", "amount": "100", "unit": "g"}], "instructions": ["手順1"], "prep_time": 10, "cook_time": 15, "servings": 2, "difficulty": "easy | medium | hard", "tags": ["タグ"]}]}`;
 
     return prompt;
   }
 
   private async callAI(prompt: string): Promise<string> {
-    // This would implement the actual AI API call
-    // For now, returning mock response
-    throw new Error('AI API not implemented');
+    if (!this.llmProvider) {
+      throw new LLMError('No LLM provider configured', false);
+    }
+
+    return this.llmProvider.complete(prompt, {
+      system: 'あなたは食品ロス削減を手助けする料理アシスタントです。指定されたJSON形式のみで回答します。',
+      signal: AbortSignal.timeout(this.timeout)
+    });
+  }
+
+  private async withRetries<T>(operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        // Malformed output is retried too: a second sample is usually well-formed
+        const retryable = error instanceof RecipeParseError || (error instanceof LLMError && error.retryable);
+        if (!retryable || attempt >= this.maxRetries) {
+          throw error;
+        }
+
+        const delay = 500 * 2 ** attempt;
+        console.warn(`AI request failed (attempt ${attempt + 1}/${this.maxRetries + 1}), retrying in ${delay}ms:`, (error as Error).message);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
   }
 
   private parseRecipeResponse(response: string): Recipe[] {
+    // Tolerate answers wrapped in a markdown code fence
+    const json = response.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+    let parsed: unknown;
     try {
-      return JSON.parse(response);
+      parsed = JSON.parse(json);
     } catch {
-      return [];
+      throw new RecipeParseError(`AI response is not valid JSON: ${response.slice(0, 100)}`);
+    }
+
+    const result = RecipeResponseSchema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues
+        .slice(0, 5)
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new RecipeParseError(`AI response does not match the recipe schema: ${issues}`);
     }
+
+    if (result.data.length === 0) {
+      throw new RecipeParseError('AI response contained no recipes');
+    }
+
+    return result.data;
   }
 
   private getMockRecipes(request: RecipeRequest): Recipe[] {
@@ -151,28 +238,51 @@ JSON形式で回答してください。`;
   }
 
   async lookupBarcode(barcode: string): Promise<BarcodeProduct | null> {
-    // This would implement barcode lookup via external API
-    // For now, returning mock data
+    // Open Food Facts style product search; returns null when the code is unknown
+    const url = new URL('/api/v2/search', this.barcodeApiUrl);
+    url.searchParams.set('code', barcode);
+    url.searchParams.set('fields', 'code,product_name,product_name_ja,brands,categories,image_url,nutriments');
+
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'FoodWasteReductionMCP/1.0' },
+      signal: AbortSignal.timeout(this.barcodeApiTimeout)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Barcode lookup failed with status ${response.status}`);
+    }
+
+    const data = await response.json() as { products?: any[] };
+    const product = data.products?.find(p => !p.code || p.code === barcode);
+    const name = product?.product_name_ja || product?.product_name;
+
+    if (!product || !name) {
+      return null;
+    }
+
+    const nutriments = product.nutriments || {};
     return {
       barcode,
-      name: `商品 ${barcode}`,
-      brand: 'サンプルブランド',
-      category: '食品',
+      name: name.trim(),
+      brand: product.brands?.split(',')[0]?.trim() || undefined,
+      category: product.categories || undefined,
+      image_url: product.image_url || undefined,
       nutritional_info: {
-        calories: 100,
-        protein: 5,
-        carbs: 15,
-        fat: 2
+        calories: nutriments['energy-kcal_100g'],
+        protein: nutriments.proteins_100g,
+        carbs: nutriments.carbohydrates_100g,
+        fat: nutriments.fat_100g
       }
     };
   }
 
-  async generateShoppingRecommendations(currentInventory: string[], recipeIngredients: string[]): Promise<Array<{name: string, reason: string}>> {
+  async generateShoppingRecommendations(
+    currentInventory: string[],
+    recipeIngredients: string[],
+    matcher: IngredientMatcher = new IngredientMatcher()
+  ): Promise<Array<{name: string, reason: string}>> {
     const needed = recipeIngredients.filter(ingredient =>
-      !currentInventory.some(inv =>
-        inv.toLowerCase().includes(ingredient.toLowerCase()) ||
-        ingredient.toLowerCase().includes(inv.toLowerCase())
-      )
+      !currentInventory.some(inv => matcher.matches(inv, ingredient))
     );
 
     return needed.map(ingredient => ({
@@ -135,6 +135,45 @@ export class DatabaseService {
     return result.rows;
   }
 
+  async getCatalogProduct(barcode: string): Promise<any | null> {
+    const query = `
+      SELECT pc.*, c.name as category_name
+      FROM product_catalog pc
+      LEFT JOIN categories c ON pc.category_id = c.id
+      WHERE pc.barcode = $1
+    `;
+
+    const result = await this.pool.query(query, [barcode]);
+    return result.rows[0] || null;
+  }
+
+  async saveCatalogProduct(product: {
+    barcode: string;
+    name: string;
+    brand?: string;
+    categories?: string;
+    image_url?: string;
+    source: string;
+  }): Promise<any> {
+    // Never overwrite an entry the backend has already mapped to a category
+    const query = `
+      INSERT INTO product_catalog (barcode, name, brand, categories, image_url, source)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (barcode) DO NOTHING
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [
+      product.barcode,
+      product.name,
+      product.brand || null,
+      product.categories || null,
+      product.image_url || null,
+      product.source,
+    ]);
+    return result.rows[0];
+  }
+
   async getUserIngredients(userId: number): Promise<string[]> {
     const query = `
       SELECT DISTINCT name
@@ -148,6 +187,24 @@ export class DatabaseService {
     return result.rows.map(row => row.name);
   }
 
+  async getIngredientSynonyms(): Promise<Array<{ canonical_name: string; synonym: string }>> {
+    const result = await this.pool.query('SELECT canonical_name, synonym FROM ingredient_synonyms');
+    return result.rows;
+  }
+
+  async getRecipeIngredients(recipeIds: number[]): Promise<Array<{ ingredient_name: string; optional: boolean }>> {
+    const query = `
+      SELECT ri.ingredient_name, ri.optional
+      FROM recipe_ingredients ri
+      JOIN recipes r ON r.id = ri.recipe_id
+      WHERE ri.recipe_id = ANY($1) AND r.is_active = TRUE
+      ORDER BY ri.recipe_id, ri.id
+    `;
+
+    const result = await this.pool.query(query, [recipeIds]);
+    return result.rows;
+  }
+
   async getShoppingList(userId: number): Promise<any[]> {
     const query = `
       SELECT * FROM shopping_lists
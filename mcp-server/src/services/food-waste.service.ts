@@ -1,5 +1,8 @@
 import { DatabaseService } from './database.service.js';
 import { AIService, Recipe, BarcodeProduct } from './ai.service.js';
+import { IngredientMatcher } from './ingredient-matcher.js';
+
+const SYNONYM_CACHE_TTL_MS = 10 * 60 * 1000;
 
 export interface FoodInventoryFilter {
   user_id: number;
@@ -28,6 +31,12 @@ export interface RecipeSuggestionRequest {
   max_recipes?: number;
 }
 
+export interface RecipeSuggestion extends Recipe {
+  matched_ingredients: string[];
+  missing_ingredients: string[];
+  match_score: number;
+}
+
 export interface ShoppingListRequest {
   user_id: number;
   recipe_ids?: number[];
@@ -39,6 +48,8 @@ export interface StorageAdviceRequest {
 }
 
 export class FoodWasteService {
+  private matcherCache: { matcher: IngredientMatcher; expiresAt: number } | null = null;
+
   constructor(
     private databaseService: DatabaseService,
     private aiService: AIService
@@ -78,7 +89,7 @@ export class FoodWasteService {
     return food;
   }
 
-  async getRecipeSuggestions(request: RecipeSuggestionRequest): Promise<Recipe[]> {
+  async getRecipeSuggestions(request: RecipeSuggestionRequest): Promise<RecipeSuggestion[]> {
     // Get user's available ingredients
     const availableIngredients = await this.databaseService.getUserIngredients(request.user_id);
 
@@ -102,7 +113,17 @@ export class FoodWasteService {
     // Save recipe suggestions to database for future reference
     await this.saveRecipeSuggestions(request.user_id, recipes);
 
-    return recipes;
+    // Check the suggestions against what is actually in stock, best coverage first
+    const matcher = await this.getMatcher();
+    return recipes
+      .map(recipe => {
+        const { matched, missing, score } = matcher.matchIngredients(
+          availableIngredients,
+          recipe.ingredients.map(ingredient => ({ ingredient_name: ingredient.name }))
+        );
+        return { ...recipe, matched_ingredients: matched, missing_ingredients: missing, match_score: score };
+      })
+      .sort((a, b) => b.match_score - a.match_score);
   }
 
   async generateShoppingList(request: ShoppingListRequest): Promise<any[]> {
@@ -114,9 +135,13 @@ export class FoodWasteService {
     let neededIngredients: string[] = [];
 
     if (request.recipe_ids && request.recipe_ids.length > 0) {
-      // Get ingredients from selected recipes
-      const recipeIngredients = await this.getRecipeIngredients(request.recipe_ids);
-      neededIngredients = recipeIngredients;
+      // Optional ingredients are never bought just for the recipe
+      const recipeIngredients = await this.databaseService.getRecipeIngredients(request.recipe_ids);
+      neededIngredients = [...new Set(
+        recipeIngredients
+          .filter(ingredient => !ingredient.optional)
+          .map(ingredient => ingredient.ingredient_name)
+      )];
     } else {
       // Generate based on low inventory and expiring items
       neededIngredients = await this.getRecommendedItems(userId);
@@ -125,7 +150,8 @@ export class FoodWasteService {
     // Use AI to refine shopping recommendations
     const recommendations = await this.aiService.generateShoppingRecommendations(
       currentInventory,
-      neededIngredients
+      neededIngredients,
+      await this.getMatcher()
     );
 
     // Convert to shopping list format and save to database
@@ -145,8 +171,8 @@ export class FoodWasteService {
   }
 
   async scanBarcode(barcode: string): Promise<BarcodeProduct | null> {
-    // Lookup product information using barcode
-    const product = await this.aiService.lookupBarcode(barcode);
+    // Prefer the shared product catalog, falling back to the external lookup
+    const product = await this.findCatalogProduct(barcode);
 
     if (product) {
       // Enrich with storage advice
@@ -160,6 +186,33 @@ export class FoodWasteService {
     return null;
   }
 
+  private async findCatalogProduct(barcode: string): Promise<BarcodeProduct | null> {
+    const cached = await this.databaseService.getCatalogProduct(barcode);
+    if (cached) {
+      return {
+        barcode: cached.barcode,
+        name: cached.name,
+        brand: cached.brand || undefined,
+        category: cached.category_name || cached.categories || undefined,
+        image_url: cached.image_url || undefined
+      };
+    }
+
+    const product = await this.aiService.lookupBarcode(barcode);
+    if (product) {
+      await this.databaseService.saveCatalogProduct({
+        barcode,
+        name: product.name,
+        brand: product.brand,
+        categories: product.category,
+        image_url: product.image_url,
+        source: 'openfoodfacts'
+      });
+    }
+
+    return product;
+  }
+
   async getExpiryAlerts(userId: number, daysAhead: number = 3): Promise<any[]> {
     const expiringFoods = await this.databaseService.getExpiringFoods(userId, daysAhead);
 
@@ -193,10 +246,23 @@ export class FoodWasteService {
     console.log(`Saved ${recipes.length} recipe suggestions for user ${userId}`);
   }
 
-  private async getRecipeIngredients(recipeIds: number[]): Promise<string[]> {
-    // Get ingredients from specific recipes
-    // Mock implementation - in reality would query database
-    return ['tomato', 'onion', 'garlic', 'olive oil'];
+  // The synonym dictionary is shared with the backend through the ingredient_synonyms table
+  private async getMatcher(): Promise<IngredientMatcher> {
+    if (this.matcherCache && this.matcherCache.expiresAt > Date.now()) {
+      return this.matcherCache.matcher;
+    }
+
+    try {
+      const synonyms = await this.databaseService.getIngredientSynonyms();
+      this.matcherCache = {
+        matcher: new IngredientMatcher(synonyms),
+        expiresAt: Date.now() + SYNONYM_CACHE_TTL_MS
+      };
+      return this.matcherCache.matcher;
+    } catch (error) {
+      console.error('Failed to load ingredient synonyms:', error);
+      return this.matcherCache?.matcher ?? new IngredientMatcher();
+    }
   }
 
   private async getRecommendedItems(userId: number): Promise<string[]> {
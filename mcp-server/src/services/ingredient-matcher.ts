@@ -0,0 +1,120 @@
+// Port of IngredientMatcher in shared/utils. This package is built on its own and
+// cannot import the shared code, so changes to the matching rules belong in both.
+// The synonym dictionary itself is not duplicated: both read ingredient_synonyms.
+
+export interface IngredientSynonymEntry {
+  canonical_name: string;
+  synonym: string;
+}
+
+export interface IngredientMatchResult {
+  matched: string[];
+  missing: string[];
+  optional_matched: string[];
+  optional_missing: string[];
+  percentage: number;
+  score: number;
+}
+
+export class IngredientMatcher {
+  static readonly OPTIONAL_WEIGHT = 0.25;
+  static readonly PARTIAL_MATCH_WEIGHT = 0.75;
+  static readonly MIN_PARTIAL_LENGTH = 2;
+
+  private canonicalNames = new Map<string, string>();
+  private variants = new Map<string, Set<string>>();
+
+  constructor(synonyms: IngredientSynonymEntry[] = []) {
+    for (const entry of synonyms) {
+      const canonical = IngredientMatcher.normalize(entry.canonical_name);
+      const synonym = IngredientMatcher.normalize(entry.synonym);
+      if (!canonical || !synonym) continue;
+
+      this.canonicalNames.set(canonical, canonical);
+      this.canonicalNames.set(synonym, canonical);
+
+      if (!this.variants.has(canonical)) {
+        this.variants.set(canonical, new Set([canonical]));
+      }
+      this.variants.get(canonical)!.add(synonym);
+    }
+  }
+
+  static normalize(name: string): string {
+    return name
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(/\(.*?\)|【.*?】/g, '')
+      .replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60))
+      .replace(/[\s・,、]/g, '');
+  }
+
+  canonicalize(name: string): string {
+    const normalized = IngredientMatcher.normalize(name);
+    return this.canonicalNames.get(normalized) ?? normalized;
+  }
+
+  compare(a: string, b: string): number {
+    const canonicalA = this.canonicalize(a);
+    const canonicalB = this.canonicalize(b);
+
+    if (!canonicalA || !canonicalB) return 0;
+    if (canonicalA === canonicalB) return 1;
+
+    const normalizedA = IngredientMatcher.normalize(a);
+    const normalizedB = IngredientMatcher.normalize(b);
+
+    return this.contains(normalizedA, canonicalB) || this.contains(normalizedB, canonicalA)
+      ? IngredientMatcher.PARTIAL_MATCH_WEIGHT
+      : 0;
+  }
+
+  matches(a: string, b: string): boolean {
+    return this.compare(a, b) > 0;
+  }
+
+  matchIngredients(
+    available: string[],
+    ingredients: Array<{ ingredient_name: string; optional?: boolean }>
+  ): IngredientMatchResult {
+    const result: IngredientMatchResult = {
+      matched: [],
+      missing: [],
+      optional_matched: [],
+      optional_missing: [],
+      percentage: 0,
+      score: 0
+    };
+    let earned = 0;
+    let possible = 0;
+
+    for (const ingredient of ingredients) {
+      const weight = ingredient.optional ? IngredientMatcher.OPTIONAL_WEIGHT : 1;
+      const strength = Math.max(0, ...available.map(name => this.compare(name, ingredient.ingredient_name)));
+
+      possible += weight;
+      if (strength > 0) {
+        earned += weight * strength;
+        (ingredient.optional ? result.optional_matched : result.matched).push(ingredient.ingredient_name);
+      } else {
+        (ingredient.optional ? result.optional_missing : result.missing).push(ingredient.ingredient_name);
+      }
+    }
+
+    const coreCount = result.matched.length + result.missing.length;
+    result.percentage = coreCount > 0 ? Math.round((result.matched.length / coreCount) * 100) : 0;
+    result.score = possible > 0 ? Math.round((earned / possible) * 100) : 0;
+
+    return result;
+  }
+
+  private contains(name: string, canonical: string): boolean {
+    const variants = this.variants.get(canonical) ?? new Set([canonical]);
+
+    return [...variants].some(variant =>
+      variant.length >= IngredientMatcher.MIN_PARTIAL_LENGTH &&
+      variant.length * 2 >= name.length &&
+      name.includes(variant)
+    );
+  }
+}
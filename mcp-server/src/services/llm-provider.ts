@@ -0,0 +1,194 @@
+export type LLMProviderName = 'openai' | 'anthropic' | 'stub';
+
+export interface LLMCompletionOptions {
+  system?: string;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(prompt: string, options?: LLMCompletionOptions): Promise<string>;
+}
+
+export class LLMError extends Error {
+  public retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'LLMError';
+    this.retryable = retryable;
+  }
+}
+
+async function postJSON(url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    // Network failures and timeouts are worth another attempt
+    throw new LLMError(`LLM request failed: ${(error as Error).message}`, true);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new LLMError(
+      `LLM request failed with status ${response.status}: ${detail.slice(0, 200)}`,
+      response.status === 429 || response.status >= 500
+    );
+  }
+
+  return response.json();
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private apiKey: string;
+  private baseUrl: string;
+  private model: string;
+
+  constructor(apiKey: string, baseUrl: string = 'https://api.openai.com/v1', model: string = 'gpt-4o-mini') {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+  }
+
+  async complete(prompt: string, options: LLMCompletionOptions = {}): Promise<string> {
+    const messages = [
+      ...(options.system ? [{ role: 'system', content: options.system }] : []),
+      { role: 'user', content: prompt }
+    ];
+
+    const data = await postJSON(
+      `${this.baseUrl}/chat/completions`,
+      { Authorization: `Bearer ${this.apiKey}` },
+      {
+        model: this.model,
+        messages,
+        max_tokens: options.maxTokens || 2000,
+        response_format: { type: 'json_object' }
+      },
+      options.signal
+    );
+
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LLMError('OpenAI response did not contain message content', true);
+    }
+    return content;
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  private apiKey: string;
+  private baseUrl: string;
+  private model: string;
+
+  constructor(apiKey: string, baseUrl: string = 'https://api.anthropic.com/v1', model: string = 'claude-3-5-haiku-latest') {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+  }
+
+  async complete(prompt: string, options: LLMCompletionOptions = {}): Promise<string> {
+    const data = await postJSON(
+      `${this.baseUrl}/messages`,
+      { 'x-api-key': this.apiKey, 'anthropic-version': '2023-06-01' },
+      {
+        model: this.model,
+        max_tokens: options.maxTokens || 2000,
+        ...(options.system ? { system: options.system } : {}),
+        messages: [{ role: 'user', content: prompt }]
+      },
+      options.signal
+    );
+
+    const content = Array.isArray(data?.content)
+      ? data.content.filter((block: any) => block?.type === 'text').map((block: any) => block.text).join('')
+      : undefined;
+    if (!content) {
+      throw new LLMError('Anthropic response did not contain text content', true);
+    }
+    return content;
+  }
+}
+
+// Deterministic offline provider: the same prompt always yields the same recipes
+export class StubLLMProvider implements LLMProvider {
+  readonly name = 'stub' as const;
+
+  async complete(prompt: string): Promise<string> {
+    const ingredientsLine = prompt.match(/利用可能な食材：(.*)/)?.[1] || '';
+    const ingredients = ingredientsLine.split(',').map(i => i.trim()).filter(Boolean);
+    const count = parseInt(prompt.match(/レシピを(\d+)個/)?.[1] || '1');
+
+    const recipes = ingredients.slice(0, Math.max(1, count)).map((main, index) => {
+      const others = ingredients.filter(i => i !== main).slice(0, 2);
+      return {
+        name: `${main}の簡単炒め`,
+        description: `${main}を使ったシンプルな一品`,
+        ingredients: [main, ...others].map(name => ({ name, amount: '100', unit: 'g' })),
+        instructions: [`${main}を食べやすい大きさに切る`, 'フライパンで炒める', '塩コショウで味を調える'],
+        prep_time: 5 + index * 5,
+        cook_time: 10,
+        servings: 2,
+        difficulty: 'easy',
+        tags: ['簡単', '時短']
+      };
+    });
+
+    return JSON.stringify({ recipes });
+  }
+}
+
+export interface LLMProviderConfig {
+  provider?: string;
+  openaiApiKey?: string;
+  anthropicApiKey?: string;
+  openaiBaseUrl?: string;
+  anthropicBaseUrl?: string;
+  openaiModel?: string;
+  anthropicModel?: string;
+}
+
+export function readLLMProviderConfig(env: NodeJS.ProcessEnv = process.env): LLMProviderConfig {
+  return {
+    provider: env.LLM_PROVIDER || (env.NODE_ENV === 'test' ? 'stub' : undefined),
+    openaiApiKey: env.OPENAI_API_KEY,
+    anthropicApiKey: env.ANTHROPIC_API_KEY || env.CLAUDE_API_KEY,
+    openaiBaseUrl: env.AI_API_BASE_URL,
+    anthropicBaseUrl: env.ANTHROPIC_API_BASE_URL,
+    openaiModel: env.OPENAI_MODEL,
+    anthropicModel: env.ANTHROPIC_MODEL
+  };
+}
+
+// Returns null when nothing is configured so callers can fall back to canned data
+export function createLLMProvider(config: LLMProviderConfig = readLLMProviderConfig()): LLMProvider | null {
+  const provider = config.provider || (config.openaiApiKey ? 'openai' : config.anthropicApiKey ? 'anthropic' : undefined);
+
+  switch (provider) {
+    case undefined:
+      return null;
+    case 'stub':
+      return new StubLLMProvider();
+    case 'openai':
+      if (!config.openaiApiKey) {
+        throw new Error('OPENAI_API_KEY is required for the openai LLM provider');
+      }
+      return new OpenAIProvider(config.openaiApiKey, config.openaiBaseUrl, config.openaiModel);
+    case 'anthropic':
+      if (!config.anthropicApiKey) {
+        throw new Error('ANTHROPIC_API_KEY is required for the anthropic LLM provider');
+      }
+      return new AnthropicProvider(config.anthropicApiKey, config.anthropicBaseUrl, config.anthropicModel);
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { StubLLMProvider } from './llm-provider.js';
+
+// Local HTTP stand-in for the OpenAI (/chat/completions) and Anthropic (/messages) APIs.
+// Point AI_API_BASE_URL or ANTHROPIC_API_BASE_URL at it to exercise the real providers offline.
+export async function startLLMStubServer(port: number = 0): Promise<{ server: Server; url: string }> {
+  const stub = new StubLLMProvider();
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      let payload: any;
+      try {
+        payload = JSON.parse(body || '{}');
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'Invalid JSON body' } }));
+        return;
+      }
+
+      const messages: Array<{ role: string; content: string }> = payload.messages || [];
+      const prompt = messages.filter(m => m.role === 'user').map(m => m.content).join('\n');
+      const content = await stub.complete(prompt);
+
+      if (req.method === 'POST' && req.url?.endsWith('/chat/completions')) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          id: 'stub-completion',
+          object: 'chat.completion',
+          model: payload.model,
+          choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }]
+        }));
+      } else if (req.method === 'POST' && req.url?.endsWith('/messages')) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          id: 'stub-message',
+          type: 'message',
+          role: 'assistant',
+          model: payload.model,
+          content: [{ type: 'text', text: content }],
+          stop_reason: 'end_turn'
+        }));
+      } else {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: `Unknown endpoint ${req.method} ${req.url}` } }));
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+  const address = server.address() as AddressInfo;
+
+  return { server, url: `http://127.0.0.1:${address.port}` };
+}
\ No newline at end of file
@@ -6,10 +6,31 @@ export interface BaseEntity {
 }
 
 // User types
+export type UserRole = 'user' | 'admin';
+
 export interface User extends BaseEntity {
   username: string;
   email: string;
   password_hash?: string; // Optional for client-side
+  email_verified?: boolean;
+  is_active?: boolean;
+  last_login?: Date | null;
+  roles?: UserRole[];
+  password_reset_required?: boolean;
+  totp_secret?: string | null; // Encrypted; server-side only
+  totp_enabled?: boolean;
+  totp_enabled_at?: Date | null;
+}
+
+// A signed-in device: one refresh token rotation family
+export interface AuthSession {
+  id: string;
+  device: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_used_at: string;
+  current: boolean;
 }
 
 export interface UserRegistrationData {
@@ -23,6 +44,11 @@ export interface UserLoginData {
   password: string;
 }
 
+export interface PasswordChangeData {
+  current_password: string;
+  new_password: string;
+}
+
 export interface AuthTokens {
   access_token: string;
   refresh_token: string;
@@ -34,11 +60,137 @@ export interface AuthResponse {
   tokens: AuthTokens;
 }
 
+// Two-factor authentication types
+// Returned by login instead of tokens when the account has TOTP enabled
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  challenge_token: string;
+  expires_in: number;
+}
+
+export type LoginResult = AuthResponse | TwoFactorChallenge;
+
+export interface TwoFactorLoginData {
+  challenge_token: string;
+  code?: string;
+  recovery_code?: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: Date | null;
+  recovery_codes_remaining: number;
+}
+
+// Household types
+export type HouseholdRole = 'owner' | 'member' | 'viewer';
+
+export interface Household extends BaseEntity {
+  name: string;
+  created_by: number | null;
+
+  // Populated fields (joins)
+  role?: HouseholdRole; // role of the requesting user
+  members?: HouseholdMember[];
+  invitations?: HouseholdInvitation[];
+}
+
+export interface HouseholdMember {
+  user_id: number;
+  username: string;
+  email: string;
+  role: HouseholdRole;
+  joined_at: Date;
+}
+
+export interface HouseholdInvitation {
+  id: number;
+  household_id: number;
+  email: string;
+  role: Exclude<HouseholdRole, 'owner'>;
+  invited_by: number | null;
+  expires_at: Date;
+  accepted_at: Date | null;
+  created_at: Date;
+
+  // Populated fields (joins)
+  household_name?: string;
+  invited_by_username?: string;
+  token?: string; // only returned once, when the invitation is created
+}
+
+export interface HouseholdCreateData {
+  name: string;
+}
+
+export interface HouseholdInviteData {
+  email: string;
+  role?: Exclude<HouseholdRole, 'owner'>;
+}
+
+// Admin types
+export interface AdminUserSearchOptions {
+  q?: string;
+  include_inactive?: boolean;
+  page?: number;
+  per_page?: number;
+}
+
+export interface AdminStats {
+  users: {
+    total: number;
+    active: number;
+    admins: number;
+    new_last_30_days: number;
+    active_last_30_days: number;
+  };
+  foods: {
+    total: number;
+    active: number;
+    consumed: number;
+    expired: number;
+    disposed: number;
+  };
+  households: number;
+  categories: CategoryStats[];
+  storage_methods: Array<{
+    storage_method: string;
+    count: number;
+    avg_shelf_life: number;
+  }>;
+}
+
 // Category types
 export interface Category extends BaseEntity {
   name: string;
   icon: string;
   color: string;
+  description?: string;
+  user_id?: number | null; // null for the built-in categories
+  sort_order?: number;
+  food_count?: number;
+}
+
+export interface CategoryCreateData {
+  name: string;
+  icon?: string;
+  color?: string;
+  description?: string;
+}
+
+export type CategoryUpdateData = Partial<CategoryCreateData>;
+
+export interface CategoryStats {
+  id: number;
+  name: string;
+  icon: string;
+  color: string;
+  food_count: number;
 }
 
 // Food types
@@ -57,7 +209,9 @@ export interface Food extends BaseEntity {
   storage_location: StorageLocation;
   barcode?: string;
   image_url?: string;
+  price?: number;
   status: FoodStatus;
+  status_changed_at?: Date;
 
   // Populated fields (joins)
   category?: Category;
@@ -74,10 +228,13 @@ export interface FoodCreateData {
   storage_location: StorageLocation;
   barcode?: string;
   image_url?: string;
+  price?: number;
 }
 
 export interface FoodUpdateData extends Partial<FoodCreateData> {
   status?: FoodStatus;
+  // updated_at as last seen by the client; the write is rejected with 409 if the food changed since
+  expected_updated_at?: string;
 }
 
 export interface FoodFilterOptions {
@@ -90,6 +247,110 @@ export interface FoodFilterOptions {
   sort_order?: 'asc' | 'desc';
 }
 
+// Consumption types
+export interface FoodConsumption {
+  id: number;
+  food_id: number;
+  user_id: number;
+  quantity: number;           // as entered
+  unit: FoodUnit;
+  food_quantity: number;      // converted to the food's unit
+  remaining_quantity: number; // food quantity left after this consumption
+  consumed_at: Date;
+  created_at: Date;
+}
+
+export interface FoodConsumeData {
+  quantity: number;
+  unit?: FoodUnit; // defaults to the food's own unit
+  expected_updated_at?: string; // optimistic concurrency check for replayed offline writes
+}
+
+export interface FoodStats {
+  total: number;
+  active: number;
+  expiring_soon: number;
+  expired: number;
+  consumed: number;
+  partially_consumed: number;          // active foods that have been partly used
+  consumption_events_last_30_days: number;
+  by_category: Array<{
+    category_name: string;
+    category_icon: string;
+    count: number;
+  }>;
+  by_storage: Array<{
+    storage_location: string;
+    count: number;
+  }>;
+}
+
+// Product catalog types
+export type BarcodeProviderName = 'openfoodfacts' | 'fixture';
+
+export interface ProductCatalogEntry {
+  barcode: string;     // JAN/EAN code
+  name: string;
+  brand?: string;
+  categories?: string; // raw category list as reported by the provider
+  category_id?: number;
+  image_url?: string;
+  source: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type ExpirySuggestionBasis = 'history' | 'storage_tip' | 'category_default';
+
+export interface FoodScanResult {
+  barcode: string;
+  product: ProductCatalogEntry | null;
+  food: FoodCreateData; // pre-filled values for the add form
+  expiry_suggestion: {
+    shelf_life_days: number;
+    basis: ExpirySuggestionBasis;
+  };
+}
+
+// Analytics types
+export type AnalyticsGranularity = 'week' | 'month';
+
+export interface WasteBreakdown {
+  consumed: number;
+  expired: number;
+  disposed: number;
+  money_wasted: number;
+}
+
+export interface WasteTimeSeriesPoint extends WasteBreakdown {
+  period_start: string; // ISO date string
+}
+
+export interface FoodAnalytics {
+  range: {
+    from: string;
+    to: string;
+    granularity: AnalyticsGranularity;
+  };
+  summary: WasteBreakdown & {
+    wasted: number;
+    waste_rate: number | null;           // % of finished foods that were wasted
+    previous_waste_rate: number | null;  // same metric for the preceding period of equal length
+    waste_reduction_rate: number | null; // % fewer wasted foods than the preceding period
+    money_saved: number;                 // value of consumed foods with a known price
+    priced_items: number;
+  };
+  time_series: WasteTimeSeriesPoint[];
+  by_category: Array<WasteBreakdown & {
+    category_id: number;
+    category_name: string;
+    category_icon: string;
+  }>;
+  by_storage_location: Array<WasteBreakdown & {
+    storage_location: string;
+  }>;
+}
+
 // Recipe types
 export type RecipeDifficulty = 'easy' | 'medium' | 'hard';
 export type RecipeSource = 'ai_generated' | 'external_api' | 'user_created';
@@ -106,6 +367,7 @@ export interface Recipe extends BaseEntity {
   source: RecipeSource;
   external_id?: string;
   external_url?: string;
+  created_by?: number;
 }
 
 export interface RecipeIngredient extends BaseEntity {
@@ -120,6 +382,30 @@ export interface RecipeWithIngredients extends Recipe {
   ingredients: RecipeIngredient[];
 }
 
+export interface RecipeCreateData {
+  name: string;
+  description?: string;
+  instructions: string[];
+  prep_time: number;
+  cook_time: number;
+  servings: number;
+  difficulty: RecipeDifficulty;
+  image_url?: string;
+  ingredients: Array<Pick<RecipeIngredient, 'ingredient_name' | 'quantity' | 'unit'> & {
+    optional?: boolean;
+  }>;
+}
+
+export interface RecipeMatch extends RecipeWithIngredients {
+  matched_ingredients: string[];
+  missing_ingredients: string[];
+  match_percentage: number;
+  // Coverage weighted so optional ingredients and partial name matches count for less
+  match_score: number;
+  uses_expiring: string[];
+  is_favorite?: boolean;
+}
+
 export interface RecipeSuggestionRequest {
   available_ingredients: string[];
   dietary_preferences?: string[];
@@ -131,16 +417,26 @@ export interface RecipeSuggestionRequest {
 }
 
 export interface RecipeSuggestionResponse {
-  recipes: RecipeWithIngredients[];
+  recipes: RecipeMatch[];
   matched_ingredients: string[];
   missing_ingredients: string[];
-  source: RecipeSource;
+  // Stored source of the top suggestion (each recipe carries its own); absent when nothing matched
+  source?: RecipeSource;
   personalized?: boolean;
 }
 
+// Another spelling of an ingredient, e.g. "玉葱" for "たまねぎ"
+export interface IngredientSynonym {
+  id: number;
+  canonical_name: string;
+  synonym: string;
+  created_at: Date;
+}
+
 // Notification types
 export type NotificationType = 'expiry_alert' | 'recipe_suggestion' | 'shopping_reminder' | 'system';
 export type NotificationStatus = 'unread' | 'read';
+export type NotificationPriority = 'high' | 'medium' | 'low';
 
 export interface Notification extends BaseEntity {
   user_id: number;
@@ -149,6 +445,9 @@ export interface Notification extends BaseEntity {
   title: string;
   message: string;
   status: NotificationStatus;
+  priority?: NotificationPriority;
+  action_url?: string;
+  metadata?: Record<string, any>;
   sent_at: Date;
   read_at?: Date;
 
@@ -156,11 +455,116 @@ export interface Notification extends BaseEntity {
   food?: Food;
 }
 
+// Web Push types
+// Shape of PushSubscription.toJSON() in the browser
+export interface PushSubscriptionData {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface PushSubscriptionRecord extends BaseEntity {
+  user_id: number;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent?: string | null;
+  expiration_time?: Date | null;
+  last_success_at?: Date | null;
+}
+
+// Payload the service worker turns into a system notification
+export interface PushNotificationPayload {
+  title: string;
+  body: string;
+  type: NotificationType;
+  url?: string;
+  tag?: string;
+}
+
+// Events sent over GET /notifications/stream; the SSE event name is the type
+export type NotificationStreamEvent =
+  | { type: 'notification'; notification: Notification; unread_count: number }
+  | { type: 'unread_count'; unread_count: number };
+
+// User preference types
+export type ThemePreference = 'light' | 'dark' | 'auto';
+export type LanguagePreference = 'ja' | 'en';
+export type SkillLevel = 'beginner' | 'medium' | 'advanced';
+
+export interface UserPreferences extends BaseEntity {
+  user_id: number;
+
+  // Notification preferences
+  enable_expiry_alerts: boolean;
+  expiry_alert_days: number;
+  enable_recipe_suggestions: boolean;
+  enable_shopping_reminders: boolean;
+  enable_email_notifications: boolean;
+  enable_push_notifications: boolean;
+  notification_time: string; // HH:mm:ss
+
+  // Display preferences
+  theme: ThemePreference;
+  language: LanguagePreference;
+  currency: string;
+  date_format: string;
+
+  // Food management preferences
+  default_storage_location: StorageLocation;
+  auto_add_to_shopping_list: boolean;
+  smart_expiry_calculation: boolean;
+
+  // Recipe preferences
+  dietary_restrictions: string[] | null;
+  preferred_cuisine: string[] | null;
+  max_cooking_time: number;
+  skill_level: SkillLevel;
+
+  // Privacy preferences
+  data_sharing: boolean;
+  analytics: boolean;
+}
+
+export type UserPreferencesUpdateData = Partial<Omit<UserPreferences, 'id' | 'user_id' | 'created_at' | 'updated_at'>>;
+
+// Audit log types
+export interface AuditLog {
+  id: number;
+  user_id: number | null;
+  action: string;
+  entity_type: string;
+  entity_id: number | null;
+  old_values: Record<string, any> | null;
+  new_values: Record<string, any> | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: Date;
+
+  // Populated fields
+  username?: string;
+}
+
+export interface AuditLogFilterOptions {
+  entity_type?: string;
+  entity_id?: number;
+  action?: string;
+  from?: string; // ISO date string
+  to?: string;   // ISO date string
+  page?: number;
+  per_page?: number;
+}
+
 // Shopping List types
 export interface ShoppingList extends BaseEntity {
   user_id: number;
   name: string;
   completed: boolean;
+  total_estimated_cost?: number;
+  notes?: string;
 
   // Populated fields
   items?: ShoppingListItem[];
@@ -173,12 +577,127 @@ export interface ShoppingListItem extends BaseEntity {
   unit: string;
   purchased: boolean;
   estimated_price?: number;
+  actual_price?: number;
   store_name?: string;
+  category_id?: number | null;
+  notes?: string;
+  food_id?: number | null;
+  moved_to_inventory_at?: Date | null;
+
+  // Populated fields
+  category_name?: string | null;
 }
 
 export interface ShoppingListCreateData {
   name: string;
-  items: Omit<ShoppingListItem, 'id' | 'list_id' | 'created_at' | 'updated_at'>[];
+  notes?: string;
+  items: ShoppingListItemCreateData[];
+}
+
+export interface ShoppingListUpdateData {
+  name?: string;
+  notes?: string;
+}
+
+export interface ShoppingListItemCreateData {
+  item_name: string;
+  quantity: number;
+  unit: string;
+  estimated_price?: number;
+  store_name?: string;
+  category_id?: number | null;
+  notes?: string;
+}
+
+export interface ShoppingListItemUpdateData extends Partial<ShoppingListItemCreateData> {
+  purchased?: boolean;
+  actual_price?: number;
+}
+
+export interface ShoppingListGenerateOptions {
+  name?: string;
+  recipe_ids?: number[];
+  include_low_stock?: boolean;
+  low_stock_threshold?: number;
+}
+
+export interface ShoppingInventoryMoveResult {
+  foods: Food[];
+  // Purchased items that could not become foods, e.g. because of an unsupported unit
+  skipped_items: Array<{ item_id: number; item_name: string; reason: string }>;
+  list: ShoppingList;
+}
+
+// Meal plan types
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+export type MealPlanStatus = 'planned' | 'cooked';
+
+export interface MealPlanIngredient {
+  ingredient_name: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface MealPlanReservation extends MealPlanIngredient {
+  id: number;
+  meal_plan_id: number;
+  food_id: number;
+  created_at: Date;
+
+  // Populated fields
+  food_name?: string;
+  expiry_date?: string;
+}
+
+export interface MealPlan extends BaseEntity {
+  user_id: number;
+  planned_date: string; // ISO date string
+  meal_slot: MealSlot;
+  recipe_id: number;
+  servings: number;
+  status: MealPlanStatus;
+  notes?: string;
+  missing_ingredients: MealPlanIngredient[];
+  cooked_at?: Date;
+
+  // Populated fields
+  recipe_name?: string;
+  recipe_image_url?: string;
+  reservations?: MealPlanReservation[];
+}
+
+export interface MealPlanCreateData {
+  planned_date: string;
+  meal_slot: MealSlot;
+  recipe_id: number;
+  servings?: number;
+  notes?: string;
+}
+
+export interface MealPlanUpdateData extends Partial<MealPlanCreateData> {}
+
+export interface MealPlanAutoOptions {
+  start_date?: string;
+  days?: number;
+  meal_slots?: MealSlot[];
+  servings?: number;
+  max_prep_time?: number;
+  max_cook_time?: number;
+  create_shopping_list?: boolean;
+  shopping_list_name?: string;
+}
+
+export interface MealPlanAutoResult {
+  meal_plans: MealPlan[];
+  shopping_list: ShoppingList | null;
+  // Expiring foods the plan uses before their expiry date
+  expiring_foods_used: string[];
+}
+
+export interface MealPlanShoppingListOptions {
+  from: string;
+  to: string;
+  name?: string;
 }
 
 // Storage Tips types
@@ -190,6 +709,44 @@ export interface StorageTip extends BaseEntity {
   humidity_level?: string;
   shelf_life_days: number;
   tips: string[];
+  source?: string;
+  is_active?: boolean;
+}
+
+export interface StorageTipCreateData {
+  food_name: string;
+  category?: string;
+  storage_method: StorageLocation;
+  optimal_temp?: string;
+  humidity_level?: string;
+  shelf_life_days: number;
+  tips: string[];
+  is_active?: boolean;
+}
+
+export type StorageTipUpdateData = Partial<StorageTipCreateData>;
+
+export interface StorageTipFilterOptions {
+  q?: string;
+  category?: string;
+  include_inactive?: boolean;
+  page?: number;
+  per_page?: number;
+}
+
+export type StorageTipImportFormat = 'csv' | 'json';
+
+export interface StorageTipImportData {
+  format: StorageTipImportFormat;
+  content: string; // raw file contents
+  dry_run?: boolean;
+}
+
+export interface StorageTipImportResult {
+  total: number;
+  created: number;
+  updated: number;
+  dry_run: boolean;
 }
 
 // AI Service types
@@ -295,7 +852,10 @@ export interface RakutenRecipeResponse {
 
 export interface BarcodeApiResponse {
   products?: {
+    code?: string;
     product_name?: string;
+    product_name_ja?: string;
+    brands?: string;
     categories?: string;
     image_url?: string;
   }[];
@@ -333,6 +893,11 @@ export type Omit<T, K extends keyof T> = Pick<T, Exclude<keyof T, K>>;
 
 export type RequiredFields<T, K extends keyof T> = T & Required<Pick<T, K>>;
 
+// Email types
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+export type EmailTemplateName = 'email_verification' | 'password_reset' | 'weekly_digest';
+
 // Environment types
 export interface EnvironmentConfig {
   NODE_ENV: 'development' | 'production' | 'test';
@@ -342,6 +907,8 @@ export interface EnvironmentConfig {
   JWT_SECRET: string;
   JWT_EXPIRES_IN: string;
   JWT_REFRESH_EXPIRES_IN: string;
+  TOTP_ISSUER: string;
+  TOTP_ENCRYPTION_KEY: string;
   OPENAI_API_KEY?: string;
   CLAUDE_API_KEY?: string;
   RAKUTEN_API_KEY?: string;
@@ -349,11 +916,27 @@ export interface EnvironmentConfig {
   SMTP_PORT?: number;
   SMTP_USER?: string;
   SMTP_PASS?: string;
+  MAIL_TRANSPORT: MailTransportName;
+  FROM_EMAIL: string;
+  MAIL_FILE_DIR: string;
+  MAIL_MAX_ATTEMPTS: number;
+  ENABLE_MAIL_WORKER: boolean;
+  APP_URL: string;
+  WEEKLY_DIGEST_DAY: number;
+  WEEKLY_DIGEST_HOUR: number;
   VAPID_PUBLIC_KEY?: string;
   VAPID_PRIVATE_KEY?: string;
+  VAPID_SUBJECT: string;
   MAX_FILE_SIZE: number;
   ALLOWED_FILE_TYPES: string;
   CORS_ORIGIN: string;
   RATE_LIMIT_WINDOW: number;
   RATE_LIMIT_MAX: number;
+  ADMIN_EMAILS: string[];
+  ENABLE_SCHEDULED_JOBS: boolean;
+  EXPIRY_SCAN_HOUR: number;
+  NOTIFICATION_RETENTION_DAYS: number;
+  BARCODE_PROVIDER: BarcodeProviderName;
+  BARCODE_API_URL: string;
+  BARCODE_API_TIMEOUT: number;
 }
\ No newline at end of file
@@ -61,6 +61,21 @@ export class ValidationUtils {
     }
   }
 
+  static isValidBarcode(barcode: string): boolean {
+    // JAN/EAN-8, UPC-A, EAN-13 and GTIN-14 share the same mod-10 check digit
+    if (!/^(\d{8}|\d{12,14})$/.test(barcode)) {
+      return false;
+    }
+
+    const digits = barcode.split('').map(Number);
+    const checkDigit = digits.pop() as number;
+    const sum = digits
+      .reverse()
+      .reduce((acc, digit, index) => acc + digit * (index % 2 === 0 ? 3 : 1), 0);
+
+    return (10 - (sum % 10)) % 10 === checkDigit;
+  }
+
   static isValidQuantity(quantity: number): boolean {
     return typeof quantity === 'number' && quantity > 0 && isFinite(quantity);
   }
@@ -74,6 +89,32 @@ export class ValidationUtils {
   }
 }
 
+// Unit utilities
+export class UnitUtils {
+  // Factors to a common base unit per dimension (g for mass, ml for volume)
+  private static readonly CONVERSIONS: Record<string, { dimension: string; factor: number }> = {
+    g: { dimension: 'mass', factor: 1 },
+    kg: { dimension: 'mass', factor: 1000 },
+    ml: { dimension: 'volume', factor: 1 },
+    L: { dimension: 'volume', factor: 1000 }
+  };
+
+  static canConvert(from: string, to: string): boolean {
+    return this.convert(1, from, to) !== null;
+  }
+
+  // Returns null for incompatible units (e.g. g -> ml, or 個 -> g)
+  static convert(quantity: number, from: string, to: string): number | null {
+    if (from === to) return quantity;
+
+    const source = this.CONVERSIONS[from];
+    const target = this.CONVERSIONS[to];
+    if (!source || !target || source.dimension !== target.dimension) return null;
+
+    return (quantity * source.factor) / target.factor;
+  }
+}
+
 // String utilities
 export class StringUtils {
   static capitalize(str: string): string {
@@ -313,6 +354,155 @@ export class FileUtils {
   }
 }
 
+// Ingredient matching
+export interface IngredientMatchResult {
+  matched: string[];
+  missing: string[];
+  optional_matched: string[];
+  optional_missing: string[];
+  // Share of core ingredients covered, 0-100
+  percentage: number;
+  // Weighted coverage, 0-100: optional ingredients and partial name matches count for less
+  score: number;
+}
+
+export class IngredientMatcher {
+  static readonly OPTIONAL_WEIGHT = 0.25;
+  static readonly PARTIAL_MATCH_WEIGHT = 0.75;
+  // Shorter terms are too generic to match inside another name ("油" in "ごま油")
+  static readonly MIN_PARTIAL_LENGTH = 2;
+
+  private canonicalNames = new Map<string, string>();
+  private variants = new Map<string, Set<string>>();
+  private spellings = new Map<string, Set<string>>();
+
+  constructor(synonyms: Array<{ canonical_name: string; synonym: string }> = []) {
+    for (const entry of synonyms) {
+      const canonical = IngredientMatcher.normalize(entry.canonical_name);
+      const synonym = IngredientMatcher.normalize(entry.synonym);
+      if (!canonical || !synonym) continue;
+
+      this.canonicalNames.set(canonical, canonical);
+      this.canonicalNames.set(synonym, canonical);
+
+      if (!this.variants.has(canonical)) {
+        this.variants.set(canonical, new Set([canonical]));
+        this.spellings.set(canonical, new Set([entry.canonical_name.trim()]));
+      }
+      this.variants.get(canonical)!.add(synonym);
+      this.spellings.get(canonical)!.add(entry.synonym.trim());
+    }
+  }
+
+  // Folds full-width/half-width forms, katakana to hiragana, case, spacing and
+  // bracketed notes such as "鶏もも肉（皮なし）"
+  static normalize(name: string): string {
+    return name
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(/\(.*?\)|【.*?】/g, '')
+      .replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60))
+      .replace(/[\s・,、]/g, '');
+  }
+
+  canonicalize(name: string): string {
+    const normalized = IngredientMatcher.normalize(name);
+    return this.canonicalNames.get(normalized) ?? normalized;
+  }
+
+  // Every known spelling of the given names, for prefiltering with plain text search
+  expand(names: string[]): string[] {
+    const expanded = new Set(names);
+
+    for (const name of names) {
+      this.spellings.get(this.canonicalize(name))?.forEach(spelling => expanded.add(spelling));
+    }
+
+    return Array.from(expanded);
+  }
+
+  // 1 for the same ingredient, PARTIAL_MATCH_WEIGHT when one name is a more
+  // specific form of the other ("ひき肉" / "豚ひき肉"), 0 otherwise
+  compare(a: string, b: string): number {
+    const canonicalA = this.canonicalize(a);
+    const canonicalB = this.canonicalize(b);
+
+    if (!canonicalA || !canonicalB) return 0;
+    if (canonicalA === canonicalB) return 1;
+
+    const normalizedA = IngredientMatcher.normalize(a);
+    const normalizedB = IngredientMatcher.normalize(b);
+
+    return this.contains(normalizedA, canonicalB) || this.contains(normalizedB, canonicalA)
+      ? IngredientMatcher.PARTIAL_MATCH_WEIGHT
+      : 0;
+  }
+
+  matches(a: string, b: string): boolean {
+    return this.compare(a, b) > 0;
+  }
+
+  findBestMatch(available: string[], ingredient: string): { name: string; strength: number } | null {
+    let best: { name: string; strength: number } | null = null;
+
+    for (const name of available) {
+      const strength = this.compare(name, ingredient);
+      if (strength > (best?.strength ?? 0)) {
+        best = { name, strength };
+        if (strength === 1) break;
+      }
+    }
+
+    return best;
+  }
+
+  matchIngredients(
+    available: string[],
+    ingredients: Array<{ ingredient_name: string; optional?: boolean }>
+  ): IngredientMatchResult {
+    const result: IngredientMatchResult = {
+      matched: [],
+      missing: [],
+      optional_matched: [],
+      optional_missing: [],
+      percentage: 0,
+      score: 0
+    };
+    let earned = 0;
+    let possible = 0;
+
+    for (const ingredient of ingredients) {
+      const weight = ingredient.optional ? IngredientMatcher.OPTIONAL_WEIGHT : 1;
+      const match = this.findBestMatch(available, ingredient.ingredient_name);
+
+      possible += weight;
+      if (match) {
+        earned += weight * match.strength;
+        (ingredient.optional ? result.optional_matched : result.matched).push(ingredient.ingredient_name);
+      } else {
+        (ingredient.optional ? result.optional_missing : result.missing).push(ingredient.ingredient_name);
+      }
+    }
+
+    const coreCount = result.matched.length + result.missing.length;
+    result.percentage = coreCount > 0 ? Math.round((result.matched.length / coreCount) * 100) : 0;
+    result.score = possible > 0 ? Math.round((earned / possible) * 100) : 0;
+
+    return result;
+  }
+
+  // Whether any spelling of the canonical ingredient appears inside name
+  private contains(name: string, canonical: string): boolean {
+    const variants = this.variants.get(canonical) ?? new Set([canonical]);
+
+    return Array.from(variants).some(variant =>
+      variant.length >= IngredientMatcher.MIN_PARTIAL_LENGTH &&
+      variant.length * 2 >= name.length &&
+      name.includes(variant)
+    );
+  }
+}
+
 // Recipe utilities
 export class RecipeUtils {
   static extractIngredients(recipeText: string): string[] {
@@ -335,20 +525,11 @@ export class RecipeUtils {
     missing: string[];
     percentage: number;
   } {
-    const normalizedAvailable = available.map(i => ValidationUtils.normalizeString(i));
-    const normalizedRequired = required.map(i => ValidationUtils.normalizeString(i));
-
-    const matched = required.filter(req =>
-      normalizedAvailable.some(avail =>
-        normalizedAvailable.includes(ValidationUtils.normalizeString(req)) ||
-        ValidationUtils.normalizeString(req).includes(avail) ||
-        avail.includes(ValidationUtils.normalizeString(req))
-      )
+    const { matched, missing, percentage } = new IngredientMatcher().matchIngredients(
+      available,
+      required.map(name => ({ ingredient_name: name }))
     );
 
-    const missing = required.filter(req => !matched.includes(req));
-    const percentage = Math.round((matched.length / required.length) * 100);
-
     return { matched, missing, percentage };
   }
 